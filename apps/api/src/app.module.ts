@@ -1,9 +1,12 @@
 import { Module } from '@nestjs/common';
 import { ConfigModule } from '@nestjs/config';
 import { ThrottlerModule } from '@nestjs/throttler';
+import { DrizzleModule } from './database/drizzle.module';
 import { HealthModule } from './health/health.module';
 import { ArtistModule } from './modules/artist/artist.module';
 import { JobsModule } from './modules/jobs/jobs.module';
+import { BookingsModule } from './modules/bookings/bookings.module';
+import { ProjectsModule } from './modules/projects/projects.module';
 
 @Module({
   imports: [
@@ -33,10 +36,15 @@ import { JobsModule } from './modules/jobs/jobs.module';
       },
     ]),
 
+    // PostgreSQL (Drizzle) connection shared by feature modules
+    DrizzleModule,
+
     // Feature modules
     HealthModule,
     ArtistModule,
     JobsModule,
+    BookingsModule,
+    ProjectsModule,
   ],
   controllers: [],
   providers: [],
@@ -0,0 +1,57 @@
+import {
+  Injectable,
+  NestInterceptor,
+  ExecutionContext,
+  CallHandler,
+  BadRequestException,
+} from '@nestjs/common';
+import { Observable } from 'rxjs';
+import { map } from 'rxjs/operators';
+import { formatInTimeZone, isValidTimeZone } from '../utils/time-zone';
+
+function localize(value: unknown, timeZone: string): unknown {
+  if (value instanceof Date) {
+    return formatInTimeZone(value, timeZone);
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => localize(item, timeZone));
+  }
+  if (value && typeof value === 'object' && Object.getPrototypeOf(value) === Object.prototype) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, localize(item, timeZone)]),
+    );
+  }
+  return value;
+}
+
+/**
+ * Honors a `tz` query parameter (an IANA zone such as Europe/Berlin): every
+ * timestamp in the response is written with that zone's offset instead of
+ * in UTC. The instants are unchanged, so clients that parse ISO 8601 see
+ * the same times.
+ */
+@Injectable()
+export class TimeZoneInterceptor implements NestInterceptor {
+  intercept(context: ExecutionContext, next: CallHandler): Observable<unknown> {
+    const request = context.switchToHttp().getRequest();
+    const timeZone = request.query?.tz;
+
+    if (timeZone === undefined) {
+      return next.handle();
+    }
+    if (typeof timeZone !== 'string' || !isValidTimeZone(timeZone)) {
+      throw new BadRequestException(`Unknown time zone "${timeZone}"`);
+    }
+
+    // Consumed here, so query DTOs don't reject it as an unknown field
+    delete request.query.tz;
+
+    return next.handle().pipe(
+      map((body) =>
+        body && typeof body === 'object' && 'data' in body
+          ? { ...body, data: localize(body.data, timeZone), timeZone }
+          : localize(body, timeZone),
+      ),
+    );
+  }
+}
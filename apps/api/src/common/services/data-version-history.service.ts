@@ -1,8 +1,13 @@
-import { Injectable } from '@nestjs/common';
-import { InjectRepository } from '@nestjs/typeorm';
-import { Repository } from 'typeorm';
+import { Injectable, Inject } from '@nestjs/common';
+import { and, count, desc, eq, gt, gte, lt, lte, max, notInArray, SQL } from 'drizzle-orm';
+import { DrizzleDatabase, DrizzleTransaction } from '../types/drizzle.types';
+import { dataVersionHistory } from '../../database/schema';
 
-interface VersionHistoryEntry {
+export type VersionHistoryRecord = typeof dataVersionHistory.$inferSelect;
+
+type Executor = DrizzleDatabase | DrizzleTransaction;
+
+export interface VersionHistoryEntry {
   tenantId: string;
   tableName: string;
   recordId: string;
@@ -20,30 +25,43 @@ interface VersionHistoryEntry {
   };
 }
 
+/**
+ * The delta of an UPDATE entry: fields whose stored value differs, compared
+ * as JSON so dates and decimals match. updatedAt is left out.
+ */
+export function changedFields<T extends object>(before: T, after: T) {
+  const delta: Record<string, { old: unknown; new: unknown }> = {};
+  for (const key of Object.keys(after) as Array<keyof T & string>) {
+    if (key !== 'updatedAt' && JSON.stringify(before[key]) !== JSON.stringify(after[key])) {
+      delta[key] = { old: before[key], new: after[key] };
+    }
+  }
+
+  return delta;
+}
+
 @Injectable()
 export class DataVersionHistoryService {
   constructor(
-    @InjectRepository('data_version_history')
-    private readonly versionHistoryRepository: Repository<any>,
+    @Inject('DATABASE_CONNECTION') private readonly db: DrizzleDatabase,
   ) {}
 
-  async recordChange(entry: VersionHistoryEntry): Promise<void> {
-    await this.versionHistoryRepository.save({
-      ...entry,
-      createdAt: new Date(),
-    });
+  // Pass the transaction that made the change so the entry commits with it
+  async recordChange(entry: VersionHistoryEntry, executor: Executor = this.db): Promise<void> {
+    await executor.insert(dataVersionHistory).values(entry);
   }
 
   async getCurrentVersion(
     tableName: string,
     recordId: string,
+    executor: Executor = this.db,
   ): Promise<number> {
-    const result = await this.versionHistoryRepository
-      .createQueryBuilder('vh')
-      .select('MAX(vh.version)', 'maxVersion')
-      .where('vh.tableName = :tableName', { tableName })
-      .andWhere('vh.recordId = :recordId', { recordId })
-      .getRawOne();
+    const [result] = await executor
+      .select({ maxVersion: max(dataVersionHistory.version) })
+      .from(dataVersionHistory)
+      .where(
+        and(eq(dataVersionHistory.tableName, tableName), eq(dataVersionHistory.recordId, recordId)),
+      );
 
     return result?.maxVersion || 0;
   }
@@ -52,17 +70,15 @@ export class DataVersionHistoryService {
     tableName: string,
     recordId: string,
     limit = 50,
-  ): Promise<VersionHistoryEntry[]> {
-    return this.versionHistoryRepository.find({
-      where: {
-        tableName,
-        recordId,
-      },
-      order: {
-        version: 'DESC',
-      },
-      take: limit,
-    });
+  ): Promise<VersionHistoryRecord[]> {
+    return this.db
+      .select()
+      .from(dataVersionHistory)
+      .where(
+        and(eq(dataVersionHistory.tableName, tableName), eq(dataVersionHistory.recordId, recordId)),
+      )
+      .orderBy(desc(dataVersionHistory.version))
+      .limit(limit);
   }
 
   async getHistoryByTenant(
@@ -74,34 +90,32 @@ export class DataVersionHistoryService {
       operation?: string;
       limit?: number;
     } = {},
-  ): Promise<VersionHistoryEntry[]> {
-    const query = this.versionHistoryRepository
-      .createQueryBuilder('vh')
-      .where('vh.tenantId = :tenantId', { tenantId });
+  ): Promise<VersionHistoryRecord[]> {
+    const conditions: SQL[] = [eq(dataVersionHistory.tenantId, tenantId)];
 
     if (options.tableName) {
-      query.andWhere('vh.tableName = :tableName', { tableName: options.tableName });
+      conditions.push(eq(dataVersionHistory.tableName, options.tableName));
     }
 
     if (options.startDate) {
-      query.andWhere('vh.createdAt >= :startDate', { startDate: options.startDate });
+      conditions.push(gte(dataVersionHistory.createdAt, options.startDate));
     }
 
     if (options.endDate) {
-      query.andWhere('vh.createdAt <= :endDate', { endDate: options.endDate });
+      conditions.push(lte(dataVersionHistory.createdAt, options.endDate));
     }
 
     if (options.operation) {
-      query.andWhere('vh.operation = :operation', { operation: options.operation });
+      conditions.push(eq(dataVersionHistory.operation, options.operation));
     }
 
-    query.orderBy('vh.createdAt', 'DESC');
+    const query = this.db
+      .select()
+      .from(dataVersionHistory)
+      .where(and(...conditions))
+      .orderBy(desc(dataVersionHistory.createdAt));
 
-    if (options.limit) {
-      query.limit(options.limit);
-    }
-
-    return query.getMany();
+    return options.limit ? query.limit(options.limit) : query;
   }
 
   async restoreVersion(
@@ -112,13 +126,7 @@ export class DataVersionHistoryService {
     reason: string,
   ): Promise<any> {
     // Get the target version data
-    const versionEntry = await this.versionHistoryRepository.findOne({
-      where: {
-        tableName,
-        recordId,
-        version: targetVersion,
-      },
-    });
+    const versionEntry = await this.findVersion(tableName, recordId, targetVersion);
 
     if (!versionEntry) {
       throw new Error(`Version ${targetVersion} not found for ${tableName}:${recordId}`);
@@ -150,17 +158,13 @@ export class DataVersionHistoryService {
     version1: number,
     version2: number,
   ): Promise<{
-    version1: VersionHistoryEntry;
-    version2: VersionHistoryEntry;
+    version1: VersionHistoryRecord;
+    version2: VersionHistoryRecord;
     differences: any;
   }> {
     const [v1, v2] = await Promise.all([
-      this.versionHistoryRepository.findOne({
-        where: { tableName, recordId, version: version1 },
-      }),
-      this.versionHistoryRepository.findOne({
-        where: { tableName, recordId, version: version2 },
-      }),
+      this.findVersion(tableName, recordId, version1),
+      this.findVersion(tableName, recordId, version2),
     ]);
 
     if (!v1 || !v2) {
@@ -176,6 +180,26 @@ export class DataVersionHistoryService {
     };
   }
 
+  private async findVersion(
+    tableName: string,
+    recordId: string,
+    version: number,
+  ): Promise<VersionHistoryRecord | null> {
+    const [entry] = await this.db
+      .select()
+      .from(dataVersionHistory)
+      .where(
+        and(
+          eq(dataVersionHistory.tableName, tableName),
+          eq(dataVersionHistory.recordId, recordId),
+          eq(dataVersionHistory.version, version),
+        ),
+      )
+      .limit(1);
+
+    return entry || null;
+  }
+
   private calculateDifferences(obj1: any, obj2: any): any {
     const differences: any = {};
 
@@ -209,44 +233,48 @@ export class DataVersionHistoryService {
     cutoffDate.setDate(cutoffDate.getDate() - retentionDays);
 
     // Get records that have more than minimum versions
-    const recordsWithVersions = await this.versionHistoryRepository
-      .createQueryBuilder('vh')
-      .select('vh.tableName', 'tableName')
-      .addSelect('vh.recordId', 'recordId')
-      .addSelect('COUNT(*)', 'versionCount')
-      .groupBy('vh.tableName')
-      .addGroupBy('vh.recordId')
-      .having('COUNT(*) > :minVersions', { minVersions: keepMinVersions })
-      .getRawMany();
+    const recordsWithVersions = await this.db
+      .select({
+        tableName: dataVersionHistory.tableName,
+        recordId: dataVersionHistory.recordId,
+      })
+      .from(dataVersionHistory)
+      .groupBy(dataVersionHistory.tableName, dataVersionHistory.recordId)
+      .having(gt(count(), keepMinVersions));
 
     let deletedCount = 0;
 
     for (const record of recordsWithVersions) {
+      const sameRecord = and(
+        eq(dataVersionHistory.tableName, record.tableName),
+        eq(dataVersionHistory.recordId, record.recordId),
+      );
+
       // Keep the most recent versions
-      const versionsToKeep = await this.versionHistoryRepository
-        .createQueryBuilder('vh')
-        .select('vh.id')
-        .where('vh.tableName = :tableName', { tableName: record.tableName })
-        .andWhere('vh.recordId = :recordId', { recordId: record.recordId })
-        .orderBy('vh.version', 'DESC')
-        .limit(keepMinVersions)
-        .getMany();
+      const versionsToKeep = await this.db
+        .select({ id: dataVersionHistory.id })
+        .from(dataVersionHistory)
+        .where(sameRecord)
+        .orderBy(desc(dataVersionHistory.version))
+        .limit(keepMinVersions);
 
       const keepIds = versionsToKeep.map(v => v.id);
 
       // Delete old versions
-      const result = await this.versionHistoryRepository
-        .createQueryBuilder()
-        .delete()
-        .where('tableName = :tableName', { tableName: record.tableName })
-        .andWhere('recordId = :recordId', { recordId: record.recordId })
-        .andWhere('createdAt < :cutoffDate', { cutoffDate })
-        .andWhere('id NOT IN (:...keepIds)', { keepIds })
-        .execute();
-
-      deletedCount += result.affected || 0;
+      const deleted = await this.db
+        .delete(dataVersionHistory)
+        .where(
+          and(
+            sameRecord,
+            lt(dataVersionHistory.createdAt, cutoffDate),
+            notInArray(dataVersionHistory.id, keepIds),
+          ),
+        )
+        .returning({ id: dataVersionHistory.id });
+
+      deletedCount += deleted.length;
     }
 
     return deletedCount;
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,6 @@
+import type { db } from '../../database/connection';
+
+export type DrizzleDatabase = typeof db;
+
+// Handle passed to db.transaction() callbacks
+export type DrizzleTransaction = Parameters<Parameters<DrizzleDatabase['transaction']>[0]>[0];
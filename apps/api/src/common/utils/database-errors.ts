@@ -0,0 +1,15 @@
+/**
+ * Whether `error` is Postgres rejecting a write for breaking a unique
+ * constraint (SQLSTATE 23505).
+ */
+export function isUniqueViolation(error: unknown): boolean {
+  return (error as { code?: string } | null)?.code === '23505';
+}
+
+/**
+ * Whether `error` is Postgres rejecting a write or delete that would leave
+ * a reference to a missing row (SQLSTATE 23503).
+ */
+export function isForeignKeyViolation(error: unknown): boolean {
+  return (error as { code?: string } | null)?.code === '23503';
+}
@@ -0,0 +1,14 @@
+/**
+ * A shallow copy of `value` without `keys`.
+ */
+export function omit<T extends object, K extends keyof T>(
+  value: T,
+  keys: readonly K[],
+): Omit<T, K> {
+  const copy: Partial<T> = { ...value };
+  for (const key of keys) {
+    delete copy[key];
+  }
+
+  return copy as Omit<T, K>;
+}
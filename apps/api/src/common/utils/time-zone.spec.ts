@@ -0,0 +1,119 @@
+import {
+  addDays,
+  dayOfWeek,
+  formatInTimeZone,
+  isValidTimeZone,
+  localDate,
+  parseClockTime,
+  timeZoneOffset,
+  zonedTimeToUtc,
+} from './time-zone';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+describe('time-zone', () => {
+  describe('timeZoneOffset', () => {
+    it('follows the zone across a DST change', () => {
+      expect(timeZoneOffset(new Date('2026-03-08T06:59:00Z'), 'America/New_York')).toBe(
+        -5 * HOUR_MS,
+      );
+      expect(timeZoneOffset(new Date('2026-03-08T07:00:00Z'), 'America/New_York')).toBe(
+        -4 * HOUR_MS,
+      );
+    });
+
+    it('handles zones with a half-hour offset', () => {
+      expect(timeZoneOffset(new Date('2026-06-01T00:00:00Z'), 'Asia/Kolkata')).toBe(
+        5.5 * HOUR_MS,
+      );
+    });
+  });
+
+  describe('zonedTimeToUtc', () => {
+    it('uses the offset in force on the day', () => {
+      expect(zonedTimeToUtc('2026-03-07', 9 * 60, 'America/New_York').toISOString()).toBe(
+        '2026-03-07T14:00:00.000Z',
+      );
+      expect(zonedTimeToUtc('2026-03-08', 9 * 60, 'America/New_York').toISOString()).toBe(
+        '2026-03-08T13:00:00.000Z',
+      );
+      expect(zonedTimeToUtc('2026-10-26', 9 * 60, 'Europe/Berlin').toISOString()).toBe(
+        '2026-10-26T08:00:00.000Z',
+      );
+    });
+
+    it('resolves a time skipped by spring forward to the instant after the gap', () => {
+      // 02:30 does not exist in New York on 8 March 2026; 03:30 EDT does
+      expect(zonedTimeToUtc('2026-03-08', 150, 'America/New_York').toISOString()).toBe(
+        '2026-03-08T07:30:00.000Z',
+      );
+    });
+
+    it('picks the first of two readings when the clock falls back', () => {
+      // 01:30 happens twice in New York on 1 November 2026; the EDT one first
+      expect(zonedTimeToUtc('2026-11-01', 90, 'America/New_York').toISOString()).toBe(
+        '2026-11-01T05:30:00.000Z',
+      );
+    });
+
+    it('lets minutes run past midnight into the next day', () => {
+      expect(zonedTimeToUtc('2026-03-07', 25 * 60, 'America/New_York').toISOString()).toBe(
+        '2026-03-08T06:00:00.000Z',
+      );
+    });
+  });
+
+  describe('localDate', () => {
+    it('returns the calendar date the zone shows', () => {
+      expect(localDate(new Date('2026-03-09T03:00:00Z'), 'America/New_York')).toBe('2026-03-08');
+      expect(localDate(new Date('2026-03-08T23:00:00Z'), 'Asia/Tokyo')).toBe('2026-03-09');
+    });
+  });
+
+  describe('formatInTimeZone', () => {
+    it('writes the wall clock with the UTC offset', () => {
+      expect(formatInTimeZone(new Date('2026-03-09T16:00:00Z'), 'America/Los_Angeles')).toBe(
+        '2026-03-09T09:00:00.000-07:00',
+      );
+      expect(formatInTimeZone(new Date('2026-06-01T00:00:00Z'), 'Asia/Kolkata')).toBe(
+        '2026-06-01T05:30:00.000+05:30',
+      );
+      expect(formatInTimeZone(new Date('2026-01-15T12:00:00Z'), 'UTC')).toBe(
+        '2026-01-15T12:00:00.000+00:00',
+      );
+    });
+  });
+
+  describe('date helpers', () => {
+    it('adds days across month and year ends', () => {
+      expect(addDays('2026-02-28', 1)).toBe('2026-03-01');
+      expect(addDays('2026-12-31', 1)).toBe('2027-01-01');
+      expect(addDays('2026-03-01', -1)).toBe('2026-02-28');
+    });
+
+    it('numbers weekdays from Sunday', () => {
+      expect(dayOfWeek('2026-10-18')).toBe(0);
+      expect(dayOfWeek('2026-10-19')).toBe(1);
+    });
+
+    it('recognises IANA zone names', () => {
+      expect(isValidTimeZone('Europe/Berlin')).toBe(true);
+      expect(isValidTimeZone('Mars/Olympus_Mons')).toBe(false);
+    });
+  });
+
+  describe('parseClockTime', () => {
+    it('parses HH:MM into minutes past midnight', () => {
+      expect(parseClockTime('09:30')).toBe(570);
+      expect(parseClockTime('0:05')).toBe(5);
+      expect(parseClockTime('24:00')).toBe(1440);
+    });
+
+    it('rejects malformed and out-of-range times', () => {
+      expect(parseClockTime('24:30')).toBeNull();
+      expect(parseClockTime('12:60')).toBeNull();
+      expect(parseClockTime('9am')).toBeNull();
+      expect(parseClockTime('')).toBeNull();
+    });
+  });
+});
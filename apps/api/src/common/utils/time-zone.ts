@@ -0,0 +1,146 @@
+/**
+ * Wall-clock helpers for IANA time zones, built on Intl so no tz database
+ * has to ship with the API. Local dates are 'YYYY-MM-DD' strings.
+ */
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function formatterFor(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+function wallClockParts(instant: Date, timeZone: string) {
+  const parts: Record<string, number> = {};
+  for (const part of formatterFor(timeZone).formatToParts(instant)) {
+    if (part.type !== 'literal') {
+      parts[part.type] = Number(part.value);
+    }
+  }
+  return parts;
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    formatterFor(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * How far the zone's wall clock is ahead of UTC at `instant`, in ms.
+ */
+export function timeZoneOffset(instant: Date, timeZone: string): number {
+  const parts = wallClockParts(instant, timeZone);
+  const asUtc = Date.UTC(
+    parts.year,
+    parts.month - 1,
+    parts.day,
+    parts.hour,
+    parts.minute,
+    parts.second,
+  );
+  return asUtc - Math.floor(instant.getTime() / 1000) * 1000;
+}
+
+/**
+ * The instant at which the wall clock in `timeZone` shows `date` plus
+ * `minutes` past midnight. Minutes may run past 24:00 into the next day.
+ * Times skipped by a DST jump resolve to the instant after the gap.
+ */
+export function zonedTimeToUtc(date: string, minutes: number, timeZone: string): Date {
+  const [year, month, day] = date.split('-').map(Number);
+  const wallClock = Date.UTC(year, month - 1, day) + minutes * MINUTE_MS;
+
+  // Near a DST change the offset at the wall-clock reading can differ from
+  // the one at the answer; try both and keep the one that round-trips
+  const firstOffset = timeZoneOffset(new Date(wallClock), timeZone);
+  const first = wallClock - firstOffset;
+  const secondOffset = timeZoneOffset(new Date(first), timeZone);
+  if (secondOffset === firstOffset) {
+    return new Date(first);
+  }
+
+  const second = wallClock - secondOffset;
+  if (timeZoneOffset(new Date(second), timeZone) === secondOffset) {
+    return new Date(second);
+  }
+
+  // The wall-clock time doesn't exist (spring forward)
+  return new Date(Math.max(first, second));
+}
+
+/**
+ * The local calendar date in `timeZone` at `instant`.
+ */
+export function localDate(instant: Date, timeZone: string): string {
+  const parts = wallClockParts(instant, timeZone);
+  return [
+    String(parts.year).padStart(4, '0'),
+    String(parts.month).padStart(2, '0'),
+    String(parts.day).padStart(2, '0'),
+  ].join('-');
+}
+
+/**
+ * ISO 8601 with the zone's UTC offset, e.g. '2026-03-09T09:00:00.000-07:00':
+ * the same instant, written as the zone's wall clock shows it.
+ */
+export function formatInTimeZone(instant: Date, timeZone: string): string {
+  const offsetMinutes = Math.round(timeZoneOffset(instant, timeZone) / MINUTE_MS);
+  const wallClock = new Date(instant.getTime() + offsetMinutes * MINUTE_MS).toISOString();
+  const absolute = Math.abs(offsetMinutes);
+  const offset = [Math.floor(absolute / 60), absolute % 60]
+    .map((part) => String(part).padStart(2, '0'))
+    .join(':');
+
+  return `${wallClock.slice(0, 23)}${offsetMinutes < 0 ? '-' : '+'}${offset}`;
+}
+
+export function addDays(date: string, days: number): string {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day) + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+// 0 = Sunday, matching Date#getDay
+export function dayOfWeek(date: string): number {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+}
+
+/**
+ * Minutes past midnight for an 'HH:MM' string, or null if malformed.
+ * '24:00' is accepted as the end of the day.
+ */
+export function parseClockTime(time: string): number | null {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(time);
+  if (!match) {
+    return null;
+  }
+
+  const hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  if (hours > 24 || minutes > 59 || (hours === 24 && minutes > 0)) {
+    return null;
+  }
+
+  return hours * 60 + minutes;
+}
@@ -0,0 +1,14 @@
+import { Global, Module } from '@nestjs/common';
+import { db } from './connection';
+
+@Global()
+@Module({
+  providers: [
+    {
+      provide: 'DATABASE_CONNECTION',
+      useValue: db,
+    },
+  ],
+  exports: ['DATABASE_CONNECTION'],
+})
+export class DrizzleModule {}
@@ -0,0 +1,46 @@
+-- Production Tool 2.0 - Ranked holds
+-- Holds on the same artist slot form a line (1st pencil, 2nd pencil, ...).
+-- Only confirmed bookings and first-ranked holds reserve the artist's time.
+
+ALTER TYPE "event_type" ADD VALUE IF NOT EXISTS 'hold_promoted';
+ALTER TYPE "event_type" ADD VALUE IF NOT EXISTS 'hold_challenged';
+
+ALTER TABLE "bookings" ADD COLUMN IF NOT EXISTS "hold_rank" integer;
+ALTER TABLE "bookings" ADD COLUMN IF NOT EXISTS "hold_queued_at" timestamp with time zone;
+
+-- Existing holds queue in creation order
+UPDATE "bookings"
+SET "hold_queued_at" = "created_at"
+WHERE "status" IN ('hold', 'pencil');
+
+-- A hold's rank is 1 + every overlapping confirmed booking and every
+-- overlapping hold queued ahead of it
+UPDATE "bookings" AS b
+SET "hold_rank" = 1 + (
+  SELECT COUNT(*)
+  FROM "bookings" AS o
+  WHERE o.artist_id = b.artist_id
+    AND o.id <> b.id
+    AND tstzrange(o.start_time, o.end_time, '[)') && tstzrange(b.start_time, b.end_time, '[)')
+    AND (
+      o.status = 'confirmed'
+      OR (
+        o.status IN ('hold', 'pencil')
+        AND (o.hold_queued_at, o.id) < (b.hold_queued_at, b.id)
+      )
+    )
+)
+WHERE b.status IN ('hold', 'pencil');
+
+CREATE INDEX IF NOT EXISTS "bookings_hold_rank_idx" ON "bookings" ("artist_id", "hold_rank") WHERE hold_rank IS NOT NULL;
+
+-- Stacked pencils may overlap each other; the first-ranked one still
+-- excludes confirmed bookings and other first-ranked holds
+ALTER TABLE "bookings" DROP CONSTRAINT IF EXISTS "bookings_no_overlap_per_artist";
+ALTER TABLE "bookings"
+ADD CONSTRAINT "bookings_no_overlap_per_artist"
+EXCLUDE USING GIST (
+  artist_id WITH =,
+  tstzrange(start_time, end_time, '[)') WITH &&
+)
+WHERE (status = 'confirmed' OR (status IN ('hold', 'pencil') AND hold_rank = 1));
@@ -0,0 +1,5 @@
+-- Production Tool 2.0 - Booking event sourcing
+-- booking_events becomes the source of truth for bookings; deletions are
+-- recorded so a projection rebuild doesn't resurrect removed bookings.
+
+ALTER TYPE "event_type" ADD VALUE IF NOT EXISTS 'booking_deleted';
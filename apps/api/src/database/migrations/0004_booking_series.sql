@@ -0,0 +1,80 @@
+-- Production Tool 2.0 - Recurring booking series
+-- A series holds an RFC 5545 RRULE and a template; its occurrences are
+-- regular bookings linked back through series_id / recurrence_id.
+
+CREATE TABLE IF NOT EXISTS "booking_series" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"tenant_id" uuid NOT NULL,
+	"artist_id" uuid NOT NULL,
+	"project_id" uuid,
+	"user_id" uuid NOT NULL,
+	"rrule" text NOT NULL,
+	"dtstart" timestamp with time zone NOT NULL,
+	"duration_minutes" integer NOT NULL,
+	"exdates" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"expanded_until" timestamp with time zone NOT NULL,
+	"status" "booking_status" DEFAULT 'hold',
+	"hold_type" "hold_type",
+	"title" varchar(255),
+	"notes" text,
+	"rate" numeric(10, 2),
+	"rate_type" varchar(20),
+	"version" integer DEFAULT 1 NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	"created_by" uuid,
+	"updated_by" uuid
+);
+
+DO $$ BEGIN
+ ALTER TABLE "booking_series" ADD CONSTRAINT "booking_series_tenant_id_tenants_id_fk" FOREIGN KEY ("tenant_id") REFERENCES "tenants"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+ ALTER TABLE "booking_series" ADD CONSTRAINT "booking_series_artist_id_artists_id_fk" FOREIGN KEY ("artist_id") REFERENCES "artists"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+ ALTER TABLE "booking_series" ADD CONSTRAINT "booking_series_project_id_projects_id_fk" FOREIGN KEY ("project_id") REFERENCES "projects"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+ ALTER TABLE "booking_series" ADD CONSTRAINT "booking_series_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+ ALTER TABLE "booking_series" ADD CONSTRAINT "booking_series_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "users"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+ ALTER TABLE "booking_series" ADD CONSTRAINT "booking_series_updated_by_users_id_fk" FOREIGN KEY ("updated_by") REFERENCES "users"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+
+CREATE INDEX IF NOT EXISTS "booking_series_tenant_idx" ON "booking_series" ("tenant_id");
+CREATE INDEX IF NOT EXISTS "booking_series_artist_idx" ON "booking_series" ("artist_id");
+
+CREATE TRIGGER update_booking_series_updated_at BEFORE UPDATE ON booking_series FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE "bookings" ADD COLUMN IF NOT EXISTS "series_id" uuid;
+ALTER TABLE "bookings" ADD COLUMN IF NOT EXISTS "recurrence_id" timestamp with time zone;
+ALTER TABLE "bookings" ADD COLUMN IF NOT EXISTS "is_recurrence_exception" boolean DEFAULT false NOT NULL;
+
+DO $$ BEGIN
+ ALTER TABLE "bookings" ADD CONSTRAINT "bookings_series_id_booking_series_id_fk" FOREIGN KEY ("series_id") REFERENCES "booking_series"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+
+CREATE UNIQUE INDEX IF NOT EXISTS "bookings_series_occurrence_idx" ON "bookings" ("series_id", "recurrence_id");
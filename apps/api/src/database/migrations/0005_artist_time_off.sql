@@ -0,0 +1,34 @@
+-- Production Tool 2.0 - Artist time off
+-- Periods an artist can't be booked, subtracted from their availability.
+
+CREATE TABLE IF NOT EXISTS "artist_time_off" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"tenant_id" uuid NOT NULL,
+	"artist_id" uuid NOT NULL,
+	"start_time" timestamp with time zone NOT NULL,
+	"end_time" timestamp with time zone NOT NULL,
+	"reason" varchar(255),
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"created_by" uuid,
+	CONSTRAINT "artist_time_off_valid_range" CHECK ("end_time" > "start_time")
+);
+
+DO $$ BEGIN
+ ALTER TABLE "artist_time_off" ADD CONSTRAINT "artist_time_off_tenant_id_tenants_id_fk" FOREIGN KEY ("tenant_id") REFERENCES "tenants"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+ ALTER TABLE "artist_time_off" ADD CONSTRAINT "artist_time_off_artist_id_artists_id_fk" FOREIGN KEY ("artist_id") REFERENCES "artists"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+ ALTER TABLE "artist_time_off" ADD CONSTRAINT "artist_time_off_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "users"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+
+CREATE INDEX IF NOT EXISTS "artist_time_off_artist_time_idx" ON "artist_time_off" ("artist_id", "start_time", "end_time");
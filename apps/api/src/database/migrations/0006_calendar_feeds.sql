@@ -0,0 +1,51 @@
+-- Production Tool 2.0 - Calendar feeds
+-- Revocable iCalendar subscription URLs for an artist, a project or the
+-- whole tenant. The URL token itself is never stored, only its SHA-256.
+
+CREATE TABLE IF NOT EXISTS "calendar_feeds" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"tenant_id" uuid NOT NULL,
+	"scope" varchar(20) NOT NULL,
+	"artist_id" uuid,
+	"project_id" uuid,
+	"name" varchar(255),
+	"token_hash" varchar(64) NOT NULL,
+	"statuses" jsonb NOT NULL,
+	"last_accessed_at" timestamp with time zone,
+	"revoked_at" timestamp with time zone,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	"created_by" uuid,
+	CONSTRAINT "calendar_feeds_scope_target" CHECK (
+		("scope" = 'artist' AND "artist_id" IS NOT NULL AND "project_id" IS NULL) OR
+		("scope" = 'project' AND "project_id" IS NOT NULL AND "artist_id" IS NULL) OR
+		("scope" = 'tenant' AND "artist_id" IS NULL AND "project_id" IS NULL)
+	)
+);
+
+DO $$ BEGIN
+ ALTER TABLE "calendar_feeds" ADD CONSTRAINT "calendar_feeds_tenant_id_tenants_id_fk" FOREIGN KEY ("tenant_id") REFERENCES "tenants"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+ ALTER TABLE "calendar_feeds" ADD CONSTRAINT "calendar_feeds_artist_id_artists_id_fk" FOREIGN KEY ("artist_id") REFERENCES "artists"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+ ALTER TABLE "calendar_feeds" ADD CONSTRAINT "calendar_feeds_project_id_projects_id_fk" FOREIGN KEY ("project_id") REFERENCES "projects"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+ ALTER TABLE "calendar_feeds" ADD CONSTRAINT "calendar_feeds_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "users"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+
+CREATE UNIQUE INDEX IF NOT EXISTS "calendar_feeds_token_idx" ON "calendar_feeds" ("token_hash");
+CREATE INDEX IF NOT EXISTS "calendar_feeds_tenant_idx" ON "calendar_feeds" ("tenant_id");
@@ -0,0 +1,74 @@
+-- Production Tool 2.0 - External calendars
+-- ICS calendars artists keep elsewhere, stored as read-only busy blocks
+-- that availability and the booking conflict check treat like confirmed
+-- bookings.
+
+CREATE TABLE IF NOT EXISTS "external_calendars" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"tenant_id" uuid NOT NULL,
+	"artist_id" uuid NOT NULL,
+	"name" varchar(255) NOT NULL,
+	"source_url" text,
+	"sync_status" varchar(20) DEFAULT 'pending' NOT NULL,
+	"last_synced_at" timestamp with time zone,
+	"last_error" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	"created_by" uuid
+);
+
+CREATE TABLE IF NOT EXISTS "external_busy_blocks" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"tenant_id" uuid NOT NULL,
+	"calendar_id" uuid NOT NULL,
+	"artist_id" uuid NOT NULL,
+	"uid" varchar(512) NOT NULL,
+	"instance_key" varchar(64) DEFAULT '' NOT NULL,
+	"sequence" integer DEFAULT 0 NOT NULL,
+	"summary" varchar(255),
+	"start_time" timestamp with time zone NOT NULL,
+	"end_time" timestamp with time zone NOT NULL,
+	"synced_at" timestamp with time zone NOT NULL,
+	CONSTRAINT "external_busy_blocks_valid_range" CHECK ("end_time" > "start_time")
+);
+
+DO $$ BEGIN
+ ALTER TABLE "external_calendars" ADD CONSTRAINT "external_calendars_tenant_id_tenants_id_fk" FOREIGN KEY ("tenant_id") REFERENCES "tenants"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+ ALTER TABLE "external_calendars" ADD CONSTRAINT "external_calendars_artist_id_artists_id_fk" FOREIGN KEY ("artist_id") REFERENCES "artists"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+ ALTER TABLE "external_calendars" ADD CONSTRAINT "external_calendars_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "users"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+ ALTER TABLE "external_busy_blocks" ADD CONSTRAINT "external_busy_blocks_tenant_id_tenants_id_fk" FOREIGN KEY ("tenant_id") REFERENCES "tenants"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+ ALTER TABLE "external_busy_blocks" ADD CONSTRAINT "external_busy_blocks_calendar_id_external_calendars_id_fk" FOREIGN KEY ("calendar_id") REFERENCES "external_calendars"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+ ALTER TABLE "external_busy_blocks" ADD CONSTRAINT "external_busy_blocks_artist_id_artists_id_fk" FOREIGN KEY ("artist_id") REFERENCES "artists"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+
+CREATE INDEX IF NOT EXISTS "external_calendars_artist_idx" ON "external_calendars" ("artist_id");
+CREATE INDEX IF NOT EXISTS "external_calendars_sync_idx" ON "external_calendars" ("last_synced_at");
+CREATE UNIQUE INDEX IF NOT EXISTS "external_busy_blocks_event_idx" ON "external_busy_blocks" ("calendar_id", "uid", "instance_key");
+CREATE INDEX IF NOT EXISTS "external_busy_blocks_artist_time_idx" ON "external_busy_blocks" ("artist_id", "start_time", "end_time");
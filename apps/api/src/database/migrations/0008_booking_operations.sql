@@ -0,0 +1,20 @@
+-- Production Tool 2.0 - Booking operations
+-- Move, resize, split and swap are recorded as their own booking events.
+-- The overlap constraint becomes deferrable so a swap can pass through an
+-- intermediate state where both bookings sit on the same artist; it is
+-- still checked immediately unless a transaction defers it.
+
+ALTER TYPE "event_type" ADD VALUE IF NOT EXISTS 'booking_moved';
+ALTER TYPE "event_type" ADD VALUE IF NOT EXISTS 'booking_resized';
+ALTER TYPE "event_type" ADD VALUE IF NOT EXISTS 'booking_split';
+ALTER TYPE "event_type" ADD VALUE IF NOT EXISTS 'booking_swapped';
+
+ALTER TABLE "bookings" DROP CONSTRAINT IF EXISTS "bookings_no_overlap_per_artist";
+ALTER TABLE "bookings"
+ADD CONSTRAINT "bookings_no_overlap_per_artist"
+EXCLUDE USING GIST (
+  artist_id WITH =,
+  tstzrange(start_time, end_time, '[)') WITH &&
+)
+WHERE (status = 'confirmed' OR (status IN ('hold', 'pencil') AND hold_rank = 1))
+DEFERRABLE INITIALLY IMMEDIATE;
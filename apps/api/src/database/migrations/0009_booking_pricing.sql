@@ -0,0 +1,8 @@
+-- Production Tool 2.0 - Booking pricing
+-- Bookings are priced from the artist's rates unless someone set the rate
+-- by hand; the flag tells a repricing which rates it may replace.
+
+ALTER TABLE "bookings" ADD COLUMN IF NOT EXISTS "rate_overridden" boolean DEFAULT false NOT NULL;
+
+-- Rates entered before pricing existed were all set by hand
+UPDATE "bookings" SET "rate_overridden" = true WHERE "rate" IS NOT NULL;
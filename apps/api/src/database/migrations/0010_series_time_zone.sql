@@ -0,0 +1,6 @@
+-- Production Tool 2.0 - Series time zones
+-- Series expand on the artist's local clock so occurrences keep their time
+-- of day across DST changes. Existing series have no zone and keep
+-- expanding in UTC, as they were created.
+
+ALTER TABLE "booking_series" ADD COLUMN IF NOT EXISTS "time_zone" varchar(64);
@@ -0,0 +1,55 @@
+-- Production Tool 2.0 - Booking approvals
+-- Confirming a hold over the tenant's cost or duration thresholds goes
+-- through an approval request. Requests and decisions are also recorded on
+-- the booking's event stream, where replay passes over them.
+
+ALTER TYPE "event_type" ADD VALUE IF NOT EXISTS 'approval_requested';
+ALTER TYPE "event_type" ADD VALUE IF NOT EXISTS 'approval_granted';
+ALTER TYPE "event_type" ADD VALUE IF NOT EXISTS 'approval_rejected';
+
+CREATE TABLE IF NOT EXISTS "booking_approvals" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"tenant_id" uuid NOT NULL,
+	"booking_id" uuid NOT NULL,
+	"booking_version" integer NOT NULL,
+	"status" varchar(20) DEFAULT 'pending' NOT NULL,
+	"reasons" jsonb NOT NULL,
+	"note" text,
+	"comments" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"requested_by" uuid NOT NULL,
+	"decided_by" uuid,
+	"decided_at" timestamp with time zone,
+	"decision_note" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+
+DO $$ BEGIN
+ ALTER TABLE "booking_approvals" ADD CONSTRAINT "booking_approvals_tenant_id_tenants_id_fk" FOREIGN KEY ("tenant_id") REFERENCES "tenants"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+ ALTER TABLE "booking_approvals" ADD CONSTRAINT "booking_approvals_booking_id_bookings_id_fk" FOREIGN KEY ("booking_id") REFERENCES "bookings"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+ ALTER TABLE "booking_approvals" ADD CONSTRAINT "booking_approvals_requested_by_users_id_fk" FOREIGN KEY ("requested_by") REFERENCES "users"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+ ALTER TABLE "booking_approvals" ADD CONSTRAINT "booking_approvals_decided_by_users_id_fk" FOREIGN KEY ("decided_by") REFERENCES "users"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+
+CREATE INDEX IF NOT EXISTS "booking_approvals_tenant_status_idx" ON "booking_approvals" ("tenant_id", "status");
+-- At most one open request per booking
+CREATE UNIQUE INDEX IF NOT EXISTS "booking_approvals_pending_idx" ON "booking_approvals" ("booking_id") WHERE status = 'pending';
+
+CREATE TRIGGER update_booking_approvals_updated_at BEFORE UPDATE ON booking_approvals FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,40 @@
+-- Production Tool 2.0 - Booking templates
+-- Tenant-level crew presets: roles by artist type with headcount, duration
+-- and rate, plus the kind of hold to place when a proposal is accepted.
+
+CREATE TABLE IF NOT EXISTS "booking_templates" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"tenant_id" uuid NOT NULL,
+	"name" varchar(255) NOT NULL,
+	"description" text,
+	"roles" jsonb NOT NULL,
+	"status" varchar(20) DEFAULT 'hold' NOT NULL,
+	"hold_type" "hold_type",
+	"hold_expiry_days" integer,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	"created_by" uuid,
+	"updated_by" uuid
+);
+
+DO $$ BEGIN
+ ALTER TABLE "booking_templates" ADD CONSTRAINT "booking_templates_tenant_id_tenants_id_fk" FOREIGN KEY ("tenant_id") REFERENCES "tenants"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+ ALTER TABLE "booking_templates" ADD CONSTRAINT "booking_templates_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "users"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+ ALTER TABLE "booking_templates" ADD CONSTRAINT "booking_templates_updated_by_users_id_fk" FOREIGN KEY ("updated_by") REFERENCES "users"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+
+CREATE UNIQUE INDEX IF NOT EXISTS "booking_templates_tenant_name_idx" ON "booking_templates" ("tenant_id", "name");
+
+CREATE TRIGGER update_booking_templates_updated_at BEFORE UPDATE ON booking_templates FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,11 @@
+-- Production Tool 2.0 - Cancellation policies
+-- Confirmed bookings cancelled inside a notice window owe a share of their
+-- total. Tenants set tiers in their booking rules; an artist's own policy
+-- replaces the tenant's. The fee is fixed when the booking is cancelled.
+
+ALTER TABLE "artists" ADD COLUMN IF NOT EXISTS "cancellation_policy" jsonb;
+
+ALTER TABLE "bookings" ADD COLUMN IF NOT EXISTS "kill_fee" numeric(10, 2);
+ALTER TABLE "bookings" ADD COLUMN IF NOT EXISTS "cancellation_reason" text;
+ALTER TABLE "bookings" ADD COLUMN IF NOT EXISTS "cancelled_at" timestamp with time zone;
+
@@ -0,0 +1,104 @@
+-- Production Tool 2.0 - Resources
+-- Rooms, workstations, license seats and equipment booked alongside (or
+-- apart from) artists. Overlapping reservations may not take more than a
+-- resource's capacity; the API checks this under a per-resource lock.
+
+DO $$ BEGIN
+ CREATE TYPE "resource_type" AS ENUM('room', 'workstation', 'license', 'equipment');
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+
+CREATE TABLE IF NOT EXISTS "resources" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"tenant_id" uuid NOT NULL,
+	"name" varchar(255) NOT NULL,
+	"type" "resource_type" NOT NULL,
+	"capacity" integer DEFAULT 1 NOT NULL,
+	"location" varchar(255),
+	"description" text,
+	"is_active" boolean DEFAULT true NOT NULL,
+	"metadata" jsonb,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	"created_by" uuid,
+	"updated_by" uuid,
+	CONSTRAINT "resources_capacity_check" CHECK ("capacity" > 0)
+);
+
+CREATE TABLE IF NOT EXISTS "resource_bookings" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"tenant_id" uuid NOT NULL,
+	"resource_id" uuid NOT NULL,
+	"booking_id" uuid,
+	"start_time" timestamp with time zone NOT NULL,
+	"end_time" timestamp with time zone NOT NULL,
+	"quantity" integer DEFAULT 1 NOT NULL,
+	"status" varchar(20) DEFAULT 'reserved' NOT NULL,
+	"title" varchar(255),
+	"notes" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	"created_by" uuid,
+	"updated_by" uuid,
+	CONSTRAINT "resource_bookings_valid_range" CHECK ("end_time" > "start_time"),
+	CONSTRAINT "resource_bookings_quantity_check" CHECK ("quantity" > 0)
+);
+
+DO $$ BEGIN
+ ALTER TABLE "resources" ADD CONSTRAINT "resources_tenant_id_tenants_id_fk" FOREIGN KEY ("tenant_id") REFERENCES "tenants"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+ ALTER TABLE "resources" ADD CONSTRAINT "resources_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "users"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+ ALTER TABLE "resources" ADD CONSTRAINT "resources_updated_by_users_id_fk" FOREIGN KEY ("updated_by") REFERENCES "users"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+ ALTER TABLE "resource_bookings" ADD CONSTRAINT "resource_bookings_tenant_id_tenants_id_fk" FOREIGN KEY ("tenant_id") REFERENCES "tenants"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+ ALTER TABLE "resource_bookings" ADD CONSTRAINT "resource_bookings_resource_id_resources_id_fk" FOREIGN KEY ("resource_id") REFERENCES "resources"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+ ALTER TABLE "resource_bookings" ADD CONSTRAINT "resource_bookings_booking_id_bookings_id_fk" FOREIGN KEY ("booking_id") REFERENCES "bookings"("id") ON DELETE cascade ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+ ALTER TABLE "resource_bookings" ADD CONSTRAINT "resource_bookings_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "users"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+ ALTER TABLE "resource_bookings" ADD CONSTRAINT "resource_bookings_updated_by_users_id_fk" FOREIGN KEY ("updated_by") REFERENCES "users"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+
+CREATE INDEX IF NOT EXISTS "resources_tenant_type_idx" ON "resources" ("tenant_id", "type");
+CREATE UNIQUE INDEX IF NOT EXISTS "resources_tenant_name_idx" ON "resources" ("tenant_id", "name");
+CREATE INDEX IF NOT EXISTS "resource_bookings_resource_time_idx" ON "resource_bookings" ("resource_id", "start_time", "end_time");
+CREATE INDEX IF NOT EXISTS "resource_bookings_booking_idx" ON "resource_bookings" ("booking_id");
+-- A booking takes a resource once; more capacity is a larger quantity
+CREATE UNIQUE INDEX IF NOT EXISTS "resource_bookings_booking_resource_idx" ON "resource_bookings" ("booking_id", "resource_id");
+
+CREATE TRIGGER update_resources_updated_at BEFORE UPDATE ON resources FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+CREATE TRIGGER update_resource_bookings_updated_at BEFORE UPDATE ON resource_bookings FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,42 @@
+-- Production Tool 2.0 - License pools
+-- Seat counts for DCC and render licenses. A booking needs the licenses it
+-- lists, or those its artist's type calls for; days where more bookings
+-- run at once than there are seats are flagged in reports.
+
+ALTER TABLE "bookings" ADD COLUMN IF NOT EXISTS "licenses" jsonb;
+
+CREATE TABLE IF NOT EXISTS "license_pools" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"tenant_id" uuid NOT NULL,
+	"key" varchar(64) NOT NULL,
+	"name" varchar(255) NOT NULL,
+	"seats" integer NOT NULL,
+	"artist_types" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	"created_by" uuid,
+	"updated_by" uuid,
+	CONSTRAINT "license_pools_seats_check" CHECK ("seats" >= 0)
+);
+
+DO $$ BEGIN
+ ALTER TABLE "license_pools" ADD CONSTRAINT "license_pools_tenant_id_tenants_id_fk" FOREIGN KEY ("tenant_id") REFERENCES "tenants"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+ ALTER TABLE "license_pools" ADD CONSTRAINT "license_pools_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "users"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+ ALTER TABLE "license_pools" ADD CONSTRAINT "license_pools_updated_by_users_id_fk" FOREIGN KEY ("updated_by") REFERENCES "users"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+
+CREATE UNIQUE INDEX IF NOT EXISTS "license_pools_tenant_key_idx" ON "license_pools" ("tenant_id", "key");
+
+CREATE TRIGGER update_license_pools_updated_at BEFORE UPDATE ON license_pools FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,7 @@
+-- Production Tool 2.0 - Per-tenant project codes
+-- Project codes only need to be unique within a studio; the global
+-- constraint kept two tenants from using the same code.
+
+ALTER TABLE "projects" DROP CONSTRAINT IF EXISTS "projects_code_unique";
+
+CREATE UNIQUE INDEX IF NOT EXISTS "projects_tenant_code_idx" ON "projects" ("tenant_id", "code");
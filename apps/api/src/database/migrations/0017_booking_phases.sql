@@ -0,0 +1,14 @@
+-- Production Tool 2.0 - Booking phases
+-- A booking can belong to one phase of its project, so rescheduling the
+-- phase can move the booking along with it. Deleting the phase keeps the
+-- booking and clears the link.
+
+ALTER TABLE "bookings" ADD COLUMN IF NOT EXISTS "phase_id" uuid;
+
+DO $$ BEGIN
+ ALTER TABLE "bookings" ADD CONSTRAINT "bookings_phase_id_project_phases_id_fk" FOREIGN KEY ("phase_id") REFERENCES "project_phases"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+
+CREATE INDEX IF NOT EXISTS "bookings_phase_idx" ON "bookings" ("phase_id");
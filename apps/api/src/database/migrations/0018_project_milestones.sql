@@ -0,0 +1,118 @@
+-- Production Tool 2.0 - Project milestones
+-- Milestones move out of projects.metadata into their own table, with an
+-- owner, completion evidence and an optional phase. Reminders and overdue
+-- alerts are queued in notification_queue; ones no longer wanted are
+-- marked cancelled rather than deleted.
+
+CREATE TABLE IF NOT EXISTS "project_milestones" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"tenant_id" uuid NOT NULL,
+	"project_id" uuid NOT NULL,
+	"phase_id" uuid,
+	"name" varchar(255) NOT NULL,
+	"description" text,
+	"due_date" timestamp NOT NULL,
+	"owner_id" uuid,
+	"reminder_days" jsonb DEFAULT '[3,1]'::jsonb NOT NULL,
+	"completed_at" timestamp,
+	"completed_by" uuid,
+	"evidence" jsonb,
+	"at_risk_since" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	"created_by" uuid,
+	"updated_by" uuid
+);
+
+DO $$ BEGIN
+ ALTER TABLE "project_milestones" ADD CONSTRAINT "project_milestones_tenant_id_tenants_id_fk" FOREIGN KEY ("tenant_id") REFERENCES "tenants"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+ ALTER TABLE "project_milestones" ADD CONSTRAINT "project_milestones_project_id_projects_id_fk" FOREIGN KEY ("project_id") REFERENCES "projects"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+ ALTER TABLE "project_milestones" ADD CONSTRAINT "project_milestones_phase_id_project_phases_id_fk" FOREIGN KEY ("phase_id") REFERENCES "project_phases"("id") ON DELETE set null ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+ ALTER TABLE "project_milestones" ADD CONSTRAINT "project_milestones_owner_id_users_id_fk" FOREIGN KEY ("owner_id") REFERENCES "users"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+ ALTER TABLE "project_milestones" ADD CONSTRAINT "project_milestones_completed_by_users_id_fk" FOREIGN KEY ("completed_by") REFERENCES "users"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+ ALTER TABLE "project_milestones" ADD CONSTRAINT "project_milestones_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "users"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+ ALTER TABLE "project_milestones" ADD CONSTRAINT "project_milestones_updated_by_users_id_fk" FOREIGN KEY ("updated_by") REFERENCES "users"("id") ON DELETE no action ON UPDATE no action;
+EXCEPTION
+ WHEN duplicate_object THEN null;
+END $$;
+
+CREATE INDEX IF NOT EXISTS "project_milestones_project_due_idx" ON "project_milestones" ("project_id", "due_date");
+CREATE INDEX IF NOT EXISTS "project_milestones_phase_idx" ON "project_milestones" ("phase_id");
+CREATE INDEX IF NOT EXISTS "project_milestones_owner_idx" ON "project_milestones" ("owner_id");
+
+CREATE TRIGGER update_project_milestones_updated_at BEFORE UPDATE ON project_milestones FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Carry over the milestones kept in project metadata. Milestones marked
+-- completed there have no completion time, so the project's last update
+-- stands in for it. Unnamed entries get a placeholder name; entries
+-- without a readable date stay in the metadata as unmigratedMilestones.
+-- Carried-over milestones have no owner or alerts yet: run
+-- `npm run db:backfill-milestones` once this has been applied.
+CREATE OR REPLACE FUNCTION pg_temp.milestone_date(value text) RETURNS timestamp AS $$
+BEGIN
+	RETURN value::timestamp;
+EXCEPTION
+	WHEN others THEN RETURN NULL;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+INSERT INTO "project_milestones" ("tenant_id", "project_id", "name", "due_date", "completed_at")
+SELECT
+	p."tenant_id",
+	p."id",
+	COALESCE(NULLIF(left(btrim(milestone->>'name'), 255), ''), 'Untitled milestone'),
+	pg_temp.milestone_date(milestone->>'date'),
+	CASE WHEN lower(milestone->>'completed') = 'true' THEN p."updated_at" END
+FROM "projects" p
+CROSS JOIN LATERAL jsonb_array_elements(
+	CASE WHEN jsonb_typeof(p."metadata"->'milestones') = 'array'
+		THEN p."metadata"->'milestones'
+		ELSE '[]'::jsonb
+	END
+) AS milestone
+WHERE jsonb_typeof(milestone) = 'object'
+	AND pg_temp.milestone_date(milestone->>'date') IS NOT NULL;
+
+UPDATE "projects" p SET "metadata" = (p."metadata" - 'milestones') || COALESCE((
+	SELECT jsonb_build_object('unmigratedMilestones', jsonb_agg(milestone))
+	FROM jsonb_array_elements(
+		CASE WHEN jsonb_typeof(p."metadata"->'milestones') = 'array'
+			THEN p."metadata"->'milestones'
+			ELSE jsonb_build_array(p."metadata"->'milestones')
+		END
+	) AS milestone
+	WHERE jsonb_typeof(milestone) <> 'object'
+		OR pg_temp.milestone_date(milestone->>'date') IS NULL
+	HAVING count(*) > 0
+), '{}'::jsonb)
+WHERE p."metadata" ? 'milestones';
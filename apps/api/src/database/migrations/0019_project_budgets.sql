@@ -0,0 +1,5 @@
+-- Production Tool 2.0 - Project budgets
+-- Phases can carry their own share of the project budget, so booking spend
+-- can be compared with it per phase as well as for the whole project.
+
+ALTER TABLE "project_phases" ADD COLUMN IF NOT EXISTS "budget" numeric(10, 2);
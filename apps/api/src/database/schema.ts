@@ -0,0 +1,3 @@
+// The Drizzle schema is shared with the Next.js app; re-export it so API
+// modules don't need to know where it lives in the monorepo.
+export * from '../../../../src/lib/db/schema';
@@ -0,0 +1,66 @@
+#!/usr/bin/env tsx
+/**
+ * Milestone Owner Backfill Script
+ * Gives the milestones carried over from project metadata by the
+ * 0018_project_milestones migration an owner and queues their reminders
+ */
+
+import { connectToDatabase, disconnectFromDatabase, db } from '../connection';
+import { DataVersionHistoryService } from '../../common/services/data-version-history.service';
+import {
+  NotificationRepository,
+} from '../../modules/notification/repositories/notification.repository';
+import { NotificationService } from '../../modules/notification/notification.service';
+import { ProjectMilestonesService } from '../../modules/projects/project-milestones.service';
+import { ProjectRepository } from '../../modules/projects/repositories/project.repository';
+import {
+  ProjectPhaseRepository,
+} from '../../modules/projects/repositories/project-phase.repository';
+import {
+  ProjectMilestoneRepository,
+} from '../../modules/projects/repositories/project-milestone.repository';
+
+async function main() {
+  const args = process.argv.slice(2);
+  const ownerFlag = args.indexOf('--owner');
+  const ownerId = ownerFlag === -1 ? undefined : args[ownerFlag + 1];
+  const tenantId = args.find((arg, index) => !arg.startsWith('--') && index !== ownerFlag + 1);
+
+  if (!tenantId || (ownerFlag !== -1 && !ownerId)) {
+    console.log('Usage:');
+    console.log('  npm run db:backfill-milestones <tenant-id> [--owner <user-id>]');
+    console.log('');
+    console.log("Without --owner, the tenant's longest-standing owner (or manager) is used");
+    process.exit(1);
+  }
+
+  try {
+    await connectToDatabase();
+
+    const milestones = new ProjectMilestonesService(
+      db,
+      new ProjectRepository(db),
+      new ProjectPhaseRepository(db),
+      new ProjectMilestoneRepository(db),
+      new DataVersionHistoryService(db),
+      new NotificationService(new NotificationRepository(db)),
+    );
+    const result = await milestones.backfillOwners(tenantId, ownerId);
+
+    console.log(
+      result.milestones === 0
+        ? `✅ Tenant ${tenantId}: no milestones without an owner`
+        : `✅ Tenant ${tenantId}: ${result.milestones} milestone(s) given to ${result.ownerId}`,
+    );
+  } catch (error) {
+    console.error('❌ Milestone backfill failed:', error);
+    process.exitCode = 1;
+  } finally {
+    await disconnectFromDatabase();
+  }
+}
+
+// Run if called directly
+if (require.main === module) {
+  main().catch(console.error);
+}
@@ -46,7 +46,25 @@ async function runMigrations() {
     
     // Migration files to run
     const migrationFiles = [
-      '0001_initial_schema.sql'
+      '0001_initial_schema.sql',
+      '0002_ranked_holds.sql',
+      '0003_booking_event_sourcing.sql',
+      '0004_booking_series.sql',
+      '0005_artist_time_off.sql',
+      '0006_calendar_feeds.sql',
+      '0007_external_calendars.sql',
+      '0008_booking_operations.sql',
+      '0009_booking_pricing.sql',
+      '0010_series_time_zone.sql',
+      '0011_booking_approvals.sql',
+      '0012_booking_templates.sql',
+      '0013_cancellation_policies.sql',
+      '0014_resources.sql',
+      '0015_license_pools.sql',
+      '0016_project_codes.sql',
+      '0017_booking_phases.sql',
+      '0018_project_milestones.sql',
+      '0019_project_budgets.sql'
     ];
     
     // Run pending migrations
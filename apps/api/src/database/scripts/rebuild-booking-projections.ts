@@ -0,0 +1,77 @@
+#!/usr/bin/env tsx
+/**
+ * Booking Projection Rebuild Script
+ * Replays booking_events for a tenant, reports rows that drifted from their
+ * history and (without --dry-run) rewrites them
+ */
+
+import { connectToDatabase, disconnectFromDatabase, db } from '../connection';
+import { BookingEventRepository } from '../../modules/bookings/repositories/booking-event.repository';
+import {
+  BookingProjectionService,
+  ProjectionRebuildReport,
+} from '../../modules/bookings/booking-projection.service';
+
+function printReport(report: ProjectionRebuildReport) {
+  console.log(`📋 Tenant ${report.tenantId}: ${report.aggregates} booking aggregate(s) replayed`);
+
+  if (report.divergences.length === 0) {
+    console.log('✅ Projection matches the event history');
+    return;
+  }
+
+  for (const divergence of report.divergences) {
+    console.log(`  ⚠️  ${divergence.bookingId}: ${divergence.kind}`);
+
+    for (const field of divergence.fields ?? []) {
+      console.log(
+        `      ${field.field}: ${JSON.stringify(field.projection)} -> ${JSON.stringify(field.replayed)}`,
+      );
+    }
+    if (divergence.error) {
+      console.log(`      ${divergence.error}`);
+    }
+  }
+
+  console.log(
+    report.dryRun
+      ? `ℹ️  Dry run: ${report.divergences.length} divergence(s) left as they are`
+      : `✅ Repaired ${report.divergences.filter((d) => d.kind !== 'invalid_stream').length} divergence(s)`,
+  );
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const tenantId = args.find((arg) => !arg.startsWith('--'));
+  const dryRun = args.includes('--dry-run');
+
+  if (!tenantId) {
+    console.log('Usage:');
+    console.log('  npm run db:rebuild-bookings <tenant-id> [--dry-run]');
+    process.exit(1);
+  }
+
+  try {
+    await connectToDatabase();
+
+    const projections = new BookingProjectionService(db, new BookingEventRepository(db));
+    const report = await projections.rebuild(tenantId, { dryRun });
+
+    printReport(report);
+
+    // Lets CI and cron jobs alert on drift found in a dry run
+    if (dryRun && report.divergences.length > 0) {
+      process.exitCode = 2;
+    }
+  } catch (error) {
+    console.error('❌ Projection rebuild failed:', error);
+    process.exitCode = 1;
+  } finally {
+    await disconnectFromDatabase();
+  }
+}
+
+// Run if called directly
+if (require.main === module) {
+  main().catch(console.error);
+}
@@ -85,6 +85,7 @@ async function bootstrap() {
       .addTag('Health', 'System health and monitoring endpoints')
       .addTag('Artists', 'Artist profile management')
       .addTag('Jobs', 'Job listing and application management')
+      .addTag('Bookings', 'Artist booking and scheduling')
       .addServer('http://localhost:8000', 'Development server')
       .addServer('https://api-staging.productiontool.com', 'Staging server')
       .addServer('https://api.productiontool.com', 'Production server')
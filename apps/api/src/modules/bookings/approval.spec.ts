@@ -0,0 +1,64 @@
+import { approvalReasons, isApprover } from './approval';
+
+// Ten hours at 1500.00
+const booking = {
+  startTime: new Date('2026-11-02T08:00:00Z'),
+  endTime: new Date('2026-11-02T18:00:00Z'),
+  totalAmount: '1500.00',
+};
+
+describe('approvalReasons', () => {
+  it('lists every threshold the booking exceeds', () => {
+    expect(approvalReasons(booking, { maxAmount: 1000, maxDurationHours: 8 })).toEqual([
+      { rule: 'amount', limit: 1000, actual: 1500 },
+      { rule: 'duration', limit: 8, actual: 10 },
+    ]);
+  });
+
+  it('lets a booking exactly on a threshold through', () => {
+    expect(approvalReasons(booking, { maxAmount: 1500, maxDurationHours: 10 })).toEqual([]);
+  });
+
+  it('ignores thresholds the tenant has not set', () => {
+    expect(approvalReasons(booking, {})).toEqual([]);
+    expect(approvalReasons(booking, { maxDurationHours: 12 })).toEqual([]);
+  });
+
+  it('only judges an unpriced booking on its length', () => {
+    const unpriced = { ...booking, totalAmount: null };
+
+    expect(approvalReasons(unpriced, { maxAmount: 0 })).toEqual([]);
+    expect(approvalReasons(unpriced, { maxAmount: 0, maxDurationHours: 8 })).toEqual([
+      { rule: 'duration', limit: 8, actual: 10 },
+    ]);
+  });
+});
+
+describe('isApprover', () => {
+  const owner = { id: 'user-1', role: 'owner' };
+  const manager = { id: 'user-2', role: 'manager' };
+  const artist = { id: 'user-3', role: 'artist' };
+
+  it('lets owners and managers decide by default', () => {
+    expect([owner, manager, artist].map((user) => isApprover(user, {}))).toEqual([
+      true,
+      true,
+      false,
+    ]);
+  });
+
+  it('narrows the roles to those configured', () => {
+    const rules = { approverRoles: ['owner' as const] };
+
+    expect(isApprover(owner, rules)).toBe(true);
+    expect(isApprover(manager, rules)).toBe(false);
+  });
+
+  it('requires a listed user to hold an approver role too', () => {
+    const rules = { approverUserIds: ['user-2', 'user-3'] };
+
+    expect(isApprover(owner, rules)).toBe(false);
+    expect(isApprover(manager, rules)).toBe(true);
+    expect(isApprover(artist, rules)).toBe(false);
+  });
+});
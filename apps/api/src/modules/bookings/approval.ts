@@ -0,0 +1,45 @@
+import { Booking, bookingApprovals } from '../../database/schema';
+import { TenantBookingRules } from './booking-rules';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export const DEFAULT_APPROVER_ROLES = ['owner', 'manager'] as const;
+
+export type ApprovalRules = NonNullable<TenantBookingRules['approval']>;
+export type ApprovalReason = (typeof bookingApprovals.$inferSelect)['reasons'][number];
+
+/**
+ * The thresholds a booking exceeds; confirming it needs approval unless
+ * this is empty. An unpriced booking is only judged on its length.
+ */
+export function approvalReasons(
+  booking: Pick<Booking, 'startTime' | 'endTime' | 'totalAmount'>,
+  rules: ApprovalRules,
+): ApprovalReason[] {
+  const reasons: ApprovalReason[] = [];
+
+  if (rules.maxAmount !== undefined && booking.totalAmount !== null) {
+    const amount = Number(booking.totalAmount);
+    if (amount > rules.maxAmount) {
+      reasons.push({ rule: 'amount', limit: rules.maxAmount, actual: amount });
+    }
+  }
+
+  if (rules.maxDurationHours !== undefined) {
+    const hours = (booking.endTime.getTime() - booking.startTime.getTime()) / HOUR_MS;
+    if (hours > rules.maxDurationHours) {
+      reasons.push({ rule: 'duration', limit: rules.maxDurationHours, actual: hours });
+    }
+  }
+
+  return reasons;
+}
+
+export function isApprover(user: { id: string; role: string }, rules: ApprovalRules): boolean {
+  const roles: readonly string[] = rules.approverRoles ?? DEFAULT_APPROVER_ROLES;
+  if (!roles.includes(user.role)) {
+    return false;
+  }
+
+  return !rules.approverUserIds || rules.approverUserIds.includes(user.id);
+}
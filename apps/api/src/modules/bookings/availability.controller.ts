@@ -0,0 +1,162 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Delete,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  Req,
+  UseInterceptors,
+  UploadedFile,
+  BadRequestException,
+} from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import { ApiTags, ApiOperation, ApiBearerAuth, ApiConsumes } from '@nestjs/swagger';
+import { AvailabilityService } from './availability.service';
+import { SlotFinderService } from './slot-finder.service';
+import { ExternalCalendarService, MAX_CALENDAR_BYTES } from './external-calendar.service';
+import { FreeBusyQueryDto } from './dto/free-busy-query.dto';
+import { CreateTimeOffDto } from './dto/create-time-off.dto';
+import { FindSlotsDto } from './dto/find-slots.dto';
+import { CreateExternalCalendarDto } from './dto/create-external-calendar.dto';
+import { UploadExternalCalendarDto } from './dto/upload-external-calendar.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { TenantGuard } from '../auth/guards/tenant.guard';
+import { RequestWithUser } from '../auth/interfaces/request-with-user.interface';
+import { TimeZoneInterceptor } from '../../common/interceptors/time-zone.interceptor';
+
+@ApiTags('availability')
+@ApiBearerAuth()
+@Controller('availability')
+@UseGuards(JwtAuthGuard, TenantGuard)
+@UseInterceptors(TimeZoneInterceptor)
+export class AvailabilityController {
+  constructor(
+    private readonly availabilityService: AvailabilityService,
+    private readonly slotFinderService: SlotFinderService,
+    private readonly externalCalendarService: ExternalCalendarService,
+  ) {}
+
+  @Post('search')
+  @ApiOperation({ summary: 'Suggest ranked artist and time slots for a staffing request' })
+  async search(@Body() query: FindSlotsDto, @Req() req: RequestWithUser) {
+    const result = await this.slotFinderService.search(req.user.tenantId, query);
+    return { data: result };
+  }
+
+  @Get(':artistId')
+  @ApiOperation({ summary: 'Free and busy intervals for an artist' })
+  async freeBusy(
+    @Param('artistId') artistId: string,
+    @Query() query: FreeBusyQueryDto,
+    @Req() req: RequestWithUser,
+  ) {
+    const freeBusy = await this.availabilityService.freeBusy(
+      req.user.tenantId,
+      artistId,
+      query.from,
+      query.to,
+    );
+
+    return { data: freeBusy };
+  }
+
+  @Post(':artistId/time-off')
+  @ApiOperation({ summary: 'Record time off for an artist' })
+  async createTimeOff(
+    @Param('artistId') artistId: string,
+    @Body() createDto: CreateTimeOffDto,
+    @Req() req: RequestWithUser,
+  ) {
+    const timeOff = await this.availabilityService.createTimeOff(
+      artistId,
+      createDto,
+      req.user.tenantId,
+      req.user.id,
+    );
+
+    return { data: timeOff };
+  }
+
+  @Delete(':artistId/time-off/:id')
+  @ApiOperation({ summary: 'Remove time off' })
+  async removeTimeOff(
+    @Param('artistId') artistId: string,
+    @Param('id') id: string,
+    @Req() req: RequestWithUser,
+  ) {
+    return this.availabilityService.removeTimeOff(id, artistId, req.user.tenantId);
+  }
+
+  @Get(':artistId/external-calendars')
+  @ApiOperation({ summary: "List an artist's external calendars" })
+  async findExternalCalendars(@Param('artistId') artistId: string, @Req() req: RequestWithUser) {
+    const calendars = await this.externalCalendarService.findByArtist(artistId, req.user.tenantId);
+    return { data: calendars };
+  }
+
+  @Post(':artistId/external-calendars')
+  @ApiOperation({ summary: 'Subscribe an artist to an external ICS calendar' })
+  async subscribeExternalCalendar(
+    @Param('artistId') artistId: string,
+    @Body() createDto: CreateExternalCalendarDto,
+    @Req() req: RequestWithUser,
+  ) {
+    const calendar = await this.externalCalendarService.subscribe(
+      artistId,
+      createDto,
+      req.user.tenantId,
+      req.user.id,
+    );
+
+    return { data: calendar };
+  }
+
+  @Post(':artistId/external-calendars/upload')
+  @ApiOperation({ summary: 'Import an .ics file as busy time for an artist' })
+  @ApiConsumes('multipart/form-data')
+  @UseInterceptors(FileInterceptor('file', { limits: { fileSize: MAX_CALENDAR_BYTES } }))
+  async uploadExternalCalendar(
+    @Param('artistId') artistId: string,
+    @UploadedFile() file: Express.Multer.File | undefined,
+    @Body() uploadDto: UploadExternalCalendarDto,
+    @Req() req: RequestWithUser,
+  ) {
+    if (!file) {
+      throw new BadRequestException('Attach the calendar as "file"');
+    }
+
+    const calendar = await this.externalCalendarService.upload(
+      artistId,
+      file,
+      uploadDto.name,
+      req.user.tenantId,
+      req.user.id,
+    );
+
+    return { data: calendar };
+  }
+
+  @Post(':artistId/external-calendars/:id/sync')
+  @ApiOperation({ summary: 'Re-sync an external calendar now' })
+  async syncExternalCalendar(
+    @Param('artistId') artistId: string,
+    @Param('id') id: string,
+    @Req() req: RequestWithUser,
+  ) {
+    const calendar = await this.externalCalendarService.sync(id, artistId, req.user.tenantId);
+    return { data: calendar };
+  }
+
+  @Delete(':artistId/external-calendars/:id')
+  @ApiOperation({ summary: 'Remove an external calendar and its busy time' })
+  async removeExternalCalendar(
+    @Param('artistId') artistId: string,
+    @Param('id') id: string,
+    @Req() req: RequestWithUser,
+  ) {
+    return this.externalCalendarService.remove(id, artistId, req.user.tenantId);
+  }
+}
@@ -0,0 +1,284 @@
+import { Injectable, NotFoundException, BadRequestException } from '@nestjs/common';
+import {
+  addDays,
+  isValidTimeZone,
+  zonedTimeToUtc,
+} from '../../common/utils/time-zone';
+import { Booking } from '../../database/schema';
+import { HOLD_STATUSES } from './hold-ranking';
+import { BookingRepository, BookingStatus } from './repositories/booking.repository';
+import {
+  ArtistScheduleSettings,
+  AvailabilityRepository,
+} from './repositories/availability.repository';
+import { ExternalCalendarRepository } from './repositories/external-calendar.repository';
+import {
+  AvailabilityInputs,
+  BusyInterval,
+  TimeInterval,
+  availabilityWindows,
+  computeFreeBusy,
+  subtractIntervals,
+  workingDaySpan,
+} from './availability';
+import { CreateTimeOffDto } from './dto/create-time-off.dto';
+
+// Confirmed bookings and pencils make the artist busy, and so does a
+// first-ranked hold, which bookings_no_overlap_per_artist already treats
+// as taking the slot; lower-ranked holds only queue for it
+const CANDIDATE_STATUSES: BookingStatus[] = ['confirmed', ...HOLD_STATUSES];
+
+function isBlocking(booking: Pick<Booking, 'status' | 'holdRank'>) {
+  return booking.status !== 'hold' || booking.holdRank === 1;
+}
+
+export const MAX_RANGE_DAYS = 93;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface ArtistFreeBusy {
+  artistId: string;
+  timeZone: string;
+  from: Date;
+  to: Date;
+  free: TimeInterval[];
+  busy: BusyInterval[];
+}
+
+export interface WorkingTimeCheck {
+  timeZone: string;
+  // Parts of the requested time outside the artist's working windows
+  outside: TimeInterval[];
+}
+
+export interface WorkingDay extends TimeInterval {
+  // Local date in the artist's zone
+  date: string;
+}
+
+export interface AvailabilityCheck {
+  artistId: string;
+  startTime: Date;
+  endTime: Date;
+  available: boolean;
+  // Why the artist is busy, if they are
+  conflicts: BusyInterval[];
+}
+
+/**
+ * Answers when an artist can work: availability patterns layered by
+ * priority over the tenant's working hours, in the artist's time zone,
+ * minus the bookings that hold the slot, time off and busy time from the
+ * artist's external calendars.
+ */
+@Injectable()
+export class AvailabilityService {
+  constructor(
+    private readonly availabilityRepository: AvailabilityRepository,
+    private readonly bookingRepository: BookingRepository,
+    private readonly externalCalendarRepository: ExternalCalendarRepository,
+  ) {}
+
+  async freeBusy(tenantId: string, artistId: string, from: Date, to: Date): Promise<ArtistFreeBusy> {
+    const inputs = (await this.loadAvailability(tenantId, [artistId], from, to)).get(artistId);
+    if (!inputs) {
+      throw new NotFoundException('Artist not found');
+    }
+
+    return { artistId, timeZone: inputs.timeZone, from, to, ...computeFreeBusy(inputs) };
+  }
+
+  /**
+   * Everything availability is computed from, per artist, loaded in one
+   * query per source. Artists outside the tenant are left out.
+   */
+  async loadAvailability(
+    tenantId: string,
+    artistIds: string[],
+    from: Date,
+    to: Date,
+  ): Promise<Map<string, AvailabilityInputs>> {
+    if (to <= from) {
+      throw new BadRequestException('"to" must be after "from"');
+    }
+    if (to.getTime() - from.getTime() > MAX_RANGE_DAYS * DAY_MS) {
+      throw new BadRequestException(`Range can span at most ${MAX_RANGE_DAYS} days`);
+    }
+
+    const settings = await this.availabilityRepository.findScheduleSettings(artistIds, tenantId);
+    const ids = settings.map((s) => s.artistId);
+
+    const [patterns, bookings, timeOff, externalBusy] = await Promise.all([
+      this.availabilityRepository.findPatterns(ids, from, to),
+      this.bookingRepository.findOverlappingForArtists({
+        tenantId,
+        artistIds: ids,
+        startTime: from,
+        endTime: to,
+        statuses: CANDIDATE_STATUSES,
+      }).then((found) => found.filter(isBlocking)),
+      this.availabilityRepository.findTimeOff(ids, tenantId, from, to),
+      this.externalCalendarRepository.findBusyBlocks({
+        tenantId,
+        artistIds: ids,
+        startTime: from,
+        endTime: to,
+      }),
+    ]);
+
+    return new Map(
+      settings.map((artist) => [
+        artist.artistId,
+        {
+          from,
+          to,
+          timeZone: this.resolveTimeZone(artist),
+          workingHours: artist.workingHours,
+          patterns: patterns.filter((p) => p.artistId === artist.artistId),
+          bookings: bookings.filter((b) => b.artistId === artist.artistId),
+          timeOff: timeOff.filter((t) => t.artistId === artist.artistId),
+          externalBusy: externalBusy.filter((e) => e.artistId === artist.artistId),
+        },
+      ]),
+    );
+  }
+
+  async check(
+    tenantId: string,
+    artistId: string,
+    startTime: Date,
+    endTime: Date,
+  ): Promise<AvailabilityCheck> {
+    const { free, busy } = await this.freeBusy(tenantId, artistId, startTime, endTime);
+    const requested = [{ start: startTime, end: endTime }];
+
+    return {
+      artistId,
+      startTime,
+      endTime,
+      available: subtractIntervals(requested, free).length === 0,
+      conflicts: busy,
+    };
+  }
+
+  async createTimeOff(
+    artistId: string,
+    createDto: CreateTimeOffDto,
+    tenantId: string,
+    userId: string,
+  ) {
+    if (createDto.endTime <= createDto.startTime) {
+      throw new BadRequestException('End time must be after start time');
+    }
+
+    const [settings] = await this.availabilityRepository.findScheduleSettings([artistId], tenantId);
+    if (!settings) {
+      throw new NotFoundException('Artist not found');
+    }
+
+    return this.availabilityRepository.createTimeOff({
+      ...createDto,
+      tenantId,
+      artistId,
+      createdBy: userId,
+    });
+  }
+
+  async removeTimeOff(id: string, artistId: string, tenantId: string) {
+    const deleted = await this.availabilityRepository.deleteTimeOff(id, artistId, tenantId);
+    if (!deleted) {
+      throw new NotFoundException('Time off not found');
+    }
+
+    return { success: true };
+  }
+
+  /**
+   * How much of [startTime, endTime) falls outside the artist's working
+   * windows (patterns over the tenant's working hours, on the artist's
+   * local clock). Bookings and time off are not considered. Null if the
+   * artist isn't in the tenant.
+   */
+  async checkWorkingTime(
+    tenantId: string,
+    artistId: string,
+    startTime: Date,
+    endTime: Date,
+  ): Promise<WorkingTimeCheck | null> {
+    const [settings] = await this.availabilityRepository.findScheduleSettings([artistId], tenantId);
+    if (!settings) {
+      return null;
+    }
+
+    const timeZone = this.resolveTimeZone(settings);
+    const windows = availabilityWindows({
+      from: startTime,
+      to: endTime,
+      timeZone,
+      workingHours: settings.workingHours,
+      patterns: await this.availabilityRepository.findPatterns([artistId], startTime, endTime),
+    });
+
+    return { timeZone, outside: subtractIntervals([{ start: startTime, end: endTime }], windows) };
+  }
+
+  /**
+   * The artist's working time on each local date from `startDate` to
+   * `endDate` inclusive, one span per day; days off are left out. Null if
+   * the artist isn't in the tenant.
+   */
+  async workingDays(
+    tenantId: string,
+    artistId: string,
+    startDate: string,
+    endDate: string,
+  ): Promise<{ timeZone: string; days: WorkingDay[] } | null> {
+    const [settings] = await this.availabilityRepository.findScheduleSettings([artistId], tenantId);
+    if (!settings) {
+      return null;
+    }
+
+    const timeZone = this.resolveTimeZone(settings);
+    const from = zonedTimeToUtc(startDate, 0, timeZone);
+    const to = zonedTimeToUtc(addDays(endDate, 1), 0, timeZone);
+    if (to <= from) {
+      throw new BadRequestException('endDate must not be before startDate');
+    }
+    if (to.getTime() - from.getTime() > MAX_RANGE_DAYS * DAY_MS) {
+      throw new BadRequestException(`Range can span at most ${MAX_RANGE_DAYS} days`);
+    }
+
+    const inputs = {
+      timeZone,
+      workingHours: settings.workingHours,
+      patterns: await this.availabilityRepository.findPatterns([artistId], from, to),
+    };
+
+    const days: WorkingDay[] = [];
+    for (let date = startDate; date <= endDate; date = addDays(date, 1)) {
+      const span = workingDaySpan(date, inputs);
+      if (span) {
+        days.push({ date, ...span });
+      }
+    }
+
+    return { timeZone, days };
+  }
+
+  /**
+   * The zone the artist's schedule is read in, or null if the artist isn't
+   * in the tenant.
+   */
+  async artistTimeZone(tenantId: string, artistId: string): Promise<string | null> {
+    const [settings] = await this.availabilityRepository.findScheduleSettings([artistId], tenantId);
+    return settings ? this.resolveTimeZone(settings) : null;
+  }
+
+  // Artist profile zone, then the tenant's, then UTC; invalid names are skipped
+  private resolveTimeZone(settings: ArtistScheduleSettings): string {
+    return (
+      [settings.artistTimeZone, settings.tenantTimeZone].find(
+        (zone): zone is string => !!zone && isValidTimeZone(zone),
+      ) ?? 'UTC'
+    );
+  }
+}
@@ -0,0 +1,183 @@
+import {
+  AvailabilityInputs,
+  availabilityWindows,
+  computeFreeBusy,
+  mergeIntervals,
+  subtractIntervals,
+  workingDaySpan,
+} from './availability';
+
+type Pattern = AvailabilityInputs['patterns'][number];
+
+const at = (value: string) => new Date(value);
+const interval = (start: string, end: string) => ({ start: at(start), end: at(end) });
+
+function pattern(overrides: Partial<Pattern> & Pick<Pattern, 'pattern'>): Pattern {
+  return {
+    id: 'pattern-1',
+    artistId: 'artist-1',
+    name: null,
+    validFrom: null,
+    validUntil: null,
+    priority: 0,
+    createdAt: at('2026-01-01T00:00:00Z'),
+    ...overrides,
+  };
+}
+
+describe('availability', () => {
+  describe('interval arithmetic', () => {
+    it('merges overlapping and touching intervals', () => {
+      expect(
+        mergeIntervals([
+          interval('2026-10-19T12:00:00Z', '2026-10-19T14:00:00Z'),
+          interval('2026-10-19T09:00:00Z', '2026-10-19T10:00:00Z'),
+          interval('2026-10-19T10:00:00Z', '2026-10-19T11:00:00Z'),
+          interval('2026-10-19T13:00:00Z', '2026-10-19T15:00:00Z'),
+        ]),
+      ).toEqual([
+        interval('2026-10-19T09:00:00Z', '2026-10-19T11:00:00Z'),
+        interval('2026-10-19T12:00:00Z', '2026-10-19T15:00:00Z'),
+      ]);
+    });
+
+    it('subtracts cuts, leaving the uncovered pieces', () => {
+      expect(
+        subtractIntervals(
+          [interval('2026-10-19T09:00:00Z', '2026-10-19T17:00:00Z')],
+          [
+            interval('2026-10-19T10:00:00Z', '2026-10-19T11:00:00Z'),
+            interval('2026-10-19T16:00:00Z', '2026-10-19T18:00:00Z'),
+          ],
+        ),
+      ).toEqual([
+        interval('2026-10-19T09:00:00Z', '2026-10-19T10:00:00Z'),
+        interval('2026-10-19T11:00:00Z', '2026-10-19T16:00:00Z'),
+      ]);
+    });
+  });
+
+  describe('availabilityWindows', () => {
+    const week = {
+      from: at('2026-10-19T00:00:00Z'),
+      to: at('2026-10-21T00:00:00Z'),
+      timeZone: 'UTC',
+    };
+
+    it('falls back to the tenant working hours', () => {
+      expect(
+        availabilityWindows({
+          ...week,
+          workingHours: { start: '09:00', end: '17:00' },
+          patterns: [],
+        }),
+      ).toEqual([
+        interval('2026-10-19T09:00:00Z', '2026-10-19T17:00:00Z'),
+        interval('2026-10-20T09:00:00Z', '2026-10-20T17:00:00Z'),
+      ]);
+    });
+
+    it('treats days a weekly pattern leaves out as off', () => {
+      expect(
+        availabilityWindows({
+          ...week,
+          workingHours: { start: '09:00', end: '17:00' },
+          patterns: [
+            pattern({
+              pattern: {
+                type: 'weekly',
+                weekly: [{ dayOfWeek: 1, startTime: '10:00', endTime: '14:00' }],
+              },
+            }),
+          ],
+        }),
+      ).toEqual([interval('2026-10-19T10:00:00Z', '2026-10-19T14:00:00Z')]);
+    });
+
+    it('lets a higher-priority custom entry cut into the layer below', () => {
+      expect(
+        availabilityWindows({
+          ...week,
+          workingHours: { start: '09:00', end: '17:00' },
+          patterns: [
+            pattern({
+              id: 'pattern-2',
+              priority: 10,
+              pattern: {
+                type: 'custom',
+                custom: [
+                  { date: '2026-10-20', available: false, startTime: '12:00', endTime: '13:00' },
+                ],
+              },
+            }),
+          ],
+        }),
+      ).toEqual([
+        interval('2026-10-19T09:00:00Z', '2026-10-19T17:00:00Z'),
+        interval('2026-10-20T09:00:00Z', '2026-10-20T12:00:00Z'),
+        interval('2026-10-20T13:00:00Z', '2026-10-20T17:00:00Z'),
+      ]);
+    });
+
+    it('runs a night shift past midnight', () => {
+      expect(
+        availabilityWindows({
+          from: at('2026-10-19T00:00:00Z'),
+          to: at('2026-10-20T12:00:00Z'),
+          timeZone: 'UTC',
+          workingHours: { start: '22:00', end: '06:00' },
+          patterns: [],
+        }),
+      ).toEqual([
+        interval('2026-10-19T00:00:00Z', '2026-10-19T06:00:00Z'),
+        interval('2026-10-19T22:00:00Z', '2026-10-20T06:00:00Z'),
+      ]);
+    });
+  });
+
+  it('keeps the local hours of a working day across a DST change', () => {
+    const inputs = {
+      timeZone: 'America/New_York',
+      workingHours: { start: '09:00', end: '17:00' },
+      patterns: [],
+    };
+
+    expect(workingDaySpan('2026-03-06', inputs)).toEqual(
+      interval('2026-03-06T14:00:00Z', '2026-03-06T22:00:00Z'),
+    );
+    expect(workingDaySpan('2026-03-09', inputs)).toEqual(
+      interval('2026-03-09T13:00:00Z', '2026-03-09T21:00:00Z'),
+    );
+  });
+
+  it('takes bookings, time off and external events out of the free time', () => {
+    const { free, busy } = computeFreeBusy({
+      from: at('2026-10-19T00:00:00Z'),
+      to: at('2026-10-20T00:00:00Z'),
+      timeZone: 'UTC',
+      workingHours: { start: '09:00', end: '17:00' },
+      patterns: [],
+      bookings: [
+        { id: 'b1', startTime: at('2026-10-19T09:00:00Z'), endTime: at('2026-10-19T11:00:00Z') },
+      ],
+      timeOff: [
+        { id: 't1', startTime: at('2026-10-19T13:00:00Z'), endTime: at('2026-10-19T14:00:00Z') },
+      ],
+      externalBusy: [
+        { id: 'e1', startTime: at('2026-10-19T16:00:00Z'), endTime: at('2026-10-19T18:00:00Z') },
+      ],
+    });
+
+    expect(free).toEqual([
+      interval('2026-10-19T11:00:00Z', '2026-10-19T13:00:00Z'),
+      interval('2026-10-19T14:00:00Z', '2026-10-19T16:00:00Z'),
+    ]);
+    expect(busy.map(({ kind, sourceId }) => [kind, sourceId])).toEqual([
+      ['unavailable', undefined],
+      ['booking', 'b1'],
+      ['time_off', 't1'],
+      ['external', 'e1'],
+      ['unavailable', undefined],
+    ]);
+  });
+});
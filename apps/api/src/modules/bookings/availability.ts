@@ -0,0 +1,291 @@
+import { availabilityPatterns } from '../../database/schema';
+import {
+  addDays,
+  dayOfWeek,
+  localDate,
+  parseClockTime,
+  zonedTimeToUtc,
+} from '../../common/utils/time-zone';
+
+type AvailabilityPatternRow = typeof availabilityPatterns.$inferSelect;
+
+export interface TimeInterval {
+  start: Date;
+  end: Date;
+}
+
+export type BusyKind =
+  // Outside the artist's working windows
+  | 'unavailable'
+  | 'booking'
+  | 'time_off'
+  // Event on one of the artist's external calendars
+  | 'external';
+
+export interface BusyInterval extends TimeInterval {
+  kind: BusyKind;
+  // Booking, time-off or external busy block id
+  sourceId?: string;
+}
+
+export interface FreeBusy {
+  free: TimeInterval[];
+  busy: BusyInterval[];
+}
+
+export interface AvailabilityInputs {
+  from: Date;
+  to: Date;
+  timeZone: string;
+  // Tenant default, used on days no pattern covers
+  workingHours?: { start: string; end: string };
+  patterns: AvailabilityPatternRow[];
+  bookings: Array<{ id: string; startTime: Date; endTime: Date }>;
+  timeOff: Array<{ id: string; startTime: Date; endTime: Date }>;
+  externalBusy: Array<{ id: string; startTime: Date; endTime: Date }>;
+}
+
+const FULL_DAY: [number, number] = [0, 24 * 60];
+
+/**
+ * Sorts and coalesces overlapping or touching intervals.
+ */
+export function mergeIntervals(intervals: TimeInterval[]): TimeInterval[] {
+  const sorted = intervals
+    .filter((interval) => interval.end > interval.start)
+    .sort((a, b) => a.start.getTime() - b.start.getTime());
+
+  const merged: TimeInterval[] = [];
+  for (const interval of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && interval.start <= last.end) {
+      if (interval.end > last.end) {
+        last.end = interval.end;
+      }
+    } else {
+      merged.push({ start: interval.start, end: interval.end });
+    }
+  }
+  return merged;
+}
+
+/**
+ * The parts of `intervals` not covered by any of `cuts`.
+ */
+export function subtractIntervals(intervals: TimeInterval[], cuts: TimeInterval[]): TimeInterval[] {
+  const mergedCuts = mergeIntervals(cuts);
+  const remaining: TimeInterval[] = [];
+
+  for (const interval of mergeIntervals(intervals)) {
+    let start = interval.start;
+    for (const cut of mergedCuts) {
+      if (cut.end <= start || cut.start >= interval.end) {
+        continue;
+      }
+      if (cut.start > start) {
+        remaining.push({ start, end: cut.start });
+      }
+      if (cut.end > start) {
+        start = cut.end;
+      }
+    }
+    if (start < interval.end) {
+      remaining.push({ start, end: interval.end });
+    }
+  }
+
+  return remaining;
+}
+
+function clip<T extends TimeInterval>(interval: T, from: Date, to: Date): T | null {
+  const start = interval.start > from ? interval.start : from;
+  const end = interval.end < to ? interval.end : to;
+  return end > start ? { ...interval, start, end } : null;
+}
+
+// Minutes past midnight; an end at or before the start runs past midnight
+function clockRange(startTime: string | undefined, endTime: string | undefined): [number, number] | null {
+  const start = startTime === undefined ? FULL_DAY[0] : parseClockTime(startTime);
+  const end = endTime === undefined ? FULL_DAY[1] : parseClockTime(endTime);
+  if (start === null || end === null) {
+    return null;
+  }
+  return end > start ? [start, end] : [start, end + FULL_DAY[1]];
+}
+
+function appliesOn(row: AvailabilityPatternRow, date: string): boolean {
+  return (
+    (!row.validFrom || row.validFrom.toISOString().slice(0, 10) <= date) &&
+    (!row.validUntil || row.validUntil.toISOString().slice(0, 10) >= date)
+  );
+}
+
+function subtractRanges(ranges: Array<[number, number]>, cut: [number, number]) {
+  return ranges.flatMap(([start, end]): Array<[number, number]> => {
+    if (cut[1] <= start || cut[0] >= end) {
+      return [[start, end]];
+    }
+    const pieces: Array<[number, number]> = [];
+    if (cut[0] > start) pieces.push([start, cut[0]]);
+    if (cut[1] < end) pieces.push([cut[1], end]);
+    return pieces;
+  });
+}
+
+/**
+ * Working windows for one local date, as minute ranges. Patterns are
+ * consulted from highest priority down; the first one with an opinion on
+ * the date decides it. A weekly pattern has an opinion on every day (days
+ * it doesn't list are off). A custom pattern only on the dates it lists:
+ * its available entries replace the lower layers' windows, unavailable
+ * entries cut into whatever is left. Below all patterns sit the tenant's
+ * working hours, and below those the whole day.
+ */
+function dayWindows(
+  date: string,
+  patterns: AvailabilityPatternRow[],
+  workingHours: AvailabilityInputs['workingHours'],
+): Array<[number, number]> {
+  const [row, ...lower] = patterns;
+
+  if (!row) {
+    const hours = workingHours ? clockRange(workingHours.start, workingHours.end) : FULL_DAY;
+    return hours ? [hours] : [];
+  }
+
+  if (!appliesOn(row, date)) {
+    return dayWindows(date, lower, workingHours);
+  }
+
+  const pattern = row.pattern;
+
+  if (pattern.type === 'weekly') {
+    const weekday = dayOfWeek(date);
+    return (pattern.weekly ?? [])
+      .filter((entry) => entry.dayOfWeek === weekday)
+      .map((entry) => clockRange(entry.startTime, entry.endTime))
+      .filter((range): range is [number, number] => range !== null);
+  }
+
+  const entries = (pattern.custom ?? []).filter((entry) => entry.date.slice(0, 10) === date);
+  if (entries.length === 0) {
+    return dayWindows(date, lower, workingHours);
+  }
+
+  const available = entries.filter((entry) => entry.available);
+  let windows =
+    available.length > 0
+      ? available
+          .map((entry) => clockRange(entry.startTime, entry.endTime))
+          .filter((range): range is [number, number] => range !== null)
+      : dayWindows(date, lower, workingHours);
+
+  for (const entry of entries.filter((e) => !e.available)) {
+    const cut = clockRange(entry.startTime, entry.endTime);
+    if (cut) {
+      windows = subtractRanges(windows, cut);
+    }
+  }
+
+  return windows;
+}
+
+function byPriority(patterns: AvailabilityPatternRow[]): AvailabilityPatternRow[] {
+  return [...patterns].sort((a, b) => (b.priority ?? 0) - (a.priority ?? 0));
+}
+
+/**
+ * When the artist works between `from` and `to`, evaluated day by day on
+ * their local calendar.
+ */
+export function availabilityWindows(
+  inputs: Pick<AvailabilityInputs, 'from' | 'to' | 'timeZone' | 'workingHours' | 'patterns'>,
+): TimeInterval[] {
+  const { from, to, timeZone } = inputs;
+  const patterns = byPriority(inputs.patterns);
+  const windows: TimeInterval[] = [];
+
+  // Start a day early for windows that run past midnight into `from`
+  for (
+    let date = addDays(localDate(from, timeZone), -1);
+    zonedTimeToUtc(date, 0, timeZone) < to;
+    date = addDays(date, 1)
+  ) {
+    for (const [start, end] of dayWindows(date, patterns, inputs.workingHours)) {
+      windows.push({
+        start: zonedTimeToUtc(date, start, timeZone),
+        end: zonedTimeToUtc(date, end, timeZone),
+      });
+    }
+  }
+
+  return mergeIntervals(windows)
+    .map((window) => clip(window, from, to))
+    .filter((window): window is TimeInterval => window !== null);
+}
+
+/**
+ * One local date's working time as a single span, from the start of its
+ * first window to the end of its last; null on a day off. The date is read
+ * on its own wall clock, so the span keeps its local hours across DST
+ * changes.
+ */
+export function workingDaySpan(
+  date: string,
+  inputs: Pick<AvailabilityInputs, 'timeZone' | 'workingHours' | 'patterns'>,
+): TimeInterval | null {
+  const windows = dayWindows(date, byPriority(inputs.patterns), inputs.workingHours);
+  if (windows.length === 0) {
+    return null;
+  }
+
+  return {
+    start: zonedTimeToUtc(date, Math.min(...windows.map(([start]) => start)), inputs.timeZone),
+    end: zonedTimeToUtc(date, Math.max(...windows.map(([, end]) => end)), inputs.timeZone),
+  };
+}
+
+/**
+ * Free time is the working windows minus bookings, time off and external
+ * calendar events. Busy time
+ * lists every reason separately, so intervals of different kinds may
+ * overlap.
+ */
+export function computeFreeBusy(inputs: AvailabilityInputs): FreeBusy {
+  const { from, to } = inputs;
+  const windows = availabilityWindows(inputs);
+
+  const blocks: BusyInterval[] = [
+    ...inputs.bookings.map((b) => ({
+      start: b.startTime,
+      end: b.endTime,
+      kind: 'booking' as const,
+      sourceId: b.id,
+    })),
+    ...inputs.timeOff.map((t) => ({
+      start: t.startTime,
+      end: t.endTime,
+      kind: 'time_off' as const,
+      sourceId: t.id,
+    })),
+    ...inputs.externalBusy.map((e) => ({
+      start: e.startTime,
+      end: e.endTime,
+      kind: 'external' as const,
+      sourceId: e.id,
+    })),
+  ];
+
+  const busy = [
+    ...subtractIntervals([{ start: from, end: to }], windows).map((interval) => ({
+      ...interval,
+      kind: 'unavailable' as const,
+    })),
+    ...blocks,
+  ]
+    .map((interval) => clip(interval, from, to))
+    .filter((interval): interval is BusyInterval => interval !== null)
+    .sort((a, b) => a.start.getTime() - b.start.getTime());
+
+  return { free: subtractIntervals(windows, blocks), busy };
+}
@@ -0,0 +1,320 @@
+import {
+  Injectable,
+  Inject,
+  NotFoundException,
+  ConflictException,
+  BadRequestException,
+  ForbiddenException,
+} from '@nestjs/common';
+import { DrizzleDatabase, DrizzleTransaction } from '../../common/types/drizzle.types';
+import { Booking } from '../../database/schema';
+import { BookingsService } from './bookings.service';
+import { isHold } from './hold-ranking';
+import { lockArtists } from './hold-ranking.service';
+import { ApprovalRules, DEFAULT_APPROVER_ROLES, approvalReasons, isApprover } from './approval';
+import { BookingApprovalEventType } from './booking-events';
+import { BookingEventRepository } from './repositories/booking-event.repository';
+import {
+  BookingApprovalRecord,
+  BookingApprovalRepository,
+  BookingApprovalStatus,
+} from './repositories/booking-approval.repository';
+import { NotificationService } from '../notification/notification.service';
+import { RequestApprovalDto } from './dto/request-approval.dto';
+
+// The signed-in user acting on a request
+export interface ApprovalActor {
+  id: string;
+  role: string;
+}
+
+/**
+ * Approval requests for holds over the tenant's cost or duration
+ * thresholds. Approving a request confirms its hold; every request and
+ * decision is also appended to the booking's event stream, and the people
+ * on the other side are notified.
+ */
+@Injectable()
+export class BookingApprovalService {
+  constructor(
+    @Inject('DATABASE_CONNECTION') private readonly db: DrizzleDatabase,
+    private readonly bookingApprovalRepository: BookingApprovalRepository,
+    private readonly bookingEventRepository: BookingEventRepository,
+    private readonly bookingsService: BookingsService,
+    private readonly notificationService: NotificationService,
+  ) {}
+
+  async findAll(filters: { tenantId: string; status?: BookingApprovalStatus; bookingId?: string }) {
+    return this.bookingApprovalRepository.findAll(filters);
+  }
+
+  async findOne(id: string, tenantId: string, tx?: DrizzleTransaction) {
+    const approval = await this.bookingApprovalRepository.findOne(id, tenantId, tx);
+    if (!approval) {
+      throw new NotFoundException('Approval request not found');
+    }
+
+    return approval;
+  }
+
+  /**
+   * Opens a request for the hold at the version the client read. Asking
+   * again for an unchanged booking returns the open request; a request for
+   * an earlier version is superseded.
+   */
+  async request(requestDto: RequestApprovalDto, tenantId: string, userId: string) {
+    return this.db.transaction(async (tx) => {
+      const booking = await this.bookingsService.findOne(requestDto.bookingId, tenantId, tx);
+      this.bookingsService.assertVersion(booking, requestDto.version);
+
+      if (!isHold(booking.status)) {
+        throw new BadRequestException(`A ${booking.status} booking has nothing to approve`);
+      }
+
+      // Serializes requests for the booking, which may have only one open
+      await lockArtists(tx, [booking.artistId]);
+
+      const rules = await this.approvalRules(tenantId, tx);
+      const reasons = approvalReasons(booking, rules);
+      if (reasons.length === 0) {
+        throw new BadRequestException('Booking can be confirmed without approval');
+      }
+
+      const pending = await this.bookingApprovalRepository.findPending(booking.id, tenantId, tx);
+      if (pending?.bookingVersion === booking.version) {
+        return pending;
+      }
+      if (pending) {
+        await this.bookingApprovalRepository.update(pending.id, { status: 'superseded' }, tx);
+      }
+
+      const approval = await this.bookingApprovalRepository.create(
+        {
+          tenantId,
+          bookingId: booking.id,
+          bookingVersion: booking.version,
+          reasons,
+          note: requestDto.note,
+          requestedBy: userId,
+        },
+        tx,
+      );
+
+      await this.recordEvent(tx, booking, 'approval_requested', userId, {
+        approvalId: approval.id,
+        reasons,
+        note: approval.note,
+        supersedes: pending?.id ?? null,
+      });
+
+      const approvers = await this.approverIds(tenantId, rules, tx);
+      await this.notify(
+        tx,
+        approval,
+        'approval_requested',
+        approvers.filter((id) => id !== userId),
+        { bookingTitle: booking.title, artistId: booking.artistId, reasons },
+      );
+
+      return approval;
+    });
+  }
+
+  /**
+   * Confirms the hold; fails if the booking changed since the request. The
+   * requester can't approve their own request, even as an approver.
+   */
+  async approve(id: string, note: string | undefined, tenantId: string, actor: ApprovalActor) {
+    const { approval, mutation } = await this.bookingsService.withConstraintHandling(() =>
+      this.db.transaction(async (tx) => {
+        const pending = await this.loadForDecision(tx, id, tenantId, actor);
+        if (pending.requestedBy === actor.id) {
+          throw new ForbiddenException('Approval requests cannot be approved by their requester');
+        }
+
+        const booking = await this.bookingsService.findOne(pending.bookingId, tenantId, tx);
+
+        if (booking.version !== pending.bookingVersion) {
+          throw new ConflictException({
+            error: 'BOOKING_CHANGED',
+            message: 'Booking changed since approval was requested; request approval again',
+            details: { requestedVersion: pending.bookingVersion, currentVersion: booking.version },
+          });
+        }
+
+        await lockArtists(tx, [booking.artistId]);
+
+        const approval = await this.decide(tx, pending, booking, 'approved', note, actor);
+        const mutation = await this.bookingsService.confirmWithin(
+          tx,
+          booking,
+          booking.version,
+          actor.id,
+          { approvalId: approval.id },
+        );
+
+        return { approval, mutation };
+      }),
+    );
+
+    return { approval, booking: this.bookingsService.broadcastMutation(mutation) };
+  }
+
+  // The booking stays a hold
+  async reject(id: string, note: string | undefined, tenantId: string, actor: ApprovalActor) {
+    return this.db.transaction(async (tx) => {
+      const pending = await this.loadForDecision(tx, id, tenantId, actor);
+      const booking = await this.bookingsService.findOne(pending.bookingId, tenantId, tx);
+
+      return this.decide(tx, pending, booking, 'rejected', note, actor);
+    });
+  }
+
+  // Open to approvers and the requester, whatever state the request is in
+  async comment(id: string, body: string, tenantId: string, actor: ApprovalActor) {
+    return this.db.transaction(async (tx) => {
+      const approval = await this.findOne(id, tenantId, tx);
+      const rules = await this.approvalRules(tenantId, tx);
+
+      if (actor.id !== approval.requestedBy && !isApprover(actor, rules)) {
+        throw new ForbiddenException('Only approvers and the requester can comment');
+      }
+
+      const commented = await this.bookingApprovalRepository.addComment(
+        id,
+        { userId: actor.id, body, createdAt: new Date().toISOString() },
+        tx,
+      );
+
+      const approvers = await this.approverIds(tenantId, rules, tx);
+      await this.notify(
+        tx,
+        commented,
+        'approval_commented',
+        [approval.requestedBy, ...approvers].filter((userId) => userId !== actor.id),
+        { body },
+      );
+
+      return commented;
+    });
+  }
+
+  private async loadForDecision(
+    tx: DrizzleTransaction,
+    id: string,
+    tenantId: string,
+    actor: ApprovalActor,
+  ): Promise<BookingApprovalRecord> {
+    const approval = await this.bookingApprovalRepository.findOneForUpdate(id, tenantId, tx);
+    if (!approval) {
+      throw new NotFoundException('Approval request not found');
+    }
+
+    if (!isApprover(actor, await this.approvalRules(tenantId, tx))) {
+      throw new ForbiddenException('Only approvers can decide approval requests');
+    }
+
+    if (approval.status !== 'pending') {
+      throw new ConflictException({
+        error: 'APPROVAL_DECIDED',
+        message: `Approval request is already ${approval.status}`,
+        details: { status: approval.status, decidedBy: approval.decidedBy },
+      });
+    }
+
+    return approval;
+  }
+
+  private async decide(
+    tx: DrizzleTransaction,
+    pending: BookingApprovalRecord,
+    booking: Booking,
+    status: 'approved' | 'rejected',
+    note: string | undefined,
+    actor: ApprovalActor,
+  ): Promise<BookingApprovalRecord> {
+    const approval = await this.bookingApprovalRepository.update(
+      pending.id,
+      { status, decidedBy: actor.id, decidedAt: new Date(), decisionNote: note },
+      tx,
+    );
+
+    await this.recordEvent(
+      tx,
+      booking,
+      status === 'approved' ? 'approval_granted' : 'approval_rejected',
+      actor.id,
+      { approvalId: approval.id, note: note ?? null },
+    );
+
+    await this.notify(
+      tx,
+      approval,
+      status === 'approved' ? 'approval_approved' : 'approval_rejected',
+      [approval.requestedBy].filter((userId) => userId !== actor.id),
+      { bookingTitle: booking.title, note: note ?? null },
+    );
+
+    return approval;
+  }
+
+  private async recordEvent(
+    tx: DrizzleTransaction,
+    booking: Booking,
+    eventType: BookingApprovalEventType,
+    userId: string,
+    context: Record<string, unknown>,
+  ) {
+    await this.bookingEventRepository.ensureStream(booking, tx);
+    await this.bookingEventRepository.append(
+      {
+        aggregateId: booking.id,
+        tenantId: booking.tenantId,
+        eventType,
+        eventData: { context },
+        userId,
+      },
+      tx,
+    );
+  }
+
+  private async notify(
+    tx: DrizzleTransaction,
+    approval: BookingApprovalRecord,
+    type: string,
+    userIds: string[],
+    payload: Record<string, unknown>,
+  ) {
+    for (const userId of new Set(userIds)) {
+      await this.notificationService.createNotification(
+        {
+          tenantId: approval.tenantId,
+          userId,
+          type,
+          channel: 'in-app',
+          payload: { approvalId: approval.id, bookingId: approval.bookingId, ...payload },
+        },
+        tx,
+      );
+    }
+  }
+
+  private async approvalRules(tenantId: string, tx: DrizzleTransaction): Promise<ApprovalRules> {
+    return (await this.bookingsService.loadBookingRules(tenantId, tx)).approval ?? {};
+  }
+
+  private async approverIds(
+    tenantId: string,
+    rules: ApprovalRules,
+    tx: DrizzleTransaction,
+  ): Promise<string[]> {
+    const approvers = await this.bookingApprovalRepository.findUsersWithRoles(
+      tenantId,
+      rules.approverRoles ?? DEFAULT_APPROVER_ROLES,
+      rules.approverUserIds,
+      tx,
+    );
+
+    return approvers.map((user) => user.id);
+  }
+}
@@ -0,0 +1,114 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  UseInterceptors,
+  Req,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiBearerAuth } from '@nestjs/swagger';
+import { BookingApprovalService } from './booking-approval.service';
+import { RequestApprovalDto } from './dto/request-approval.dto';
+import { DecideApprovalDto } from './dto/decide-approval.dto';
+import { ApprovalCommentDto } from './dto/approval-comment.dto';
+import { ApprovalQueryDto } from './dto/approval-query.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { TenantGuard } from '../auth/guards/tenant.guard';
+import { RequestWithUser } from '../auth/interfaces/request-with-user.interface';
+import { TimeZoneInterceptor } from '../../common/interceptors/time-zone.interceptor';
+
+@ApiTags('bookings')
+@ApiBearerAuth()
+@Controller('booking-approvals')
+@UseGuards(JwtAuthGuard, TenantGuard)
+@UseInterceptors(TimeZoneInterceptor)
+export class BookingApprovalsController {
+  constructor(private readonly bookingApprovalService: BookingApprovalService) {}
+
+  @Post()
+  @ApiOperation({ summary: 'Ask for approval to confirm a hold over the approval thresholds' })
+  async request(@Body() requestDto: RequestApprovalDto, @Req() req: RequestWithUser) {
+    const approval = await this.bookingApprovalService.request(
+      requestDto,
+      req.user.tenantId,
+      req.user.id,
+    );
+
+    return { data: approval };
+  }
+
+  @Get()
+  @ApiOperation({ summary: 'List approval requests' })
+  async findAll(@Query() query: ApprovalQueryDto, @Req() req: RequestWithUser) {
+    const approvals = await this.bookingApprovalService.findAll({
+      tenantId: req.user.tenantId,
+      status: query.status,
+      bookingId: query.bookingId,
+    });
+
+    return { data: approvals };
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get approval request' })
+  async findOne(@Param('id') id: string, @Req() req: RequestWithUser) {
+    const approval = await this.bookingApprovalService.findOne(id, req.user.tenantId);
+    return { data: approval };
+  }
+
+  @Post(':id/approve')
+  @ApiOperation({
+    summary: 'Approve a request, confirming its booking (approvers other than the requester)',
+  })
+  async approve(
+    @Param('id') id: string,
+    @Body() decideDto: DecideApprovalDto,
+    @Req() req: RequestWithUser,
+  ) {
+    const result = await this.bookingApprovalService.approve(
+      id,
+      decideDto.note,
+      req.user.tenantId,
+      req.user,
+    );
+
+    return { data: result };
+  }
+
+  @Post(':id/reject')
+  @ApiOperation({ summary: 'Reject a request; the booking stays a hold (approvers only)' })
+  async reject(
+    @Param('id') id: string,
+    @Body() decideDto: DecideApprovalDto,
+    @Req() req: RequestWithUser,
+  ) {
+    const approval = await this.bookingApprovalService.reject(
+      id,
+      decideDto.note,
+      req.user.tenantId,
+      req.user,
+    );
+
+    return { data: approval };
+  }
+
+  @Post(':id/comments')
+  @ApiOperation({ summary: 'Comment on a request (approvers and the requester)' })
+  async comment(
+    @Param('id') id: string,
+    @Body() commentDto: ApprovalCommentDto,
+    @Req() req: RequestWithUser,
+  ) {
+    const approval = await this.bookingApprovalService.comment(
+      id,
+      commentDto.body,
+      req.user.tenantId,
+      req.user,
+    );
+
+    return { data: approval };
+  }
+}
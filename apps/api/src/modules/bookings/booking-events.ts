@@ -0,0 +1,82 @@
+import { bookings } from '../../database/schema';
+
+/**
+ * Event contract for the booking aggregate. booking_events is the source of
+ * truth; the bookings row is a projection that replayBooking() can rebuild
+ * from these payloads alone.
+ */
+
+export type BookingRow = typeof bookings.$inferSelect;
+
+// Columns an event may change; identity and bookkeeping are derived on replay
+export type BookingChanges = Partial<
+  Omit<typeof bookings.$inferInsert, 'id' | 'tenantId' | 'version' | 'createdAt' | 'updatedAt'>
+>;
+
+// Open the aggregate with a full snapshot of the row
+export const BOOKING_CREATION_EVENTS = ['booking_created', 'hold_created'] as const;
+
+// Carry the columns they changed, plus optional domain context
+export const BOOKING_CHANGE_EVENTS = [
+  'booking_updated',
+  'booking_cancelled',
+  'booking_completed',
+  'hold_converted',
+  'hold_expired',
+  'hold_promoted',
+  'hold_challenged',
+  'booking_moved',
+  'booking_resized',
+  'booking_split',
+  'booking_swapped',
+] as const;
+
+// Record a decision about the booking without changing it; replay skips them
+export const BOOKING_APPROVAL_EVENTS = [
+  'approval_requested',
+  'approval_granted',
+  'approval_rejected',
+] as const;
+
+export const BOOKING_EVENT_TYPES = [
+  ...BOOKING_CREATION_EVENTS,
+  ...BOOKING_CHANGE_EVENTS,
+  ...BOOKING_APPROVAL_EVENTS,
+  'booking_deleted',
+] as const;
+
+export type BookingCreationEventType = (typeof BOOKING_CREATION_EVENTS)[number];
+export type BookingChangeEventType = (typeof BOOKING_CHANGE_EVENTS)[number];
+export type BookingApprovalEventType = (typeof BOOKING_APPROVAL_EVENTS)[number];
+export type BookingAggregateEventType = (typeof BOOKING_EVENT_TYPES)[number];
+
+export interface BookingCreatedData {
+  snapshot: BookingRow;
+}
+
+export interface BookingChangedData {
+  changes: BookingChanges;
+  context?: Record<string, unknown>;
+}
+
+export interface BookingDeletedData {
+  context?: Record<string, unknown>;
+}
+
+export interface BookingApprovalData {
+  context: Record<string, unknown>;
+}
+
+export type TypedBookingEvent =
+  | { eventType: BookingCreationEventType; eventData: BookingCreatedData }
+  | { eventType: BookingChangeEventType; eventData: BookingChangedData }
+  | { eventType: BookingApprovalEventType; eventData: BookingApprovalData }
+  | { eventType: 'booking_deleted'; eventData: BookingDeletedData };
+
+export function isCreationEvent(eventType: string): eventType is BookingCreationEventType {
+  return (BOOKING_CREATION_EVENTS as readonly string[]).includes(eventType);
+}
+
+export function isChangeEvent(eventType: string): eventType is BookingChangeEventType {
+  return (BOOKING_CHANGE_EVENTS as readonly string[]).includes(eventType);
+}
@@ -0,0 +1,194 @@
+import { Injectable, BadRequestException, Logger } from '@nestjs/common';
+import { BookingRow } from './booking-events';
+import { groupEventsByAggregate, replayBooking } from './booking-projection';
+import {
+  BookingEventRecord,
+  BookingEventRepository,
+} from './repositories/booking-event.repository';
+
+export interface BookingMove {
+  booking: BookingRow;
+  previous: Pick<BookingRow, 'artistId' | 'startTime' | 'endTime'>;
+}
+
+export interface BookingStatusChange {
+  booking: BookingRow;
+  previousStatus: BookingRow['status'];
+}
+
+export interface ArtistScheduleDiff {
+  artistId: string;
+  added: BookingRow[];
+  moved: BookingMove[];
+  cancelled: BookingRow[];
+  // Hard-deleted between the two timestamps
+  removed: BookingRow[];
+  // Same slot, different status (e.g. a hold that was confirmed)
+  statusChanged: BookingStatusChange[];
+}
+
+export interface ScheduleDiff {
+  from: Date;
+  to: Date;
+  artists: ArtistScheduleDiff[];
+}
+
+function isActive(booking: BookingRow | undefined): booking is BookingRow {
+  return booking !== undefined && booking.status !== 'cancelled';
+}
+
+/**
+ * Point-in-time views of the schedule, reconstructed by replaying
+ * booking_events. Bookings only have history from their first event, so
+ * rows written before event sourcing appear from their first write since.
+ * Only the streams of bookings that can fall in the requested window are
+ * loaded, and a stream that does not replay is logged and left out rather
+ * than failing the whole view.
+ */
+@Injectable()
+export class BookingHistoryService {
+  private readonly logger = new Logger(BookingHistoryService.name);
+
+  constructor(private readonly bookingEventRepository: BookingEventRepository) {}
+
+  /**
+   * The tenant's bookings as they stood at `at`, including cancelled ones,
+   * ordered by start time.
+   */
+  async scheduleAsOf(
+    tenantId: string,
+    at: Date,
+    filters: { artistId?: string; startDate?: Date; endDate?: Date } = {},
+  ): Promise<BookingRow[]> {
+    const state = this.stateAt(
+      await this.bookingEventRepository.findByTenant(tenantId, { until: at, ...filters }),
+      at,
+    );
+
+    return [...state.values()]
+      .filter(
+        (booking) =>
+          (!filters.artistId || booking.artistId === filters.artistId) &&
+          (!filters.startDate || booking.endTime > filters.startDate) &&
+          (!filters.endDate || booking.startTime < filters.endDate),
+      )
+      .sort((a, b) => a.startTime.getTime() - b.startTime.getTime());
+  }
+
+  /**
+   * What changed between two points in time, grouped by artist. Moved
+   * bookings are listed under the artist they ended up with. Only bookings
+   * written between the two are loaded; both states come from one read.
+   */
+  async diff(
+    tenantId: string,
+    from: Date,
+    to: Date,
+    filters: { artistId?: string } = {},
+  ): Promise<ScheduleDiff> {
+    if (to <= from) {
+      throw new BadRequestException('"to" must be after "from"');
+    }
+
+    const events = await this.bookingEventRepository.findByTenant(tenantId, {
+      until: to,
+      changedAfter: from,
+      artistId: filters.artistId,
+    });
+    const before = this.stateAt(events, from);
+    const after = this.stateAt(events, to);
+
+    const byArtist = new Map<string, ArtistScheduleDiff>();
+    const entryFor = (artistId: string) => {
+      let entry = byArtist.get(artistId);
+      if (!entry) {
+        entry = { artistId, added: [], moved: [], cancelled: [], removed: [], statusChanged: [] };
+        byArtist.set(artistId, entry);
+      }
+      return entry;
+    };
+
+    for (const id of new Set([...before.keys(), ...after.keys()])) {
+      const previous = before.get(id);
+      const current = after.get(id);
+
+      if (
+        filters.artistId &&
+        previous?.artistId !== filters.artistId &&
+        current?.artistId !== filters.artistId
+      ) {
+        continue;
+      }
+
+      if (isActive(current) && !isActive(previous)) {
+        entryFor(current.artistId).added.push(current);
+      } else if (isActive(previous) && !current) {
+        entryFor(previous.artistId).removed.push(previous);
+      } else if (isActive(previous) && current?.status === 'cancelled') {
+        entryFor(previous.artistId).cancelled.push(current);
+      } else if (isActive(previous) && isActive(current)) {
+        const moved =
+          previous.artistId !== current.artistId ||
+          previous.startTime.getTime() !== current.startTime.getTime() ||
+          previous.endTime.getTime() !== current.endTime.getTime();
+
+        if (moved) {
+          entryFor(current.artistId).moved.push({
+            booking: current,
+            previous: {
+              artistId: previous.artistId,
+              startTime: previous.startTime,
+              endTime: previous.endTime,
+            },
+          });
+        } else if (previous.status !== current.status) {
+          entryFor(current.artistId).statusChanged.push({
+            booking: current,
+            previousStatus: previous.status,
+          });
+        }
+      }
+    }
+
+    return { from, to, artists: [...byArtist.values()] };
+  }
+
+  /**
+   * Replays each booking's events that occurred by `at`. `events` may run
+   * past `at`.
+   */
+  private stateAt(events: BookingEventRecord[], at: Date): Map<string, BookingRow> {
+    const state = new Map<string, BookingRow>();
+
+    for (const [bookingId, stream] of groupEventsByAggregate(events)) {
+      const prefix = this.committedPrefix(stream.filter((event) => event.occurredAt <= at));
+      try {
+        const booking = replayBooking(prefix);
+        if (booking) {
+          state.set(bookingId, booking);
+        }
+      } catch (error) {
+        const reason = error instanceof Error ? error.message : error;
+        this.logger.warn(`Booking ${bookingId} left out of history: ${reason}`);
+      }
+    }
+
+    return state;
+  }
+
+  /**
+   * occurredAt is the writing transaction's start time, so a later version
+   * can carry an earlier timestamp than the one before it. Stop at the
+   * first gap rather than replay a version without its predecessor.
+   */
+  private committedPrefix(stream: BookingEventRecord[]): BookingEventRecord[] {
+    const prefix: BookingEventRecord[] = [];
+    for (const event of stream) {
+      if (event.eventVersion !== prefix.length + 1) {
+        break;
+      }
+      prefix.push(event);
+    }
+    return prefix;
+  }
+}
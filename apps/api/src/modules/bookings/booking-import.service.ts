@@ -0,0 +1,363 @@
+import {
+  Injectable,
+  Inject,
+  ConflictException,
+  HttpException,
+  UnprocessableEntityException,
+} from '@nestjs/common';
+import { DrizzleDatabase } from '../../common/types/drizzle.types';
+import { omit } from '../../common/utils/omit';
+import { isValidTimeZone } from '../../common/utils/time-zone';
+import { Booking, insertBookingSchema } from '../../database/schema';
+import { BookingMutation, BookingsService } from './bookings.service';
+import { lockArtists } from './hold-ranking.service';
+import {
+  ColumnMapping,
+  ImportField,
+  ImportSheet,
+  parseImportDate,
+  readImportFile,
+  resolveColumns,
+} from './booking-import';
+import {
+  BookingImportRepository,
+  ImportArtist,
+  ImportProject,
+} from './repositories/booking-import.repository';
+import { NewBooking } from './repositories/booking.repository';
+
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export interface ImportRowError {
+  field?: string;
+  message: string;
+}
+
+export interface ImportRowResult {
+  row: number;
+  status: 'valid' | 'invalid' | 'conflict';
+  errors: ImportRowError[];
+  conflictingBookingIds?: string[];
+  // Set once the import is committed
+  booking?: Booking;
+}
+
+export interface BookingImportReport {
+  dryRun: boolean;
+  committed: boolean;
+  columns: ColumnMapping;
+  totalRows: number;
+  valid: number;
+  invalid: number;
+  conflicts: number;
+  rows: ImportRowResult[];
+}
+
+interface PreparedRow {
+  row: number;
+  data?: NewBooking;
+  errors: ImportRowError[];
+}
+
+interface ImportLookups {
+  artists: ImportArtist[];
+  projects: ImportProject[];
+  timeZone: string;
+}
+
+// Thrown to roll back a dry run, or an import with rejected rows
+class ImportRollback extends Error {
+  constructor(readonly rows: ImportRowResult[]) {
+    super('Import rolled back');
+  }
+}
+
+function matchesText(value: string | null, text: string) {
+  return value !== null && value.toLowerCase() === text.toLowerCase();
+}
+
+/**
+ * Bulk booking import from CSV/XLSX. Every row is validated against
+ * insertBookingSchema and inserted through the same path as POST
+ * /bookings (conflict check, hold ranking, events) inside one
+ * transaction. A dry run, or any rejected row, rolls the whole import back
+ * and returns the per-row report.
+ */
+@Injectable()
+export class BookingImportService {
+  constructor(
+    @Inject('DATABASE_CONNECTION') private readonly db: DrizzleDatabase,
+    private readonly bookingImportRepository: BookingImportRepository,
+    private readonly bookingsService: BookingsService,
+  ) {}
+
+  async import(
+    file: { buffer: Buffer; originalname: string; mimetype: string },
+    options: { dryRun: boolean; mapping?: ColumnMapping },
+    tenantId: string,
+    userId: string,
+  ): Promise<BookingImportReport> {
+    const sheet = await readImportFile(file);
+    const columns = resolveColumns(sheet.headers, options.mapping);
+
+    const [artists, projects, tenantTimeZone] = await Promise.all([
+      this.bookingImportRepository.findArtists(tenantId),
+      this.bookingImportRepository.findProjects(tenantId),
+      this.bookingImportRepository.findTenantTimeZone(tenantId),
+    ]);
+    const lookups: ImportLookups = {
+      artists,
+      projects,
+      timeZone: tenantTimeZone && isValidTimeZone(tenantTimeZone) ? tenantTimeZone : 'UTC',
+    };
+
+    const prepared = sheet.rows.map((row) =>
+      this.prepareRow(row, columns, lookups, tenantId, userId),
+    );
+
+    let rows: ImportRowResult[];
+    let mutations: BookingMutation[] = [];
+
+    try {
+      ({ rows, mutations } = await this.db.transaction(async (tx) => {
+        const artistIds = prepared.flatMap((p) => (p.data ? [p.data.artistId] : []));
+        await lockArtists(tx, artistIds);
+
+        const results: ImportRowResult[] = [];
+        const created: BookingMutation[] = [];
+
+        for (const { row, data, errors } of prepared) {
+          if (!data) {
+            results.push({ row, status: 'invalid', errors });
+            continue;
+          }
+
+          try {
+            // A savepoint per row keeps one failed insert from aborting the rest
+            const mutation = await tx.transaction((savepoint) =>
+              this.bookingsService.insertWithin(savepoint, data, userId),
+            );
+            created.push(mutation);
+            results.push({ row, status: 'valid', errors: [], booking: mutation.booking });
+          } catch (error) {
+            results.push(this.rejectedRow(row, error));
+          }
+        }
+
+        if (options.dryRun || results.some((result) => result.status !== 'valid')) {
+          throw new ImportRollback(results);
+        }
+
+        return { rows: results, mutations: created };
+      }));
+    } catch (error) {
+      if (!(error instanceof ImportRollback)) {
+        throw error;
+      }
+      // Nothing was saved, so there are no bookings to show
+      rows = error.rows.map((result) => omit(result, ['booking']));
+    }
+
+    const report = this.summarize(sheet, columns, rows, options.dryRun, mutations.length > 0);
+
+    if (!options.dryRun && !report.committed && report.totalRows > 0) {
+      throw new UnprocessableEntityException({
+        error: 'IMPORT_REJECTED',
+        message: `${report.invalid + report.conflicts} row(s) have errors or conflicts; nothing was imported`,
+        details: report,
+      });
+    }
+
+    for (const mutation of mutations) {
+      this.bookingsService.broadcastCreated(mutation);
+    }
+
+    return report;
+  }
+
+  private prepareRow(
+    { row, values }: ImportSheet['rows'][number],
+    columns: ColumnMapping,
+    lookups: ImportLookups,
+    tenantId: string,
+    userId: string,
+  ): PreparedRow {
+    const errors: ImportRowError[] = [];
+    const cell = (field: ImportField) => {
+      const column = columns[field];
+      return column ? (values[column] ?? '').trim() : '';
+    };
+    const optional = (value: string) => (value === '' ? undefined : value);
+    const enumValue = (value: string) =>
+      optional(value.toLowerCase().replace(/[\s-]+/g, '_'));
+    const amount = (value: string) => optional(value.replace(/[^0-9.-]/g, ''));
+    const date = (field: ImportField, options: { endOfDay?: boolean } = {}) => {
+      const value = cell(field);
+      if (value === '') {
+        return undefined;
+      }
+      const parsed = parseImportDate(value, lookups.timeZone, options);
+      if (!parsed) {
+        errors.push({ field, message: `"${value}" is not a date` });
+      }
+      return parsed ?? undefined;
+    };
+
+    const artistId = this.resolveArtist(cell('artist'), lookups.artists, errors);
+    const projectId = this.resolveProject(cell('project'), lookups.projects, errors);
+    const startTime = date('startTime');
+    const endTime = date('endTime', { endOfDay: true });
+    const holdExpiresAt = date('holdExpiresAt');
+
+    if (startTime && endTime && endTime <= startTime) {
+      errors.push({ field: 'endTime', message: 'End time must be after start time' });
+    }
+
+    const parsed = insertBookingSchema.safeParse({
+      tenantId,
+      userId,
+      artistId,
+      projectId,
+      startTime,
+      endTime,
+      status: enumValue(cell('status')),
+      holdType: enumValue(cell('holdType')),
+      holdExpiresAt,
+      title: optional(cell('title')),
+      notes: optional(cell('notes')),
+      rate: amount(cell('rate')),
+      rateType: enumValue(cell('rateType')),
+      totalAmount: amount(cell('totalAmount')),
+      createdBy: userId,
+      updatedBy: userId,
+    });
+
+    if (!parsed.success) {
+      for (const issue of parsed.error.issues) {
+        const field = String(issue.path[0] ?? '');
+        // Reference and date problems were already reported above
+        if (errors.some((error) => error.field === field) || (field === 'artistId' && !artistId)) {
+          continue;
+        }
+        errors.push({ field, message: issue.message });
+      }
+    }
+
+    if (errors.length > 0 || !parsed.success) {
+      return { row, errors };
+    }
+
+    return { row, data: parsed.data as NewBooking, errors };
+  }
+
+  // Artists are matched by id, then email, then name
+  private resolveArtist(
+    value: string,
+    artists: ImportArtist[],
+    errors: ImportRowError[],
+  ): string | undefined {
+    if (value === '') {
+      errors.push({ field: 'artist', message: 'Artist is required' });
+      return undefined;
+    }
+
+    const matches = UUID.test(value)
+      ? artists.filter((a) => a.id === value)
+      : artists.filter((a) => matchesText(a.email, value)).length > 0
+        ? artists.filter((a) => matchesText(a.email, value))
+        : artists.filter((a) => matchesText(a.name, value));
+
+    if (matches.length === 0) {
+      errors.push({ field: 'artist', message: `No artist matches "${value}"` });
+      return undefined;
+    }
+    if (matches.length > 1) {
+      errors.push({
+        field: 'artist',
+        message: `"${value}" matches ${matches.length} artists; use their email instead`,
+      });
+      return undefined;
+    }
+    if (matches[0].isActive === false) {
+      errors.push({ field: 'artist', message: `${matches[0].name} is inactive` });
+      return undefined;
+    }
+
+    return matches[0].id;
+  }
+
+  // Projects are matched by id, then code, then name; the column is optional
+  private resolveProject(
+    value: string,
+    projects: ImportProject[],
+    errors: ImportRowError[],
+  ): string | undefined {
+    if (value === '') {
+      return undefined;
+    }
+
+    const matches = UUID.test(value)
+      ? projects.filter((p) => p.id === value)
+      : projects.filter((p) => matchesText(p.code, value)).length > 0
+        ? projects.filter((p) => matchesText(p.code, value))
+        : projects.filter((p) => matchesText(p.name, value));
+
+    if (matches.length !== 1) {
+      errors.push({
+        field: 'project',
+        message:
+          matches.length === 0
+            ? `No project matches "${value}"`
+            : `"${value}" matches ${matches.length} projects; use the project code instead`,
+      });
+      return undefined;
+    }
+
+    return matches[0].id;
+  }
+
+  private rejectedRow(row: number, error: unknown): ImportRowResult {
+    if (error instanceof ConflictException) {
+      const response = error.getResponse() as {
+        message?: string;
+        details?: { conflictingBookingIds?: string[] };
+      };
+      return {
+        row,
+        status: 'conflict',
+        errors: [{ message: response.message ?? error.message }],
+        conflictingBookingIds: response.details?.conflictingBookingIds,
+      };
+    }
+
+    // The exclusion constraint caught an overlap the conflict check missed
+    if ((error as { code?: string })?.code === '23P01') {
+      return { row, status: 'conflict', errors: [{ message: 'Booking conflict detected' }] };
+    }
+
+    if (error instanceof HttpException) {
+      return { row, status: 'invalid', errors: [{ message: error.message }] };
+    }
+
+    throw error;
+  }
+
+  private summarize(
+    sheet: ImportSheet,
+    columns: ColumnMapping,
+    rows: ImportRowResult[],
+    dryRun: boolean,
+    committed: boolean,
+  ): BookingImportReport {
+    return {
+      dryRun,
+      committed,
+      columns,
+      totalRows: sheet.rows.length,
+      valid: rows.filter((r) => r.status === 'valid').length,
+      invalid: rows.filter((r) => r.status === 'invalid').length,
+      conflicts: rows.filter((r) => r.status === 'conflict').length,
+      rows,
+    };
+  }
+}
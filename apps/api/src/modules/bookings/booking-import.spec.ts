@@ -0,0 +1,115 @@
+import { Workbook } from 'exceljs';
+import { parseImportDate, readImportFile, resolveColumns } from './booking-import';
+
+function csv(text: string) {
+  return { buffer: Buffer.from(text, 'utf8'), originalname: 'bookings.csv', mimetype: 'text/csv' };
+}
+
+async function xlsx(rows: unknown[][]) {
+  const workbook = new Workbook();
+  workbook.addWorksheet('Bookings').addRows(rows);
+
+  return {
+    buffer: Buffer.from(await workbook.xlsx.writeBuffer()),
+    originalname: 'bookings.xlsx',
+    mimetype: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  };
+}
+
+describe('booking import', () => {
+  describe('readImportFile', () => {
+    it('reads quoted CSV fields and numbers rows by the line they start on', async () => {
+      const sheet = await readImportFile(
+        csv(
+          '\uFEFFArtist,Start,Notes\r\n' +
+            'Ada,2026-11-02,"Line one\nline ""two"", too"\n' +
+            ',,\n' +
+            'Bo,2026-11-03,\n',
+        ),
+      );
+
+      expect(sheet.headers).toEqual(['Artist', 'Start', 'Notes']);
+      expect(sheet.rows).toEqual([
+        {
+          row: 2,
+          values: { Artist: 'Ada', Start: '2026-11-02', Notes: 'Line one\nline "two", too' },
+        },
+        { row: 5, values: { Artist: 'Bo', Start: '2026-11-03', Notes: '' } },
+      ]);
+    });
+
+    it('rejects an unterminated quote', async () => {
+      await expect(readImportFile(csv('Artist\n"Ada'))).rejects.toThrow(
+        'Unterminated quoted field starting on line 2',
+      );
+    });
+
+    it('keeps xlsx dates without a time as dates', async () => {
+      const sheet = await readImportFile(
+        await xlsx([
+          ['Artist', 'Start', 'End'],
+          ['Ada', new Date('2026-11-02T09:30:00Z'), new Date('2026-11-06T00:00:00Z')],
+        ]),
+      );
+
+      expect(sheet.rows).toEqual([
+        { row: 2, values: { Artist: 'Ada', Start: '2026-11-02T09:30:00', End: '2026-11-06' } },
+      ]);
+    });
+
+    it('refuses other file types', async () => {
+      const pdf = { buffer: Buffer.from(''), originalname: 'a.pdf', mimetype: 'application/pdf' };
+
+      await expect(readImportFile(pdf)).rejects.toThrow('Upload a .csv or .xlsx file');
+    });
+  });
+
+  describe('resolveColumns', () => {
+    it('recognises common header spellings', () => {
+      expect(resolveColumns(['Artist Name', 'Start Date', 'End Date', 'Day Rate'])).toMatchObject({
+        artist: 'Artist Name',
+        startTime: 'Start Date',
+        endTime: 'End Date',
+        rate: 'Day Rate',
+      });
+    });
+
+    it('prefers an explicit mapping', () => {
+      expect(resolveColumns(['Who', 'Start', 'End', 'Name'], { artist: 'Who' }).artist).toBe('Who');
+    });
+
+    it('rejects mappings to missing columns and missing required fields', () => {
+      expect(() => resolveColumns(['Artist', 'Start', 'End'], { title: 'Task' })).toThrow(
+        'Mapped columns not in the file: Task',
+      );
+      expect(() => resolveColumns(['Artist', 'Start'])).toThrow('No column found for: endTime');
+    });
+  });
+
+  describe('parseImportDate', () => {
+    it('reads plain dates and times on the given wall clock', () => {
+      expect(parseImportDate('2026-11-02 09:30', 'Europe/London')).toEqual(
+        new Date('2026-11-02T09:30:00Z'),
+      );
+      expect(parseImportDate('2026-07-02T09:30:15', 'Europe/London')).toEqual(
+        new Date('2026-07-02T08:30:15Z'),
+      );
+    });
+
+    it('runs a bare end date to the end of its day', () => {
+      expect(parseImportDate('2026-11-06', 'America/New_York')).toEqual(
+        new Date('2026-11-06T05:00:00Z'),
+      );
+      expect(parseImportDate('2026-11-06', 'America/New_York', { endOfDay: true })).toEqual(
+        new Date('2026-11-07T05:00:00Z'),
+      );
+    });
+
+    it('takes values with an offset as they are', () => {
+      expect(parseImportDate('2026-11-02T09:30:00+01:00', 'America/New_York')).toEqual(
+        new Date('2026-11-02T08:30:00Z'),
+      );
+      expect(parseImportDate('next tuesday', 'UTC')).toBeNull();
+    });
+  });
+});
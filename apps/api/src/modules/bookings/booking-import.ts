@@ -0,0 +1,268 @@
+import { BadRequestException } from '@nestjs/common';
+import { Workbook } from 'exceljs';
+import { zonedTimeToUtc } from '../../common/utils/time-zone';
+
+export const MAX_IMPORT_ROWS = 2000;
+
+// Booking fields an import can fill, plus the artist/project references
+// that are resolved to ids
+export const IMPORT_FIELDS = [
+  'artist',
+  'project',
+  'startTime',
+  'endTime',
+  'status',
+  'holdType',
+  'holdExpiresAt',
+  'title',
+  'notes',
+  'rate',
+  'rateType',
+  'totalAmount',
+] as const;
+
+export type ImportField = (typeof IMPORT_FIELDS)[number];
+
+export type ColumnMapping = Partial<Record<ImportField, string>>;
+
+export interface ImportSheet {
+  headers: string[];
+  // Spreadsheet row number (the header is row 1) and cell text by header
+  rows: Array<{ row: number; values: Record<string, string> }>;
+}
+
+// Header spellings recognised without an explicit mapping, normalised
+// to lowercase alphanumerics
+const HEADER_ALIASES: Record<ImportField, string[]> = {
+  artist: ['artist', 'artistname', 'artistemail', 'artistid', 'name', 'resource'],
+  project: ['project', 'projectname', 'projectcode', 'projectid', 'job', 'show'],
+  startTime: ['start', 'starttime', 'startdate', 'from', 'begin'],
+  endTime: ['end', 'endtime', 'enddate', 'to', 'until', 'finish'],
+  status: ['status', 'bookingstatus', 'state'],
+  holdType: ['holdtype', 'hold'],
+  holdExpiresAt: ['holdexpiresat', 'holdexpires', 'holdexpiry', 'expires'],
+  title: ['title', 'description', 'task'],
+  notes: ['notes', 'note', 'comments', 'comment'],
+  rate: ['rate', 'dayrate', 'dailyrate', 'hourlyrate'],
+  rateType: ['ratetype', 'rateunit', 'unit'],
+  totalAmount: ['total', 'totalamount', 'amount', 'cost'],
+};
+
+function normalizeHeader(header: string): string {
+  return header.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+function cellText(value: unknown): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  if (value instanceof Date) {
+    // Excel dates carry no zone; exceljs exposes the wall clock as UTC. A
+    // bare date comes through as midnight and stays a date, so an end date
+    // still covers its whole day
+    const text = value.toISOString();
+    return text.endsWith('T00:00:00.000Z') ? text.slice(0, 10) : text.slice(0, 19);
+  }
+  if (typeof value === 'object') {
+    const cell = value as { result?: unknown; text?: string; richText?: Array<{ text: string }> };
+    if (cell.richText) {
+      return cell.richText.map((part) => part.text).join('');
+    }
+    if ('result' in cell) {
+      return cellText(cell.result);
+    }
+    if (cell.text !== undefined) {
+      return cell.text;
+    }
+  }
+  return String(value).trim();
+}
+
+function toSheet(table: unknown[][], rowNumbers: number[]): ImportSheet {
+  const [headerRow, ...dataRows] = table;
+  if (!headerRow) {
+    throw new BadRequestException('The file is empty');
+  }
+
+  const headers = headerRow.map((header) => cellText(header));
+  if (dataRows.length > MAX_IMPORT_ROWS) {
+    throw new BadRequestException(`Imports are limited to ${MAX_IMPORT_ROWS} rows`);
+  }
+
+  return {
+    headers,
+    rows: dataRows
+      .map((cells, index) => ({
+        row: rowNumbers[index + 1],
+        values: Object.fromEntries(headers.map((header, column) => [header, cellText(cells[column])])),
+      }))
+      .filter(({ values }) => Object.values(values).some((value) => value !== '')),
+  };
+}
+
+async function readWorkbook(buffer: Buffer): Promise<ImportSheet> {
+  const workbook = new Workbook();
+  try {
+    // exceljs declares its own Buffer interface, which Node's doesn't satisfy
+    await workbook.xlsx.load(buffer as unknown as Parameters<Workbook['xlsx']['load']>[0]);
+  } catch {
+    throw new BadRequestException('Could not read the spreadsheet');
+  }
+
+  const sheet = workbook.worksheets[0];
+  if (!sheet) {
+    throw new BadRequestException('The workbook has no sheets');
+  }
+
+  const table: unknown[][] = [];
+  const rowNumbers: number[] = [];
+  sheet.eachRow((row, rowNumber) => {
+    // row.values is 1-based
+    table.push((row.values as unknown[]).slice(1));
+    rowNumbers.push(rowNumber);
+  });
+
+  return toSheet(table, rowNumbers);
+}
+
+/**
+ * RFC 4180 CSV: quoted fields may contain commas, newlines and doubled
+ * quotes. Returns the records with the line each one starts on.
+ */
+function parseCsv(text: string): { records: string[][]; lines: number[] } {
+  const records: string[][] = [];
+  const lines: number[] = [];
+  let record: string[] = [];
+  let field = '';
+  let quoted = false;
+  let line = 1;
+  let recordLine = 1;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        if (char === '\n') line++;
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === ',') {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      record.push(field);
+      records.push(record);
+      lines.push(recordLine);
+      record = [];
+      field = '';
+      line++;
+      recordLine = line;
+    } else {
+      field += char;
+    }
+  }
+
+  if (quoted) {
+    throw new BadRequestException(`Unterminated quoted field starting on line ${recordLine}`);
+  }
+  if (field !== '' || record.length > 0) {
+    record.push(field);
+    records.push(record);
+    lines.push(recordLine);
+  }
+
+  return { records, lines };
+}
+
+function readCsv(buffer: Buffer): ImportSheet {
+  // Strip the byte order mark Excel adds to UTF-8 CSVs
+  const { records, lines } = parseCsv(buffer.toString('utf8').replace(/^\uFEFF/, ''));
+  return toSheet(records, lines);
+}
+
+/**
+ * Reads the first sheet of an .xlsx workbook or a CSV file into rows keyed
+ * by header.
+ */
+export async function readImportFile(file: {
+  buffer: Buffer;
+  originalname: string;
+  mimetype: string;
+}): Promise<ImportSheet> {
+  const name = file.originalname.toLowerCase();
+
+  if (name.endsWith('.xlsx') || file.mimetype.includes('spreadsheetml')) {
+    return readWorkbook(file.buffer);
+  }
+  if (name.endsWith('.csv') || file.mimetype.includes('csv') || file.mimetype === 'text/plain') {
+    return readCsv(file.buffer);
+  }
+
+  throw new BadRequestException('Upload a .csv or .xlsx file');
+}
+
+/**
+ * Which column feeds each field: the explicit mapping where given,
+ * otherwise the first header matching one of the field's aliases.
+ */
+export function resolveColumns(headers: string[], mapping: ColumnMapping = {}): ColumnMapping {
+  const unknown = Object.entries(mapping).filter(([, column]) => !headers.includes(column!));
+  if (unknown.length > 0) {
+    throw new BadRequestException(
+      `Mapped columns not in the file: ${unknown.map(([, column]) => column).join(', ')}`,
+    );
+  }
+
+  const columns: ColumnMapping = {};
+  for (const field of IMPORT_FIELDS) {
+    columns[field] =
+      mapping[field] ??
+      headers.find((header) => HEADER_ALIASES[field].includes(normalizeHeader(header)));
+  }
+
+  const missing = (['artist', 'startTime', 'endTime'] as const).filter((field) => !columns[field]);
+  if (missing.length > 0) {
+    throw new BadRequestException(`No column found for: ${missing.join(', ')}`);
+  }
+
+  return columns;
+}
+
+const NAIVE_DATE_TIME = /^(\d{4}-\d{2}-\d{2})(?:[T ](\d{1,2}):(\d{2})(?::(\d{2}))?)?$/;
+
+/**
+ * Parses a spreadsheet date. Values with an offset or Z are taken as is;
+ * plain dates and times are wall-clock times in `timeZone`. A date without
+ * a time means the start of that day, or its end when `endOfDay` is set
+ * (so an end date of 2026-11-06 includes the 6th).
+ */
+export function parseImportDate(
+  value: string,
+  timeZone: string,
+  options: { endOfDay?: boolean } = {},
+): Date | null {
+  const match = NAIVE_DATE_TIME.exec(value.trim());
+
+  if (match) {
+    const [, date, hours, minutes, seconds] = match;
+    if (hours === undefined) {
+      return zonedTimeToUtc(date, options.endOfDay ? 24 * 60 : 0, timeZone);
+    }
+    const start = zonedTimeToUtc(date, Number(hours) * 60 + Number(minutes), timeZone);
+    return new Date(start.getTime() + Number(seconds ?? 0) * 1000);
+  }
+
+  const parsed = new Date(value);
+  return Number.isNaN(parsed.getTime()) ? null : parsed;
+}
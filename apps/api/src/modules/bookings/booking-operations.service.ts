@@ -0,0 +1,350 @@
+import { Injectable, Inject, BadRequestException } from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import { sql } from 'drizzle-orm';
+import { DrizzleDatabase, DrizzleTransaction } from '../../common/types/drizzle.types';
+import { Booking } from '../../database/schema';
+import { BookingMutation, BookingsService } from './bookings.service';
+import { withoutChallenge } from './hold-ranking';
+import { lockArtists } from './hold-ranking.service';
+import { ResourceService } from './resource.service';
+import { BookingChanges } from './booking-events';
+import { shareByLength } from './booking-operations';
+import { NewBooking } from './repositories/booking.repository';
+import { ResourceReservation } from './repositories/resource.repository';
+import { MoveBookingDto } from './dto/move-booking.dto';
+import { ResizeBookingDto } from './dto/resize-booking.dto';
+import { SplitBookingDto } from './dto/split-booking.dto';
+import { SwapBookingsDto } from './dto/swap-bookings.dto';
+
+/**
+ * Schedule edits that touch a booking's slot as one operation: move, resize,
+ * split and swap. Each runs in a single transaction with the conflict,
+ * ranking and event rules of PATCH, checks the version of every booking it
+ * touches and records its own event type; if any step conflicts, nothing
+ * is written.
+ */
+@Injectable()
+export class BookingOperationsService {
+  constructor(
+    @Inject('DATABASE_CONNECTION') private readonly db: DrizzleDatabase,
+    private readonly bookingsService: BookingsService,
+    private readonly resourceService: ResourceService,
+  ) {}
+
+  // To another artist, another time or both; the booking keeps its length
+  async move(id: string, moveDto: MoveBookingDto, tenantId: string, userId: string) {
+    if (!moveDto.artistId && !moveDto.startTime) {
+      throw new BadRequestException('Give a new artist, a new start time or both');
+    }
+
+    const mutation = await this.bookingsService.withConstraintHandling(() =>
+      this.db.transaction(async (tx) => {
+        const existing = await this.load(tx, id, moveDto.version, tenantId, 'move');
+        const artistId = moveDto.artistId ?? existing.artistId;
+        const startTime = moveDto.startTime ?? existing.startTime;
+        const endTime = new Date(
+          startTime.getTime() + existing.endTime.getTime() - existing.startTime.getTime(),
+        );
+
+        if (!moveDto.allowOutsideWorkingHours) {
+          await this.bookingsService.assertWithinWorkingHours(tenantId, artistId, startTime, endTime);
+        }
+
+        await lockArtists(tx, [existing.artistId, artistId]);
+
+        return this.bookingsService.changeWithin(
+          tx,
+          existing,
+          moveDto.version,
+          { ...this.detachFromSeries(existing), artistId, startTime, endTime },
+          userId,
+          { event: { type: 'booking_moved', context: { from: this.slotOf(existing) } } },
+        );
+      }),
+    );
+
+    return this.bookingsService.broadcastMutation(mutation);
+  }
+
+  // Extends or shortens the booking at either end
+  async resize(id: string, resizeDto: ResizeBookingDto, tenantId: string, userId: string) {
+    if (!resizeDto.startTime && !resizeDto.endTime) {
+      throw new BadRequestException('Give a new start time, a new end time or both');
+    }
+
+    const mutation = await this.bookingsService.withConstraintHandling(() =>
+      this.db.transaction(async (tx) => {
+        const existing = await this.load(tx, id, resizeDto.version, tenantId, 'resize');
+        const startTime = resizeDto.startTime ?? existing.startTime;
+        const endTime = resizeDto.endTime ?? existing.endTime;
+
+        this.bookingsService.validateTimeRange(startTime, endTime);
+        if (!resizeDto.allowOutsideWorkingHours) {
+          await this.bookingsService.assertWithinWorkingHours(
+            tenantId,
+            existing.artistId,
+            startTime,
+            endTime,
+          );
+        }
+
+        await lockArtists(tx, [existing.artistId]);
+
+        return this.bookingsService.changeWithin(
+          tx,
+          existing,
+          resizeDto.version,
+          { ...this.detachFromSeries(existing), startTime, endTime },
+          userId,
+          { event: { type: 'booking_resized', context: { from: this.slotOf(existing) } } },
+        );
+      }),
+    );
+
+    return this.bookingsService.broadcastMutation(mutation);
+  }
+
+  /**
+   * Splits a booking in two at `at`: the booking itself ends there and a
+   * copy starts there. A fixed price (or, for unpriced bookings, the total
+   * entered) is shared out by length; other rates reprice each half.
+   */
+  async split(id: string, splitDto: SplitBookingDto, tenantId: string, userId: string) {
+    const { bookings, reranked, reservations } =
+      await this.bookingsService.withConstraintHandling(() =>
+        this.db.transaction(async (tx) => {
+          const existing = await this.load(tx, id, splitDto.version, tenantId, 'split');
+          const at = splitDto.at;
+
+          if (at <= existing.startTime || at >= existing.endTime) {
+            throw new BadRequestException('Split time must fall inside the booking');
+          }
+
+          await lockArtists(tx, [existing.artistId]);
+
+          const fixed = existing.rateType === 'fixed' && existing.rate !== null;
+          const [firstShare, secondShare] = shareByLength(
+            fixed ? existing.rate : existing.totalAmount,
+            existing,
+            at,
+          );
+          const secondId = randomUUID();
+
+          // Shorten first so the second half doesn't conflict with it
+          const first = await this.bookingsService.changeWithin(
+            tx,
+            existing,
+            splitDto.version,
+            {
+              ...this.detachFromSeries(existing),
+              endTime: at,
+              ...(fixed ? { rate: firstShare } : {}),
+              totalAmount: firstShare,
+            },
+            userId,
+            {
+              event: {
+                type: 'booking_split',
+                context: { from: this.slotOf(existing), splitAt: at, newBookingId: secondId },
+              },
+            },
+          );
+
+          const second = await this.bookingsService.insertWithin(
+            tx,
+            {
+              id: secondId,
+              tenantId,
+              artistId: existing.artistId,
+              projectId: existing.projectId,
+              phaseId: existing.phaseId,
+              userId: existing.userId,
+              startTime: at,
+              endTime: existing.endTime,
+              status: existing.status,
+              holdType: existing.holdType,
+              holdExpiresAt: existing.holdExpiresAt,
+              title: existing.title,
+              notes: existing.notes,
+              rate: fixed ? secondShare : existing.rate,
+              rateType: existing.rateType,
+              rateOverridden: existing.rateOverridden || fixed,
+              totalAmount: secondShare,
+              metadata: withoutChallenge(existing.metadata),
+              licenses: existing.licenses,
+              createdBy: userId,
+              updatedBy: userId,
+            } as NewBooking,
+            userId,
+            { splitFrom: existing },
+          );
+
+          // Both halves keep the resources the booking had reserved
+          const claims = (first.reservations ?? []).map(({ resourceId, quantity }) => ({
+            resourceId,
+            quantity,
+          }));
+          if (claims.length > 0) {
+            second.reservations = await this.resourceService.attachWithin(
+              tx,
+              second.booking,
+              claims,
+              userId,
+            );
+          }
+
+          return this.combine([first, second]);
+        }),
+      );
+
+    this.bookingsService.broadcastMutation({ booking: bookings[0], reranked, reservations });
+    this.bookingsService.broadcastCreated({ booking: bookings[1], reranked: [] });
+
+    return bookings;
+  }
+
+  /**
+   * Swaps the artists of two bookings. The overlap constraint is deferred
+   * to commit, since the bookings may briefly share an artist; each is
+   * checked against its new artist's schedule without the other.
+   */
+  async swap(id: string, swapDto: SwapBookingsDto, tenantId: string, userId: string) {
+    if (id === swapDto.otherBookingId) {
+      throw new BadRequestException('A booking cannot be swapped with itself');
+    }
+
+    const { bookings, reranked } = await this.bookingsService.withConstraintHandling(() =>
+      this.db.transaction(async (tx) => {
+        const first = await this.load(tx, id, swapDto.version, tenantId, 'swap');
+        const second = await this.load(
+          tx,
+          swapDto.otherBookingId,
+          swapDto.otherVersion,
+          tenantId,
+          'swap',
+        );
+
+        if (first.artistId === second.artistId) {
+          throw new BadRequestException('Both bookings are with the same artist');
+        }
+
+        if (!swapDto.allowOutsideWorkingHours) {
+          for (const [booking, artistId] of [
+            [first, second.artistId],
+            [second, first.artistId],
+          ] as const) {
+            await this.bookingsService.assertWithinWorkingHours(
+              tenantId,
+              artistId,
+              booking.startTime,
+              booking.endTime,
+            );
+          }
+        }
+
+        await lockArtists(tx, [first.artistId, second.artistId]);
+        await tx.execute(sql`SET CONSTRAINTS bookings_no_overlap_per_artist DEFERRED`);
+
+        // The second booking is re-read below, so check it again now that
+        // nothing else can write it
+        this.bookingsService.assertVersion(
+          await this.bookingsService.findOne(second.id, tenantId, tx),
+          swapDto.otherVersion,
+        );
+
+        const firstMoved = await this.bookingsService.changeWithin(
+          tx,
+          first,
+          swapDto.version,
+          { ...this.detachFromSeries(first), artistId: second.artistId },
+          userId,
+          {
+            event: {
+              type: 'booking_swapped',
+              context: { swappedWith: second.id, previousArtistId: first.artistId },
+            },
+            ignoreIds: [second.id],
+          },
+        );
+
+        // Reranking the first move may have bumped the second booking's version
+        const current = await this.bookingsService.findOne(second.id, tenantId, tx);
+        const secondMoved = await this.bookingsService.changeWithin(
+          tx,
+          current,
+          current.version,
+          { ...this.detachFromSeries(current), artistId: first.artistId },
+          userId,
+          {
+            event: {
+              type: 'booking_swapped',
+              context: { swappedWith: first.id, previousArtistId: second.artistId },
+            },
+            ignoreIds: [first.id],
+          },
+        );
+
+        return this.combine([firstMoved, secondMoved]);
+      }),
+    );
+
+    this.bookingsService.broadcastMutation({ booking: bookings[0], reranked });
+    this.bookingsService.broadcastMutation({ booking: bookings[1], reranked: [] });
+
+    return bookings;
+  }
+
+  private async load(
+    tx: DrizzleTransaction,
+    id: string,
+    version: number,
+    tenantId: string,
+    operation: string,
+  ): Promise<Booking> {
+    const booking = await this.bookingsService.findOne(id, tenantId, tx);
+    this.bookingsService.assertVersion(booking, version);
+
+    if (booking.status === 'cancelled' || booking.status === 'completed') {
+      throw new BadRequestException(`Cannot ${operation} a ${booking.status} booking`);
+    }
+
+    return booking;
+  }
+
+  private slotOf(booking: Booking) {
+    return { artistId: booking.artistId, startTime: booking.startTime, endTime: booking.endTime };
+  }
+
+  // An occurrence edited on its own no longer follows its series
+  private detachFromSeries(booking: Booking): BookingChanges {
+    return booking.seriesId ? { isRecurrenceException: true } : {};
+  }
+
+  /**
+   * The operation's own bookings in order, at their final versions, and
+   * every other booking reranked along the way. Later writes win.
+   */
+  private combine(mutations: BookingMutation[]): {
+    bookings: Booking[];
+    reranked: Booking[];
+    reservations: ResourceReservation[];
+  } {
+    const latest = new Map<string, Booking>();
+    for (const { booking, reranked } of mutations) {
+      for (const changed of [booking, ...reranked]) {
+        latest.set(changed.id, changed);
+      }
+    }
+
+    const bookings = mutations.map(({ booking }) => latest.get(booking.id)!);
+    for (const booking of bookings) {
+      latest.delete(booking.id);
+    }
+
+    return {
+      bookings,
+      reranked: [...latest.values()],
+      reservations: mutations.flatMap((mutation) => mutation.reservations ?? []),
+    };
+  }
+}
@@ -0,0 +1,40 @@
+import { shareByLength } from './booking-operations';
+
+const booking = {
+  startTime: new Date('2026-11-02T09:00:00Z'),
+  endTime: new Date('2026-11-02T18:00:00Z'),
+};
+const at = (value: string) => new Date(value);
+const cents = (amount: string | null) => Math.round(Number(amount) * 100);
+
+describe('shareByLength', () => {
+  it('shares an amount in proportion to the length of each half', () => {
+    expect(shareByLength('900.00', booking, at('2026-11-02T12:00:00Z'))).toEqual([
+      '300.00',
+      '600.00',
+    ]);
+  });
+
+  it('gives the rounding to the second half so the halves add up to the cent', () => {
+    // A third of 100.00 is 33.333...
+    const [first, second] = shareByLength('100.00', booking, at('2026-11-02T12:00:00Z'));
+
+    expect([first, second]).toEqual(['33.33', '66.67']);
+    expect(cents(first) + cents(second)).toBe(10000);
+  });
+
+  it('adds up to the cent wherever the booking is cut', () => {
+    for (const amount of ['0.01', '0.05', '99.99', '1234.56', '7777.77']) {
+      for (let minutes = 1; minutes < 9 * 60; minutes += 37) {
+        const split = new Date(booking.startTime.getTime() + minutes * 60 * 1000);
+        const [first, second] = shareByLength(amount, booking, split);
+
+        expect(cents(first) + cents(second)).toBe(cents(amount));
+      }
+    }
+  });
+
+  it('leaves both halves unpriced when there is no amount', () => {
+    expect(shareByLength(null, booking, at('2026-11-02T12:00:00Z'))).toEqual([null, null]);
+  });
+});
@@ -0,0 +1,24 @@
+import { Booking } from '../../database/schema';
+import { toCents } from './cancellation';
+
+/**
+ * Splits `amount` between the two halves of `booking` cut at `at`, by
+ * length. Works in cents, so the halves add up to the amount exactly.
+ */
+export function shareByLength(
+  amount: string | null,
+  booking: Pick<Booking, 'startTime' | 'endTime'>,
+  at: Date,
+): [string | null, string | null] {
+  if (amount === null) {
+    return [null, null];
+  }
+
+  const cents = toCents(amount);
+  const share =
+    (at.getTime() - booking.startTime.getTime()) /
+    (booking.endTime.getTime() - booking.startTime.getTime());
+  const firstCents = Math.round(cents * share);
+
+  return [(firstCents / 100).toFixed(2), ((cents - firstCents) / 100).toFixed(2)];
+}
@@ -0,0 +1,158 @@
+import { Injectable, Inject } from '@nestjs/common';
+import { eq } from 'drizzle-orm';
+import { DrizzleDatabase } from '../../common/types/drizzle.types';
+import { omit } from '../../common/utils/omit';
+import { artists, bookings } from '../../database/schema';
+import { BookingRow } from './booking-events';
+import { diffProjection, groupEventsByAggregate, replayBooking } from './booking-projection';
+import { BookingEventRepository } from './repositories/booking-event.repository';
+import { lockArtists } from './hold-ranking.service';
+
+export type ProjectionDivergenceKind =
+  // Events describe a booking the table doesn't have
+  | 'missing'
+  // The row exists but its events end in booking_deleted
+  | 'orphaned'
+  // Row and replayed state disagree on some fields
+  | 'diverged'
+  // Row has no events at all (written before event sourcing)
+  | 'untracked'
+  // Events can't be replayed; left untouched
+  | 'invalid_stream';
+
+export interface ProjectionDivergence {
+  bookingId: string;
+  kind: ProjectionDivergenceKind;
+  fields?: Array<{ field: string; projection: unknown; replayed: unknown }>;
+  error?: string;
+}
+
+export interface ProjectionRebuildReport {
+  tenantId: string;
+  aggregates: number;
+  divergences: ProjectionDivergence[];
+  dryRun: boolean;
+}
+
+interface PlannedRepair {
+  divergence: ProjectionDivergence;
+  repair?: () => Promise<unknown>;
+}
+
+const REPAIR_ORDER: Record<ProjectionDivergenceKind, number> = {
+  orphaned: 0,
+  diverged: 1,
+  missing: 2,
+  untracked: 3,
+  invalid_stream: 4,
+};
+
+/**
+ * Rebuilds the bookings projection for a tenant from booking_events and
+ * reports where the stored rows had drifted.
+ */
+@Injectable()
+export class BookingProjectionService {
+  constructor(
+    @Inject('DATABASE_CONNECTION') private readonly db: DrizzleDatabase,
+    private readonly bookingEventRepository: BookingEventRepository,
+  ) {}
+
+  /**
+   * Replays every booking aggregate of the tenant and, unless `dryRun` is
+   * set, rewrites the rows to match. Untracked rows are adopted by seeding
+   * their history with a booking_created snapshot. Runs in one transaction
+   * under every artist lock of the tenant, so bookings can't change midway.
+   */
+  async rebuild(
+    tenantId: string,
+    options: { dryRun?: boolean } = {},
+  ): Promise<ProjectionRebuildReport> {
+    const dryRun = options.dryRun ?? false;
+
+    return this.db.transaction(async (tx) => {
+      const tenantArtists = await tx
+        .select({ id: artists.id })
+        .from(artists)
+        .where(eq(artists.tenantId, tenantId));
+      await lockArtists(tx, tenantArtists.map((artist) => artist.id));
+
+      const rows = await tx
+        .select()
+        .from(bookings)
+        .where(eq(bookings.tenantId, tenantId))
+        .for('update');
+      const events = await this.bookingEventRepository.findByTenant(tenantId, {}, tx);
+
+      const stored = new Map(rows.map((row) => [row.id, row]));
+      const streams = groupEventsByAggregate(events);
+      const planned: PlannedRepair[] = [];
+
+      for (const [bookingId, stream] of streams) {
+        const row = stored.get(bookingId);
+
+        let replayed: BookingRow | null;
+        try {
+          replayed = replayBooking(stream);
+        } catch (error) {
+          planned.push({
+            divergence: {
+              bookingId,
+              kind: 'invalid_stream',
+              error: error instanceof Error ? error.message : String(error),
+            },
+          });
+          continue;
+        }
+
+        if (replayed && !row) {
+          planned.push({
+            divergence: { bookingId, kind: 'missing' },
+            repair: () => tx.insert(bookings).values(replayed),
+          });
+        } else if (!replayed && row) {
+          planned.push({
+            divergence: { bookingId, kind: 'orphaned' },
+            repair: () => tx.delete(bookings).where(eq(bookings.id, bookingId)),
+          });
+        } else if (replayed && row) {
+          const fields = diffProjection(row, replayed);
+          if (fields.length > 0) {
+            const values = omit(replayed, ['id', 'tenantId']);
+            planned.push({
+              divergence: { bookingId, kind: 'diverged', fields },
+              repair: () => tx.update(bookings).set(values).where(eq(bookings.id, bookingId)),
+            });
+          }
+        }
+      }
+
+      for (const row of rows) {
+        if (!streams.has(row.id)) {
+          planned.push({
+            divergence: { bookingId: row.id, kind: 'untracked' },
+            repair: () => this.bookingEventRepository.ensureStream(row, tx),
+          });
+        }
+      }
+
+      if (!dryRun) {
+        // Removing rows first and inserting last keeps the exclusion
+        // constraint from tripping over a slot that is only changing hands
+        const ordered = [...planned].sort(
+          (a, b) => REPAIR_ORDER[a.divergence.kind] - REPAIR_ORDER[b.divergence.kind],
+        );
+        for (const { repair } of ordered) {
+          await repair?.();
+        }
+      }
+
+      return {
+        tenantId,
+        aggregates: streams.size,
+        divergences: planned.map(({ divergence }) => divergence),
+        dryRun,
+      };
+    });
+  }
+}
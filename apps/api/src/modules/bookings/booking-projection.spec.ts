@@ -0,0 +1,134 @@
+import { BookingRow } from './booking-events';
+import { diffProjection, groupEventsByAggregate, replayBooking } from './booking-projection';
+import { BookingEventRecord } from './repositories/booking-event.repository';
+
+const BOOKING_ID = '00000000-0000-0000-0000-000000000001';
+
+function snapshot(overrides: Partial<BookingRow> = {}): BookingRow {
+  return {
+    id: BOOKING_ID,
+    tenantId: 'tenant-1',
+    artistId: 'artist-1',
+    status: 'hold',
+    title: 'Lookdev',
+    startTime: new Date('2026-11-02T09:00:00Z'),
+    endTime: new Date('2026-11-02T17:00:00Z'),
+    holdRank: 1,
+    metadata: null,
+    version: 1,
+    createdAt: new Date('2026-10-01T08:00:00Z'),
+    updatedAt: new Date('2026-10-01T08:00:00Z'),
+    ...overrides,
+  } as BookingRow;
+}
+
+// Payloads come back from jsonb with dates as strings
+function event(
+  eventVersion: number,
+  eventType: BookingEventRecord['eventType'],
+  eventData: unknown,
+  aggregateId = BOOKING_ID,
+): BookingEventRecord {
+  return {
+    id: `event-${aggregateId}-${eventVersion}`,
+    aggregateId,
+    tenantId: 'tenant-1',
+    eventType,
+    eventData: JSON.parse(JSON.stringify(eventData)),
+    eventVersion,
+    userId: null,
+    occurredAt: new Date(Date.UTC(2026, 9, eventVersion)),
+  };
+}
+
+describe('booking projection', () => {
+  describe('replayBooking', () => {
+    it('applies changes on top of the creation snapshot', () => {
+      const state = replayBooking([
+        event(1, 'hold_created', { snapshot: snapshot() }),
+        event(2, 'booking_moved', {
+          changes: {
+            startTime: new Date('2026-11-03T09:00:00Z'),
+            endTime: new Date('2026-11-03T17:00:00Z'),
+          },
+        }),
+        event(3, 'hold_converted', { changes: { status: 'confirmed', holdRank: null } }),
+      ]);
+
+      expect(state).toMatchObject({
+        status: 'confirmed',
+        holdRank: null,
+        title: 'Lookdev',
+        version: 3,
+        updatedAt: new Date(Date.UTC(2026, 9, 3)),
+      });
+      expect(state!.startTime).toEqual(new Date('2026-11-03T09:00:00Z'));
+      expect(state!.createdAt).toEqual(new Date('2026-10-01T08:00:00Z'));
+    });
+
+    it('keeps the version an adopted row had when its history began', () => {
+      const state = replayBooking([
+        event(1, 'booking_created', { snapshot: snapshot({ version: 7 }) }),
+        event(2, 'booking_updated', { changes: { title: 'Lighting' } }),
+      ]);
+
+      expect(state).toMatchObject({ title: 'Lighting', version: 8 });
+    });
+
+    it('skips approval events', () => {
+      const state = replayBooking([
+        event(1, 'hold_created', { snapshot: snapshot() }),
+        event(2, 'approval_requested', { context: { reasons: [] } }),
+      ]);
+
+      expect(state).toMatchObject({ version: 1, status: 'hold' });
+    });
+
+    it('returns null for a deleted booking', () => {
+      expect(
+        replayBooking([
+          event(1, 'hold_created', { snapshot: snapshot() }),
+          event(2, 'booking_deleted', { context: { previousStatus: 'hold' } }),
+        ]),
+      ).toBeNull();
+    });
+
+    it('rejects a stream that changes a booking before creating it', () => {
+      expect(() =>
+        replayBooking([event(1, 'booking_updated', { changes: { title: 'Lighting' } })]),
+      ).toThrow('precedes its creation');
+    });
+  });
+
+  it('groups events into one stream per booking', () => {
+    const other = '00000000-0000-0000-0000-000000000002';
+    const streams = groupEventsByAggregate([
+      event(1, 'hold_created', { snapshot: snapshot() }),
+      event(2, 'booking_updated', { changes: {} }),
+      event(1, 'booking_created', { snapshot: snapshot({ id: other }) }, other),
+    ]);
+
+    expect([...streams.keys()]).toEqual([BOOKING_ID, other]);
+    expect(streams.get(BOOKING_ID)!.map((e) => e.eventVersion)).toEqual([1, 2]);
+  });
+
+  describe('diffProjection', () => {
+    it('ignores updatedAt and the key order of json columns', () => {
+      const stored = snapshot({
+        metadata: { tags: ['lookdev'], color: '#fa0' },
+        updatedAt: new Date('2026-10-05T00:00:00Z'),
+      });
+      const replayed = snapshot({ metadata: { color: '#fa0', tags: ['lookdev'] } });
+
+      expect(diffProjection(stored, replayed)).toEqual([]);
+    });
+
+    it('reports fields that differ', () => {
+      const stored = snapshot({ status: 'confirmed' });
+
+      expect(diffProjection(stored, snapshot())).toEqual([
+        { field: 'status', projection: 'confirmed', replayed: 'hold' },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,123 @@
+import {
+  BookingChangedData,
+  BookingCreatedData,
+  BookingRow,
+  isChangeEvent,
+  isCreationEvent,
+} from './booking-events';
+import { BookingEventRecord } from './repositories/booking-event.repository';
+
+// Timestamp columns come back from jsonb as ISO strings
+const DATE_FIELDS = ['startTime', 'endTime', 'holdExpiresAt', 'holdQueuedAt', 'recurrenceId', 'cancelledAt', 'createdAt', 'updatedAt'] as const;
+
+function reviveDates<T extends Record<string, unknown>>(values: T): T {
+  const revived: Record<string, unknown> = { ...values };
+  for (const field of DATE_FIELDS) {
+    const value = revived[field];
+    if (typeof value === 'string') {
+      revived[field] = new Date(value);
+    }
+  }
+  return revived as T;
+}
+
+/**
+ * Splits events loaded in (aggregateId, eventVersion) order into one stream
+ * per booking.
+ */
+export function groupEventsByAggregate(
+  events: BookingEventRecord[],
+): Map<string, BookingEventRecord[]> {
+  const streams = new Map<string, BookingEventRecord[]>();
+  for (const event of events) {
+    const stream = streams.get(event.aggregateId) ?? [];
+    stream.push(event);
+    streams.set(event.aggregateId, stream);
+  }
+  return streams;
+}
+
+/**
+ * Folds an aggregate's events (in eventVersion order) into the bookings row
+ * they describe. Returns null when the aggregate was deleted or never
+ * created.
+ */
+export function replayBooking(events: BookingEventRecord[]): BookingRow | null {
+  let state: BookingRow | null = null;
+
+  for (const event of events) {
+    if (isCreationEvent(event.eventType)) {
+      const { snapshot } = event.eventData as BookingCreatedData;
+      state = {
+        ...reviveDates(snapshot),
+        // Adopted rows keep the version they had when their history began
+        version: snapshot.version ?? 1,
+        updatedAt: event.occurredAt,
+      };
+    } else if (isChangeEvent(event.eventType)) {
+      if (!state) {
+        throw new Error(
+          `Event ${event.eventVersion} of booking ${event.aggregateId} precedes its creation`,
+        );
+      }
+
+      const { changes } = event.eventData as BookingChangedData;
+      state = {
+        ...state,
+        ...reviveDates(changes),
+        version: state.version + 1,
+        updatedAt: event.occurredAt,
+      } as BookingRow;
+    } else if (event.eventType === 'booking_deleted') {
+      state = null;
+    }
+  }
+
+  return state;
+}
+
+// updatedAt is bookkeeping owned by the database trigger, not by events
+const IGNORED_FIELDS = new Set<string>(['updatedAt']);
+
+function normalize(value: unknown): unknown {
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  if (Array.isArray(value)) {
+    return value.map(normalize);
+  }
+  if (value && typeof value === 'object') {
+    // jsonb reorders keys, so compare objects key-sorted
+    return Object.fromEntries(
+      Object.keys(value)
+        .sort()
+        .map((key) => [key, normalize((value as Record<string, unknown>)[key])]),
+    );
+  }
+  return value ?? null;
+}
+
+/**
+ * Fields where the stored projection differs from the replayed one.
+ */
+export function diffProjection(
+  projection: BookingRow,
+  replayed: BookingRow,
+): Array<{ field: string; projection: unknown; replayed: unknown }> {
+  const fields = new Set([...Object.keys(projection), ...Object.keys(replayed)]);
+  const differences: Array<{ field: string; projection: unknown; replayed: unknown }> = [];
+
+  for (const field of fields) {
+    if (IGNORED_FIELDS.has(field)) {
+      continue;
+    }
+
+    const stored = normalize(projection[field as keyof BookingRow]);
+    const expected = normalize(replayed[field as keyof BookingRow]);
+    if (JSON.stringify(stored) !== JSON.stringify(expected)) {
+      differences.push({ field, projection: stored, replayed: expected });
+    }
+  }
+
+  return differences;
+}
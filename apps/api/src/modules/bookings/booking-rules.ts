@@ -0,0 +1,63 @@
+import { tenants } from '../../database/schema';
+
+type TenantSettings = (typeof tenants.$inferSelect)['settings'];
+
+/**
+ * Typed view over tenants.settings.bookingRules. The column is free-form
+ * JSON, so every rule is optional and callers fall back to defaults.
+ */
+export interface TenantBookingRules {
+  holdExpiry?: {
+    // What happens when a hold passes holdExpiresAt
+    action?: 'cancel' | 'downgrade';
+    // How long a downgraded hold lives before it is swept again
+    downgradeGraceHours?: number;
+  };
+  firstRefusal?: {
+    // How long a challenged first-refusal holder has to confirm or release
+    challengeResponseHours?: number;
+  };
+  conflicts?: {
+    // Minimum gap between two of an artist's bookings (travel, turnaround);
+    // closer bookings are flagged by the conflict report
+    turnaroundMinutes?: number;
+  };
+  pricing?: {
+    // Applied to time outside the tenant's working hours
+    overtimeMultiplier?: number;
+    // Applied to all time on weekend days, in place of overtime
+    weekendMultiplier?: number;
+    // Days of the week that count as weekend, 0 = Sunday (default Sat/Sun)
+    weekendDays?: number[];
+  };
+  approval?: {
+    // Confirming a hold needs approval when its total exceeds this amount...
+    maxAmount?: number;
+    // ...or when it runs longer than this
+    maxDurationHours?: number;
+    // Roles that may decide (default both)
+    approverRoles?: Array<'owner' | 'manager'>;
+    // When set, only these users (holding an approver role) may decide
+    approverUserIds?: string[];
+  };
+  cancellation?: {
+    // Cancelling a confirmed booking less than noticeHours before it starts
+    // costs feePercent of its total; the tightest window that applies wins.
+    // Artists with a policy of their own use that instead
+    tiers?: Array<{ noticeHours: number; feePercent: number }>;
+  };
+  budget?: {
+    // Percentages of a project's budget; when a booking takes the
+    // project's forecast spend past one, the roles below are notified
+    // (default 80 and 100)
+    warnAtPercent?: number[];
+    // Roles notified (default both)
+    notifyRoles?: Array<'owner' | 'manager'>;
+  };
+}
+
+export function getBookingRules(
+  settings: TenantSettings | undefined,
+): TenantBookingRules {
+  return (settings?.bookingRules ?? {}) as TenantBookingRules;
+}
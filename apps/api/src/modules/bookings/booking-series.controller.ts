@@ -0,0 +1,103 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Body,
+  Param,
+  UseGuards,
+  UseInterceptors,
+  Req,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiBearerAuth } from '@nestjs/swagger';
+import { BookingSeriesService } from './booking-series.service';
+import { CreateBookingSeriesDto } from './dto/create-booking-series.dto';
+import { ExpandBookingSeriesDto } from './dto/expand-booking-series.dto';
+import { AddSeriesExdatesDto } from './dto/add-series-exdates.dto';
+import { UpdateSeriesOccurrenceDto } from './dto/update-series-occurrence.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { TenantGuard } from '../auth/guards/tenant.guard';
+import { RequestWithUser } from '../auth/interfaces/request-with-user.interface';
+import { TimeZoneInterceptor } from '../../common/interceptors/time-zone.interceptor';
+
+@ApiTags('bookings')
+@ApiBearerAuth()
+@Controller('bookings/series')
+@UseGuards(JwtAuthGuard, TenantGuard)
+@UseInterceptors(TimeZoneInterceptor)
+export class BookingSeriesController {
+  constructor(private readonly bookingSeriesService: BookingSeriesService) {}
+
+  @Post()
+  @ApiOperation({ summary: 'Create recurring booking series' })
+  async create(@Body() createDto: CreateBookingSeriesDto, @Req() req: RequestWithUser) {
+    const result = await this.bookingSeriesService.create(
+      createDto,
+      req.user.tenantId,
+      req.user.id,
+    );
+
+    return { data: result };
+  }
+
+  @Get(':seriesId')
+  @ApiOperation({ summary: 'Get series with its occurrences' })
+  async findOne(@Param('seriesId') seriesId: string, @Req() req: RequestWithUser) {
+    const result = await this.bookingSeriesService.findOne(seriesId, req.user.tenantId);
+    return { data: result };
+  }
+
+  @Post(':seriesId/expand')
+  @ApiOperation({ summary: 'Create occurrences up to a later date' })
+  async expand(
+    @Param('seriesId') seriesId: string,
+    @Body() expandDto: ExpandBookingSeriesDto,
+    @Req() req: RequestWithUser,
+  ) {
+    const result = await this.bookingSeriesService.expand(
+      seriesId,
+      expandDto.until,
+      req.user.tenantId,
+      req.user.id,
+      { allowOutsideWorkingHours: expandDto.allowOutsideWorkingHours },
+    );
+
+    return { data: result };
+  }
+
+  @Post(':seriesId/exdates')
+  @ApiOperation({ summary: 'Skip occurrences (cancels their bookings)' })
+  async addExdates(
+    @Param('seriesId') seriesId: string,
+    @Body() exdatesDto: AddSeriesExdatesDto,
+    @Req() req: RequestWithUser,
+  ) {
+    const result = await this.bookingSeriesService.addExdates(
+      seriesId,
+      exdatesDto.dates,
+      req.user.tenantId,
+      req.user.id,
+    );
+
+    return { data: result };
+  }
+
+  @Patch(':seriesId/occurrences/:id')
+  @ApiOperation({ summary: 'Edit this occurrence, this and following, or all occurrences' })
+  async updateOccurrence(
+    @Param('seriesId') seriesId: string,
+    @Param('id') id: string,
+    @Body() updateDto: UpdateSeriesOccurrenceDto,
+    @Req() req: RequestWithUser,
+  ) {
+    const result = await this.bookingSeriesService.updateOccurrence(
+      seriesId,
+      id,
+      updateDto,
+      req.user.tenantId,
+      req.user.id,
+    );
+
+    return { data: result };
+  }
+}
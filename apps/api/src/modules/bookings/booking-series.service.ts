@@ -0,0 +1,753 @@
+import {
+  Injectable,
+  Inject,
+  NotFoundException,
+  ConflictException,
+  BadRequestException,
+} from '@nestjs/common';
+import { DrizzleDatabase, DrizzleTransaction } from '../../common/types/drizzle.types';
+import { omit } from '../../common/utils/omit';
+import { Booking } from '../../database/schema';
+import {
+  BookingMutation,
+  BookingsService,
+  ConflictCheck,
+  updateBookingSchema,
+} from './bookings.service';
+import { BookingChanges } from './booking-events';
+import { lockArtists } from './hold-ranking.service';
+import { AvailabilityService } from './availability.service';
+import {
+  MAX_OCCURRENCES_PER_EXPANSION,
+  isOccurrence,
+  normalizeRecurrenceRule,
+  occurrencesBetween,
+  splitRecurrenceRule,
+} from './recurrence';
+import {
+  BookingSeriesRecord,
+  BookingSeriesRepository,
+  NewBookingSeries,
+} from './repositories/booking-series.repository';
+import { CreateBookingSeriesDto } from './dto/create-booking-series.dto';
+import { UpdateSeriesOccurrenceDto } from './dto/update-series-occurrence.dto';
+
+const DEFAULT_EXPANSION_DAYS = 90;
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+// Booking columns a series edit also copies onto the series template
+const TEMPLATE_FIELDS = [
+  'artistId',
+  'projectId',
+  'status',
+  'holdType',
+  'title',
+  'notes',
+  'rate',
+  'rateType',
+] as const;
+
+export interface SeriesOccurrenceConflict {
+  occurrence: Date;
+  conflictingBookingIds: string[];
+  externalBusyBlockIds?: string[];
+}
+
+export interface BookingSeriesWithOccurrences {
+  series: BookingSeriesRecord;
+  occurrences: Booking[];
+}
+
+interface MaterializeOptions {
+  limit?: number;
+  allowOutsideWorkingHours?: boolean;
+}
+
+// A series write, broadcast once its transaction commits
+interface SeriesWrite {
+  series: BookingSeriesRecord;
+  created: BookingMutation[];
+  changed: BookingMutation[];
+}
+
+function isActive(booking: Booking) {
+  return booking.status !== 'cancelled' && booking.status !== 'completed';
+}
+
+/**
+ * Recurring bookings. A series stores an RRULE and a template; occurrences
+ * are ordinary bookings, created ahead of time up to `expandedUntil` and
+ * linked back by (seriesId, recurrenceId). Every occurrence goes through
+ * the same conflict checks, hold ranking and events as a single booking.
+ */
+@Injectable()
+export class BookingSeriesService {
+  constructor(
+    @Inject('DATABASE_CONNECTION') private readonly db: DrizzleDatabase,
+    private readonly bookingSeriesRepository: BookingSeriesRepository,
+    private readonly bookingsService: BookingsService,
+    private readonly availabilityService: AvailabilityService,
+  ) {}
+
+  /**
+   * Creates the series and its occurrences up to `expandUntil`. Nothing is
+   * written if any occurrence conflicts or, unless allowed, falls outside
+   * the artist's working hours; the 409 lists every conflicting occurrence.
+   */
+  async create(
+    createDto: CreateBookingSeriesDto,
+    tenantId: string,
+    userId: string,
+  ): Promise<BookingSeriesWithOccurrences> {
+    const { rrule, expandUntil, allowOutsideWorkingHours, ...template } = createDto;
+    const rule = normalizeRecurrenceRule(rrule);
+
+    this.bookingsService.validateTimeRange(template.startTime, template.endTime);
+    this.assertSeriesStatus(template.status);
+
+    const expandedUntil =
+      expandUntil ?? new Date(template.startTime.getTime() + DEFAULT_EXPANSION_DAYS * DAY_MS);
+    if (expandedUntil < template.startTime) {
+      throw new BadRequestException('expandUntil must not be before the first occurrence');
+    }
+
+    // Occurrences keep the first one's local time in the artist's zone
+    const timeZone = await this.availabilityService.artistTimeZone(tenantId, template.artistId);
+    if (!timeZone) {
+      throw new NotFoundException('Artist not found');
+    }
+
+    const write = await this.db.transaction(async (tx) => {
+      await lockArtists(tx, [template.artistId]);
+
+      const series = await this.bookingSeriesRepository.create(
+        {
+          tenantId,
+          artistId: template.artistId,
+          projectId: template.projectId,
+          userId,
+          rrule: rule,
+          dtstart: template.startTime,
+          durationMinutes: this.durationMinutes(template.startTime, template.endTime),
+          exdates: [],
+          expandedUntil,
+          timeZone,
+          status: template.status ?? 'hold',
+          holdType: template.holdType,
+          title: template.title,
+          notes: template.notes,
+          rate: template.rate,
+          rateType: template.rateType,
+          createdBy: userId,
+          updatedBy: userId,
+        },
+        tx,
+      );
+
+      const created = await this.materialize(tx, series, series.dtstart, expandedUntil, userId, {
+        allowOutsideWorkingHours,
+      });
+
+      return { series, created, changed: [] };
+    });
+
+    return this.publish(write);
+  }
+
+  async findOne(seriesId: string, tenantId: string): Promise<BookingSeriesWithOccurrences> {
+    const series = await this.bookingSeriesRepository.findOne(seriesId, tenantId);
+    if (!series) {
+      throw new NotFoundException('Booking series not found');
+    }
+
+    const occurrences = await this.bookingSeriesRepository.findOccurrences(seriesId);
+
+    return { series, occurrences };
+  }
+
+  /**
+   * Creates the occurrences between the current horizon and `until`.
+   * Returns only the newly created ones.
+   */
+  async expand(
+    seriesId: string,
+    until: Date,
+    tenantId: string,
+    userId: string,
+    options: { allowOutsideWorkingHours?: boolean } = {},
+  ): Promise<BookingSeriesWithOccurrences> {
+    const write = await this.db.transaction(async (tx) => {
+      const { series } = await this.lockSeries(tx, seriesId, tenantId);
+
+      if (until <= series.expandedUntil) {
+        return { series, created: [], changed: [] };
+      }
+
+      const created = await this.materialize(
+        tx,
+        series,
+        series.expandedUntil,
+        until,
+        userId,
+        options,
+      );
+      const updated = await this.bookingSeriesRepository.update(
+        series.id,
+        { expandedUntil: until, updatedBy: userId },
+        tx,
+      );
+
+      return { series: updated, created, changed: [] };
+    });
+
+    return this.publish(write);
+  }
+
+  /**
+   * Skips occurrences of the series (RFC 5545 EXDATE) and cancels the
+   * bookings already created for them. Returns the cancelled bookings.
+   */
+  async addExdates(
+    seriesId: string,
+    dates: Date[],
+    tenantId: string,
+    userId: string,
+  ): Promise<BookingSeriesWithOccurrences> {
+    const write = await this.db.transaction(async (tx) => {
+      const { series, occurrences } = await this.lockSeries(tx, seriesId, tenantId);
+
+      const invalid = dates.filter((date) => !isOccurrence(series, date));
+      if (invalid.length > 0) {
+        throw new BadRequestException(
+          `Not occurrences of this series: ${invalid.map((date) => date.toISOString()).join(', ')}`,
+        );
+      }
+
+      const exdates = [
+        ...new Set([...series.exdates, ...dates.map((date) => date.toISOString())]),
+      ].sort();
+      const updated = await this.bookingSeriesRepository.update(
+        series.id,
+        { exdates, updatedBy: userId },
+        tx,
+      );
+
+      const skipped = new Set(dates.map((date) => date.getTime()));
+      const changed: BookingMutation[] = [];
+
+      for (const occurrence of occurrences) {
+        if (isActive(occurrence) && skipped.has(occurrence.recurrenceId!.getTime())) {
+          changed.push(
+            await this.bookingsService.cancelWithin(
+              tx,
+              occurrence,
+              occurrence.version,
+              userId,
+              'Occurrence skipped from its series',
+            ),
+          );
+        }
+      }
+
+      return { series: updated, created: [], changed };
+    });
+
+    return this.publish(write);
+  }
+
+  /**
+   * Edits an occurrence and, depending on `scope`, the rest of the series:
+   * - this: only this booking, which then no longer follows series edits
+   * - following: splits the series here; this and later occurrences move
+   *   to a new series that carries the changes
+   * - all: every occurrence and the series template
+   * A new start time shifts the affected occurrences by the same amount.
+   * Occurrences moved or created must fall within the artist's working
+   * hours unless allowOutsideWorkingHours is set.
+   * Returns the series the edited occurrence belongs to afterwards and the
+   * bookings that changed.
+   */
+  async updateOccurrence(
+    seriesId: string,
+    bookingId: string,
+    updateDto: UpdateSeriesOccurrenceDto,
+    tenantId: string,
+    userId: string,
+  ): Promise<BookingSeriesWithOccurrences> {
+    const { scope, version, rrule, allowOutsideWorkingHours, ...fields } = updateDto;
+    const changes = updateBookingSchema.parse(fields) as BookingChanges;
+
+    if (scope === 'this' && rrule) {
+      throw new BadRequestException('The recurrence rule can only change for "following" or "all"');
+    }
+    if (scope !== 'this') {
+      this.assertSeriesStatus(changes.status);
+    }
+
+    const write = await this.db.transaction(async (tx) => {
+      const target = await this.bookingsService.findOne(bookingId, tenantId, tx);
+      if (target.seriesId !== seriesId) {
+        throw new NotFoundException('Booking is not an occurrence of this series');
+      }
+
+      const { series, occurrences } = await this.lockSeries(tx, seriesId, tenantId, [
+        changes.artistId,
+      ]);
+
+      const occurrence = occurrences.find((b) => b.id === bookingId)!;
+      this.bookingsService.assertVersion(occurrence, version);
+
+      if (scope === 'this') {
+        const slot = {
+          artistId: changes.artistId ?? occurrence.artistId,
+          startTime: changes.startTime ?? occurrence.startTime,
+          endTime: changes.endTime ?? occurrence.endTime,
+        };
+        // As with a single booking, only a new slot is checked
+        const moved = Object.keys(this.changedFields(occurrence, slot)).length > 0;
+        const status = changes.status ?? occurrence.status;
+        if (
+          moved &&
+          !allowOutsideWorkingHours &&
+          status !== 'cancelled' &&
+          status !== 'completed'
+        ) {
+          await this.bookingsService.assertWithinWorkingHours(
+            tenantId,
+            slot.artistId,
+            slot.startTime,
+            slot.endTime,
+          );
+        }
+
+        const mutation = await this.bookingsService.changeWithin(
+          tx,
+          occurrence,
+          version,
+          { ...changes, isRecurrenceException: true },
+          userId,
+        );
+
+        return { series, created: [], changed: [mutation] };
+      }
+
+      return this.updateSeries(tx, series, occurrences, occurrence, scope, changes, rrule, userId, {
+        allowOutsideWorkingHours,
+      });
+    });
+
+    return this.publish(write);
+  }
+
+  private async updateSeries(
+    tx: DrizzleTransaction,
+    series: BookingSeriesRecord,
+    occurrences: Booking[],
+    edited: Booking,
+    scope: 'following' | 'all',
+    changes: BookingChanges,
+    rrule: string | undefined,
+    userId: string,
+    options: { allowOutsideWorkingHours?: boolean },
+  ): Promise<SeriesWrite> {
+    const pivot = edited.recurrenceId!;
+    const startTime = changes.startTime ?? edited.startTime;
+    const endTime = changes.endTime ?? edited.endTime;
+    this.bookingsService.validateTimeRange(startTime, endTime);
+
+    const shift = startTime.getTime() - edited.startTime.getTime();
+    const shifted = (date: Date) => new Date(date.getTime() + shift);
+    const durationMinutes =
+      changes.startTime || changes.endTime
+        ? this.durationMinutes(startTime, endTime)
+        : series.durationMinutes;
+
+    let target = series;
+
+    // Editing "following" from the first occurrence is the same as "all"
+    if (scope === 'following' && pivot > series.dtstart) {
+      const { before, after } = splitRecurrenceRule(series, pivot);
+      const keptExdates = series.exdates.filter((date) => new Date(date) < pivot);
+      const movedExdates = series.exdates.filter((date) => new Date(date) >= pivot);
+
+      await this.bookingSeriesRepository.update(
+        series.id,
+        { rrule: before, exdates: keptExdates, updatedBy: userId },
+        tx,
+      );
+
+      target = await this.bookingSeriesRepository.create(
+        {
+          ...omit(series, ['id', 'version', 'createdAt', 'updatedAt']),
+          rrule: after,
+          dtstart: pivot,
+          exdates: movedExdates,
+          createdBy: userId,
+          updatedBy: userId,
+        },
+        tx,
+      );
+    }
+
+    const templateChanges: Partial<NewBookingSeries> = {};
+    for (const field of TEMPLATE_FIELDS) {
+      if (changes[field] !== undefined) {
+        (templateChanges as Record<string, unknown>)[field] = changes[field];
+      }
+    }
+    // A series moved to another artist follows that artist's clock; series
+    // from before zones were stored stay in UTC
+    if (changes.artistId && changes.artistId !== target.artistId && target.timeZone) {
+      templateChanges.timeZone =
+        (await this.availabilityService.artistTimeZone(target.tenantId, changes.artistId)) ??
+        target.timeZone;
+    }
+
+    target = await this.bookingSeriesRepository.update(
+      target.id,
+      {
+        ...templateChanges,
+        rrule: rrule ? normalizeRecurrenceRule(rrule) : target.rrule,
+        dtstart: shifted(target.dtstart),
+        durationMinutes,
+        exdates: target.exdates.map((date) => shifted(new Date(date)).toISOString()),
+        updatedBy: userId,
+      },
+      tx,
+    );
+
+    const fieldChanges = omit(changes, ['startTime', 'endTime']);
+    const inScope = occurrences
+      .filter((b) => scope === 'all' || b.recurrenceId! >= pivot)
+      // Shift in the direction of travel so an occurrence never lands on a
+      // neighbour that hasn't moved yet
+      .sort((a, b) =>
+        shift > 0
+          ? b.recurrenceId!.getTime() - a.recurrenceId!.getTime()
+          : a.recurrenceId!.getTime() - b.recurrenceId!.getTime(),
+      );
+
+    const conflicts: SeriesOccurrenceConflict[] = [];
+    const changed: BookingMutation[] = [];
+    // New slots of the occurrences that follow the edit, by artist
+    const moved = new Map<string, Array<{ startTime: Date; endTime: Date }>>();
+
+    for (const { id } of inScope) {
+      // Reranking an earlier occurrence may have bumped this one
+      const occurrence = await this.bookingsService.findOne(id, series.tenantId, tx);
+      const recurrenceId = shifted(occurrence.recurrenceId!);
+
+      // Exceptions and past outcomes keep their own details and only follow
+      // the series link; the edited occurrence rejoins the series
+      const follows =
+        isActive(occurrence) &&
+        (!occurrence.isRecurrenceException || occurrence.id === edited.id);
+
+      const data = this.changedFields(occurrence, {
+        ...(follows
+          ? {
+              ...fieldChanges,
+              startTime: recurrenceId,
+              endTime: new Date(recurrenceId.getTime() + durationMinutes * MINUTE_MS),
+              isRecurrenceException: false,
+            }
+          : {}),
+        seriesId: target.id,
+        recurrenceId,
+      });
+
+      if (Object.keys(data).length === 0) {
+        continue;
+      }
+
+      if (follows) {
+        const conflict = await this.findOccurrenceConflict(
+          recurrenceId,
+          {
+            tenantId: occurrence.tenantId,
+            artistId: data.artistId ?? occurrence.artistId,
+            startTime: data.startTime ?? occurrence.startTime,
+            endTime: data.endTime ?? occurrence.endTime,
+            status: data.status ?? occurrence.status ?? 'hold',
+            excludeId: occurrence.id,
+          },
+          tx,
+        );
+        if (conflict) {
+          conflicts.push(conflict);
+          continue;
+        }
+
+        if (data.artistId || data.startTime || data.endTime) {
+          const artistId = data.artistId ?? occurrence.artistId;
+          moved.set(artistId, [
+            ...(moved.get(artistId) ?? []),
+            {
+              startTime: data.startTime ?? occurrence.startTime,
+              endTime: data.endTime ?? occurrence.endTime,
+            },
+          ]);
+        }
+      }
+
+      const mutation = await this.bookingsService.changeWithin(
+        tx,
+        occurrence,
+        occurrence.version,
+        data,
+        userId,
+      );
+      changed.push(mutation);
+    }
+
+    this.assertNoSeriesConflicts(conflicts);
+    if (!options.allowOutsideWorkingHours) {
+      for (const [artistId, slots] of moved) {
+        await this.bookingsService.assertSlotsWithinWorkingHours(series.tenantId, artistId, slots);
+      }
+    }
+
+    const reconciled = await this.reconcile(tx, target, userId, options);
+
+    return {
+      series: target,
+      created: reconciled.created,
+      changed: [...changed, ...reconciled.changed],
+    };
+  }
+
+  /**
+   * Brings the occurrences in line with the series rule after an edit:
+   * occurrences the rule no longer generates are cancelled and detached,
+   * and newly generated ones up to the horizon are created. Cancelled
+   * occurrences are never recreated.
+   */
+  private async reconcile(
+    tx: DrizzleTransaction,
+    series: BookingSeriesRecord,
+    userId: string,
+    options: { allowOutsideWorkingHours?: boolean },
+  ): Promise<{ created: BookingMutation[]; changed: BookingMutation[] }> {
+    const attached = await this.bookingSeriesRepository.findOccurrences(series.id, tx);
+    // The rule may regenerate every existing occurrence plus a full expansion
+    const limit = attached.length + MAX_OCCURRENCES_PER_EXPANSION;
+
+    const expected = new Set(
+      occurrencesBetween(series, series.dtstart, series.expandedUntil, limit).map((date) =>
+        date.getTime(),
+      ),
+    );
+
+    const changed: BookingMutation[] = [];
+    for (const occurrence of attached) {
+      if (!isActive(occurrence) || expected.has(occurrence.recurrenceId!.getTime())) {
+        continue;
+      }
+
+      const current = await this.bookingsService.findOne(occurrence.id, occurrence.tenantId, tx);
+      changed.push(
+        await this.bookingsService.changeWithin(
+          tx,
+          current,
+          current.version,
+          {
+            status: 'cancelled',
+            cancellationReason: 'No longer generated by its series rule',
+            seriesId: null,
+            recurrenceId: null,
+          },
+          userId,
+        ),
+      );
+    }
+
+    const created = await this.materialize(
+      tx,
+      series,
+      series.dtstart,
+      series.expandedUntil,
+      userId,
+      { ...options, limit },
+    );
+
+    return { created, changed };
+  }
+
+  /**
+   * Creates the occurrences in [from, until] that don't exist yet. Every
+   * occurrence is checked against the artist's working hours, unless
+   * allowed outside them, and for conflicts first; if any conflicts, the
+   * 409 lists them all and the caller's transaction rolls back.
+   */
+  private async materialize(
+    tx: DrizzleTransaction,
+    series: BookingSeriesRecord,
+    from: Date,
+    until: Date,
+    userId: string,
+    options: MaterializeOptions = {},
+  ): Promise<BookingMutation[]> {
+    const existing = new Set(
+      (await this.bookingSeriesRepository.findOccurrences(series.id, tx)).map((b) =>
+        b.recurrenceId!.getTime(),
+      ),
+    );
+    const slots = occurrencesBetween(series, from, until, options.limit)
+      .filter((startTime) => !existing.has(startTime.getTime()))
+      .map((startTime) => ({
+        startTime,
+        endTime: new Date(startTime.getTime() + series.durationMinutes * MINUTE_MS),
+      }));
+
+    if (!options.allowOutsideWorkingHours) {
+      await this.bookingsService.assertSlotsWithinWorkingHours(
+        series.tenantId,
+        series.artistId,
+        slots,
+      );
+    }
+
+    const status = series.status ?? 'hold';
+    const conflicts: SeriesOccurrenceConflict[] = [];
+    const created: BookingMutation[] = [];
+
+    for (const { startTime, endTime } of slots) {
+
+      const conflict = await this.findOccurrenceConflict(
+        startTime,
+        { tenantId: series.tenantId, artistId: series.artistId, startTime, endTime, status },
+        tx,
+      );
+      if (conflict) {
+        conflicts.push(conflict);
+        continue;
+      }
+
+      created.push(
+        await this.bookingsService.insertWithin(
+          tx,
+          {
+            tenantId: series.tenantId,
+            artistId: series.artistId,
+            projectId: series.projectId,
+            userId: series.userId,
+            startTime,
+            endTime,
+            status,
+            holdType: series.holdType,
+            title: series.title,
+            notes: series.notes,
+            rate: series.rate,
+            rateType: series.rateType,
+            seriesId: series.id,
+            recurrenceId: startTime,
+            createdBy: userId,
+            updatedBy: userId,
+          },
+          userId,
+        ),
+      );
+    }
+
+    this.assertNoSeriesConflicts(conflicts);
+
+    return created;
+  }
+
+  /**
+   * Locks the series row and the artists of every occurrence (plus any
+   * artist the edit moves them to), then reads the occurrences under
+   * those locks.
+   */
+  private async lockSeries(
+    tx: DrizzleTransaction,
+    seriesId: string,
+    tenantId: string,
+    extraArtistIds: Array<string | undefined> = [],
+  ) {
+    const series = await this.bookingSeriesRepository.findOneForUpdate(seriesId, tenantId, tx);
+    if (!series) {
+      throw new NotFoundException('Booking series not found');
+    }
+
+    const before = await this.bookingSeriesRepository.findOccurrences(seriesId, tx);
+    await lockArtists(tx, [
+      series.artistId,
+      ...before.map((b) => b.artistId),
+      ...extraArtistIds.filter((id): id is string => !!id),
+    ]);
+
+    const occurrences = await this.bookingSeriesRepository.findOccurrences(seriesId, tx);
+
+    return { series, occurrences };
+  }
+
+  // Drops values the booking already has so unchanged occurrences aren't rewritten
+  private changedFields(booking: Booking, data: BookingChanges): BookingChanges {
+    const changed: Record<string, unknown> = {};
+    for (const [field, value] of Object.entries(data)) {
+      const current = (booking as Record<string, unknown>)[field];
+      const same =
+        value instanceof Date && current instanceof Date
+          ? value.getTime() === current.getTime()
+          : value === current;
+      if (!same) {
+        changed[field] = value;
+      }
+    }
+    return changed as BookingChanges;
+  }
+
+  private durationMinutes(startTime: Date, endTime: Date) {
+    return Math.round((endTime.getTime() - startTime.getTime()) / MINUTE_MS);
+  }
+
+  private assertSeriesStatus(status: string | null | undefined) {
+    if (status === 'cancelled' || status === 'completed') {
+      throw new BadRequestException(
+        `A series can't be ${status} as a whole; cancel occurrences or skip them with exdates`,
+      );
+    }
+  }
+
+  private async findOccurrenceConflict(
+    occurrence: Date,
+    check: ConflictCheck,
+    tx: DrizzleTransaction,
+  ): Promise<SeriesOccurrenceConflict | null> {
+    const found = await this.bookingsService.findConflicts(check, tx);
+    const external = await this.bookingsService.findExternalConflicts(check, tx);
+    if (found.length === 0 && external.length === 0) {
+      return null;
+    }
+
+    return {
+      occurrence,
+      conflictingBookingIds: found.map((b) => b.id),
+      ...(external.length > 0
+        ? { externalBusyBlockIds: external.map((block) => block.id) }
+        : {}),
+    };
+  }
+
+  private assertNoSeriesConflicts(conflicts: SeriesOccurrenceConflict[]) {
+    if (conflicts.length > 0) {
+      throw new ConflictException({
+        error: 'SERIES_CONFLICT',
+        message: `${conflicts.length} occurrence(s) conflict with existing bookings or external calendars`,
+        details: { conflicts },
+      });
+    }
+  }
+
+  private publish({ series, created, changed }: SeriesWrite): BookingSeriesWithOccurrences {
+    return {
+      series,
+      occurrences: [
+        ...created.map((mutation) => this.bookingsService.broadcastCreated(mutation)),
+        ...changed.map((mutation) => this.bookingsService.broadcastMutation(mutation)),
+      ],
+    };
+  }
+}
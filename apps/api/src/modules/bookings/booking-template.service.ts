@@ -0,0 +1,290 @@
+import {
+  Injectable,
+  Inject,
+  NotFoundException,
+  ConflictException,
+  BadRequestException,
+} from '@nestjs/common';
+import { DrizzleDatabase } from '../../common/types/drizzle.types';
+import { isUniqueViolation } from '../../common/utils/database-errors';
+import { Booking } from '../../database/schema';
+import { BookingMutation, BookingsService } from './bookings.service';
+import { lockArtists } from './hold-ranking.service';
+import { MAX_RANGE_DAYS } from './availability.service';
+import { SlotCandidate, SlotFinderService } from './slot-finder.service';
+import { NewBooking } from './repositories/booking.repository';
+import {
+  BookingTemplateRecord,
+  BookingTemplateRepository,
+  BookingTemplateRole,
+} from './repositories/booking-template.repository';
+import { CreateBookingTemplateDto } from './dto/create-booking-template.dto';
+import { UpdateBookingTemplateDto } from './dto/update-booking-template.dto';
+import { ApplyBookingTemplateDto } from './dto/apply-booking-template.dto';
+import { AcceptTemplateProposalDto } from './dto/accept-template-proposal.dto';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// A hold ready to send back to accept, one per artist, role and working
+// day, so accepting it needs no exception to working hours
+export interface ProposedHold {
+  artistId: string;
+  startTime: Date;
+  endTime: Date;
+  title: string;
+  rate?: string;
+  rateType: 'hourly' | 'daily' | 'fixed';
+}
+
+export interface TemplateRoleProposal {
+  role: BookingTemplateRole;
+  candidates: Array<SlotCandidate & { proposed: ProposedHold[] }>;
+  // Heads no free artist was found for
+  unfilled: number;
+}
+
+export interface TemplateProposal {
+  templateId: string;
+  projectId: string;
+  roles: TemplateRoleProposal[];
+}
+
+/**
+ * Tenant-level crew presets. Applying one searches each role's artist type
+ * through the slot finder and proposes one artist per head; nothing is
+ * booked until the proposal (as edited) is accepted as a batch of holds.
+ */
+@Injectable()
+export class BookingTemplateService {
+  constructor(
+    @Inject('DATABASE_CONNECTION') private readonly db: DrizzleDatabase,
+    private readonly bookingTemplateRepository: BookingTemplateRepository,
+    private readonly bookingsService: BookingsService,
+    private readonly slotFinderService: SlotFinderService,
+  ) {}
+
+  async create(createDto: CreateBookingTemplateDto, tenantId: string, userId: string) {
+    this.assertRoles(createDto.roles);
+
+    return this.withNameCheck(() =>
+      this.bookingTemplateRepository.create({
+        ...createDto,
+        tenantId,
+        createdBy: userId,
+        updatedBy: userId,
+      }),
+    );
+  }
+
+  async findAll(tenantId: string) {
+    return this.bookingTemplateRepository.findAll(tenantId);
+  }
+
+  async findOne(id: string, tenantId: string) {
+    const template = await this.bookingTemplateRepository.findOne(id, tenantId);
+    if (!template) {
+      throw new NotFoundException('Booking template not found');
+    }
+
+    return template;
+  }
+
+  async update(id: string, updateDto: UpdateBookingTemplateDto, tenantId: string, userId: string) {
+    if (updateDto.roles) {
+      this.assertRoles(updateDto.roles);
+    }
+
+    const updated = await this.withNameCheck(() =>
+      this.bookingTemplateRepository.update(id, tenantId, { ...updateDto, updatedBy: userId }),
+    );
+    if (!updated) {
+      throw new NotFoundException('Booking template not found');
+    }
+
+    return updated;
+  }
+
+  async remove(id: string, tenantId: string) {
+    const deleted = await this.bookingTemplateRepository.delete(id, tenantId);
+    if (!deleted) {
+      throw new NotFoundException('Booking template not found');
+    }
+
+    return { success: true };
+  }
+
+  /**
+   * Proposes concrete holds for each role between `from` (plus the role's
+   * offset) and `until`, one per working day for day roles. An artist is
+   * proposed for one role at most; roles are filled in template order.
+   */
+  async apply(
+    id: string,
+    applyDto: ApplyBookingTemplateDto,
+    tenantId: string,
+  ): Promise<TemplateProposal> {
+    const template = await this.findOne(id, tenantId);
+    await this.assertProject(applyDto.projectId, tenantId);
+
+    const latest = new Date(applyDto.from.getTime() + MAX_RANGE_DAYS * DAY_MS);
+    const until = applyDto.until && applyDto.until < latest ? applyDto.until : latest;
+    if (until <= applyDto.from) {
+      throw new BadRequestException('until must be after from');
+    }
+
+    const taken = new Set<string>();
+    const roles: TemplateRoleProposal[] = [];
+
+    for (const role of template.roles) {
+      const from = new Date(applyDto.from.getTime() + (role.startOffsetDays ?? 0) * DAY_MS);
+      if (from >= until) {
+        roles.push({ role, candidates: [], unfilled: role.count });
+        continue;
+      }
+
+      // Ask for enough heads to make up for artists earlier roles took
+      const { crew } = await this.slotFinderService.search(tenantId, {
+        artistType: role.artistType,
+        skills: role.skills,
+        projectId: applyDto.projectId,
+        headcount: role.count + taken.size,
+        durationDays: role.durationDays,
+        durationHours: role.durationHours,
+        from,
+        until,
+      });
+
+      const candidates = crew
+        .filter((candidate) => !taken.has(candidate.artist.id))
+        .slice(0, role.count)
+        .map((candidate) => ({ ...candidate, proposed: this.propose(template, role, candidate) }));
+      for (const candidate of candidates) {
+        taken.add(candidate.artist.id);
+      }
+
+      roles.push({ role, candidates, unfilled: role.count - candidates.length });
+    }
+
+    return { templateId: template.id, projectId: applyDto.projectId, roles };
+  }
+
+  /**
+   * Books the accepted holds in one transaction with the template's status,
+   * hold type and expiry. Holds queue behind whatever already holds their
+   * slot rather than conflicting with it. The holds come back from the
+   * client, so each is checked again like a new booking: its artist must
+   * be the tenant's and its time within the artist's working hours.
+   */
+  async accept(
+    id: string,
+    acceptDto: AcceptTemplateProposalDto,
+    tenantId: string,
+    userId: string,
+  ): Promise<Booking[]> {
+    const template = await this.findOne(id, tenantId);
+    await this.assertProject(acceptDto.projectId, tenantId);
+
+    for (const hold of acceptDto.holds) {
+      this.bookingsService.validateTimeRange(hold.startTime, hold.endTime);
+    }
+    for (const artistId of new Set(acceptDto.holds.map((hold) => hold.artistId))) {
+      await this.assertArtist(artistId, tenantId);
+      if (!acceptDto.allowOutsideWorkingHours) {
+        await this.bookingsService.assertSlotsWithinWorkingHours(
+          tenantId,
+          artistId,
+          acceptDto.holds.filter((hold) => hold.artistId === artistId),
+        );
+      }
+    }
+
+    const holdExpiresAt = template.holdExpiryDays
+      ? new Date(Date.now() + template.holdExpiryDays * DAY_MS)
+      : null;
+
+    const mutations = await this.bookingsService.withConstraintHandling(() =>
+      this.db.transaction(async (tx) => {
+        await lockArtists(tx, acceptDto.holds.map((hold) => hold.artistId));
+
+        const created: BookingMutation[] = [];
+        for (const hold of acceptDto.holds) {
+          created.push(
+            await this.bookingsService.insertWithin(
+              tx,
+              {
+                tenantId,
+                artistId: hold.artistId,
+                projectId: acceptDto.projectId,
+                userId,
+                startTime: hold.startTime,
+                endTime: hold.endTime,
+                status: template.status,
+                holdType: template.holdType,
+                holdExpiresAt,
+                title: hold.title ?? template.name,
+                rate: hold.rate,
+                rateType: hold.rateType,
+                metadata: { templateId: template.id },
+                createdBy: userId,
+                updatedBy: userId,
+              } as NewBooking,
+              userId,
+            ),
+          );
+        }
+
+        return created;
+      }),
+    );
+
+    return mutations.map((mutation) => this.bookingsService.broadcastCreated(mutation));
+  }
+
+  // Without a rate of its own, the role's holds are priced from each artist's rate
+  private propose(
+    template: BookingTemplateRecord,
+    role: BookingTemplateRole,
+    candidate: SlotCandidate,
+  ): ProposedHold[] {
+    return candidate.holds.map((hold) => ({
+      artistId: hold.artistId,
+      startTime: hold.startTime,
+      endTime: hold.endTime,
+      title: `${template.name}: ${role.name ?? role.artistType}`,
+      ...(role.rate ? { rate: role.rate } : {}),
+      rateType: role.rateType ?? (role.durationDays ? 'daily' : 'hourly'),
+    }));
+  }
+
+  private assertRoles(roles: Array<Pick<BookingTemplateRole, 'durationDays' | 'durationHours'>>) {
+    if (roles.some((role) => !role.durationDays === !role.durationHours)) {
+      throw new BadRequestException('Each role needs exactly one of durationDays or durationHours');
+    }
+  }
+
+  private async assertProject(projectId: string, tenantId: string) {
+    if (!(await this.bookingTemplateRepository.projectExists(projectId, tenantId))) {
+      throw new NotFoundException('Project not found');
+    }
+  }
+
+  private async assertArtist(artistId: string, tenantId: string) {
+    if (!(await this.bookingTemplateRepository.artistExists(artistId, tenantId))) {
+      throw new NotFoundException('Artist not found');
+    }
+  }
+
+  private async withNameCheck<T>(write: () => Promise<T>): Promise<T> {
+    try {
+      return await write();
+    } catch (error) {
+      if (isUniqueViolation(error)) {
+        throw new ConflictException({
+          error: 'TEMPLATE_NAME_TAKEN',
+          message: 'A booking template with this name already exists',
+        });
+      }
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,108 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  UseGuards,
+  UseInterceptors,
+  Req,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiBearerAuth } from '@nestjs/swagger';
+import { BookingTemplateService } from './booking-template.service';
+import { CreateBookingTemplateDto } from './dto/create-booking-template.dto';
+import { UpdateBookingTemplateDto } from './dto/update-booking-template.dto';
+import { ApplyBookingTemplateDto } from './dto/apply-booking-template.dto';
+import { AcceptTemplateProposalDto } from './dto/accept-template-proposal.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { TenantGuard } from '../auth/guards/tenant.guard';
+import { RequestWithUser } from '../auth/interfaces/request-with-user.interface';
+import { TimeZoneInterceptor } from '../../common/interceptors/time-zone.interceptor';
+
+@ApiTags('bookings')
+@ApiBearerAuth()
+@Controller('booking-templates')
+@UseGuards(JwtAuthGuard, TenantGuard)
+@UseInterceptors(TimeZoneInterceptor)
+export class BookingTemplatesController {
+  constructor(private readonly bookingTemplateService: BookingTemplateService) {}
+
+  @Post()
+  @ApiOperation({ summary: 'Create a booking template (crew preset)' })
+  async create(@Body() createDto: CreateBookingTemplateDto, @Req() req: RequestWithUser) {
+    const template = await this.bookingTemplateService.create(
+      createDto,
+      req.user.tenantId,
+      req.user.id,
+    );
+
+    return { data: template };
+  }
+
+  @Get()
+  @ApiOperation({ summary: 'List booking templates' })
+  async findAll(@Req() req: RequestWithUser) {
+    const templates = await this.bookingTemplateService.findAll(req.user.tenantId);
+    return { data: templates };
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get booking template' })
+  async findOne(@Param('id') id: string, @Req() req: RequestWithUser) {
+    const template = await this.bookingTemplateService.findOne(id, req.user.tenantId);
+    return { data: template };
+  }
+
+  @Patch(':id')
+  @ApiOperation({ summary: 'Update booking template' })
+  async update(
+    @Param('id') id: string,
+    @Body() updateDto: UpdateBookingTemplateDto,
+    @Req() req: RequestWithUser,
+  ) {
+    const template = await this.bookingTemplateService.update(
+      id,
+      updateDto,
+      req.user.tenantId,
+      req.user.id,
+    );
+
+    return { data: template };
+  }
+
+  @Delete(':id')
+  @ApiOperation({ summary: 'Delete booking template' })
+  async remove(@Param('id') id: string, @Req() req: RequestWithUser) {
+    return this.bookingTemplateService.remove(id, req.user.tenantId);
+  }
+
+  @Post(':id/apply')
+  @ApiOperation({ summary: 'Propose holds for a project from the template and artist availability' })
+  async apply(
+    @Param('id') id: string,
+    @Body() applyDto: ApplyBookingTemplateDto,
+    @Req() req: RequestWithUser,
+  ) {
+    const proposal = await this.bookingTemplateService.apply(id, applyDto, req.user.tenantId);
+    return { data: proposal };
+  }
+
+  @Post(':id/accept')
+  @ApiOperation({ summary: 'Book an applied proposal as a batch of holds' })
+  async accept(
+    @Param('id') id: string,
+    @Body() acceptDto: AcceptTemplateProposalDto,
+    @Req() req: RequestWithUser,
+  ) {
+    const bookings = await this.bookingTemplateService.accept(
+      id,
+      acceptDto,
+      req.user.tenantId,
+      req.user.id,
+    );
+
+    return { data: bookings };
+  }
+}
@@ -0,0 +1,391 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  Req,
+  ForbiddenException,
+  ParseIntPipe,
+  UseInterceptors,
+  UploadedFile,
+  BadRequestException,
+} from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import { ApiTags, ApiOperation, ApiBearerAuth, ApiConsumes } from '@nestjs/swagger';
+import { BookingsService } from './bookings.service';
+import { BookingHistoryService } from './booking-history.service';
+import { AvailabilityService } from './availability.service';
+import { BookingImportService } from './booking-import.service';
+import { ConflictReportService } from './conflict-report.service';
+import { CostReportService } from './cost-report.service';
+import { BookingOperationsService } from './booking-operations.service';
+import { PricingService } from './pricing.service';
+import { BookingStatus } from './repositories/booking.repository';
+import { CreateBookingDto } from './dto/create-booking.dto';
+import { CreateDayBookingsDto } from './dto/create-day-bookings.dto';
+import { UpdateBookingDto } from './dto/update-booking.dto';
+import { CancelBookingDto } from './dto/cancel-booking.dto';
+import { ConfirmHoldDto } from './dto/confirm-hold.dto';
+import { ChallengeHoldDto } from './dto/challenge-hold.dto';
+import { ScheduleAsOfQueryDto } from './dto/schedule-as-of-query.dto';
+import { ScheduleDiffQueryDto } from './dto/schedule-diff-query.dto';
+import { CheckAvailabilityDto } from './dto/check-availability.dto';
+import { ImportBookingsDto } from './dto/import-bookings.dto';
+import { ConflictReportDto } from './dto/conflict-report.dto';
+import { CostReportQueryDto } from './dto/cost-report-query.dto';
+import { MoveBookingDto } from './dto/move-booking.dto';
+import { ResizeBookingDto } from './dto/resize-booking.dto';
+import { SplitBookingDto } from './dto/split-booking.dto';
+import { SwapBookingsDto } from './dto/swap-bookings.dto';
+import { PriceQuoteDto } from './dto/price-quote.dto';
+import { AttachResourcesDto } from './dto/resource-claim.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { TenantGuard } from '../auth/guards/tenant.guard';
+import { RequestWithUser } from '../auth/interfaces/request-with-user.interface';
+import { TimeZoneInterceptor } from '../../common/interceptors/time-zone.interceptor';
+
+@ApiTags('bookings')
+@ApiBearerAuth()
+@Controller('bookings')
+@UseGuards(JwtAuthGuard, TenantGuard)
+@UseInterceptors(TimeZoneInterceptor)
+export class BookingsController {
+  constructor(
+    private readonly bookingsService: BookingsService,
+    private readonly bookingHistoryService: BookingHistoryService,
+    private readonly availabilityService: AvailabilityService,
+    private readonly bookingImportService: BookingImportService,
+    private readonly conflictReportService: ConflictReportService,
+    private readonly costReportService: CostReportService,
+    private readonly bookingOperationsService: BookingOperationsService,
+    private readonly pricingService: PricingService,
+  ) {}
+
+  @Post()
+  @ApiOperation({ summary: 'Create booking' })
+  async create(
+    @Body() createDto: CreateBookingDto,
+    @Req() req: RequestWithUser,
+  ) {
+    const booking = await this.bookingsService.create(
+      createDto,
+      req.user.tenantId,
+      req.user.id,
+    );
+
+    return { data: booking };
+  }
+
+  @Post('days')
+  @ApiOperation({ summary: "Book an artist for each working day in a range of their local dates" })
+  async createForDays(@Body() createDto: CreateDayBookingsDto, @Req() req: RequestWithUser) {
+    const bookings = await this.bookingsService.createForDays(
+      createDto,
+      req.user.tenantId,
+      req.user.id,
+    );
+
+    return { data: bookings };
+  }
+
+  @Post('check-availability')
+  @ApiOperation({ summary: 'Check whether an artist is free for a time range' })
+  async checkAvailability(@Body() checkDto: CheckAvailabilityDto, @Req() req: RequestWithUser) {
+    const result = await this.availabilityService.check(
+      req.user.tenantId,
+      checkDto.artistId,
+      checkDto.startTime,
+      checkDto.endTime,
+    );
+
+    return { data: result };
+  }
+
+  @Post('conflicts')
+  @ApiOperation({ summary: 'Explain what conflicts with a proposed booking, by severity' })
+  async conflicts(@Body() reportDto: ConflictReportDto, @Req() req: RequestWithUser) {
+    const report = await this.conflictReportService.analyze(req.user.tenantId, reportDto);
+    return { data: report };
+  }
+
+  @Post('quote')
+  @ApiOperation({ summary: 'Price a proposed booking line by line' })
+  async quote(@Body() quoteDto: PriceQuoteDto, @Req() req: RequestWithUser) {
+    const breakdown = await this.pricingService.quote(req.user.tenantId, quoteDto);
+    return { data: breakdown };
+  }
+
+  @Post('import')
+  @ApiOperation({ summary: 'Import bookings from a CSV or XLSX file (dry run by default)' })
+  @ApiConsumes('multipart/form-data')
+  @UseInterceptors(FileInterceptor('file', { limits: { fileSize: 5 * 1024 * 1024 } }))
+  async import(
+    @UploadedFile() file: Express.Multer.File | undefined,
+    @Body() importDto: ImportBookingsDto,
+    @Req() req: RequestWithUser,
+  ) {
+    if (!file) {
+      throw new BadRequestException('Attach the spreadsheet as "file"');
+    }
+
+    const report = await this.bookingImportService.import(
+      file,
+      { dryRun: importDto.dryRun ?? true, mapping: importDto.mapping },
+      req.user.tenantId,
+      req.user.id,
+    );
+
+    return { data: report };
+  }
+
+  @Get()
+  @ApiOperation({ summary: 'List bookings' })
+  async findAll(
+    @Query('startDate') startDate?: string,
+    @Query('endDate') endDate?: string,
+    @Query('artistId') artistId?: string,
+    @Query('projectId') projectId?: string,
+    @Query('resourceId') resourceId?: string,
+    @Query('status') status?: string,
+    @Req() req?: RequestWithUser,
+  ) {
+    const bookings = await this.bookingsService.findAll({
+      tenantId: req.user.tenantId,
+      startDate: startDate ? new Date(startDate) : undefined,
+      endDate: endDate ? new Date(endDate) : undefined,
+      artistId,
+      projectId,
+      resourceId,
+      status: status?.split(',') as BookingStatus[] | undefined,
+    });
+
+    return { data: bookings };
+  }
+
+  @Get('history/as-of')
+  @ApiOperation({ summary: 'Bookings as they were at a point in time' })
+  async scheduleAsOf(@Query() query: ScheduleAsOfQueryDto, @Req() req: RequestWithUser) {
+    const bookings = await this.bookingHistoryService.scheduleAsOf(req.user.tenantId, query.at, {
+      artistId: query.artistId,
+      startDate: query.startDate,
+      endDate: query.endDate,
+    });
+
+    return { data: bookings };
+  }
+
+  @Get('history/diff')
+  @ApiOperation({ summary: 'Bookings added, moved or cancelled between two points in time' })
+  async scheduleDiff(@Query() query: ScheduleDiffQueryDto, @Req() req: RequestWithUser) {
+    const diff = await this.bookingHistoryService.diff(req.user.tenantId, query.from, query.to, {
+      artistId: query.artistId,
+    });
+
+    return { data: diff };
+  }
+
+  @Get('costs')
+  @ApiOperation({ summary: 'Booked amounts and kill fees by project and artist for a period' })
+  async costs(@Query() query: CostReportQueryDto, @Req() req: RequestWithUser) {
+    const report = await this.costReportService.report(req.user.tenantId, query);
+    return { data: report };
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get booking by ID' })
+  async findOne(@Param('id') id: string, @Req() req: RequestWithUser) {
+    const booking = await this.bookingsService.findOne(id, req.user.tenantId);
+    return { data: booking };
+  }
+
+  @Patch(':id')
+  @ApiOperation({ summary: 'Update booking (requires current version)' })
+  async update(
+    @Param('id') id: string,
+    @Body() updateDto: UpdateBookingDto,
+    @Req() req: RequestWithUser,
+  ) {
+    const booking = await this.bookingsService.update(
+      id,
+      updateDto,
+      req.user.tenantId,
+      req.user.id,
+    );
+
+    return { data: booking };
+  }
+
+  @Post(':id/cancel')
+  @ApiOperation({ summary: 'Cancel booking, charging any kill fee its cancellation policy sets' })
+  async cancel(
+    @Param('id') id: string,
+    @Body() cancelDto: CancelBookingDto,
+    @Req() req: RequestWithUser,
+  ) {
+    const booking = await this.bookingsService.cancel(
+      id,
+      cancelDto.version,
+      cancelDto.reason,
+      req.user.tenantId,
+      req.user.id,
+    );
+
+    return { data: booking };
+  }
+
+  @Get(':id/resources')
+  @ApiOperation({ summary: 'Resources reserved along with the booking' })
+  async findResources(@Param('id') id: string, @Req() req: RequestWithUser) {
+    const reservations = await this.bookingsService.findResources(id, req.user.tenantId);
+    return { data: reservations };
+  }
+
+  @Post(':id/resources')
+  @ApiOperation({ summary: "Reserve resources for the booking's slot" })
+  async attachResources(
+    @Param('id') id: string,
+    @Body() attachDto: AttachResourcesDto,
+    @Req() req: RequestWithUser,
+  ) {
+    const reservations = await this.bookingsService.attachResources(
+      id,
+      attachDto.resources,
+      req.user.tenantId,
+      req.user.id,
+    );
+
+    return { data: reservations };
+  }
+
+  @Delete(':id/resources/:resourceId')
+  @ApiOperation({ summary: 'Free a resource the booking reserved' })
+  async detachResource(
+    @Param('id') id: string,
+    @Param('resourceId') resourceId: string,
+    @Req() req: RequestWithUser,
+  ) {
+    return this.bookingsService.detachResource(id, resourceId, req.user.tenantId);
+  }
+
+  @Post(':id/confirm')
+  @ApiOperation({ summary: 'Confirm the first-ranked hold on a slot' })
+  async confirm(
+    @Param('id') id: string,
+    @Body() confirmDto: ConfirmHoldDto,
+    @Req() req: RequestWithUser,
+  ) {
+    const booking = await this.bookingsService.confirm(
+      id,
+      confirmDto.version,
+      req.user.tenantId,
+      req.user.id,
+    );
+
+    return { data: booking };
+  }
+
+  @Post(':id/challenge')
+  @ApiOperation({ summary: 'Challenge the first-refusal hold ahead of this hold' })
+  async challenge(
+    @Param('id') id: string,
+    @Body() challengeDto: ChallengeHoldDto,
+    @Req() req: RequestWithUser,
+  ) {
+    const challenged = await this.bookingsService.challenge(
+      id,
+      challengeDto.version,
+      req.user.tenantId,
+      req.user.id,
+    );
+
+    return { data: challenged };
+  }
+
+  @Post(':id/move')
+  @ApiOperation({ summary: 'Move a booking to another artist or time, keeping its length' })
+  async move(
+    @Param('id') id: string,
+    @Body() moveDto: MoveBookingDto,
+    @Req() req: RequestWithUser,
+  ) {
+    const booking = await this.bookingOperationsService.move(
+      id,
+      moveDto,
+      req.user.tenantId,
+      req.user.id,
+    );
+
+    return { data: booking };
+  }
+
+  @Post(':id/resize')
+  @ApiOperation({ summary: 'Extend or shorten a booking' })
+  async resize(
+    @Param('id') id: string,
+    @Body() resizeDto: ResizeBookingDto,
+    @Req() req: RequestWithUser,
+  ) {
+    const booking = await this.bookingOperationsService.resize(
+      id,
+      resizeDto,
+      req.user.tenantId,
+      req.user.id,
+    );
+
+    return { data: booking };
+  }
+
+  @Post(':id/split')
+  @ApiOperation({ summary: 'Split a booking in two at a point in time' })
+  async split(
+    @Param('id') id: string,
+    @Body() splitDto: SplitBookingDto,
+    @Req() req: RequestWithUser,
+  ) {
+    const bookings = await this.bookingOperationsService.split(
+      id,
+      splitDto,
+      req.user.tenantId,
+      req.user.id,
+    );
+
+    return { data: bookings };
+  }
+
+  @Post(':id/swap')
+  @ApiOperation({ summary: 'Swap the artists of two bookings' })
+  async swap(
+    @Param('id') id: string,
+    @Body() swapDto: SwapBookingsDto,
+    @Req() req: RequestWithUser,
+  ) {
+    const bookings = await this.bookingOperationsService.swap(
+      id,
+      swapDto,
+      req.user.tenantId,
+      req.user.id,
+    );
+
+    return { data: bookings };
+  }
+
+  @Delete(':id')
+  @ApiOperation({ summary: 'Delete booking' })
+  async remove(
+    @Param('id') id: string,
+    @Query('version', new ParseIntPipe({ optional: true })) version: number | undefined,
+    @Req() req: RequestWithUser,
+  ) {
+    // Hard deletes erase the booking from schedules; regular users cancel instead
+    if (req.user.role !== 'owner' && req.user.role !== 'manager') {
+      throw new ForbiddenException('Only admins can delete bookings');
+    }
+
+    return this.bookingsService.remove(id, req.user.tenantId, req.user.id, version);
+  }
+}
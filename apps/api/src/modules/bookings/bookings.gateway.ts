@@ -0,0 +1,42 @@
+import {
+  WebSocketGateway,
+  WebSocketServer,
+  SubscribeMessage,
+  ConnectedSocket,
+  MessageBody,
+} from '@nestjs/websockets';
+import { Server, Socket } from 'socket.io';
+
+@WebSocketGateway({
+  cors: {
+    origin: process.env.FRONTEND_URL || 'http://localhost:3000',
+    credentials: true,
+  },
+})
+export class BookingsGateway {
+  @WebSocketServer()
+  server: Server;
+
+  @SubscribeMessage('tenant:join')
+  async handleJoinTenant(
+    @ConnectedSocket() client: Socket,
+    @MessageBody() tenantId: string,
+  ) {
+    // The socket auth middleware resolves the user from the handshake token;
+    // only allow joining that user's own tenant room
+    if (!tenantId || client.data?.user?.tenantId !== tenantId) {
+      client.emit('error', { message: 'Unauthorized' });
+      return;
+    }
+
+    await client.join(this.tenantRoom(tenantId));
+  }
+
+  broadcastToTenant(tenantId: string, event: string, data: unknown) {
+    this.server?.to(this.tenantRoom(tenantId)).emit(event, data);
+  }
+
+  private tenantRoom(tenantId: string) {
+    return `tenant:${tenantId}`;
+  }
+}
@@ -0,0 +1,104 @@
+import { Module } from '@nestjs/common';
+import { BookingsController } from './bookings.controller';
+import { BookingSeriesController } from './booking-series.controller';
+import { AvailabilityController } from './availability.controller';
+import { CalendarFeedsController } from './calendar-feeds.controller';
+import { BookingApprovalsController } from './booking-approvals.controller';
+import { BookingTemplatesController } from './booking-templates.controller';
+import { ResourcesController } from './resources.controller';
+import { LicensePoolsController } from './license-pools.controller';
+import { BookingsService } from './bookings.service';
+import { HoldExpiryService } from './hold-expiry.service';
+import { HoldRankingService } from './hold-ranking.service';
+import { BookingProjectionService } from './booking-projection.service';
+import { BookingHistoryService } from './booking-history.service';
+import { BookingSeriesService } from './booking-series.service';
+import { AvailabilityService } from './availability.service';
+import { SlotFinderService } from './slot-finder.service';
+import { BookingImportService } from './booking-import.service';
+import { CalendarFeedService } from './calendar-feed.service';
+import { ExternalCalendarService } from './external-calendar.service';
+import { ConflictReportService } from './conflict-report.service';
+import { CostReportService } from './cost-report.service';
+import { BookingOperationsService } from './booking-operations.service';
+import { PricingService } from './pricing.service';
+import { BookingApprovalService } from './booking-approval.service';
+import { BookingTemplateService } from './booking-template.service';
+import { ResourceService } from './resource.service';
+import { LicensePoolService } from './license-pool.service';
+import { ProjectBudgetService } from './project-budget.service';
+import { BookingRepository } from './repositories/booking.repository';
+import { BookingEventRepository } from './repositories/booking-event.repository';
+import { BookingSeriesRepository } from './repositories/booking-series.repository';
+import { AvailabilityRepository } from './repositories/availability.repository';
+import { BookingImportRepository } from './repositories/booking-import.repository';
+import { CalendarFeedRepository } from './repositories/calendar-feed.repository';
+import { ExternalCalendarRepository } from './repositories/external-calendar.repository';
+import { PricingRepository } from './repositories/pricing.repository';
+import { BookingApprovalRepository } from './repositories/booking-approval.repository';
+import { BookingTemplateRepository } from './repositories/booking-template.repository';
+import { ResourceRepository } from './repositories/resource.repository';
+import { LicensePoolRepository } from './repositories/license-pool.repository';
+import { ProjectBudgetRepository } from './repositories/project-budget.repository';
+import { BookingsGateway } from './bookings.gateway';
+import { NotificationModule } from '../notification/notification.module';
+
+@Module({
+  imports: [NotificationModule],
+  controllers: [
+    BookingsController,
+    BookingSeriesController,
+    AvailabilityController,
+    CalendarFeedsController,
+    BookingApprovalsController,
+    BookingTemplatesController,
+    ResourcesController,
+    LicensePoolsController,
+  ],
+  providers: [
+    BookingsService,
+    HoldExpiryService,
+    HoldRankingService,
+    BookingProjectionService,
+    BookingHistoryService,
+    BookingSeriesService,
+    AvailabilityService,
+    SlotFinderService,
+    BookingImportService,
+    CalendarFeedService,
+    ExternalCalendarService,
+    ConflictReportService,
+    CostReportService,
+    BookingOperationsService,
+    PricingService,
+    BookingApprovalService,
+    BookingTemplateService,
+    ResourceService,
+    LicensePoolService,
+    ProjectBudgetService,
+    BookingRepository,
+    BookingEventRepository,
+    BookingSeriesRepository,
+    AvailabilityRepository,
+    BookingImportRepository,
+    CalendarFeedRepository,
+    ExternalCalendarRepository,
+    PricingRepository,
+    BookingApprovalRepository,
+    BookingTemplateRepository,
+    ResourceRepository,
+    LicensePoolRepository,
+    ProjectBudgetRepository,
+    BookingsGateway,
+  ],
+  exports: [
+    BookingsService,
+    AvailabilityService,
+    BookingProjectionService,
+    ProjectBudgetService,
+    BookingRepository,
+    BookingEventRepository,
+    BookingsGateway,
+  ],
+})
+export class BookingsModule {}
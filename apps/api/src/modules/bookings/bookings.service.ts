@@ -0,0 +1,1300 @@
+import {
+  Injectable,
+  Inject,
+  NotFoundException,
+  ConflictException,
+  BadRequestException,
+} from '@nestjs/common';
+import { eq } from 'drizzle-orm';
+import {
+  BookingRepository,
+  BookingMetadata,
+  BookingStatus,
+  NewBooking,
+} from './repositories/booking.repository';
+import { BookingEventRepository } from './repositories/booking-event.repository';
+import { BookingApprovalRepository } from './repositories/booking-approval.repository';
+import { ResourceReservation } from './repositories/resource.repository';
+import {
+  ExternalBusyBlockRecord,
+  ExternalCalendarRepository,
+} from './repositories/external-calendar.repository';
+import { BookingsGateway } from './bookings.gateway';
+import { HOLD_STATUSES, getChallenge, isHold, withoutChallenge } from './hold-ranking';
+import { HoldRankingService, lockArtists } from './hold-ranking.service';
+import { getBookingRules } from './booking-rules';
+import { PricingService } from './pricing.service';
+import { AvailabilityService } from './availability.service';
+import { ApprovalReason, approvalReasons } from './approval';
+import { KillFee } from './cancellation';
+import { ResourceService } from './resource.service';
+import { LicensePoolService } from './license-pool.service';
+import { ProjectBudgetService } from './project-budget.service';
+import { PriceBreakdown } from './pricing';
+import { BookingChangeEventType, BookingChanges, BookingRow } from './booking-events';
+import { NotificationService } from '../notification/notification.service';
+import { CreateBookingDto } from './dto/create-booking.dto';
+import { UpdateBookingDto } from './dto/update-booking.dto';
+import { CreateDayBookingsDto } from './dto/create-day-bookings.dto';
+import { ResourceClaimDto } from './dto/resource-claim.dto';
+import { DrizzleDatabase, DrizzleTransaction } from '../../common/types/drizzle.types';
+import { Booking, insertBookingSchema, tenants } from '../../database/schema';
+
+const DEFAULT_CHALLENGE_RESPONSE_HOURS = 24;
+
+// Fields a client may change through PATCH; ownership, bookkeeping,
+// ranking and series columns, the rate override flag, the total and the
+// kill fee are set by the server (a new rate or rate type reprices the
+// booking). Hold expiry and metadata carry first-refusal challenges,
+// which only the challenge, confirm and expiry paths write
+export const updateBookingSchema = insertBookingSchema
+  .omit({
+    id: true,
+    tenantId: true,
+    userId: true,
+    version: true,
+    holdRank: true,
+    holdQueuedAt: true,
+    holdExpiresAt: true,
+    metadata: true,
+    rateOverridden: true,
+    totalAmount: true,
+    killFee: true,
+    cancelledAt: true,
+    seriesId: true,
+    recurrenceId: true,
+    isRecurrenceException: true,
+    createdAt: true,
+    updatedAt: true,
+    createdBy: true,
+    updatedBy: true,
+  })
+  .partial();
+
+// A write: the booking itself plus holds reranked and resource
+// reservations changed alongside it
+export interface BookingMutation {
+  booking: Booking;
+  reranked: Booking[];
+  reservations?: ResourceReservation[];
+}
+
+export interface ConflictCheck {
+  tenantId: string;
+  artistId: string;
+  startTime: Date;
+  endTime: Date;
+  status: BookingStatus;
+  excludeId?: string;
+  // Bookings leaving the slot in the same transaction, e.g. the other side of a swap
+  ignoreIds?: string[];
+}
+
+export interface InsertOptions {
+  // The booking this one was split from; approval thresholds the original
+  // already exceeded don't hold up the new part
+  splitFrom?: Booking;
+}
+
+export interface ChangeOptions {
+  // Recorded instead of the event the status change implies
+  event?: { type: BookingChangeEventType; context?: Record<string, unknown> };
+  ignoreIds?: string[];
+}
+
+@Injectable()
+export class BookingsService {
+  constructor(
+    @Inject('DATABASE_CONNECTION') private readonly db: DrizzleDatabase,
+    private readonly bookingRepository: BookingRepository,
+    private readonly bookingEventRepository: BookingEventRepository,
+    private readonly externalCalendarRepository: ExternalCalendarRepository,
+    private readonly bookingApprovalRepository: BookingApprovalRepository,
+    private readonly holdRankingService: HoldRankingService,
+    private readonly pricingService: PricingService,
+    private readonly availabilityService: AvailabilityService,
+    private readonly resourceService: ResourceService,
+    private readonly licensePoolService: LicensePoolService,
+    private readonly projectBudgetService: ProjectBudgetService,
+    private readonly notificationService: NotificationService,
+    private readonly bookingsGateway: BookingsGateway,
+  ) {}
+
+  async create(createDto: CreateBookingDto, tenantId: string, userId: string) {
+    const { allowOutsideWorkingHours, resources, ...fields } = createDto;
+    const data = insertBookingSchema.parse({
+      ...fields,
+      tenantId,
+      userId,
+      createdBy: userId,
+      updatedBy: userId,
+    });
+
+    this.validateTimeRange(data.startTime, data.endTime);
+    await this.licensePoolService.assertKnownLicenses(tenantId, fields.licenses);
+    await this.assertPhaseOfProject(tenantId, data.projectId, data.phaseId);
+
+    if (!allowOutsideWorkingHours && data.status !== 'cancelled' && data.status !== 'completed') {
+      await this.assertWithinWorkingHours(tenantId, data.artistId, data.startTime, data.endTime);
+    }
+
+    const mutation = await this.withConstraintHandling(() =>
+      this.db.transaction(async (tx) => {
+        await lockArtists(tx, [data.artistId]);
+        const mutation = await this.insertWithin(tx, data as NewBooking, userId);
+        return this.withResources(tx, mutation, resources, userId);
+      }),
+    );
+
+    return this.broadcastCreated(mutation);
+  }
+
+  /**
+   * One booking per working day from `startDate` to `endDate`, each
+   * spanning that day's working hours on the artist's local clock. Days
+   * off are skipped; if any day conflicts, none are booked.
+   */
+  async createForDays(createDto: CreateDayBookingsDto, tenantId: string, userId: string) {
+    const { startDate, endDate, resources, ...fields } = createDto;
+    const schedule = await this.availabilityService.workingDays(
+      tenantId,
+      createDto.artistId,
+      startDate,
+      endDate,
+    );
+    if (!schedule) {
+      throw new NotFoundException('Artist not found');
+    }
+    if (schedule.days.length === 0) {
+      throw new BadRequestException('The artist has no working days in this range');
+    }
+    await this.licensePoolService.assertKnownLicenses(tenantId, fields.licenses);
+    await this.assertPhaseOfProject(tenantId, fields.projectId, fields.phaseId);
+
+    const mutations = await this.withConstraintHandling(() =>
+      this.db.transaction(async (tx) => {
+        await lockArtists(tx, [createDto.artistId]);
+
+        const created: BookingMutation[] = [];
+        for (const day of schedule.days) {
+          const data = insertBookingSchema.parse({
+            ...fields,
+            startTime: day.start,
+            endTime: day.end,
+            tenantId,
+            userId,
+            createdBy: userId,
+            updatedBy: userId,
+          });
+          const mutation = await this.insertWithin(tx, data as NewBooking, userId);
+          created.push(await this.withResources(tx, mutation, resources, userId));
+        }
+
+        return created;
+      }),
+    );
+
+    return mutations.map((mutation) => this.broadcastCreated(mutation));
+  }
+
+  async findAll(filters: {
+    tenantId: string;
+    startDate?: Date;
+    endDate?: Date;
+    artistId?: string;
+    projectId?: string;
+    resourceId?: string;
+    status?: BookingStatus[];
+  }) {
+    return this.bookingRepository.findAll(filters);
+  }
+
+  async findOne(id: string, tenantId: string, tx?: DrizzleTransaction) {
+    const booking = await this.bookingRepository.findOne(id, tenantId, tx);
+    if (!booking) {
+      throw new NotFoundException('Booking not found');
+    }
+
+    return booking;
+  }
+
+  async update(
+    id: string,
+    updateDto: UpdateBookingDto,
+    tenantId: string,
+    userId: string,
+  ) {
+    const { version, allowOutsideWorkingHours, ...changes } = updateDto;
+    const data = updateBookingSchema.parse(changes);
+    await this.licensePoolService.assertKnownLicenses(tenantId, changes.licenses);
+
+    const mutation = await this.withConstraintHandling(() =>
+      this.db.transaction(async (tx) => {
+        const existing = await this.findOne(id, tenantId, tx);
+        this.assertVersion(existing, version);
+
+        // Only a new slot is checked, so bookings made before the artist's
+        // hours changed can still be edited
+        const artistId = data.artistId ?? existing.artistId;
+        const startTime = data.startTime ?? existing.startTime;
+        const endTime = data.endTime ?? existing.endTime;
+        const status = data.status ?? existing.status;
+        const moved =
+          artistId !== existing.artistId ||
+          startTime.getTime() !== existing.startTime.getTime() ||
+          endTime.getTime() !== existing.endTime.getTime();
+        this.validateTimeRange(startTime, endTime);
+        if (
+          moved &&
+          !allowOutsideWorkingHours &&
+          status !== 'cancelled' &&
+          status !== 'completed'
+        ) {
+          await this.assertWithinWorkingHours(tenantId, artistId, startTime, endTime);
+        }
+
+        if (data.projectId !== undefined || data.phaseId !== undefined) {
+          await this.assertPhaseOfProject(
+            tenantId,
+            data.projectId !== undefined ? data.projectId : existing.projectId,
+            data.phaseId !== undefined ? data.phaseId : existing.phaseId,
+            tx,
+          );
+        }
+
+        await lockArtists(tx, [existing.artistId, data.artistId ?? existing.artistId]);
+
+        // An occurrence edited on its own no longer follows its series
+        const changes: BookingChanges = existing.seriesId
+          ? { ...(data as BookingChanges), isRecurrenceException: true }
+          : (data as BookingChanges);
+
+        return this.changeWithin(tx, existing, version, changes, userId);
+      }),
+    );
+
+    return this.broadcastMutation(mutation);
+  }
+
+  async cancel(id: string, version: number, reason: string, tenantId: string, userId: string) {
+    const mutation = await this.db.transaction(async (tx) => {
+      const existing = await this.findOne(id, tenantId, tx);
+      this.assertVersion(existing, version);
+
+      await lockArtists(tx, [existing.artistId]);
+
+      return this.cancelWithin(tx, existing, version, userId, reason);
+    });
+
+    return this.broadcastMutation(mutation);
+  }
+
+  /**
+   * Inserts a booking inside the caller's transaction: conflict check,
+   * pricing, approval check, booking_created/hold_created event and hold
+   * ranking. The caller must hold the artist lock and broadcast once the
+   * transaction commits.
+   */
+  async insertWithin(
+    tx: DrizzleTransaction,
+    data: NewBooking,
+    userId: string,
+    options: InsertOptions = {},
+  ): Promise<BookingMutation> {
+    const status = data.status ?? 'hold';
+    await this.assertOwnReferences(tx, data.tenantId, data);
+
+    await this.assertNoConflicts(
+      {
+        tenantId: data.tenantId,
+        artistId: data.artistId,
+        startTime: data.startTime,
+        endTime: data.endTime,
+        status,
+      },
+      tx,
+    );
+
+    // A rate given with the booking is kept through later repricing
+    const rateOverridden = data.rateOverridden ?? (data.rate !== undefined && data.rate !== null);
+    const priced = await this.pricingService.price(
+      {
+        ...data,
+        rate: data.rate ?? null,
+        rateType: data.rateType ?? null,
+        rateOverridden,
+      },
+      tx,
+    );
+
+    // New holds join the back of the line; rerank assigns the position.
+    // A booking starts unchallenged whatever its metadata claims
+    const created = await this.bookingRepository.create(
+      {
+        ...data,
+        metadata: withoutChallenge(data.metadata ?? null),
+        rateOverridden,
+        ...this.pricedColumns(priced),
+        holdRank: null,
+        holdQueuedAt: isHold(status) ? new Date() : null,
+      },
+      tx,
+    );
+    await this.assertConfirmationAllowed(tx, options.splitFrom ?? null, created);
+
+    await this.bookingEventRepository.append(
+      {
+        aggregateId: created.id,
+        tenantId: created.tenantId,
+        eventType: isHold(status) ? 'hold_created' : 'booking_created',
+        eventData: { snapshot: created as BookingRow },
+        userId,
+      },
+      tx,
+    );
+    await this.projectBudgetService.checkWithin(tx, null, created);
+
+    return this.settle(created, await this.holdRankingService.rerank(tx, created, userId));
+  }
+
+  /**
+   * Applies `data` to a booking already read at `version` inside the
+   * caller's transaction, with the same conflict, approval, ranking and
+   * event rules as PATCH. Moves and rate changes reprice the booking. The
+   * caller must hold the locks of both the current and the target artist.
+   */
+  async changeWithin(
+    tx: DrizzleTransaction,
+    existing: Booking,
+    version: number,
+    data: BookingChanges,
+    userId: string,
+    options: ChangeOptions = {},
+  ): Promise<BookingMutation> {
+    const id = existing.id;
+    const tenantId = existing.tenantId;
+    const artistId = data.artistId ?? existing.artistId;
+    const startTime = data.startTime ?? existing.startTime;
+    const endTime = data.endTime ?? existing.endTime;
+    const status = data.status ?? existing.status ?? 'hold';
+    this.validateTimeRange(startTime, endTime);
+    await this.assertOwnReferences(tx, tenantId, {
+      artistId: artistId !== existing.artistId ? artistId : undefined,
+      projectId: data.projectId !== existing.projectId ? data.projectId : undefined,
+    });
+
+    const moved =
+      artistId !== existing.artistId ||
+      startTime.getTime() !== existing.startTime.getTime() ||
+      endTime.getTime() !== existing.endTime.getTime();
+
+    // Confirming in place needs the first pencil; a move is checked
+    // against the new slot like a fresh booking
+    if (status === 'confirmed' && isHold(existing.status) && !moved) {
+      this.assertFirstRanked(existing);
+    }
+
+    await this.assertNoConflicts(
+      {
+        tenantId,
+        artistId,
+        startTime,
+        endTime,
+        status,
+        excludeId: id,
+        ignoreIds: options.ignoreIds,
+      },
+      tx,
+    );
+
+    // Setting a rate overrides the artist's; clearing it hands pricing back
+    const rateChanges: BookingChanges =
+      data.rate !== undefined ? { rateOverridden: data.rate !== null } : {};
+    const repriced = moved || data.rate !== undefined || data.rateType !== undefined;
+    const cancellation = await this.cancellationChanges(
+      tx,
+      existing,
+      status,
+      data.cancellationReason,
+    );
+    const priced = repriced
+      ? await this.pricingService.price(
+          {
+            tenantId,
+            artistId,
+            startTime,
+            endTime,
+            rate: data.rate !== undefined ? data.rate : existing.rate,
+            rateType: data.rateType !== undefined ? data.rateType : existing.rateType,
+            rateOverridden: rateChanges.rateOverridden ?? existing.rateOverridden,
+          },
+          tx,
+        )
+      : null;
+
+    const updated = await this.writeUpdate(
+      existing,
+      version,
+      {
+        ...data,
+        ...rateChanges,
+        ...this.pricedColumns(priced),
+        ...this.holdQueueChanges(existing, status, moved),
+        ...cancellation.changes,
+        updatedBy: userId,
+      },
+      tx,
+      options.event ?? {
+        type: this.changeEventType(existing, status),
+        ...(cancellation.fee ? { context: { killFee: cancellation.fee } } : {}),
+      },
+    );
+
+    await this.assertConfirmationAllowed(tx, existing, updated);
+    const reservations = await this.resourceService.followWithin(tx, existing, updated, userId);
+    await this.projectBudgetService.checkWithin(tx, existing, updated);
+
+    if (!moved && status === existing.status) {
+      return { booking: updated, reranked: [], reservations };
+    }
+
+    // Rerank the slot the booking left and, after a move, the one it joined
+    const reranked = await this.holdRankingService.rerank(tx, existing, userId);
+    if (moved) {
+      reranked.push(...(await this.holdRankingService.rerank(tx, updated, userId)));
+    }
+
+    return { ...this.settle(updated, reranked), reservations };
+  }
+
+  /**
+   * Cancels a booking inside the caller's transaction, charging the kill
+   * fee its cancellation policy sets, and moves up the holds queued behind
+   * it. The caller must hold the artist lock.
+   */
+  async cancelWithin(
+    tx: DrizzleTransaction,
+    existing: Booking,
+    version: number,
+    userId: string,
+    reason: string,
+  ): Promise<BookingMutation> {
+    if (existing.status === 'cancelled' || existing.status === 'completed') {
+      throw new BadRequestException(`Cannot cancel a ${existing.status} booking`);
+    }
+
+    const cancellation = await this.cancellationChanges(tx, existing, 'cancelled', reason);
+    const updated = await this.writeUpdate(
+      existing,
+      version,
+      {
+        status: 'cancelled',
+        ...this.leaveHoldLine(existing),
+        ...cancellation.changes,
+        updatedBy: userId,
+      },
+      tx,
+      {
+        type: 'booking_cancelled',
+        context: {
+          previousStatus: existing.status,
+          holdRank: existing.holdRank,
+          killFee: cancellation.fee,
+        },
+      },
+    );
+
+    const reservations = await this.resourceService.followWithin(tx, existing, updated, userId);
+
+    // Holds queued behind this booking move up
+    return {
+      ...this.settle(updated, await this.holdRankingService.rerank(tx, existing, userId)),
+      reservations,
+    };
+  }
+
+  async findResources(id: string, tenantId: string) {
+    const booking = await this.findOne(id, tenantId);
+    return this.resourceService.findForBooking(booking);
+  }
+
+  // Reserves more resources for a booking's slot
+  async attachResources(
+    id: string,
+    claims: ResourceClaimDto[],
+    tenantId: string,
+    userId: string,
+  ): Promise<ResourceReservation[]> {
+    const reservations = await this.db.transaction(async (tx) => {
+      const booking = await this.findOneForUpdate(id, tenantId, tx);
+      return this.resourceService.attachWithin(tx, booking, claims, userId);
+    });
+
+    this.resourceService.broadcast(tenantId, reservations);
+    return reservations;
+  }
+
+  async detachResource(id: string, resourceId: string, tenantId: string) {
+    const detached = await this.db.transaction(async (tx) => {
+      const booking = await this.findOneForUpdate(id, tenantId, tx);
+      return this.resourceService.detachWithin(tx, booking, resourceId);
+    });
+
+    this.resourceService.broadcast(tenantId, [detached]);
+    return { success: true };
+  }
+
+  async remove(id: string, tenantId: string, userId: string, version?: number) {
+    const reranked = await this.db.transaction(async (tx) => {
+      const existing = await this.findOne(id, tenantId, tx);
+      if (version !== undefined) {
+        this.assertVersion(existing, version);
+      }
+
+      await lockArtists(tx, [existing.artistId]);
+
+      const deleted = await this.bookingRepository.delete(id, tenantId, version, tx);
+      if (!deleted) {
+        // Row changed between the read and the delete
+        throw this.versionConflict(existing.version);
+      }
+
+      // Recorded so a projection rebuild doesn't bring the booking back
+      await this.bookingEventRepository.ensureStream(existing, tx);
+      await this.bookingEventRepository.append(
+        {
+          aggregateId: id,
+          tenantId,
+          eventType: 'booking_deleted',
+          eventData: { context: { previousStatus: existing.status } },
+          userId,
+        },
+        tx,
+      );
+
+      return this.holdRankingService.rerank(tx, existing, userId);
+    });
+
+    this.bookingsGateway.broadcastToTenant(tenantId, 'booking:deleted', id);
+    this.broadcastUpdated(reranked);
+
+    return { success: true };
+  }
+
+  /**
+   * Converts the first-ranked hold on a slot into a confirmed booking,
+   * answering any open first-refusal challenge. Holds over the tenant's
+   * approval thresholds are confirmed by approving a request instead.
+   */
+  async confirm(id: string, version: number, tenantId: string, userId: string) {
+    const mutation = await this.withConstraintHandling(() =>
+      this.db.transaction(async (tx) => {
+        const existing = await this.findOne(id, tenantId, tx);
+        this.assertVersion(existing, version);
+
+        if (!isHold(existing.status)) {
+          throw new BadRequestException(`Cannot confirm a ${existing.status} booking`);
+        }
+
+        await lockArtists(tx, [existing.artistId]);
+        await this.assertNoApprovalNeeded(tx, existing);
+
+        return this.confirmWithin(tx, existing, version, userId);
+      }),
+    );
+
+    return this.broadcastMutation(mutation);
+  }
+
+  /**
+   * Confirms a hold inside the caller's transaction, which must hold the
+   * artist lock. `context` is added to the hold_converted event.
+   */
+  async confirmWithin(
+    tx: DrizzleTransaction,
+    existing: Booking,
+    version: number,
+    userId: string,
+    context: Record<string, unknown> = {},
+  ): Promise<BookingMutation> {
+    this.assertFirstRanked(existing);
+    await this.assertNoConflicts(
+      {
+        tenantId: existing.tenantId,
+        artistId: existing.artistId,
+        startTime: existing.startTime,
+        endTime: existing.endTime,
+        status: 'confirmed',
+        excludeId: existing.id,
+      },
+      tx,
+    );
+
+    const updated = await this.writeUpdate(
+      existing,
+      version,
+      {
+        status: 'confirmed',
+        holdExpiresAt: null,
+        ...this.leaveHoldLine(existing),
+        updatedBy: userId,
+      },
+      tx,
+      {
+        type: 'hold_converted',
+        context: {
+          ...context,
+          previousStatus: existing.status,
+          challenge: getChallenge(existing.metadata) ?? null,
+        },
+      },
+    );
+
+    return this.settle(updated, await this.holdRankingService.rerank(tx, existing, userId));
+  }
+
+  /**
+   * A lower-ranked hold forces the first-refusal holder(s) ahead of it to
+   * confirm or release. The challenged hold's expiry is pulled in to the
+   * response deadline; if it lapses the hold expiry sweeper releases it and
+   * the line moves up. Returns the challenged holds.
+   */
+  async challenge(id: string, version: number, tenantId: string, userId: string) {
+    const now = new Date();
+
+    const challenged = await this.db.transaction(async (tx) => {
+      const challenger = await this.findOne(id, tenantId, tx);
+      this.assertVersion(challenger, version);
+
+      if (!isHold(challenger.status)) {
+        throw new BadRequestException('Only holds can challenge a first-refusal hold');
+      }
+
+      await lockArtists(tx, [challenger.artistId]);
+
+      if (challenger.holdRank === 1) {
+        throw new BadRequestException('Booking is already the first-ranked hold');
+      }
+
+      const overlapping = await this.bookingRepository.findOverlapping(
+        {
+          tenantId,
+          artistId: challenger.artistId,
+          startTime: challenger.startTime,
+          endTime: challenger.endTime,
+          statuses: ['confirmed', ...HOLD_STATUSES],
+          excludeId: id,
+        },
+        tx,
+      );
+
+      const confirmed = overlapping.filter((b) => b.status === 'confirmed');
+      if (confirmed.length > 0) {
+        throw new ConflictException({
+          error: 'BOOKING_CONFLICT',
+          message: 'Artist is already confirmed for this time',
+          details: { conflictingBookingIds: confirmed.map((b) => b.id) },
+        });
+      }
+
+      const firstHolds = overlapping.filter((b) => isHold(b.status) && b.holdRank === 1);
+      if (firstHolds.length === 0) {
+        throw new ConflictException({
+          error: 'NO_CHALLENGEABLE_HOLD',
+          message: 'No first-ranked hold overlaps this booking',
+        });
+      }
+
+      const unchallengeable = firstHolds.filter((b) => b.holdType !== 'first_refusal');
+      if (unchallengeable.length > 0) {
+        throw new ConflictException({
+          error: 'HOLD_NOT_CHALLENGEABLE',
+          message: 'Only first-refusal holds can be challenged',
+          details: { bookingIds: unchallengeable.map((b) => b.id) },
+        });
+      }
+
+      const targets = firstHolds.filter((b) => !getChallenge(b.metadata));
+      if (targets.length === 0) {
+        throw new ConflictException({
+          error: 'HOLD_ALREADY_CHALLENGED',
+          message: 'First-refusal hold has already been challenged',
+          details: {
+            respondBy: firstHolds.map((b) => ({
+              bookingId: b.id,
+              respondBy: getChallenge(b.metadata)?.respondBy,
+            })),
+          },
+        });
+      }
+
+      const rules = await this.loadBookingRules(tenantId, tx);
+      const responseHours =
+        rules.firstRefusal?.challengeResponseHours ?? DEFAULT_CHALLENGE_RESPONSE_HOURS;
+      const respondBy = new Date(now.getTime() + responseHours * 60 * 60 * 1000);
+
+      const updated: Booking[] = [];
+
+      for (const target of targets) {
+        const challenge = {
+          challengerBookingId: challenger.id,
+          challengedBy: userId,
+          challengedAt: now.toISOString(),
+          respondBy: respondBy.toISOString(),
+        };
+
+        // Never extend a hold that would have lapsed sooner anyway
+        const holdExpiresAt =
+          target.holdExpiresAt && target.holdExpiresAt < respondBy
+            ? target.holdExpiresAt
+            : respondBy;
+
+        const challengedHold = await this.writeUpdate(
+          target,
+          target.version,
+          {
+            holdExpiresAt,
+            metadata: { ...(target.metadata as BookingMetadata | null), challenge },
+            updatedBy: userId,
+          },
+          tx,
+          {
+            type: 'hold_challenged',
+            context: { previousHoldExpiresAt: target.holdExpiresAt },
+          },
+        );
+
+        await this.notificationService.createNotification(
+          {
+            tenantId,
+            userId: target.userId,
+            type: 'hold_challenged',
+            channel: 'in-app',
+            payload: {
+              bookingId: target.id,
+              bookingTitle: target.title,
+              artistId: target.artistId,
+              challengerBookingId: challenger.id,
+              respondBy: holdExpiresAt,
+            },
+          },
+          tx,
+        );
+
+        updated.push(challengedHold);
+      }
+
+      return updated;
+    });
+
+    this.broadcastUpdated(challenged);
+
+    return challenged;
+  }
+
+  /**
+   * Writes the update if the row is still at `version` and records it as
+   * `event`; otherwise reports a 404 or a version conflict against what is
+   * there now.
+   */
+  private async writeUpdate(
+    existing: Booking,
+    version: number,
+    data: BookingChanges,
+    tx: DrizzleTransaction,
+    event: { type: BookingChangeEventType; context?: Record<string, unknown> },
+  ) {
+    const updated = await this.bookingRepository.updateWithVersion(
+      existing.id,
+      existing.tenantId,
+      version,
+      data,
+      tx,
+    );
+
+    if (!updated) {
+      // Someone else wrote the row after we read it
+      const current = await this.bookingRepository.findOne(existing.id, existing.tenantId, tx);
+      if (!current) {
+        throw new NotFoundException('Booking not found');
+      }
+      throw this.versionConflict(current.version);
+    }
+
+    await this.bookingEventRepository.ensureStream(existing, tx);
+    await this.bookingEventRepository.append(
+      {
+        aggregateId: existing.id,
+        tenantId: existing.tenantId,
+        eventType: event.type,
+        eventData: { changes: data, context: event.context },
+        userId: data.updatedBy,
+      },
+      tx,
+    );
+
+    return updated;
+  }
+
+  private changeEventType(existing: Booking, status: BookingStatus): BookingChangeEventType {
+    if (status === existing.status) {
+      return 'booking_updated';
+    }
+    if (status === 'confirmed' && isHold(existing.status)) {
+      return 'hold_converted';
+    }
+    if (status === 'cancelled') {
+      return 'booking_cancelled';
+    }
+    if (status === 'completed') {
+      return 'booking_completed';
+    }
+    return 'booking_updated';
+  }
+
+  /**
+   * Ranking columns for a booking whose status or slot changes: holds that
+   * move (or become holds) rejoin the back of the line, anything else
+   * leaves it.
+   */
+  private holdQueueChanges(
+    existing: Booking,
+    status: BookingStatus,
+    moved: boolean,
+  ): BookingChanges {
+    if (!isHold(status)) {
+      return isHold(existing.status) ? this.leaveHoldLine(existing) : {};
+    }
+
+    if (moved || !isHold(existing.status)) {
+      return { ...this.leaveHoldLine(existing), holdQueuedAt: new Date() };
+    }
+
+    return {};
+  }
+
+  private pricedColumns(priced: PriceBreakdown | null): BookingChanges {
+    return priced
+      ? { rate: priced.rate, rateType: priced.rateType, totalAmount: priced.totalAmount }
+      : {};
+  }
+
+  /**
+   * Cancellation columns for a change to `status`. Cancelling needs a
+   * reason and fixes the kill fee owed at this moment; restoring a
+   * cancelled booking clears them. A reason alone is only accepted on a
+   * cancelled booking.
+   */
+  private async cancellationChanges(
+    tx: DrizzleTransaction,
+    existing: Booking,
+    status: BookingStatus,
+    reason: string | null | undefined,
+  ): Promise<{ changes: BookingChanges; fee: KillFee | null }> {
+    if (status !== 'cancelled') {
+      if (reason) {
+        throw new BadRequestException('A cancellation reason only applies to cancelled bookings');
+      }
+      return existing.status === 'cancelled'
+        ? { changes: { killFee: null, cancellationReason: null, cancelledAt: null }, fee: null }
+        : { changes: {}, fee: null };
+    }
+
+    if (existing.status === 'cancelled') {
+      if (reason === null || (reason !== undefined && !reason.trim())) {
+        throw this.reasonRequired();
+      }
+      return { changes: {}, fee: null };
+    }
+
+    if (!reason?.trim()) {
+      throw this.reasonRequired();
+    }
+
+    const cancelledAt = new Date();
+    const fee = await this.pricingService.killFee(existing, cancelledAt, tx);
+
+    return {
+      changes: { killFee: fee?.amount ?? null, cancellationReason: reason.trim(), cancelledAt },
+      fee,
+    };
+  }
+
+  private reasonRequired() {
+    return new BadRequestException({
+      error: 'CANCELLATION_REASON_REQUIRED',
+      message: 'Give a reason for cancelling the booking',
+    });
+  }
+
+  private leaveHoldLine(existing: Booking): BookingChanges {
+    return {
+      holdRank: null,
+      holdQueuedAt: null,
+      ...(getChallenge(existing.metadata) ? { metadata: withoutChallenge(existing.metadata) } : {}),
+    };
+  }
+
+  async loadBookingRules(
+    tenantId: string,
+    executor: DrizzleDatabase | DrizzleTransaction = this.db,
+  ) {
+    const [tenant] = await executor
+      .select({ settings: tenants.settings })
+      .from(tenants)
+      .where(eq(tenants.id, tenantId))
+      .limit(1);
+
+    return getBookingRules(tenant?.settings);
+  }
+
+  // Held until the transaction ends, so the booking can't move under its reservations
+  private async findOneForUpdate(id: string, tenantId: string, tx: DrizzleTransaction) {
+    const booking = await this.bookingRepository.findOneForUpdate(id, tenantId, tx);
+    if (!booking) {
+      throw new NotFoundException('Booking not found');
+    }
+
+    return booking;
+  }
+
+  private async withResources(
+    tx: DrizzleTransaction,
+    mutation: BookingMutation,
+    claims: ResourceClaimDto[] | undefined,
+    userId: string,
+  ): Promise<BookingMutation> {
+    if (!claims?.length) {
+      return mutation;
+    }
+
+    const reservations = await this.resourceService.attachWithin(
+      tx,
+      mutation.booking,
+      claims,
+      userId,
+    );
+    return { ...mutation, reservations };
+  }
+
+  // Prefers the reranked copy of the booking, which carries its final rank
+  private settle(booking: Booking, reranked: Booking[]): BookingMutation {
+    const latest = new Map<string, Booking>();
+    for (const changed of reranked) {
+      latest.set(changed.id, changed);
+    }
+
+    const final = latest.get(booking.id) ?? booking;
+    latest.delete(booking.id);
+
+    return { booking: final, reranked: [...latest.values()] };
+  }
+
+  /**
+   * Broadcasts a committed write. Call only after the transaction that made
+   * it has committed.
+   */
+  broadcastMutation({ booking, reranked, reservations }: BookingMutation) {
+    this.bookingsGateway.broadcastToTenant(booking.tenantId, 'booking:updated', booking);
+    this.broadcastUpdated(reranked);
+    this.resourceService.broadcast(booking.tenantId, reservations ?? []);
+
+    return booking;
+  }
+
+  broadcastCreated({ booking, reranked, reservations }: BookingMutation) {
+    this.bookingsGateway.broadcastToTenant(booking.tenantId, 'booking:created', booking);
+    this.broadcastUpdated(reranked);
+    this.resourceService.broadcast(booking.tenantId, reservations ?? []);
+
+    return booking;
+  }
+
+  private broadcastUpdated(updated: Booking[]) {
+    for (const booking of updated) {
+      this.bookingsGateway.broadcastToTenant(booking.tenantId, 'booking:updated', booking);
+    }
+  }
+
+  assertVersion(booking: Booking, expectedVersion: number) {
+    if (booking.version !== expectedVersion) {
+      throw this.versionConflict(booking.version);
+    }
+  }
+
+  /**
+   * Refuses a write that leaves a booking confirmed over the tenant's
+   * approval thresholds, whether it creates, confirms, moves or reprices
+   * it. Judged on the written row, which carries the server's price;
+   * throwing rolls the write back. A booking that was confirmed before
+   * (`before`, or null for a new one) is only held to thresholds it
+   * didn't already exceed.
+   */
+  private async assertConfirmationAllowed(
+    tx: DrizzleTransaction,
+    before: Booking | null,
+    after: Booking,
+  ) {
+    if (after.status !== 'confirmed') {
+      return;
+    }
+
+    const rules = (await this.loadBookingRules(after.tenantId, tx)).approval ?? {};
+    const exceeded = new Set(
+      before?.status === 'confirmed' ? approvalReasons(before, rules).map((r) => r.rule) : [],
+    );
+    const reasons = approvalReasons(after, rules).filter((reason) => !exceeded.has(reason.rule));
+    if (reasons.length > 0) {
+      await this.approvalRequired(tx, after, reasons);
+    }
+  }
+
+  /**
+   * Confirming a hold over the tenant's approval thresholds is refused;
+   * approving a request confirms it instead.
+   */
+  private async assertNoApprovalNeeded(tx: DrizzleTransaction, booking: Booking) {
+    const rules = await this.loadBookingRules(booking.tenantId, tx);
+    const reasons = approvalReasons(booking, rules.approval ?? {});
+    if (reasons.length > 0) {
+      await this.approvalRequired(tx, booking, reasons);
+    }
+  }
+
+  // The 409 for a booking over thresholds, with any request already waiting
+  private async approvalRequired(
+    tx: DrizzleTransaction,
+    booking: Booking,
+    reasons: ApprovalReason[],
+  ): Promise<never> {
+    const pending = await this.bookingApprovalRepository.findPending(
+      booking.id,
+      booking.tenantId,
+      tx,
+    );
+    throw new ConflictException({
+      error: 'APPROVAL_REQUIRED',
+      message: 'Confirming this booking needs approval',
+      details: { reasons, approvalId: pending?.id ?? null },
+    });
+  }
+
+  private assertFirstRanked(booking: Booking) {
+    if (booking.holdRank !== 1) {
+      throw new ConflictException({
+        error: 'HOLD_NOT_FIRST',
+        message: 'Only the first-ranked hold on a slot can be confirmed',
+        details: { holdRank: booking.holdRank },
+      });
+    }
+  }
+
+  private versionConflict(currentVersion: number) {
+    return new ConflictException({
+      error: 'VERSION_CONFLICT',
+      message: 'Booking was modified by someone else. Reload and try again.',
+      details: { currentVersion },
+    });
+  }
+
+  /**
+   * Rejects a slot that falls even partly outside the artist's working
+   * hours on their local clock; callers skip this when the client asked to
+   * book outside them.
+   */
+  async assertWithinWorkingHours(
+    tenantId: string,
+    artistId: string,
+    startTime: Date,
+    endTime: Date,
+  ) {
+    await this.assertSlotsWithinWorkingHours(tenantId, artistId, [{ startTime, endTime }]);
+  }
+
+  /**
+   * assertWithinWorkingHours for several slots of one artist, e.g. the
+   * occurrences of a series, read with one availability lookup.
+   */
+  async assertSlotsWithinWorkingHours(
+    tenantId: string,
+    artistId: string,
+    slots: Array<{ startTime: Date; endTime: Date }>,
+  ) {
+    if (slots.length === 0) {
+      return;
+    }
+
+    const check = await this.availabilityService.checkWorkingTime(
+      tenantId,
+      artistId,
+      new Date(Math.min(...slots.map((slot) => slot.startTime.getTime()))),
+      new Date(Math.max(...slots.map((slot) => slot.endTime.getTime()))),
+    );
+    if (!check) {
+      throw new NotFoundException('Artist not found');
+    }
+
+    // Off-hours between the slots don't count
+    const outside = check.outside.flatMap((interval) =>
+      slots
+        .map((slot) => ({
+          start: interval.start > slot.startTime ? interval.start : slot.startTime,
+          end: interval.end < slot.endTime ? interval.end : slot.endTime,
+        }))
+        .filter((part) => part.end > part.start),
+    );
+
+    if (outside.length > 0) {
+      throw new BadRequestException({
+        error: 'OUTSIDE_WORKING_HOURS',
+        message:
+          "Booking falls outside the artist's working hours; set allowOutsideWorkingHours to book it anyway",
+        details: { timeZone: check.timeZone, outside },
+      });
+    }
+  }
+
+  /**
+   * The artist and project a booking points at must be the tenant's own;
+   * another tenant's ids are reported as not found.
+   */
+  private async assertOwnReferences(
+    tx: DrizzleTransaction,
+    tenantId: string,
+    refs: { artistId?: string; projectId?: string | null },
+  ) {
+    if (
+      refs.artistId &&
+      !(await this.bookingRepository.artistExists(refs.artistId, tenantId, tx))
+    ) {
+      throw new NotFoundException('Artist not found');
+    }
+    if (
+      refs.projectId &&
+      !(await this.bookingRepository.projectExists(refs.projectId, tenantId, tx))
+    ) {
+      throw new NotFoundException('Project not found');
+    }
+  }
+
+  // A booking's phase must be one of its own project's
+  private async assertPhaseOfProject(
+    tenantId: string,
+    projectId: string | null | undefined,
+    phaseId: string | null | undefined,
+    tx?: DrizzleTransaction,
+  ) {
+    if (!phaseId) {
+      return;
+    }
+
+    const phaseProjectId = await this.bookingRepository.findPhaseProjectId(phaseId, tenantId, tx);
+    if (!phaseProjectId || phaseProjectId !== projectId) {
+      throw new BadRequestException({
+        error: 'PHASE_NOT_IN_PROJECT',
+        message: "The phase is not part of the booking's project",
+        details: { phaseId, projectId: projectId ?? null },
+      });
+    }
+  }
+
+  validateTimeRange(startTime: Date, endTime: Date) {
+    if (endTime <= startTime) {
+      throw new BadRequestException('End time must be after start time');
+    }
+  }
+
+  /**
+   * Holds never conflict; they queue behind whatever is there. A confirmed
+   * booking must not overlap another confirmed booking or a first-ranked
+   * hold, mirroring the bookings_no_overlap_per_artist constraint.
+   */
+  async findConflicts(params: ConflictCheck, tx: DrizzleTransaction): Promise<Booking[]> {
+    if (params.status !== 'confirmed') {
+      return [];
+    }
+
+    const overlapping = await this.bookingRepository.findOverlapping(
+      {
+        tenantId: params.tenantId,
+        artistId: params.artistId,
+        startTime: params.startTime,
+        endTime: params.endTime,
+        statuses: ['confirmed', ...HOLD_STATUSES],
+        excludeId: params.excludeId,
+      },
+      tx,
+    );
+    return overlapping.filter(
+      (b) =>
+        (b.status === 'confirmed' || b.holdRank === 1) && !params.ignoreIds?.includes(b.id),
+    );
+  }
+
+  /**
+   * Events on the artist's external calendars that a confirmed booking
+   * would overlap. They block like confirmed bookings; holds may still
+   * queue over them.
+   */
+  async findExternalConflicts(
+    params: ConflictCheck,
+    tx: DrizzleTransaction,
+  ): Promise<ExternalBusyBlockRecord[]> {
+    if (params.status !== 'confirmed') {
+      return [];
+    }
+
+    return this.externalCalendarRepository.findBusyBlocks(
+      {
+        tenantId: params.tenantId,
+        artistIds: [params.artistId],
+        startTime: params.startTime,
+        endTime: params.endTime,
+      },
+      tx,
+    );
+  }
+
+  private async assertNoConflicts(
+    params: ConflictCheck,
+    tx: DrizzleTransaction,
+  ) {
+    const conflicts = await this.findConflicts(params, tx);
+    const external = await this.findExternalConflicts(params, tx);
+
+    if (conflicts.length > 0 || external.length > 0) {
+      throw new ConflictException({
+        error: 'BOOKING_CONFLICT',
+        message:
+          conflicts.length === 0
+            ? 'Artist is busy on an external calendar'
+            : 'Booking conflict detected',
+        details: {
+          conflictingBookingIds: conflicts.map((b) => b.id),
+          ...(external.length > 0
+            ? { externalBusyBlockIds: external.map((block) => block.id) }
+            : {}),
+        },
+      });
+    }
+  }
+
+  /**
+   * The application-level conflict check can race with a concurrent insert;
+   * the GIST exclusion constraint is the final word, so surface its
+   * violation (SQLSTATE 23P01) as a 409 rather than a 500.
+   */
+  async withConstraintHandling<T>(operation: () => Promise<T>): Promise<T> {
+    try {
+      return await operation();
+    } catch (error: unknown) {
+      if ((error as { code?: string } | null)?.code === '23P01') {
+        throw new ConflictException({
+          error: 'BOOKING_CONFLICT',
+          message: 'Booking conflict detected',
+        });
+      }
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,86 @@
+import {
+  SpendCents,
+  addSpend,
+  budgetBurn,
+  crossedThresholds,
+  emptySpend,
+  forecastCents,
+} from './budget';
+
+describe('budget', () => {
+  it('sorts booking amounts into actual, committed and tentative spend', () => {
+    const spend = emptySpend();
+    addSpend(spend, 'completed', '1000.00', '0');
+    addSpend(spend, 'cancelled', '800.00', '200.50');
+    addSpend(spend, 'confirmed', '300.00', '0');
+    addSpend(spend, 'hold', '150.00', '0');
+    addSpend(spend, 'pencil', '50.25', '0');
+
+    expect(spend).toEqual({ actual: 120050, committed: 30000, tentative: 20025 });
+  });
+
+  it('counts only the kill fee of a cancelled booking towards the forecast', () => {
+    expect(forecastCents({ status: 'cancelled', totalAmount: '500', killFee: '125.50' })).toBe(
+      12550,
+    );
+    expect(forecastCents({ status: 'pencil', totalAmount: '500', killFee: null })).toBe(50000);
+    expect(forecastCents({ status: 'confirmed', totalAmount: null, killFee: null })).toBe(0);
+  });
+
+  describe('budgetBurn', () => {
+    const spend: SpendCents = { actual: 10000, committed: 50000, tentative: 20000 };
+
+    it('reports spend against the budget', () => {
+      expect(budgetBurn(spend, 4, '1000', [80, 100])).toEqual({
+        budget: '1000',
+        bookings: 4,
+        actual: '100.00',
+        committed: '500.00',
+        tentative: '200.00',
+        forecastToComplete: '700.00',
+        estimateAtCompletion: '800.00',
+        remaining: '200.00',
+        burnPercent: 60,
+        forecastPercent: 80,
+        status: 'ok',
+      });
+    });
+
+    it('warns past the lowest threshold and is over past the budget', () => {
+      expect(budgetBurn({ ...spend, tentative: 20001 }, 4, '1000', [100, 80]).status).toBe(
+        'warning',
+      );
+      expect(budgetBurn({ ...spend, tentative: 40001 }, 4, '1000', [80]).status).toBe('over');
+      // Without thresholds only the budget itself warns
+      expect(budgetBurn({ ...spend, tentative: 40000 }, 4, '1000', []).status).toBe('ok');
+    });
+
+    it('measures nothing without a budget to measure against', () => {
+      expect(budgetBurn(spend, 4, null, [80])).toMatchObject({
+        remaining: null,
+        burnPercent: null,
+        forecastPercent: null,
+        status: 'no_budget',
+      });
+      expect(budgetBurn(spend, 4, '0', [80])).toMatchObject({
+        remaining: '-800.00',
+        status: 'no_budget',
+      });
+    });
+  });
+
+  describe('crossedThresholds', () => {
+    it('lists each threshold the estimate went past, lowest first', () => {
+      expect(crossedThresholds(7000, 10500, 10000, [100, 80, 80])).toEqual([80, 100]);
+    });
+
+    it('counts an estimate sitting on a threshold as not past it yet', () => {
+      expect(crossedThresholds(7000, 8000, 10000, [80, 100])).toEqual([]);
+      expect(crossedThresholds(8000, 9000, 10000, [80, 100])).toEqual([80]);
+    });
+
+    it('is empty when the estimate falls', () => {
+      expect(crossedThresholds(10500, 7000, 10000, [80, 100])).toEqual([]);
+    });
+  });
+});
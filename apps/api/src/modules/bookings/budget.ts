@@ -0,0 +1,133 @@
+import { Booking } from '../../database/schema';
+import { toCents } from './cancellation';
+import { HOLD_STATUSES } from './hold-ranking';
+import { BookingStatus } from './repositories/booking.repository';
+
+export const DEFAULT_WARN_AT_PERCENT = [80, 100];
+
+// 'warning' once the forecast passes the lowest threshold; 'over' once it
+// passes the budget itself
+export type BudgetStatus = 'no_budget' | 'ok' | 'warning' | 'over';
+
+export interface SpendCents {
+  // Completed bookings plus kill fees of cancelled ones: money already spent
+  actual: number;
+  // Confirmed bookings still to be worked
+  committed: number;
+  // Holds and pencils, which may still be released
+  tentative: number;
+}
+
+export interface BudgetBurn {
+  budget: string | null;
+  bookings: number;
+  actual: string;
+  committed: string;
+  tentative: string;
+  // Still to be spent if every live booking goes ahead: committed plus tentative
+  forecastToComplete: string;
+  // Actual plus forecast to complete
+  estimateAtCompletion: string;
+  // Budget less the estimate at completion; negative once over
+  remaining: string | null;
+  // Actual plus committed, and the estimate at completion, as percentages
+  // of the budget
+  burnPercent: number | null;
+  forecastPercent: number | null;
+  status: BudgetStatus;
+}
+
+export function emptySpend(): SpendCents {
+  return { actual: 0, committed: 0, tentative: 0 };
+}
+
+export function addSpend(
+  into: SpendCents,
+  status: BookingStatus,
+  totalAmount: string,
+  killFees: string,
+) {
+  if (status === 'cancelled') {
+    into.actual += toCents(killFees);
+  } else if (status === 'completed') {
+    into.actual += toCents(totalAmount);
+  } else if (HOLD_STATUSES.includes(status)) {
+    into.tentative += toCents(totalAmount);
+  } else {
+    into.committed += toCents(totalAmount);
+  }
+}
+
+// What one booking adds to its project's estimate at completion, in cents
+export function forecastCents(booking: Pick<Booking, 'status' | 'totalAmount' | 'killFee'>) {
+  const spend = emptySpend();
+  addSpend(spend, booking.status ?? 'hold', booking.totalAmount ?? '0', booking.killFee ?? '0');
+  return estimateCents(spend);
+}
+
+export function estimateCents(spend: SpendCents): number {
+  return spend.actual + spend.committed + spend.tentative;
+}
+
+function percentOf(cents: number, budgetCents: number): number {
+  return Math.round((cents / budgetCents) * 1000) / 10;
+}
+
+function toAmount(cents: number): string {
+  return (cents / 100).toFixed(2);
+}
+
+export function budgetBurn(
+  spend: SpendCents,
+  bookings: number,
+  budget: string | null,
+  warnAtPercent: number[],
+): BudgetBurn {
+  const estimate = estimateCents(spend);
+  const budgetCents = budget !== null ? toCents(budget) : null;
+
+  let status: BudgetStatus = 'no_budget';
+  if (budgetCents !== null && budgetCents > 0) {
+    const lowest = Math.min(...warnAtPercent, 100);
+    status =
+      estimate > budgetCents
+        ? 'over'
+        : estimate * 100 > budgetCents * lowest
+          ? 'warning'
+          : 'ok';
+  }
+  const measured = status !== 'no_budget';
+
+  return {
+    budget,
+    bookings,
+    actual: toAmount(spend.actual),
+    committed: toAmount(spend.committed),
+    tentative: toAmount(spend.tentative),
+    forecastToComplete: toAmount(spend.committed + spend.tentative),
+    estimateAtCompletion: toAmount(estimate),
+    remaining: budgetCents !== null ? toAmount(budgetCents - estimate) : null,
+    burnPercent: measured ? percentOf(spend.actual + spend.committed, budgetCents!) : null,
+    forecastPercent: measured ? percentOf(estimate, budgetCents!) : null,
+    status,
+  };
+}
+
+/**
+ * Thresholds (percentages of `budgetCents`) the estimate went past going
+ * from `beforeCents` to `afterCents`, lowest first. Empty when it fell or
+ * stayed on the same side of every threshold.
+ */
+export function crossedThresholds(
+  beforeCents: number,
+  afterCents: number,
+  budgetCents: number,
+  warnAtPercent: number[],
+): number[] {
+  return [...new Set(warnAtPercent)]
+    .sort((a, b) => a - b)
+    .filter((percent) => {
+      const line = (budgetCents * percent) / 100;
+      return beforeCents <= line && afterCents > line;
+    });
+}
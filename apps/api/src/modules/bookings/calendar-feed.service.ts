@@ -0,0 +1,143 @@
+import {
+  Injectable,
+  BadRequestException,
+  NotFoundException,
+} from '@nestjs/common';
+import { createHash, randomBytes } from 'crypto';
+import { omit } from '../../common/utils/omit';
+import { renderCalendar } from './calendar-feed';
+import {
+  CalendarFeedRecord,
+  CalendarFeedRepository,
+} from './repositories/calendar-feed.repository';
+import { CreateCalendarFeedDto, FeedStatus } from './dto/create-calendar-feed.dto';
+import { UpdateCalendarFeedDto } from './dto/update-calendar-feed.dto';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// How far back feeds reach; older bookings drop out of subscribers' calendars
+const FEED_HISTORY_DAYS = 90;
+const DEFAULT_STATUSES: FeedStatus[] = ['hold', 'pencil', 'confirmed', 'completed'];
+
+export type CalendarFeedView = Omit<CalendarFeedRecord, 'tokenHash'>;
+
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+function toView(feed: CalendarFeedRecord): CalendarFeedView {
+  return omit(feed, ['tokenHash']);
+}
+
+/**
+ * iCalendar subscription feeds for an artist, a project or the whole
+ * tenant. Feeds are read by calendar apps without a login, so each one is
+ * addressed by a random token that can be revoked.
+ */
+@Injectable()
+export class CalendarFeedService {
+  constructor(private readonly calendarFeedRepository: CalendarFeedRepository) {}
+
+  /**
+   * Creates a feed and returns its token. The token is not stored and
+   * can't be shown again; a lost URL means revoking and creating a new feed.
+   */
+  async create(
+    createDto: CreateCalendarFeedDto,
+    tenantId: string,
+    userId: string,
+  ): Promise<{ feed: CalendarFeedView; token: string }> {
+    const { scope, artistId, projectId } = createDto;
+
+    if ((scope !== 'artist' && artistId) || (scope !== 'project' && projectId)) {
+      throw new BadRequestException(`A ${scope} feed can't name an artist or project`);
+    }
+    if (artistId && !(await this.calendarFeedRepository.findArtistName(artistId, tenantId))) {
+      throw new NotFoundException('Artist not found');
+    }
+    if (projectId && !(await this.calendarFeedRepository.findProjectName(projectId, tenantId))) {
+      throw new NotFoundException('Project not found');
+    }
+
+    const token = randomBytes(32).toString('base64url');
+    const feed = await this.calendarFeedRepository.create({
+      tenantId,
+      scope,
+      artistId: artistId ?? null,
+      projectId: projectId ?? null,
+      name: createDto.name ?? null,
+      tokenHash: hashToken(token),
+      statuses: createDto.statuses ?? DEFAULT_STATUSES,
+      createdBy: userId,
+    });
+
+    return { feed: toView(feed), token };
+  }
+
+  async findAll(
+    tenantId: string,
+    filters: { artistId?: string; projectId?: string } = {},
+  ): Promise<CalendarFeedView[]> {
+    const feeds = await this.calendarFeedRepository.findAll(tenantId, filters);
+    return feeds.map(toView);
+  }
+
+  async update(
+    id: string,
+    updateDto: UpdateCalendarFeedDto,
+    tenantId: string,
+  ): Promise<CalendarFeedView> {
+    const updated = await this.calendarFeedRepository.update(id, tenantId, updateDto);
+    if (!updated) {
+      throw new NotFoundException('Calendar feed not found');
+    }
+
+    return toView(updated);
+  }
+
+  // The feed URL stops working immediately; the row is kept for auditing
+  async revoke(id: string, tenantId: string) {
+    const revoked = await this.calendarFeedRepository.update(id, tenantId, {
+      revokedAt: new Date(),
+    });
+    if (!revoked) {
+      throw new NotFoundException('Calendar feed not found');
+    }
+
+    return { success: true };
+  }
+
+  /**
+   * The feed's bookings as an .ics document. Unknown and revoked tokens
+   * are indistinguishable.
+   */
+  async render(token: string): Promise<string> {
+    const feed = await this.calendarFeedRepository.findActiveByTokenHash(hashToken(token));
+    if (!feed) {
+      throw new NotFoundException('Calendar feed not found');
+    }
+
+    const since = new Date(Date.now() - FEED_HISTORY_DAYS * DAY_MS);
+    const [bookings, name] = await Promise.all([
+      this.calendarFeedRepository.findFeedBookings(feed, since),
+      this.feedName(feed),
+    ]);
+    await this.calendarFeedRepository.touch(feed.id);
+
+    return renderCalendar({ name, showArtist: feed.scope !== 'artist', bookings });
+  }
+
+  private async feedName(feed: CalendarFeedRecord): Promise<string> {
+    if (feed.name) {
+      return feed.name;
+    }
+    if (feed.artistId) {
+      const artist = await this.calendarFeedRepository.findArtistName(feed.artistId, feed.tenantId);
+      return `${artist ?? 'Artist'} bookings`;
+    }
+    if (feed.projectId) {
+      const project = await this.calendarFeedRepository.findProjectName(feed.projectId, feed.tenantId);
+      return `${project ?? 'Project'} bookings`;
+    }
+    return 'All bookings';
+  }
+}
@@ -0,0 +1,106 @@
+import {
+  FeedBooking,
+  escapeText,
+  foldLine,
+  formatDateTime,
+  renderCalendar,
+} from './calendar-feed';
+
+function booking(overrides: Partial<FeedBooking> = {}): FeedBooking {
+  return {
+    id: '00000000-0000-0000-0000-000000000001',
+    startTime: new Date('2026-11-02T09:00:00Z'),
+    endTime: new Date('2026-11-02T17:00:00Z'),
+    status: 'confirmed',
+    title: 'Lookdev',
+    notes: null,
+    holdExpiresAt: null,
+    version: 3,
+    createdAt: new Date('2026-10-01T08:00:00Z'),
+    updatedAt: new Date('2026-10-05T12:30:00Z'),
+    artistName: 'Ada Lovelace',
+    projectName: 'Nebula',
+    projectCode: 'NEB',
+    ...overrides,
+  };
+}
+
+// The calendar's content lines, unfolded
+function lines(calendar: string): string[] {
+  return calendar.replace(/\r\n /g, '').split('\r\n');
+}
+
+describe('calendar feed', () => {
+  it('escapes text values', () => {
+    expect(escapeText('a\\b; c, d\ne')).toBe('a\\\\b\\; c\\, d\\ne');
+  });
+
+  it('writes UTC date-times in basic format', () => {
+    expect(formatDateTime(new Date('2026-10-18T09:05:07.123Z'))).toBe('20261018T090507Z');
+  });
+
+  describe('foldLine', () => {
+    it('folds at 75 octets and continues with a space', () => {
+      const folded = foldLine('x'.repeat(160));
+      const pieces = folded.split('\r\n');
+
+      expect(pieces.map((piece) => piece.length)).toEqual([75, 75, 12]);
+      expect(pieces.slice(1).every((piece) => piece.startsWith(' '))).toBe(true);
+      expect(folded.replace(/\r\n /g, '')).toBe('x'.repeat(160));
+    });
+
+    it('never splits a multi-byte character', () => {
+      const folded = foldLine(`${'x'.repeat(74)}é`);
+
+      expect(folded).toBe(`${'x'.repeat(74)}\r\n é`);
+    });
+  });
+
+  describe('renderCalendar', () => {
+    it('renders a confirmed booking as an opaque event', () => {
+      const calendar = renderCalendar({
+        name: 'Nebula',
+        showArtist: true,
+        bookings: [booking()],
+      });
+
+      expect(calendar.endsWith('END:VCALENDAR\r\n')).toBe(true);
+      expect(lines(calendar)).toEqual(
+        expect.arrayContaining([
+          'X-WR-CALNAME:Nebula',
+          'UID:00000000-0000-0000-0000-000000000001@production-tool',
+          'SEQUENCE:2',
+          'DTSTART:20261102T090000Z',
+          'DTEND:20261102T170000Z',
+          'SUMMARY:Ada Lovelace: Lookdev',
+          'DESCRIPTION:Status: confirmed\\nProject: Nebula (NEB)\\nArtist: Ada Lovelace',
+          'STATUS:CONFIRMED',
+          'TRANSP:OPAQUE',
+        ]),
+      );
+    });
+
+    it('marks holds as tentative and leaves them out of free/busy', () => {
+      const calendar = renderCalendar({
+        name: 'Ada Lovelace',
+        showArtist: false,
+        bookings: [
+          booking({
+            status: 'hold',
+            title: null,
+            holdExpiresAt: new Date('2026-10-25T00:00:00Z'),
+          }),
+        ],
+      });
+
+      expect(lines(calendar)).toEqual(
+        expect.arrayContaining([
+          'SUMMARY:[Hold] Nebula',
+          'STATUS:TENTATIVE',
+          'TRANSP:TRANSPARENT',
+          expect.stringContaining('Hold expires: 2026-10-25T00:00:00.000Z'),
+        ]),
+      );
+    });
+  });
+});
@@ -0,0 +1,150 @@
+import { Booking } from '../../database/schema';
+
+const CRLF = '\r\n';
+// RFC 5545 3.1: content lines are folded at 75 octets
+const MAX_LINE_OCTETS = 75;
+const PRODUCT_ID = '-//Production Tool//Bookings//EN';
+const UID_DOMAIN = 'production-tool';
+
+export interface FeedBooking
+  extends Pick<
+    Booking,
+    | 'id'
+    | 'startTime'
+    | 'endTime'
+    | 'status'
+    | 'title'
+    | 'notes'
+    | 'holdExpiresAt'
+    | 'version'
+    | 'createdAt'
+    | 'updatedAt'
+  > {
+  artistName: string;
+  projectName: string | null;
+  projectCode: string | null;
+}
+
+export interface FeedCalendar {
+  name: string;
+  // Whether event titles name the artist (project and tenant feeds)
+  showArtist: boolean;
+  bookings: FeedBooking[];
+}
+
+const EVENT_STATUS: Record<NonNullable<Booking['status']>, string> = {
+  hold: 'TENTATIVE',
+  pencil: 'TENTATIVE',
+  confirmed: 'CONFIRMED',
+  completed: 'CONFIRMED',
+  cancelled: 'CANCELLED',
+};
+
+export function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+// 20261018T090000Z
+export function formatDateTime(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+/**
+ * Splits a content line into 75-octet pieces, continuing each with a
+ * leading space. Never breaks inside a multi-byte character.
+ */
+export function foldLine(line: string): string {
+  const pieces: string[] = [];
+  let piece = '';
+  let octets = 0;
+
+  for (const char of line) {
+    const size = Buffer.byteLength(char, 'utf8');
+    // Continuation lines lose one octet to the leading space
+    const limit = pieces.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (octets + size > limit) {
+      pieces.push(piece);
+      piece = '';
+      octets = 0;
+    }
+    piece += char;
+    octets += size;
+  }
+  pieces.push(piece);
+
+  return pieces.join(`${CRLF} `);
+}
+
+function summary(booking: FeedBooking, showArtist: boolean): string {
+  const label = booking.title ?? booking.projectName ?? 'Booking';
+  const parts = [showArtist ? `${booking.artistName}: ${label}` : label];
+  if (booking.status === 'hold' || booking.status === 'pencil') {
+    parts.unshift(`[${booking.status === 'hold' ? 'Hold' : 'Pencil'}]`);
+  }
+  return parts.join(' ');
+}
+
+function description(booking: FeedBooking): string {
+  const lines = [`Status: ${booking.status ?? 'hold'}`];
+  if (booking.projectName) {
+    lines.push(
+      `Project: ${booking.projectName}${booking.projectCode ? ` (${booking.projectCode})` : ''}`,
+    );
+  }
+  lines.push(`Artist: ${booking.artistName}`);
+  if (booking.holdExpiresAt) {
+    lines.push(`Hold expires: ${booking.holdExpiresAt.toISOString()}`);
+  }
+  if (booking.notes) {
+    lines.push('', booking.notes);
+  }
+  return lines.join('\n');
+}
+
+function renderEvent(booking: FeedBooking, showArtist: boolean): string[] {
+  const status = booking.status ?? 'hold';
+
+  return [
+    'BEGIN:VEVENT',
+    `UID:${booking.id}@${UID_DOMAIN}`,
+    `DTSTAMP:${formatDateTime(booking.updatedAt)}`,
+    `CREATED:${formatDateTime(booking.createdAt)}`,
+    `LAST-MODIFIED:${formatDateTime(booking.updatedAt)}`,
+    // Versions start at 1, SEQUENCE at 0; every edit bumps both
+    `SEQUENCE:${booking.version - 1}`,
+    `DTSTART:${formatDateTime(booking.startTime)}`,
+    `DTEND:${formatDateTime(booking.endTime)}`,
+    `SUMMARY:${escapeText(summary(booking, showArtist))}`,
+    `DESCRIPTION:${escapeText(description(booking))}`,
+    `STATUS:${EVENT_STATUS[status]}`,
+    // Only committed work blocks the subscriber's free/busy
+    `TRANSP:${EVENT_STATUS[status] === 'CONFIRMED' ? 'OPAQUE' : 'TRANSPARENT'}`,
+    `CATEGORIES:${escapeText(status)}`,
+    'END:VEVENT',
+  ];
+}
+
+/**
+ * Renders bookings as an RFC 5545 VCALENDAR. Times are written in UTC so
+ * calendar apps show them in the subscriber's own zone.
+ */
+export function renderCalendar(calendar: FeedCalendar): string {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(calendar.name)}`,
+    'REFRESH-INTERVAL;VALUE=DURATION:PT1H',
+    'X-PUBLISHED-TTL:PT1H',
+    ...calendar.bookings.flatMap((booking) => renderEvent(booking, calendar.showArtist)),
+    'END:VCALENDAR',
+  ];
+
+  return lines.map(foldLine).join(CRLF) + CRLF;
+}
@@ -0,0 +1,90 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  Req,
+  Header,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiBearerAuth, ApiProduces } from '@nestjs/swagger';
+import { CalendarFeedService } from './calendar-feed.service';
+import { CreateCalendarFeedDto } from './dto/create-calendar-feed.dto';
+import { UpdateCalendarFeedDto } from './dto/update-calendar-feed.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { TenantGuard } from '../auth/guards/tenant.guard';
+import { RequestWithUser } from '../auth/interfaces/request-with-user.interface';
+
+// Calendar apps fetch the feed without credentials, so only the feed
+// management routes are guarded
+@ApiTags('calendar-feeds')
+@Controller('calendar-feeds')
+export class CalendarFeedsController {
+  constructor(private readonly calendarFeedService: CalendarFeedService) {}
+
+  @Post()
+  @UseGuards(JwtAuthGuard, TenantGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Create an iCalendar feed; the URL is only returned now' })
+  async create(@Body() createDto: CreateCalendarFeedDto, @Req() req: RequestWithUser) {
+    const { feed, token } = await this.calendarFeedService.create(
+      createDto,
+      req.user.tenantId,
+      req.user.id,
+    );
+
+    const base = `${req.protocol}://${req.get('host')}${req.originalUrl.split('?')[0]}`;
+    return { data: { ...feed, url: `${base}/ics/${token}.ics` } };
+  }
+
+  @Get()
+  @UseGuards(JwtAuthGuard, TenantGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'List active calendar feeds' })
+  async findAll(
+    @Req() req: RequestWithUser,
+    @Query('artistId') artistId?: string,
+    @Query('projectId') projectId?: string,
+  ) {
+    const feeds = await this.calendarFeedService.findAll(req.user.tenantId, {
+      artistId,
+      projectId,
+    });
+
+    return { data: feeds };
+  }
+
+  @Patch(':id')
+  @UseGuards(JwtAuthGuard, TenantGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Rename a feed or change which booking statuses it publishes' })
+  async update(
+    @Param('id') id: string,
+    @Body() updateDto: UpdateCalendarFeedDto,
+    @Req() req: RequestWithUser,
+  ) {
+    const feed = await this.calendarFeedService.update(id, updateDto, req.user.tenantId);
+    return { data: feed };
+  }
+
+  @Delete(':id')
+  @UseGuards(JwtAuthGuard, TenantGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Revoke a feed URL' })
+  async revoke(@Param('id') id: string, @Req() req: RequestWithUser) {
+    return this.calendarFeedService.revoke(id, req.user.tenantId);
+  }
+
+  @Get('ics/:token')
+  @Header('Content-Type', 'text/calendar; charset=utf-8')
+  @Header('Content-Disposition', 'inline; filename="bookings.ics"')
+  @ApiProduces('text/calendar')
+  @ApiOperation({ summary: 'iCalendar feed (token authenticated)' })
+  async feed(@Param('token') token: string) {
+    return this.calendarFeedService.render(token.replace(/\.ics$/, ''));
+  }
+}
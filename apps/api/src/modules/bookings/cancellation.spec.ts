@@ -0,0 +1,56 @@
+import { CancellationPolicy, killFee } from './cancellation';
+
+const policy: CancellationPolicy = {
+  tiers: [
+    { noticeHours: 72, feePercent: 25 },
+    { noticeHours: 24, feePercent: 50 },
+    { noticeHours: 168, feePercent: 0 },
+  ],
+};
+
+const booking = {
+  status: 'confirmed' as const,
+  startTime: new Date('2026-11-02T09:00:00Z'),
+  totalAmount: '1234.50',
+};
+
+const hoursBefore = (hours: number) =>
+  new Date(booking.startTime.getTime() - hours * 60 * 60 * 1000);
+
+describe('killFee', () => {
+  it('charges the tightest window the notice falls into', () => {
+    expect(killFee(booking, policy, hoursBefore(48))).toEqual({
+      amount: '308.63',
+      feePercent: 25,
+      noticeHours: 48,
+      windowHours: 72,
+    });
+    expect(killFee(booking, policy, hoursBefore(12))).toMatchObject({
+      amount: '617.25',
+      windowHours: 24,
+    });
+  });
+
+  it('puts a cancellation after the start in the tightest window', () => {
+    expect(killFee(booking, policy, hoursBefore(-2))).toMatchObject({
+      feePercent: 50,
+      noticeHours: -2,
+    });
+  });
+
+  it('charges nothing outside every window or in a free one', () => {
+    expect(killFee(booking, policy, hoursBefore(200))).toBeNull();
+    expect(killFee(booking, policy, hoursBefore(100))).toBeNull();
+    // The window boundary itself counts as enough notice
+    expect(killFee(booking, policy, hoursBefore(72))).toBeNull();
+  });
+
+  it('only applies to confirmed, priced bookings under a policy', () => {
+    const at = hoursBefore(12);
+
+    expect(killFee({ ...booking, status: 'hold' }, policy, at)).toBeNull();
+    expect(killFee({ ...booking, totalAmount: null }, policy, at)).toBeNull();
+    expect(killFee(booking, null, at)).toBeNull();
+    expect(killFee(booking, { tiers: [] }, at)).toBeNull();
+  });
+});
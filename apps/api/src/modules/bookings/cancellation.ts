@@ -0,0 +1,50 @@
+import { Booking, artists } from '../../database/schema';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export type CancellationPolicy = NonNullable<(typeof artists.$inferSelect)['cancellationPolicy']>;
+export type CancellationTier = CancellationPolicy['tiers'][number];
+
+export interface KillFee {
+  amount: string;
+  feePercent: number;
+  // Notice given, negative once the booking has started
+  noticeHours: number;
+  // The tier the cancellation fell into
+  windowHours: number;
+}
+
+export function toCents(amount: string): number {
+  return Math.round(Number(amount) * 100);
+}
+
+/**
+ * What cancelling `booking` at `at` costs under `policy`. Only confirmed,
+ * priced bookings carry a fee; one cancelled after it started falls in the
+ * tightest window.
+ */
+export function killFee(
+  booking: Pick<Booking, 'status' | 'startTime' | 'totalAmount'>,
+  policy: CancellationPolicy | null | undefined,
+  at: Date,
+): KillFee | null {
+  if (booking.status !== 'confirmed' || booking.totalAmount === null || !policy?.tiers?.length) {
+    return null;
+  }
+
+  const noticeHours = (booking.startTime.getTime() - at.getTime()) / HOUR_MS;
+  const tier = policy.tiers
+    .filter((candidate) => noticeHours < candidate.noticeHours)
+    .sort((a, b) => a.noticeHours - b.noticeHours)[0];
+  if (!tier || tier.feePercent <= 0) {
+    return null;
+  }
+
+  const cents = Math.round(Number(booking.totalAmount) * tier.feePercent);
+  return {
+    amount: (cents / 100).toFixed(2),
+    feePercent: tier.feePercent,
+    noticeHours: Math.round(noticeHours * 100) / 100,
+    windowHours: tier.noticeHours,
+  };
+}
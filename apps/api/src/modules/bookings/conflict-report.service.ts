@@ -0,0 +1,122 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { AvailabilityService } from './availability.service';
+import { LicenseConflict, LicensePoolService } from './license-pool.service';
+import { BookingsService } from './bookings.service';
+import { HOLD_STATUSES } from './hold-ranking';
+import { BookingRepository } from './repositories/booking.repository';
+import { ExternalCalendarRepository } from './repositories/external-calendar.repository';
+import { TimeInterval } from './availability';
+import {
+  CONFLICT_SEVERITIES,
+  ConflictGroups,
+  ConflictSeverity,
+  ProposedBooking,
+  classifyConflicts,
+  suggestAlternatives,
+} from './conflict-report';
+import { ConflictReportDto } from './dto/conflict-report.dto';
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+const DEFAULT_TURNAROUND_MINUTES = 60;
+const ALTERNATIVE_SEARCH_DAYS = 14;
+const MAX_ALTERNATIVES = 3;
+
+export interface ConflictReport {
+  proposal: ProposedBooking;
+  // Whether POST /bookings would reject the proposal with a 409
+  refused: boolean;
+  turnaroundMinutes: number;
+  counts: Record<ConflictSeverity, number>;
+  conflicts: ConflictGroups;
+  // Conflict-free slots at the same time of day on the following days
+  alternatives: TimeInterval[];
+  // Days on which the booking would take a license pool past its seats
+  licenses: LicenseConflict[];
+}
+
+/**
+ * Explains what stands in the way of a proposed booking: everything that
+ * overlaps it or sits too close, grouped by severity, with the records
+ * involved and a few alternative slots. License shortfalls are listed
+ * alongside but don't make the proposal refused.
+ */
+@Injectable()
+export class ConflictReportService {
+  constructor(
+    private readonly bookingsService: BookingsService,
+    private readonly bookingRepository: BookingRepository,
+    private readonly externalCalendarRepository: ExternalCalendarRepository,
+    private readonly availabilityService: AvailabilityService,
+    private readonly licensePoolService: LicensePoolService,
+  ) {}
+
+  async analyze(tenantId: string, query: ConflictReportDto): Promise<ConflictReport> {
+    this.bookingsService.validateTimeRange(query.startTime, query.endTime);
+
+    if (!(await this.availabilityService.artistTimeZone(tenantId, query.artistId))) {
+      throw new NotFoundException('Artist not found');
+    }
+    await this.licensePoolService.assertKnownLicenses(tenantId, query.licenses);
+
+    const turnaroundMinutes =
+      query.turnaroundMinutes ??
+      (await this.bookingsService.loadBookingRules(tenantId)).conflicts?.turnaroundMinutes ??
+      DEFAULT_TURNAROUND_MINUTES;
+
+    const proposal: ProposedBooking = {
+      artistId: query.artistId,
+      startTime: query.startTime,
+      endTime: query.endTime,
+      status: query.status ?? 'confirmed',
+    };
+
+    // One read covers the proposal, its turnaround margin and every
+    // alternative slot
+    const window = {
+      startTime: new Date(proposal.startTime.getTime() - turnaroundMinutes * MINUTE_MS),
+      endTime: new Date(
+        proposal.endTime.getTime() +
+          ALTERNATIVE_SEARCH_DAYS * DAY_MS +
+          turnaroundMinutes * MINUTE_MS,
+      ),
+    };
+
+    const [bookings, externalBlocks, licenses] = await Promise.all([
+      this.bookingRepository.findOverlapping({
+        tenantId,
+        artistId: proposal.artistId,
+        ...window,
+        statuses: ['confirmed', ...HOLD_STATUSES],
+        excludeId: query.excludeId,
+      }),
+      this.externalCalendarRepository.findBusyBlocks({
+        tenantId,
+        artistIds: [proposal.artistId],
+        ...window,
+      }),
+      this.licensePoolService.proposalConflicts(tenantId, {
+        ...proposal,
+        licenses: query.licenses,
+        excludeId: query.excludeId,
+      }),
+    ]);
+
+    const conflicts = classifyConflicts(proposal, bookings, externalBlocks, turnaroundMinutes);
+
+    return {
+      proposal,
+      refused: proposal.status === 'confirmed' && conflicts.hard.length > 0,
+      turnaroundMinutes,
+      counts: Object.fromEntries(
+        CONFLICT_SEVERITIES.map((severity) => [severity, conflicts[severity].length]),
+      ) as Record<ConflictSeverity, number>,
+      conflicts,
+      alternatives: suggestAlternatives(proposal, bookings, externalBlocks, turnaroundMinutes, {
+        days: ALTERNATIVE_SEARCH_DAYS,
+        limit: MAX_ALTERNATIVES,
+      }),
+      licenses: licenses ?? [],
+    };
+  }
+}
@@ -0,0 +1,122 @@
+import { Booking } from '../../database/schema';
+import { classifyConflicts, ProposedBooking, suggestAlternatives } from './conflict-report';
+import { ExternalBusyBlockRecord } from './repositories/external-calendar.repository';
+
+const proposal: ProposedBooking = {
+  artistId: 'artist-1',
+  startTime: new Date('2026-11-02T09:00:00Z'),
+  endTime: new Date('2026-11-02T17:00:00Z'),
+  status: 'confirmed',
+};
+
+function booking(id: string, start: string, end: string, overrides: Partial<Booking> = {}) {
+  return {
+    id,
+    artistId: 'artist-1',
+    startTime: new Date(start),
+    endTime: new Date(end),
+    status: 'hold',
+    holdType: null,
+    holdRank: 2,
+    ...overrides,
+  } as Booking;
+}
+
+function block(id: string, start: string, end: string, summary: string | null = null) {
+  return {
+    id,
+    startTime: new Date(start),
+    endTime: new Date(end),
+    summary,
+  } as ExternalBusyBlockRecord;
+}
+
+const ids = (entries: Array<{ booking?: Booking; externalBusyBlock?: ExternalBusyBlockRecord }>) =>
+  entries.map((entry) => entry.booking?.id ?? entry.externalBusyBlock?.id);
+
+describe('conflict report', () => {
+  describe('classifyConflicts', () => {
+    it('sorts overlapping bookings by severity', () => {
+      const groups = classifyConflicts(
+        proposal,
+        [
+          booking('confirmed', '2026-11-02T08:00:00Z', '2026-11-02T10:00:00Z', {
+            status: 'confirmed',
+            holdRank: null,
+          }),
+          booking('first-hold', '2026-11-02T12:00:00Z', '2026-11-02T13:00:00Z', { holdRank: 1 }),
+          booking('pencil', '2026-11-02T14:00:00Z', '2026-11-02T15:00:00Z', { status: 'pencil' }),
+          booking('hold', '2026-11-02T16:00:00Z', '2026-11-02T18:00:00Z', {
+            holdType: 'first_refusal',
+          }),
+        ],
+        [],
+        0,
+      );
+
+      expect(ids(groups.hard)).toEqual(['confirmed', 'first-hold']);
+      expect(ids(groups.pencil)).toEqual(['pencil']);
+      expect(groups.soft_hold.map((entry) => entry.reason)).toEqual([
+        'Overlaps a first refusal hold (rank 2)',
+      ]);
+      expect(groups.turnaround).toEqual([]);
+    });
+
+    it('lets a hold queue behind a first-ranked hold', () => {
+      const groups = classifyConflicts(
+        { ...proposal, status: 'hold' },
+        [booking('first-hold', '2026-11-02T12:00:00Z', '2026-11-02T13:00:00Z', { holdRank: 1 })],
+        [],
+        0,
+      );
+
+      expect(groups.hard).toEqual([]);
+      expect(ids(groups.soft_hold)).toEqual(['first-hold']);
+    });
+
+    it('treats external events as hard and flags neighbours inside the turnaround', () => {
+      const groups = classifyConflicts(
+        proposal,
+        [booking('before', '2026-11-02T07:00:00Z', '2026-11-02T08:30:00Z')],
+        [
+          block('overlap', '2026-11-02T11:00:00Z', '2026-11-02T12:00:00Z', 'Dentist'),
+          block('after', '2026-11-02T17:45:00Z', '2026-11-02T19:00:00Z'),
+          block('far', '2026-11-02T19:00:00Z', '2026-11-02T20:00:00Z'),
+        ],
+        60,
+      );
+
+      expect(groups.hard.map((entry) => entry.reason)).toEqual([
+        'Busy with "Dentist" on an external calendar',
+      ]);
+      expect(ids(groups.turnaround)).toEqual(['before', 'after']);
+      expect(groups.turnaround.map((entry) => entry.gapMinutes)).toEqual([30, 45]);
+    });
+
+    it('lets back-to-back bookings touch without conflicting', () => {
+      const groups = classifyConflicts(
+        proposal,
+        [booking('next', '2026-11-02T17:00:00Z', '2026-11-02T18:00:00Z', { status: 'confirmed' })],
+        [],
+        0,
+      );
+
+      expect(groups.hard).toEqual([]);
+    });
+  });
+
+  it('suggests the nearest clear days at the same time', () => {
+    const alternatives = suggestAlternatives(
+      proposal,
+      [booking('tuesday', '2026-11-03T10:00:00Z', '2026-11-03T11:00:00Z', { status: 'confirmed' })],
+      [block('wednesday', '2026-11-04T00:00:00Z', '2026-11-05T00:00:00Z')],
+      0,
+      { days: 7, limit: 2 },
+    );
+
+    expect(alternatives).toEqual([
+      { start: new Date('2026-11-05T09:00:00Z'), end: new Date('2026-11-05T17:00:00Z') },
+      { start: new Date('2026-11-06T09:00:00Z'), end: new Date('2026-11-06T17:00:00Z') },
+    ]);
+  });
+});
@@ -0,0 +1,161 @@
+import { Booking } from '../../database/schema';
+import { BookingStatus } from './repositories/booking.repository';
+import { ExternalBusyBlockRecord } from './repositories/external-calendar.repository';
+import { TimeInterval } from './availability';
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+// Most to least severe
+export const CONFLICT_SEVERITIES = ['hard', 'pencil', 'soft_hold', 'turnaround'] as const;
+
+export type ConflictSeverity = (typeof CONFLICT_SEVERITIES)[number];
+
+export interface ProposedBooking {
+  artistId: string;
+  startTime: Date;
+  endTime: Date;
+  status: BookingStatus;
+}
+
+export interface ConflictEntry {
+  severity: ConflictSeverity;
+  reason: string;
+  booking?: Booking;
+  externalBusyBlock?: ExternalBusyBlockRecord;
+  // Turnaround entries: minutes between the two bookings
+  gapMinutes?: number;
+}
+
+export type ConflictGroups = Record<ConflictSeverity, ConflictEntry[]>;
+
+function overlaps(a: TimeInterval, b: TimeInterval): boolean {
+  return a.start < b.end && a.end > b.start;
+}
+
+// Minutes between two non-overlapping intervals
+function gapMinutes(a: TimeInterval, b: TimeInterval): number {
+  const gap = a.end <= b.start ? b.start.getTime() - a.end.getTime() : a.start.getTime() - b.end.getTime();
+  return Math.round(gap / MINUTE_MS);
+}
+
+function rankLabel(booking: Booking): string {
+  return booking.holdRank ? ` (rank ${booking.holdRank})` : '';
+}
+
+/**
+ * Sorts an existing booking that overlaps the proposal into a severity.
+ * Hard conflicts are the ones the bookings_no_overlap_per_artist
+ * constraint enforces: confirmed bookings always, and first-ranked holds
+ * when the proposal is itself confirmed.
+ */
+function classifyOverlap(proposal: ProposedBooking, booking: Booking): ConflictEntry {
+  if (booking.status === 'confirmed') {
+    return { severity: 'hard', reason: 'Overlaps a confirmed booking', booking };
+  }
+  if (proposal.status === 'confirmed' && booking.holdRank === 1) {
+    return {
+      severity: 'hard',
+      reason: `The first-ranked ${booking.status} has this slot until it is confirmed or released`,
+      booking,
+    };
+  }
+  if (booking.status === 'pencil') {
+    return { severity: 'pencil', reason: `Overlaps a pencil${rankLabel(booking)}`, booking };
+  }
+  return {
+    severity: 'soft_hold',
+    reason: `Overlaps a ${booking.holdType ? `${booking.holdType.replace('_', ' ')} ` : ''}hold${rankLabel(booking)}`,
+    booking,
+  };
+}
+
+/**
+ * Groups everything near a proposed booking by severity: overlapping
+ * bookings, external calendar events (which block like confirmed
+ * bookings), and bookings or events closer than `turnaroundMinutes`.
+ */
+export function classifyConflicts(
+  proposal: ProposedBooking,
+  bookings: Booking[],
+  externalBlocks: ExternalBusyBlockRecord[],
+  turnaroundMinutes: number,
+): ConflictGroups {
+  const groups: ConflictGroups = { hard: [], pencil: [], soft_hold: [], turnaround: [] };
+  const slot = { start: proposal.startTime, end: proposal.endTime };
+  const padded = {
+    start: new Date(slot.start.getTime() - turnaroundMinutes * MINUTE_MS),
+    end: new Date(slot.end.getTime() + turnaroundMinutes * MINUTE_MS),
+  };
+
+  const tooClose = (interval: TimeInterval) =>
+    turnaroundMinutes > 0 && overlaps(padded, interval) && gapMinutes(slot, interval) < turnaroundMinutes;
+
+  for (const booking of bookings) {
+    const interval = { start: booking.startTime, end: booking.endTime };
+    if (overlaps(slot, interval)) {
+      const entry = classifyOverlap(proposal, booking);
+      groups[entry.severity].push(entry);
+    } else if (tooClose(interval)) {
+      const gap = gapMinutes(slot, interval);
+      groups.turnaround.push({
+        severity: 'turnaround',
+        reason: `Only ${gap} min ${interval.end <= slot.start ? 'after' : 'before'} another ${booking.status} booking; ${turnaroundMinutes} min needed`,
+        booking,
+        gapMinutes: gap,
+      });
+    }
+  }
+
+  for (const block of externalBlocks) {
+    const interval = { start: block.startTime, end: block.endTime };
+    const label = block.summary ? `"${block.summary}"` : 'an event';
+    if (overlaps(slot, interval)) {
+      groups.hard.push({
+        severity: 'hard',
+        reason: `Busy with ${label} on an external calendar`,
+        externalBusyBlock: block,
+      });
+    } else if (tooClose(interval)) {
+      const gap = gapMinutes(slot, interval);
+      groups.turnaround.push({
+        severity: 'turnaround',
+        reason: `Only ${gap} min from ${label} on an external calendar; ${turnaroundMinutes} min needed`,
+        externalBusyBlock: block,
+        gapMinutes: gap,
+      });
+    }
+  }
+
+  return groups;
+}
+
+/**
+ * The proposal moved by whole days, nearest first, where it would have no
+ * conflicts of any severity. Keeps the time of day and length, so the UI
+ * can offer "same time on Thursday".
+ */
+export function suggestAlternatives(
+  proposal: ProposedBooking,
+  bookings: Booking[],
+  externalBlocks: ExternalBusyBlockRecord[],
+  turnaroundMinutes: number,
+  options: { days: number; limit: number },
+): TimeInterval[] {
+  const alternatives: TimeInterval[] = [];
+
+  for (let day = 1; day <= options.days && alternatives.length < options.limit; day++) {
+    const shifted = {
+      ...proposal,
+      startTime: new Date(proposal.startTime.getTime() + day * DAY_MS),
+      endTime: new Date(proposal.endTime.getTime() + day * DAY_MS),
+    };
+    const groups = classifyConflicts(shifted, bookings, externalBlocks, turnaroundMinutes);
+
+    if (CONFLICT_SEVERITIES.every((severity) => groups[severity].length === 0)) {
+      alternatives.push({ start: shifted.startTime, end: shifted.endTime });
+    }
+  }
+
+  return alternatives;
+}
@@ -0,0 +1,133 @@
+import { Injectable, BadRequestException } from '@nestjs/common';
+import { toCents } from './cancellation';
+import { HOLD_STATUSES } from './hold-ranking';
+import { BookingRepository, BookingStatus } from './repositories/booking.repository';
+import { CostReportQueryDto } from './dto/cost-report-query.dto';
+
+export interface CostTotals {
+  bookings: number;
+  cancellations: number;
+  // Confirmed and completed bookings
+  committed: string;
+  // Holds and pencils, which may still be released
+  tentative: string;
+  // Owed for bookings cancelled inside their notice window
+  killFees: string;
+  // Committed plus kill fees
+  total: string;
+}
+
+export interface ArtistCosts extends CostTotals {
+  artistId: string;
+}
+
+export interface ProjectCosts extends CostTotals {
+  projectId: string | null;
+  artists: ArtistCosts[];
+}
+
+export interface CostReport {
+  from: Date;
+  until: Date;
+  totals: CostTotals;
+  projects: ProjectCosts[];
+}
+
+interface CostCents {
+  bookings: number;
+  cancellations: number;
+  committed: number;
+  tentative: number;
+  killFees: number;
+}
+
+function emptyCents(): CostCents {
+  return { bookings: 0, cancellations: 0, committed: 0, tentative: 0, killFees: 0 };
+}
+
+function addCents(
+  into: CostCents,
+  status: BookingStatus,
+  count: number,
+  amount: number,
+  killFees: number,
+) {
+  if (status === 'cancelled') {
+    into.cancellations += count;
+    into.killFees += killFees;
+    return;
+  }
+
+  into.bookings += count;
+  if (HOLD_STATUSES.includes(status)) {
+    into.tentative += amount;
+  } else {
+    into.committed += amount;
+  }
+}
+
+function toTotals(cents: CostCents): CostTotals {
+  return {
+    bookings: cents.bookings,
+    cancellations: cents.cancellations,
+    committed: (cents.committed / 100).toFixed(2),
+    tentative: (cents.tentative / 100).toFixed(2),
+    killFees: (cents.killFees / 100).toFixed(2),
+    total: ((cents.committed + cents.killFees) / 100).toFixed(2),
+  };
+}
+
+/**
+ * What bookings starting in a period cost, by project and artist: amounts
+ * committed, amounts still on hold, and the kill fees cancellations left
+ * behind. Unpriced bookings count but add nothing.
+ */
+@Injectable()
+export class CostReportService {
+  constructor(private readonly bookingRepository: BookingRepository) {}
+
+  async report(tenantId: string, query: CostReportQueryDto): Promise<CostReport> {
+    if (query.until <= query.from) {
+      throw new BadRequestException('until must be after from');
+    }
+
+    const rows = await this.bookingRepository.sumCosts({ tenantId, ...query });
+
+    const totals = emptyCents();
+    const projects = new Map<string | null, { cents: CostCents; artists: Map<string, CostCents> }>();
+
+    for (const row of rows) {
+      const amount = toCents(row.totalAmount);
+      const killFees = toCents(row.killFees);
+
+      let project = projects.get(row.projectId);
+      if (!project) {
+        project = { cents: emptyCents(), artists: new Map() };
+        projects.set(row.projectId, project);
+      }
+      let artist = project.artists.get(row.artistId);
+      if (!artist) {
+        artist = emptyCents();
+        project.artists.set(row.artistId, artist);
+      }
+
+      for (const cents of [totals, project.cents, artist]) {
+        addCents(cents, row.status, row.bookings, amount, killFees);
+      }
+    }
+
+    return {
+      from: query.from,
+      until: query.until,
+      totals: toTotals(totals),
+      projects: [...projects].map(([projectId, project]) => ({
+        projectId,
+        ...toTotals(project.cents),
+        artists: [...project.artists].map(([artistId, cents]) => ({
+          artistId,
+          ...toTotals(cents),
+        })),
+      })),
+    };
+  }
+}
@@ -0,0 +1,71 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  ArrayMaxSize,
+  ArrayMinSize,
+  IsArray,
+  IsBoolean,
+  IsDate,
+  IsEnum,
+  IsNumberString,
+  IsOptional,
+  IsString,
+  IsUUID,
+  MaxLength,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+
+// One proposed hold, as returned by apply, possibly edited
+export class ProposedHoldDto {
+  @ApiProperty()
+  @IsUUID()
+  artistId: string;
+
+  @ApiProperty()
+  @Type(() => Date)
+  @IsDate()
+  startTime: Date;
+
+  @ApiProperty()
+  @Type(() => Date)
+  @IsDate()
+  endTime: Date;
+
+  @ApiProperty({ required: false })
+  @IsOptional()
+  @IsString()
+  @MaxLength(255)
+  title?: string;
+
+  @ApiProperty({ required: false })
+  @IsOptional()
+  @IsNumberString()
+  rate?: string;
+
+  @ApiProperty({ required: false, enum: ['hourly', 'daily', 'fixed'] })
+  @IsOptional()
+  @IsEnum(['hourly', 'daily', 'fixed'])
+  rateType?: 'hourly' | 'daily' | 'fixed';
+}
+
+export class AcceptTemplateProposalDto {
+  @ApiProperty()
+  @IsUUID()
+  projectId: string;
+
+  @ApiProperty({ type: [ProposedHoldDto] })
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(500)
+  @ValidateNested({ each: true })
+  @Type(() => ProposedHoldDto)
+  holds: ProposedHoldDto[];
+
+  @ApiProperty({
+    required: false,
+    description: "Book even where a hold falls outside its artist's local working hours",
+  })
+  @IsOptional()
+  @IsBoolean()
+  allowOutsideWorkingHours?: boolean;
+}
@@ -0,0 +1,15 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { ArrayNotEmpty, IsArray, IsDate } from 'class-validator';
+import { Type } from 'class-transformer';
+
+export class AddSeriesExdatesDto {
+  @ApiProperty({
+    type: [Date],
+    description: 'Occurrence start times to skip; their bookings are cancelled',
+  })
+  @IsArray()
+  @ArrayNotEmpty()
+  @Type(() => Date)
+  @IsDate({ each: true })
+  dates: Date[];
+}
@@ -0,0 +1,23 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsDate, IsOptional, IsUUID } from 'class-validator';
+import { Type } from 'class-transformer';
+
+export class ApplyBookingTemplateDto {
+  @ApiProperty()
+  @IsUUID()
+  projectId: string;
+
+  @ApiProperty({ description: 'Earliest start; role offsets count from here' })
+  @Type(() => Date)
+  @IsDate()
+  from: Date;
+
+  @ApiProperty({
+    required: false,
+    description: 'Latest end for every role (defaults to, and at most, 93 days after from)',
+  })
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  until?: Date;
+}
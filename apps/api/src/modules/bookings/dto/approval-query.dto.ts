@@ -0,0 +1,16 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsIn, IsOptional, IsUUID } from 'class-validator';
+
+const APPROVAL_STATUSES = ['pending', 'approved', 'rejected', 'superseded'] as const;
+
+export class ApprovalQueryDto {
+  @ApiProperty({ required: false, enum: APPROVAL_STATUSES })
+  @IsOptional()
+  @IsIn(APPROVAL_STATUSES)
+  status?: (typeof APPROVAL_STATUSES)[number];
+
+  @ApiProperty({ required: false })
+  @IsOptional()
+  @IsUUID()
+  bookingId?: string;
+}
@@ -0,0 +1,15 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsInt, IsNotEmpty, IsString, MaxLength, Min } from 'class-validator';
+
+export class CancelBookingDto {
+  @ApiProperty({ description: 'Version the client last read; stale versions are rejected with 409' })
+  @IsInt()
+  @Min(1)
+  version: number;
+
+  @ApiProperty({ description: 'Why the booking is cancelled; kept with the booking' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(2000)
+  reason: string;
+}
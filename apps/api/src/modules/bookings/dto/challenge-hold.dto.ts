@@ -0,0 +1,9 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsInt, Min } from 'class-validator';
+
+export class ChallengeHoldDto {
+  @ApiProperty({ description: 'Version of the challenging hold the client last read' })
+  @IsInt()
+  @Min(1)
+  version: number;
+}
@@ -0,0 +1,19 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsDate, IsUUID } from 'class-validator';
+import { Type } from 'class-transformer';
+
+export class CheckAvailabilityDto {
+  @ApiProperty()
+  @IsUUID()
+  artistId: string;
+
+  @ApiProperty()
+  @Type(() => Date)
+  @IsDate()
+  startTime: Date;
+
+  @ApiProperty()
+  @Type(() => Date)
+  @IsDate()
+  endTime: Date;
+}
@@ -0,0 +1,9 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsInt, Min } from 'class-validator';
+
+export class ConfirmHoldDto {
+  @ApiProperty({ description: 'Version the client last read; stale versions are rejected with 409' })
+  @IsInt()
+  @Min(1)
+  version: number;
+}
@@ -0,0 +1,63 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  ArrayMaxSize,
+  IsArray,
+  IsDate,
+  IsIn,
+  IsInt,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Max,
+  Min,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+
+const PROPOSED_STATUSES = ['hold', 'pencil', 'confirmed'] as const;
+
+export class ConflictReportDto {
+  @ApiProperty()
+  @IsUUID()
+  artistId: string;
+
+  @ApiProperty()
+  @Type(() => Date)
+  @IsDate()
+  startTime: Date;
+
+  @ApiProperty()
+  @Type(() => Date)
+  @IsDate()
+  endTime: Date;
+
+  @ApiProperty({ required: false, enum: PROPOSED_STATUSES, default: 'confirmed' })
+  @IsOptional()
+  @IsIn(PROPOSED_STATUSES)
+  status?: (typeof PROPOSED_STATUSES)[number];
+
+  @ApiProperty({ required: false, description: 'Booking being edited, left out of the report' })
+  @IsOptional()
+  @IsUUID()
+  excludeId?: string;
+
+  @ApiProperty({
+    required: false,
+    description: "Minimum gap between bookings; defaults to the tenant's turnaround rule",
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(24 * 60)
+  turnaroundMinutes?: number;
+
+  @ApiProperty({
+    required: false,
+    type: [String],
+    description: "License pool keys the booking needs; defaults to the pools for the artist's type",
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(20)
+  @IsString({ each: true })
+  licenses?: string[];
+}
@@ -0,0 +1,25 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsDate, IsOptional, IsUUID } from 'class-validator';
+import { Type } from 'class-transformer';
+
+export class CostReportQueryDto {
+  @ApiProperty({ description: 'Bookings starting at or after this' })
+  @Type(() => Date)
+  @IsDate()
+  from: Date;
+
+  @ApiProperty({ description: 'Bookings starting before this' })
+  @Type(() => Date)
+  @IsDate()
+  until: Date;
+
+  @ApiProperty({ required: false })
+  @IsOptional()
+  @IsUUID()
+  projectId?: string;
+
+  @ApiProperty({ required: false })
+  @IsOptional()
+  @IsUUID()
+  artistId?: string;
+}
@@ -0,0 +1,29 @@
+import { ApiProperty, OmitType } from '@nestjs/swagger';
+import { IsDate, IsOptional, IsString } from 'class-validator';
+import { Type } from 'class-transformer';
+import { CreateBookingDto } from './create-booking.dto';
+
+// startTime/endTime describe the first occurrence; later ones keep its
+// time of day and duration. allowOutsideWorkingHours covers every
+// occurrence created with the series
+export class CreateBookingSeriesDto extends OmitType(CreateBookingDto, [
+  'holdExpiresAt',
+  'totalAmount',
+  'metadata',
+  'resources',
+  'licenses',
+  'phaseId',
+] as const) {
+  @ApiProperty({ description: 'RFC 5545 recurrence rule without DTSTART, e.g. FREQ=WEEKLY;BYDAY=MO,WE' })
+  @IsString()
+  rrule: string;
+
+  @ApiProperty({
+    required: false,
+    description: 'Create occurrences up to this date (defaults to 90 days after the first one)',
+  })
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  expandUntil?: Date;
+}
@@ -0,0 +1,113 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  ArrayMaxSize,
+  ArrayMinSize,
+  IsArray,
+  IsEnum,
+  IsIn,
+  IsInt,
+  IsNotEmpty,
+  IsNumber,
+  IsNumberString,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ARTIST_TYPES } from './find-slots.dto';
+
+export class BookingTemplateRoleDto {
+  @ApiProperty({ required: false, description: 'e.g. "Lead lighter"' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(255)
+  name?: string;
+
+  @ApiProperty({ enum: ARTIST_TYPES })
+  @IsEnum(ARTIST_TYPES)
+  artistType: (typeof ARTIST_TYPES)[number];
+
+  @ApiProperty({ description: 'How many artists of this role' })
+  @IsInt()
+  @Min(1)
+  @Max(20)
+  count: number;
+
+  @ApiProperty({ required: false, description: 'Consecutive working days; give this or durationHours' })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(60)
+  durationDays?: number;
+
+  @ApiProperty({ required: false, description: 'Hours in one stretch; give this or durationDays' })
+  @IsOptional()
+  @IsNumber()
+  @Min(0.25)
+  @Max(24)
+  durationHours?: number;
+
+  @ApiProperty({ required: false, default: 0, description: 'Days after the template start this role begins' })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(90)
+  startOffsetDays?: number;
+
+  @ApiProperty({ required: false, type: [String], description: 'Artists need at least one of these' })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  skills?: string[];
+
+  @ApiProperty({ required: false, description: "Used instead of the artist's own rate" })
+  @IsOptional()
+  @IsNumberString()
+  rate?: string;
+
+  @ApiProperty({ required: false, enum: ['hourly', 'daily', 'fixed'] })
+  @IsOptional()
+  @IsEnum(['hourly', 'daily', 'fixed'])
+  rateType?: 'hourly' | 'daily' | 'fixed';
+}
+
+export class CreateBookingTemplateDto {
+  @ApiProperty()
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(255)
+  name: string;
+
+  @ApiProperty({ required: false })
+  @IsOptional()
+  @IsString()
+  description?: string;
+
+  @ApiProperty({ type: [BookingTemplateRoleDto] })
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(20)
+  @ValidateNested({ each: true })
+  @Type(() => BookingTemplateRoleDto)
+  roles: BookingTemplateRoleDto[];
+
+  @ApiProperty({ required: false, enum: ['hold', 'pencil'], default: 'hold' })
+  @IsOptional()
+  @IsIn(['hold', 'pencil'])
+  status?: 'hold' | 'pencil';
+
+  @ApiProperty({ required: false, enum: ['soft', 'hard', 'first_refusal'] })
+  @IsOptional()
+  @IsEnum(['soft', 'hard', 'first_refusal'])
+  holdType?: 'soft' | 'hard' | 'first_refusal';
+
+  @ApiProperty({ required: false, description: 'Accepted holds expire this many days later' })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(365)
+  holdExpiryDays?: number;
+}
@@ -0,0 +1,124 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  IsString,
+  IsOptional,
+  IsUUID,
+  IsEnum,
+  IsDate,
+  IsObject,
+  IsNumberString,
+  IsBoolean,
+  IsArray,
+  ArrayMaxSize,
+  MaxLength,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import { ResourceClaimDto } from './resource-claim.dto';
+
+export class CreateBookingDto {
+  @ApiProperty()
+  @IsUUID()
+  artistId: string;
+
+  @ApiProperty({ required: false })
+  @IsOptional()
+  @IsUUID()
+  projectId?: string;
+
+  @ApiProperty({
+    required: false,
+    description: "Phase of the booking's project the work belongs to; rescheduling the phase moves it",
+  })
+  @IsOptional()
+  @IsUUID()
+  phaseId?: string | null;
+
+  @ApiProperty()
+  @Type(() => Date)
+  @IsDate()
+  startTime: Date;
+
+  @ApiProperty()
+  @Type(() => Date)
+  @IsDate()
+  endTime: Date;
+
+  @ApiProperty({ required: false, enum: ['hold', 'pencil', 'confirmed', 'cancelled', 'completed'], default: 'hold' })
+  @IsOptional()
+  @IsEnum(['hold', 'pencil', 'confirmed', 'cancelled', 'completed'])
+  status?: 'hold' | 'pencil' | 'confirmed' | 'cancelled' | 'completed';
+
+  @ApiProperty({ required: false, enum: ['soft', 'hard', 'first_refusal'] })
+  @IsOptional()
+  @IsEnum(['soft', 'hard', 'first_refusal'])
+  holdType?: 'soft' | 'hard' | 'first_refusal';
+
+  @ApiProperty({ required: false })
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  holdExpiresAt?: Date;
+
+  @ApiProperty({ required: false })
+  @IsOptional()
+  @IsString()
+  title?: string;
+
+  @ApiProperty({ required: false })
+  @IsOptional()
+  @IsString()
+  notes?: string;
+
+  @ApiProperty({ required: false })
+  @IsOptional()
+  @IsNumberString()
+  rate?: string;
+
+  @ApiProperty({ required: false, enum: ['hourly', 'daily', 'fixed'] })
+  @IsOptional()
+  @IsEnum(['hourly', 'daily', 'fixed'])
+  rateType?: 'hourly' | 'daily' | 'fixed';
+
+  @ApiProperty({ required: false })
+  @IsOptional()
+  @IsNumberString()
+  totalAmount?: string;
+
+  @ApiProperty({ required: false })
+  @IsOptional()
+  @IsObject()
+  metadata?: Record<string, unknown>;
+
+  @ApiProperty({
+    required: false,
+    description: "Book even where the time falls outside the artist's local working hours",
+  })
+  @IsOptional()
+  @IsBoolean()
+  allowOutsideWorkingHours?: boolean;
+
+  @ApiProperty({
+    required: false,
+    type: [ResourceClaimDto],
+    description: 'Rooms, workstations or licenses the booking reserves along with the artist',
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(20)
+  @ValidateNested({ each: true })
+  @Type(() => ResourceClaimDto)
+  resources?: ResourceClaimDto[];
+
+  @ApiProperty({
+    required: false,
+    type: [String],
+    description: "License pool keys, e.g. houdini; if left out, the artist type's pools apply",
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(20)
+  @IsString({ each: true })
+  @MaxLength(64, { each: true })
+  licenses?: string[] | null;
+}
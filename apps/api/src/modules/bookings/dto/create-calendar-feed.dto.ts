@@ -0,0 +1,51 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  ArrayUnique,
+  IsArray,
+  IsIn,
+  IsOptional,
+  IsString,
+  IsUUID,
+  MaxLength,
+  ValidateIf,
+} from 'class-validator';
+
+export const CALENDAR_FEED_SCOPES = ['artist', 'project', 'tenant'] as const;
+export const FEED_STATUSES = ['hold', 'pencil', 'confirmed', 'cancelled', 'completed'] as const;
+
+export type CalendarFeedScope = (typeof CALENDAR_FEED_SCOPES)[number];
+export type FeedStatus = (typeof FEED_STATUSES)[number];
+
+export class CreateCalendarFeedDto {
+  @ApiProperty({ enum: CALENDAR_FEED_SCOPES })
+  @IsIn(CALENDAR_FEED_SCOPES)
+  scope: CalendarFeedScope;
+
+  @ApiProperty({ required: false, description: 'Required for artist feeds' })
+  @ValidateIf((dto: CreateCalendarFeedDto) => dto.scope === 'artist')
+  @IsUUID()
+  artistId?: string;
+
+  @ApiProperty({ required: false, description: 'Required for project feeds' })
+  @ValidateIf((dto: CreateCalendarFeedDto) => dto.scope === 'project')
+  @IsUUID()
+  projectId?: string;
+
+  @ApiProperty({ required: false, description: 'Calendar name shown in calendar apps' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(255)
+  name?: string;
+
+  @ApiProperty({
+    required: false,
+    enum: FEED_STATUSES,
+    isArray: true,
+    description: 'Booking statuses to publish; defaults to everything but cancelled',
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayUnique()
+  @IsIn(FEED_STATUSES, { each: true })
+  statuses?: FeedStatus[];
+}
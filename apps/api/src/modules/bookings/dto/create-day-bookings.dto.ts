@@ -0,0 +1,23 @@
+import { ApiProperty, OmitType } from '@nestjs/swagger';
+import { IsISO8601, Matches } from 'class-validator';
+import { CreateBookingDto } from './create-booking.dto';
+
+const LOCAL_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+// Dates are local to the artist; each working day becomes its own booking
+// over that day's working hours
+export class CreateDayBookingsDto extends OmitType(CreateBookingDto, [
+  'startTime',
+  'endTime',
+  'allowOutsideWorkingHours',
+] as const) {
+  @ApiProperty({ description: 'First day, as YYYY-MM-DD in the artist\'s time zone' })
+  @Matches(LOCAL_DATE, { message: 'startDate must be a date as YYYY-MM-DD' })
+  @IsISO8601({ strict: true })
+  startDate: string;
+
+  @ApiProperty({ description: 'Last day (inclusive), as YYYY-MM-DD in the artist\'s time zone' })
+  @Matches(LOCAL_DATE, { message: 'endDate must be a date as YYYY-MM-DD' })
+  @IsISO8601({ strict: true })
+  endDate: string;
+}
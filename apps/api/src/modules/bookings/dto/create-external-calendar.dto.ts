@@ -0,0 +1,19 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsNotEmpty, IsString, MaxLength } from 'class-validator';
+
+export class CreateExternalCalendarDto {
+  @ApiProperty({ example: 'Studio B bookings' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(255)
+  name: string;
+
+  @ApiProperty({
+    description: 'ICS subscription URL (http, https or webcal), or a file path on the server',
+    example: 'webcal://calendar.example.com/artist.ics',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(2000)
+  url: string;
+}
@@ -0,0 +1,48 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  ArrayMaxSize,
+  IsArray,
+  IsEnum,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Matches,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { ARTIST_TYPES } from './find-slots.dto';
+
+export class CreateLicensePoolDto {
+  @ApiProperty({ description: 'What bookings list in `licenses`, e.g. "houdini"' })
+  @Matches(/^[a-z0-9][a-z0-9_-]*$/, {
+    message: 'key may only hold lowercase letters, digits, "-" and "_"',
+  })
+  @MaxLength(64)
+  key: string;
+
+  @ApiProperty({ description: 'e.g. "Houdini FX"' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(255)
+  name: string;
+
+  @ApiProperty({ description: 'How many bookings may use the license at once' })
+  @IsInt()
+  @Min(0)
+  @Max(10000)
+  seats: number;
+
+  @ApiProperty({
+    required: false,
+    enum: ARTIST_TYPES,
+    isArray: true,
+    description: 'Bookings of these artists need a seat unless they list their own licenses',
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(ARTIST_TYPES.length)
+  @IsEnum(ARTIST_TYPES, { each: true })
+  artistTypes?: Array<(typeof ARTIST_TYPES)[number]>;
+}
@@ -0,0 +1,59 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  IsBoolean,
+  IsIn,
+  IsInt,
+  IsNotEmpty,
+  IsObject,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+
+export const RESOURCE_TYPES = ['room', 'workstation', 'license', 'equipment'] as const;
+
+export class CreateResourceDto {
+  @ApiProperty({ description: 'e.g. "Grading suite 2"' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(255)
+  name: string;
+
+  @ApiProperty({ enum: RESOURCE_TYPES })
+  @IsIn(RESOURCE_TYPES)
+  type: (typeof RESOURCE_TYPES)[number];
+
+  @ApiProperty({
+    required: false,
+    default: 1,
+    description: 'How many reservations may overlap, e.g. seats in a license pool',
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(1000)
+  capacity?: number;
+
+  @ApiProperty({ required: false })
+  @IsOptional()
+  @IsString()
+  @MaxLength(255)
+  location?: string;
+
+  @ApiProperty({ required: false })
+  @IsOptional()
+  @IsString()
+  description?: string;
+
+  @ApiProperty({ required: false, default: true, description: 'Inactive resources cannot be reserved' })
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+
+  @ApiProperty({ required: false })
+  @IsOptional()
+  @IsObject()
+  metadata?: Record<string, unknown>;
+}
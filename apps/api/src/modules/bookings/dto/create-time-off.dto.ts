@@ -0,0 +1,21 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsDate, IsOptional, IsString, MaxLength } from 'class-validator';
+import { Type } from 'class-transformer';
+
+export class CreateTimeOffDto {
+  @ApiProperty()
+  @Type(() => Date)
+  @IsDate()
+  startTime: Date;
+
+  @ApiProperty()
+  @Type(() => Date)
+  @IsDate()
+  endTime: Date;
+
+  @ApiProperty({ required: false })
+  @IsOptional()
+  @IsString()
+  @MaxLength(255)
+  reason?: string;
+}
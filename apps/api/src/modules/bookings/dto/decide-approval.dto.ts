@@ -0,0 +1,10 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsOptional, IsString, MaxLength } from 'class-validator';
+
+export class DecideApprovalDto {
+  @ApiProperty({ required: false, description: 'Shown to the requester with the decision' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(2000)
+  note?: string;
+}
@@ -0,0 +1,18 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsBoolean, IsDate, IsOptional } from 'class-validator';
+import { Type } from 'class-transformer';
+
+export class ExpandBookingSeriesDto {
+  @ApiProperty({ description: 'Create any missing occurrences up to this date' })
+  @Type(() => Date)
+  @IsDate()
+  until: Date;
+
+  @ApiProperty({
+    required: false,
+    description: "Create occurrences even where they fall outside the artist's working hours",
+  })
+  @IsOptional()
+  @IsBoolean()
+  allowOutsideWorkingHours?: boolean;
+}
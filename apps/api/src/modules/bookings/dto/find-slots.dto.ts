@@ -0,0 +1,87 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  IsArray,
+  IsDate,
+  IsEnum,
+  IsInt,
+  IsNumber,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Max,
+  Min,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+
+export const ARTIST_TYPES = [
+  '3d_artist',
+  'animator',
+  'compositor',
+  'lighter',
+  'rigger',
+  'modeler',
+  'fx_artist',
+  'freelancer',
+] as const;
+
+export class FindSlotsDto {
+  @ApiProperty({ required: false, enum: ARTIST_TYPES })
+  @IsOptional()
+  @IsEnum(ARTIST_TYPES)
+  artistType?: (typeof ARTIST_TYPES)[number];
+
+  @ApiProperty({ required: false, type: [String], description: 'Artists need at least one of these' })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  skills?: string[];
+
+  @ApiProperty({ required: false, description: 'Favours artists already booked on this project' })
+  @IsOptional()
+  @IsUUID()
+  projectId?: string;
+
+  @ApiProperty({ required: false, default: 1, description: 'How many artists are needed' })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(20)
+  headcount?: number;
+
+  @ApiProperty({ required: false, description: 'Consecutive working days needed' })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(60)
+  durationDays?: number;
+
+  @ApiProperty({ required: false, description: 'Hours needed in one stretch' })
+  @IsOptional()
+  @IsNumber()
+  @Min(0.25)
+  @Max(24)
+  durationHours?: number;
+
+  @ApiProperty({ description: 'Earliest start' })
+  @Type(() => Date)
+  @IsDate()
+  from: Date;
+
+  @ApiProperty({ description: 'Latest end (at most 93 days after from)' })
+  @Type(() => Date)
+  @IsDate()
+  until: Date;
+
+  @ApiProperty({ required: false })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  maxDailyRate?: number;
+
+  @ApiProperty({ required: false, default: 20 })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  limit?: number;
+}
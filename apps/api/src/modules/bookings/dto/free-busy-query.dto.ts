@@ -0,0 +1,15 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsDate } from 'class-validator';
+import { Type } from 'class-transformer';
+
+export class FreeBusyQueryDto {
+  @ApiProperty({ description: 'Start of the range' })
+  @Type(() => Date)
+  @IsDate()
+  from: Date;
+
+  @ApiProperty({ description: 'End of the range (at most 93 days after from)' })
+  @Type(() => Date)
+  @IsDate()
+  to: Date;
+}
@@ -0,0 +1,35 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsBoolean, IsObject, IsOptional } from 'class-validator';
+import { Transform } from 'class-transformer';
+import { ColumnMapping } from '../booking-import';
+
+// Multipart fields arrive as strings
+export class ImportBookingsDto {
+  @ApiProperty({
+    required: false,
+    default: true,
+    description: 'Validate and report without saving (set to false to import)',
+  })
+  @IsOptional()
+  @Transform(({ value }) => (typeof value === 'string' ? value !== 'false' : value))
+  @IsBoolean()
+  dryRun?: boolean;
+
+  @ApiProperty({
+    required: false,
+    description: 'JSON object mapping fields (artist, project, startTime, ...) to column headers',
+  })
+  @IsOptional()
+  @Transform(({ value }) => {
+    if (typeof value !== 'string') {
+      return value;
+    }
+    try {
+      return JSON.parse(value);
+    } catch {
+      return value;
+    }
+  })
+  @IsObject()
+  mapping?: ColumnMapping;
+}
@@ -0,0 +1,29 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsBoolean, IsDate, IsInt, IsOptional, IsUUID, Min } from 'class-validator';
+import { Type } from 'class-transformer';
+
+export class MoveBookingDto {
+  @ApiProperty({ description: 'Version the client last read; stale versions are rejected with 409' })
+  @IsInt()
+  @Min(1)
+  version: number;
+
+  @ApiProperty({ required: false, description: 'Artist to move the booking to' })
+  @IsOptional()
+  @IsUUID()
+  artistId?: string;
+
+  @ApiProperty({ required: false, description: 'New start time; the booking keeps its length' })
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  startTime?: Date;
+
+  @ApiProperty({
+    required: false,
+    description: "Allow the new slot to fall outside the artist's local working hours",
+  })
+  @IsOptional()
+  @IsBoolean()
+  allowOutsideWorkingHours?: boolean;
+}
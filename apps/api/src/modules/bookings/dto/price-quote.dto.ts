@@ -0,0 +1,34 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsDate, IsIn, IsNumberString, IsOptional, IsUUID } from 'class-validator';
+import { Type } from 'class-transformer';
+import { RATE_TYPES, RateType } from '../pricing';
+
+export class PriceQuoteDto {
+  @ApiProperty()
+  @IsUUID()
+  artistId: string;
+
+  @ApiProperty()
+  @Type(() => Date)
+  @IsDate()
+  startTime: Date;
+
+  @ApiProperty()
+  @Type(() => Date)
+  @IsDate()
+  endTime: Date;
+
+  @ApiProperty({ required: false, description: "Overrides the artist's rate" })
+  @IsOptional()
+  @IsNumberString()
+  rate?: string;
+
+  @ApiProperty({
+    required: false,
+    enum: RATE_TYPES,
+    description: 'Defaults to hourly if the artist has an hourly rate, otherwise daily',
+  })
+  @IsOptional()
+  @IsIn(RATE_TYPES)
+  rateType?: RateType;
+}
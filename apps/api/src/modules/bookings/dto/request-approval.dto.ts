@@ -0,0 +1,19 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsInt, IsOptional, IsString, IsUUID, MaxLength, Min } from 'class-validator';
+
+export class RequestApprovalDto {
+  @ApiProperty({ description: 'Hold to be confirmed once approved' })
+  @IsUUID()
+  bookingId: string;
+
+  @ApiProperty({ description: 'Version of the booking the client last read; stale versions are rejected with 409' })
+  @IsInt()
+  @Min(1)
+  version: number;
+
+  @ApiProperty({ required: false, description: 'Why the booking should go ahead' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(2000)
+  note?: string;
+}
@@ -0,0 +1,30 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsBoolean, IsDate, IsInt, IsOptional, Min } from 'class-validator';
+import { Type } from 'class-transformer';
+
+export class ResizeBookingDto {
+  @ApiProperty({ description: 'Version the client last read; stale versions are rejected with 409' })
+  @IsInt()
+  @Min(1)
+  version: number;
+
+  @ApiProperty({ required: false })
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  startTime?: Date;
+
+  @ApiProperty({ required: false })
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  endTime?: Date;
+
+  @ApiProperty({
+    required: false,
+    description: "Allow the new slot to fall outside the artist's local working hours",
+  })
+  @IsOptional()
+  @IsBoolean()
+  allowOutsideWorkingHours?: boolean;
+}
@@ -0,0 +1,37 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  ArrayMaxSize,
+  ArrayMinSize,
+  IsArray,
+  IsInt,
+  IsOptional,
+  IsUUID,
+  Max,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+
+// A resource an artist booking takes for its whole slot
+export class ResourceClaimDto {
+  @ApiProperty()
+  @IsUUID()
+  resourceId: string;
+
+  @ApiProperty({ required: false, default: 1, description: 'Units of capacity, e.g. license seats' })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(1000)
+  quantity?: number;
+}
+
+export class AttachResourcesDto {
+  @ApiProperty({ type: [ResourceClaimDto] })
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(20)
+  @ValidateNested({ each: true })
+  @Type(() => ResourceClaimDto)
+  resources: ResourceClaimDto[];
+}
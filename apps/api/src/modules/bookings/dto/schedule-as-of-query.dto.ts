@@ -0,0 +1,27 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsDate, IsOptional, IsUUID } from 'class-validator';
+import { Type } from 'class-transformer';
+
+export class ScheduleAsOfQueryDto {
+  @ApiProperty({ description: 'Point in time to reconstruct the schedule at' })
+  @Type(() => Date)
+  @IsDate()
+  at: Date;
+
+  @ApiProperty({ required: false })
+  @IsOptional()
+  @IsUUID()
+  artistId?: string;
+
+  @ApiProperty({ required: false, description: 'Only bookings ending after this time' })
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  startDate?: Date;
+
+  @ApiProperty({ required: false, description: 'Only bookings starting before this time' })
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  endDate?: Date;
+}
@@ -0,0 +1,20 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsDate, IsOptional, IsUUID } from 'class-validator';
+import { Type } from 'class-transformer';
+
+export class ScheduleDiffQueryDto {
+  @ApiProperty({ description: 'Earlier point in time' })
+  @Type(() => Date)
+  @IsDate()
+  from: Date;
+
+  @ApiProperty({ description: 'Later point in time' })
+  @Type(() => Date)
+  @IsDate()
+  to: Date;
+
+  @ApiProperty({ required: false })
+  @IsOptional()
+  @IsUUID()
+  artistId?: string;
+}
@@ -0,0 +1,15 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsDate, IsInt, Min } from 'class-validator';
+import { Type } from 'class-transformer';
+
+export class SplitBookingDto {
+  @ApiProperty({ description: 'Version the client last read; stale versions are rejected with 409' })
+  @IsInt()
+  @Min(1)
+  version: number;
+
+  @ApiProperty({ description: 'Where the first booking ends and the second begins' })
+  @Type(() => Date)
+  @IsDate()
+  at: Date;
+}
@@ -0,0 +1,26 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsBoolean, IsInt, IsOptional, IsUUID, Min } from 'class-validator';
+
+export class SwapBookingsDto {
+  @ApiProperty({ description: 'Version the client last read; stale versions are rejected with 409' })
+  @IsInt()
+  @Min(1)
+  version: number;
+
+  @ApiProperty({ description: 'Booking whose artist this booking takes' })
+  @IsUUID()
+  otherBookingId: string;
+
+  @ApiProperty({ description: 'Version of the other booking the client last read' })
+  @IsInt()
+  @Min(1)
+  otherVersion: number;
+
+  @ApiProperty({
+    required: false,
+    description: "Allow the new slot to fall outside the artist's local working hours",
+  })
+  @IsOptional()
+  @IsBoolean()
+  allowOutsideWorkingHours?: boolean;
+}
@@ -0,0 +1,4 @@
+import { PartialType } from '@nestjs/swagger';
+import { CreateBookingTemplateDto } from './create-booking-template.dto';
+
+export class UpdateBookingTemplateDto extends PartialType(CreateBookingTemplateDto) {}
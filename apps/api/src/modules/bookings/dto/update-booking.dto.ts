@@ -0,0 +1,26 @@
+import { ApiProperty, OmitType, PartialType } from '@nestjs/swagger';
+import { IsInt, IsNotEmpty, IsOptional, IsString, MaxLength, Min } from 'class-validator';
+import { CreateBookingDto } from './create-booking.dto';
+
+// Resources are attached and detached through their own routes; hold
+// expiry, metadata and the total are kept by the server
+export class UpdateBookingDto extends PartialType(
+  OmitType(CreateBookingDto, [
+    'resources',
+    'holdExpiresAt',
+    'metadata',
+    'totalAmount',
+  ] as const),
+) {
+  @ApiProperty({ description: 'Version the client last read; stale versions are rejected with 409' })
+  @IsInt()
+  @Min(1)
+  version: number;
+
+  @ApiProperty({ required: false, description: 'Required when setting the status to cancelled' })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(2000)
+  cancellationReason?: string;
+}
@@ -0,0 +1,18 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { ArrayUnique, IsArray, IsIn, IsOptional, IsString, MaxLength } from 'class-validator';
+import { FEED_STATUSES, FeedStatus } from './create-calendar-feed.dto';
+
+export class UpdateCalendarFeedDto {
+  @ApiProperty({ required: false })
+  @IsOptional()
+  @IsString()
+  @MaxLength(255)
+  name?: string;
+
+  @ApiProperty({ required: false, enum: FEED_STATUSES, isArray: true })
+  @IsOptional()
+  @IsArray()
+  @ArrayUnique()
+  @IsIn(FEED_STATUSES, { each: true })
+  statuses?: FeedStatus[];
+}
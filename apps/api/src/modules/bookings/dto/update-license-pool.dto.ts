@@ -0,0 +1,7 @@
+import { OmitType, PartialType } from '@nestjs/swagger';
+import { CreateLicensePoolDto } from './create-license-pool.dto';
+
+// The key is fixed once bookings may refer to it
+export class UpdateLicensePoolDto extends PartialType(
+  OmitType(CreateLicensePoolDto, ['key'] as const),
+) {}
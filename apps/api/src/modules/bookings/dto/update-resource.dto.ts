@@ -0,0 +1,4 @@
+import { PartialType } from '@nestjs/swagger';
+import { CreateResourceDto } from './create-resource.dto';
+
+export class UpdateResourceDto extends PartialType(CreateResourceDto) {}
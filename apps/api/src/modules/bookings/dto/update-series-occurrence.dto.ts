@@ -0,0 +1,21 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsEnum, IsOptional, IsString } from 'class-validator';
+import { UpdateBookingDto } from './update-booking.dto';
+
+export type SeriesEditScope = 'this' | 'following' | 'all';
+
+// allowOutsideWorkingHours covers every occurrence the edit moves or
+// creates
+export class UpdateSeriesOccurrenceDto extends UpdateBookingDto {
+  @ApiProperty({
+    enum: ['this', 'following', 'all'],
+    description: 'Edit only this occurrence, this and the following ones, or the whole series',
+  })
+  @IsEnum(['this', 'following', 'all'])
+  scope: SeriesEditScope;
+
+  @ApiProperty({ required: false, description: 'New recurrence rule (following/all only)' })
+  @IsOptional()
+  @IsString()
+  rrule?: string;
+}
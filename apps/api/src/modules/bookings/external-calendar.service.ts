@@ -0,0 +1,423 @@
+import {
+  Injectable,
+  Inject,
+  Logger,
+  BadRequestException,
+  NotFoundException,
+  OnModuleInit,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { lookup } from 'dns/promises';
+import { promises as fs } from 'fs';
+import { BlockList, isIP } from 'net';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import { DrizzleDatabase } from '../../common/types/drizzle.types';
+import { AvailabilityService } from './availability.service';
+import { ExternalBusyEvent, parseBusyEvents } from './external-calendar';
+import {
+  ExternalCalendarRecord,
+  ExternalCalendarRepository,
+} from './repositories/external-calendar.repository';
+import { CreateExternalCalendarDto } from './dto/create-external-calendar.dto';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_SYNC_INTERVAL_MS = 15 * 60_000;
+const SYNC_BATCH_SIZE = 20;
+const FETCH_TIMEOUT_MS = 15_000;
+const MAX_REDIRECTS = 5;
+export const MAX_CALENDAR_BYTES = 5 * 1024 * 1024;
+// Busy blocks are kept from a month back to a year ahead
+const SYNC_PAST_DAYS = 30;
+const SYNC_FUTURE_DAYS = 365;
+
+export interface ExternalCalendarView extends ExternalCalendarRecord {
+  busyBlocks: number;
+}
+
+type CalendarSource = { kind: 'url'; url: string } | { kind: 'file'; path: string };
+
+// Addresses a calendar URL must not reach: loopback, private, link-local
+// (cloud metadata), carrier-grade NAT, multicast and reserved ranges
+const PRIVATE_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.168.0.0', 16],
+  ['224.0.0.0', 3],
+] as const) {
+  PRIVATE_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 127],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+] as const) {
+  PRIVATE_ADDRESSES.addSubnet(network, prefix, 'ipv6');
+}
+
+function isPrivateAddress(address: string): boolean {
+  // IPv4-mapped IPv6 (::ffff:10.0.0.1) is checked as the IPv4 address
+  const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(address);
+  if (mapped) {
+    return PRIVATE_ADDRESSES.check(mapped[1], 'ipv4');
+  }
+
+  return PRIVATE_ADDRESSES.check(address, isIP(address) === 6 ? 'ipv6' : 'ipv4');
+}
+
+/**
+ * Rejects a host that is, or resolves to, a private or loopback address,
+ * so subscriptions can't be pointed at the server's own network.
+ */
+async function assertPublicHost(hostname: string) {
+  const host = hostname.replace(/^\[|\]$/g, '');
+  const addresses = isIP(host)
+    ? [host]
+    : (await lookup(host, { all: true })).map((entry) => entry.address);
+
+  if (addresses.length === 0 || addresses.some(isPrivateAddress)) {
+    throw new Error('Calendar host is not publicly reachable');
+  }
+}
+
+/**
+ * Calendars artists keep outside the tool, e.g. bookings with other
+ * studios. Their events become read-only busy blocks that availability and
+ * the booking conflict check treat like confirmed bookings. Subscribed
+ * calendars are re-synced periodically; uploaded files are a snapshot.
+ */
+@Injectable()
+export class ExternalCalendarService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(ExternalCalendarService.name);
+  private timer?: NodeJS.Timeout;
+  private syncing = false;
+  private intervalMs = DEFAULT_SYNC_INTERVAL_MS;
+
+  constructor(
+    @Inject('DATABASE_CONNECTION') private readonly db: DrizzleDatabase,
+    private readonly externalCalendarRepository: ExternalCalendarRepository,
+    private readonly availabilityService: AvailabilityService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  onModuleInit() {
+    this.intervalMs = Number(
+      this.configService.get('EXTERNAL_CALENDAR_SYNC_INTERVAL_MS', DEFAULT_SYNC_INTERVAL_MS),
+    );
+
+    // 0 disables periodic re-sync (e.g. on instances that only serve traffic)
+    if (this.intervalMs > 0) {
+      this.timer = setInterval(() => void this.syncDue(), this.intervalMs);
+    }
+  }
+
+  onModuleDestroy() {
+    if (this.timer) {
+      clearInterval(this.timer);
+    }
+  }
+
+  /**
+   * Subscribes an artist to an ICS URL or file. The calendar is loaded
+   * before anything is saved, so a bad source is rejected outright.
+   */
+  async subscribe(
+    artistId: string,
+    createDto: CreateExternalCalendarDto,
+    tenantId: string,
+    userId: string,
+  ): Promise<ExternalCalendarView> {
+    const timeZone = await this.artistTimeZone(tenantId, artistId);
+    const sourceUrl = createDto.url.trim();
+    const events = this.parse(await this.load(this.resolveSource(sourceUrl)), timeZone, new Date());
+
+    return this.save(
+      { tenantId, artistId, name: createDto.name, sourceUrl, createdBy: userId },
+      events,
+    );
+  }
+
+  // A one-off snapshot of an uploaded .ics file; it is never re-synced
+  async upload(
+    artistId: string,
+    file: { buffer: Buffer; originalname: string },
+    name: string | undefined,
+    tenantId: string,
+    userId: string,
+  ): Promise<ExternalCalendarView> {
+    const timeZone = await this.artistTimeZone(tenantId, artistId);
+    const events = this.parse(file.buffer.toString('utf8'), timeZone, new Date());
+
+    return this.save(
+      {
+        tenantId,
+        artistId,
+        name: name ?? file.originalname.replace(/\.ics$/i, ''),
+        sourceUrl: null,
+        createdBy: userId,
+      },
+      events,
+    );
+  }
+
+  async findByArtist(artistId: string, tenantId: string): Promise<ExternalCalendarView[]> {
+    const calendars = await this.externalCalendarRepository.findByArtist(artistId, tenantId);
+    const counts = await this.externalCalendarRepository.countBlocks(calendars.map((c) => c.id));
+
+    return calendars.map((calendar) => ({ ...calendar, busyBlocks: counts.get(calendar.id) ?? 0 }));
+  }
+
+  async sync(id: string, artistId: string, tenantId: string): Promise<ExternalCalendarView> {
+    const calendar = await this.findOne(id, artistId, tenantId);
+    if (!calendar.sourceUrl) {
+      throw new BadRequestException('Uploaded calendars have no source to sync from; upload the file again');
+    }
+
+    return this.syncCalendar(calendar);
+  }
+
+  // Deleting the calendar removes its busy blocks with it
+  async remove(id: string, artistId: string, tenantId: string) {
+    await this.findOne(id, artistId, tenantId);
+    await this.externalCalendarRepository.delete(id, tenantId);
+
+    return { success: true };
+  }
+
+  /**
+   * Re-syncs subscribed calendars not synced within the sync interval. A
+   * failing source keeps its last good busy blocks and records the error.
+   */
+  async syncDue(now = new Date()): Promise<number> {
+    if (this.syncing) {
+      return 0;
+    }
+
+    this.syncing = true;
+    let synced = 0;
+
+    try {
+      const due = await this.externalCalendarRepository.findDueForSync(
+        new Date(now.getTime() - this.intervalMs),
+        SYNC_BATCH_SIZE,
+      );
+
+      for (const calendar of due) {
+        try {
+          await this.syncCalendar(calendar);
+          synced++;
+        } catch (error) {
+          this.logger.warn(
+            `External calendar ${calendar.id} failed to sync: ${error instanceof Error ? error.message : error}`,
+          );
+        }
+      }
+    } catch (error) {
+      this.logger.error('External calendar sync failed', error);
+    } finally {
+      this.syncing = false;
+    }
+
+    return synced;
+  }
+
+  private async syncCalendar(calendar: ExternalCalendarRecord): Promise<ExternalCalendarView> {
+    const now = new Date();
+
+    try {
+      const timeZone = await this.artistTimeZone(calendar.tenantId, calendar.artistId);
+      const events = this.parse(
+        await this.load(this.resolveSource(calendar.sourceUrl!)),
+        timeZone,
+        now,
+      );
+
+      const synced = await this.db.transaction(async (tx) => {
+        await this.externalCalendarRepository.replaceBlocks(calendar, events, now, tx);
+        return this.externalCalendarRepository.update(
+          calendar.id,
+          { syncStatus: 'ok', lastSyncedAt: now, lastError: null },
+          tx,
+        );
+      });
+
+      return { ...synced, busyBlocks: events.length };
+    } catch (error) {
+      // lastSyncedAt still moves on, so a broken source is retried next interval
+      await this.externalCalendarRepository.update(calendar.id, {
+        syncStatus: 'error',
+        lastSyncedAt: now,
+        lastError: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+  }
+
+  private async save(
+    data: Pick<ExternalCalendarRecord, 'tenantId' | 'artistId' | 'name' | 'sourceUrl' | 'createdBy'>,
+    events: ExternalBusyEvent[],
+  ): Promise<ExternalCalendarView> {
+    const now = new Date();
+
+    const calendar = await this.db.transaction(async (tx) => {
+      const created = await this.externalCalendarRepository.create(
+        { ...data, syncStatus: 'ok', lastSyncedAt: now },
+        tx,
+      );
+      await this.externalCalendarRepository.replaceBlocks(created, events, now, tx);
+      return created;
+    });
+
+    return { ...calendar, busyBlocks: events.length };
+  }
+
+  private async findOne(
+    id: string,
+    artistId: string,
+    tenantId: string,
+  ): Promise<ExternalCalendarRecord> {
+    const calendar = await this.externalCalendarRepository.findOne(id, tenantId);
+    if (!calendar || calendar.artistId !== artistId) {
+      throw new NotFoundException('External calendar not found');
+    }
+
+    return calendar;
+  }
+
+  private async artistTimeZone(tenantId: string, artistId: string): Promise<string> {
+    const timeZone = await this.availabilityService.artistTimeZone(tenantId, artistId);
+    if (!timeZone) {
+      throw new NotFoundException('Artist not found');
+    }
+
+    return timeZone;
+  }
+
+  // Floating times in the file are read in the artist's zone
+  private parse(text: string, timeZone: string, now: Date): ExternalBusyEvent[] {
+    return parseBusyEvents(text, {
+      timeZone,
+      from: new Date(now.getTime() - SYNC_PAST_DAYS * DAY_MS),
+      until: new Date(now.getTime() + SYNC_FUTURE_DAYS * DAY_MS),
+    });
+  }
+
+  /**
+   * http(s) and webcal URLs are fetched; file:// URLs and absolute paths
+   * are read from disk, and only inside EXTERNAL_CALENDAR_FILE_ROOT. Without
+   * it, file sources are refused.
+   */
+  private resolveSource(source: string): CalendarSource {
+    if (/^webcals?:\/\//i.test(source)) {
+      return { kind: 'url', url: source.replace(/^webcals?:/i, 'https:') };
+    }
+    if (/^https?:\/\//i.test(source)) {
+      return { kind: 'url', url: source };
+    }
+
+    let filePath: string;
+    if (/^file:\/\//i.test(source)) {
+      filePath = fileURLToPath(source);
+    } else if (path.isAbsolute(source)) {
+      filePath = path.resolve(source);
+    } else {
+      throw new BadRequestException('Calendar URL must be http(s), webcal or an absolute file path');
+    }
+
+    if (!this.configService.get<string>('EXTERNAL_CALENDAR_FILE_ROOT')) {
+      throw new BadRequestException('Calendar files are not enabled on this server');
+    }
+
+    return { kind: 'file', path: filePath };
+  }
+
+  private async load(source: CalendarSource): Promise<string> {
+    if (source.kind === 'file') {
+      return this.readFile(source.path);
+    }
+
+    try {
+      const text = await (await this.fetchCalendar(source.url)).text();
+      if (Buffer.byteLength(text) > MAX_CALENDAR_BYTES) {
+        throw new Error('Calendar is too large');
+      }
+      return text;
+    } catch (error) {
+      throw new BadRequestException(
+        `Could not load calendar: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+
+  /**
+   * Reads a calendar file inside the configured directory. Symlinks are
+   * resolved before the check, and every failure reads the same, so the
+   * error says nothing about which files exist.
+   */
+  private async readFile(filePath: string): Promise<string> {
+    const root = this.configService.get<string>('EXTERNAL_CALENDAR_FILE_ROOT')!;
+
+    try {
+      const [realRoot, realPath] = await Promise.all([fs.realpath(root), fs.realpath(filePath)]);
+      if (!realPath.startsWith(realRoot + path.sep)) {
+        throw new Error('outside the calendar directory');
+      }
+
+      const stats = await fs.stat(realPath);
+      if (!stats.isFile() || stats.size > MAX_CALENDAR_BYTES) {
+        throw new Error('not a readable calendar file');
+      }
+      return await fs.readFile(realPath, 'utf8');
+    } catch {
+      throw new BadRequestException(
+        'Could not load calendar: no readable calendar file at that path in the calendar directory',
+      );
+    }
+  }
+
+  /**
+   * Fetches a calendar URL, following redirects by hand so that every hop
+   * is checked against private and loopback addresses. Setting
+   * EXTERNAL_CALENDAR_ALLOW_PRIVATE_HOSTS lifts the check, for tests and
+   * development against a locally served calendar.
+   */
+  private async fetchCalendar(url: string): Promise<Response> {
+    const allowPrivateHosts =
+      String(this.configService.get('EXTERNAL_CALENDAR_ALLOW_PRIVATE_HOSTS', false)) === 'true';
+    let target = new URL(url);
+
+    for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+      if (target.protocol !== 'http:' && target.protocol !== 'https:') {
+        throw new Error('Redirected to an unsupported protocol');
+      }
+      if (!allowPrivateHosts) {
+        await assertPublicHost(target.hostname);
+      }
+
+      const response = await fetch(target, {
+        headers: { Accept: 'text/calendar' },
+        redirect: 'manual',
+        signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+      });
+
+      const location = response.headers.get('location');
+      if (response.status >= 300 && response.status < 400 && location) {
+        target = new URL(location, target);
+        continue;
+      }
+      if (!response.ok) {
+        throw new Error(`Server responded ${response.status}`);
+      }
+      return response;
+    }
+
+    throw new Error('Too many redirects');
+  }
+}
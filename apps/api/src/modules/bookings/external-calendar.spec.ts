@@ -0,0 +1,201 @@
+import { MAX_BUSY_BLOCKS, parseBusyEvents } from './external-calendar';
+
+const window = {
+  timeZone: 'UTC',
+  from: new Date('2026-10-01T00:00:00Z'),
+  until: new Date('2026-12-31T00:00:00Z'),
+};
+
+function calendar(...events: string[][]): string {
+  return [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    ...events.flatMap((lines) => ['BEGIN:VEVENT', ...lines, 'END:VEVENT']),
+    'END:VCALENDAR',
+  ].join('\r\n');
+}
+
+const starts = (text: string, options = window) =>
+  parseBusyEvents(text, options).map((event) => event.startTime.toISOString());
+
+describe('parseBusyEvents', () => {
+  it('reads single events with an end, a duration or a whole day', () => {
+    const events = parseBusyEvents(
+      calendar(
+        [
+          'UID:a',
+          'SUMMARY:Shoot\\, day one',
+          'DTSTART:20261102T090000Z',
+          'DTEND:20261102T170000Z',
+        ],
+        ['UID:b', 'DTSTART;TZID=Europe/Berlin:20261103T090000', 'DURATION:PT2H30M'],
+        ['UID:c', 'DTSTART;VALUE=DATE:20261104'],
+      ),
+      window,
+    );
+
+    expect(events).toEqual([
+      {
+        uid: 'a',
+        instanceKey: '',
+        sequence: 0,
+        summary: 'Shoot, day one',
+        startTime: new Date('2026-11-02T09:00:00Z'),
+        endTime: new Date('2026-11-02T17:00:00Z'),
+      },
+      expect.objectContaining({
+        uid: 'b',
+        summary: null,
+        startTime: new Date('2026-11-03T08:00:00Z'),
+        endTime: new Date('2026-11-03T10:30:00Z'),
+      }),
+      expect.objectContaining({
+        uid: 'c',
+        startTime: new Date('2026-11-04T00:00:00Z'),
+        endTime: new Date('2026-11-05T00:00:00Z'),
+      }),
+    ]);
+  });
+
+  it('leaves out cancelled, free and instantaneous events', () => {
+    expect(
+      parseBusyEvents(
+        calendar(
+          ['UID:a', 'STATUS:CANCELLED', 'DTSTART:20261102T090000Z', 'DTEND:20261102T100000Z'],
+          ['UID:b', 'TRANSP:TRANSPARENT', 'DTSTART:20261102T090000Z', 'DTEND:20261102T100000Z'],
+          ['UID:c', 'DTSTART:20261102T090000Z'],
+        ),
+        window,
+      ),
+    ).toEqual([]);
+  });
+
+  it('keeps the highest SEQUENCE of an event', () => {
+    const events = parseBusyEvents(
+      calendar(
+        ['UID:a', 'SEQUENCE:2', 'DTSTART:20261102T090000Z', 'DTEND:20261102T100000Z'],
+        ['UID:a', 'SEQUENCE:1', 'DTSTART:20261103T090000Z', 'DTEND:20261103T100000Z'],
+      ),
+      window,
+    );
+
+    expect(events.map(({ sequence, startTime }) => [sequence, startTime])).toEqual([
+      [2, new Date('2026-11-02T09:00:00Z')],
+    ]);
+  });
+
+  describe('recurring events', () => {
+    it('keeps the wall-clock time of a TZID start across a DST change', () => {
+      const text = calendar([
+        'UID:weekly',
+        'DTSTART;TZID=America/New_York:20261026T090000',
+        'DTEND;TZID=America/New_York:20261026T100000',
+        'RRULE:FREQ=WEEKLY;COUNT=3',
+      ]);
+
+      expect(starts(text)).toEqual([
+        '2026-10-26T13:00:00.000Z',
+        '2026-11-02T14:00:00.000Z',
+        '2026-11-09T14:00:00.000Z',
+      ]);
+      expect(parseBusyEvents(text, window)[1].instanceKey).toBe('2026-11-02T14:00:00.000Z');
+    });
+
+    it('includes an occurrence on a UTC UNTIL in a zone ahead of UTC', () => {
+      // The last occurrence starts exactly at UNTIL: 09:00 in Berlin is 08:00Z
+      const text = calendar([
+        'UID:daily',
+        'DTSTART;TZID=Europe/Berlin:20261102T090000',
+        'DTEND;TZID=Europe/Berlin:20261102T100000',
+        'RRULE:FREQ=DAILY;UNTIL=20261104T080000Z',
+      ]);
+
+      expect(starts(text)).toEqual([
+        '2026-11-02T08:00:00.000Z',
+        '2026-11-03T08:00:00.000Z',
+        '2026-11-04T08:00:00.000Z',
+      ]);
+    });
+
+    it('stops at a UTC UNTIL in a zone behind UTC', () => {
+      // 09:00 in New York is 14:00Z, so the 4th starts after UNTIL
+      const text = calendar([
+        'UID:daily',
+        'DTSTART;TZID=America/New_York:20261102T090000',
+        'DTEND;TZID=America/New_York:20261102T100000',
+        'RRULE:FREQ=DAILY;UNTIL=20261104T100000Z',
+      ]);
+
+      expect(starts(text)).toEqual(['2026-11-02T14:00:00.000Z', '2026-11-03T14:00:00.000Z']);
+    });
+
+    it('skips EXDATEs and applies RECURRENCE-ID overrides', () => {
+      const text = calendar(
+        // The override comes first: it applies whatever the order
+        [
+          'UID:daily',
+          'RECURRENCE-ID:20261103T090000Z',
+          'SUMMARY:Moved',
+          'DTSTART:20261103T150000Z',
+          'DTEND:20261103T160000Z',
+        ],
+        [
+          'UID:daily',
+          'RECURRENCE-ID:20261105T090000Z',
+          'STATUS:CANCELLED',
+          'DTSTART:20261105T090000Z',
+          'DTEND:20261105T100000Z',
+        ],
+        [
+          'UID:daily',
+          'SUMMARY:Standup',
+          'DTSTART:20261102T090000Z',
+          'DTEND:20261102T100000Z',
+          'RRULE:FREQ=DAILY;COUNT=5',
+          'EXDATE:20261104T090000Z',
+        ],
+      );
+
+      expect(
+        parseBusyEvents(text, window).map(({ summary, startTime }) => [summary, startTime]),
+      ).toEqual([
+        ['Standup', new Date('2026-11-02T09:00:00Z')],
+        ['Moved', new Date('2026-11-03T15:00:00Z')],
+        ['Standup', new Date('2026-11-06T09:00:00Z')],
+      ]);
+    });
+
+    it('only expands occurrences inside the window', () => {
+      const text = calendar([
+        'UID:daily',
+        'DTSTART:20260101T090000Z',
+        'DTEND:20260101T100000Z',
+        'RRULE:FREQ=DAILY',
+      ]);
+
+      expect(
+        starts(text, {
+          timeZone: 'UTC',
+          from: new Date('2026-11-02T00:00:00Z'),
+          until: new Date('2026-11-04T00:00:00Z'),
+        }),
+      ).toEqual(['2026-11-02T09:00:00.000Z', '2026-11-03T09:00:00.000Z']);
+    });
+  });
+
+  it('refuses a calendar with too many events in the window', () => {
+    const events = Array.from({ length: MAX_BUSY_BLOCKS + 1 }, (_, index) => [
+      `UID:event-${index}`,
+      'DTSTART:20261102T090000Z',
+      'DTEND:20261102T100000Z',
+    ]);
+
+    expect(() => parseBusyEvents(calendar(...events), window)).toThrow(
+      `Calendar has more than ${MAX_BUSY_BLOCKS} events in the sync window`,
+    );
+  });
+
+  it('rejects text that is not a calendar', () => {
+    expect(() => parseBusyEvents('hello', window)).toThrow('Not an iCalendar file');
+  });
+});
@@ -0,0 +1,366 @@
+import { BadRequestException } from '@nestjs/common';
+import { createHash } from 'crypto';
+import { RRule } from 'rrule';
+import { isValidTimeZone, timeZoneOffset, zonedTimeToUtc } from '../../common/utils/time-zone';
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+// Caps a single recurring event and a whole calendar
+const MAX_OCCURRENCES_PER_EVENT = 1000;
+export const MAX_BUSY_BLOCKS = 5000;
+
+export interface ExternalBusyEvent {
+  uid: string;
+  // ISO start of the original occurrence for recurring events, '' otherwise
+  instanceKey: string;
+  sequence: number;
+  summary: string | null;
+  startTime: Date;
+  endTime: Date;
+}
+
+interface Property {
+  params: Record<string, string>;
+  value: string;
+}
+
+type VEvent = Map<string, Property[]>;
+
+// A DTSTART/DTEND/RECURRENCE-ID value: the instant, plus the wall clock it
+// was written in (for expanding recurrences) and whether it was a DATE
+interface IcsDate {
+  instant: Date;
+  date: string;
+  minutes: number;
+  timeZone: string;
+  allDay: boolean;
+}
+
+const DATE_VALUE = /^(\d{4})(\d{2})(\d{2})$/;
+const DATE_TIME_VALUE = /^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})(Z?)$/;
+const DURATION_VALUE = /^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/;
+
+function unescapeText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_match, char: string) =>
+    char === 'n' || char === 'N' ? '\n' : char,
+  );
+}
+
+// NAME;PARAM=VALUE;PARAM="QUOTED:VALUE":value
+function parseContentLine(line: string): { name: string; property: Property } | null {
+  let inQuotes = false;
+  let colon = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') {
+      inQuotes = !inQuotes;
+    } else if (line[i] === ':' && !inQuotes) {
+      colon = i;
+      break;
+    }
+  }
+  if (colon === -1) {
+    return null;
+  }
+
+  const [name, ...rawParams] = line.slice(0, colon).split(';');
+  const params: Record<string, string> = {};
+  for (const param of rawParams) {
+    const equals = param.indexOf('=');
+    if (equals > 0) {
+      params[param.slice(0, equals).toUpperCase()] = param.slice(equals + 1).replace(/^"|"$/g, '');
+    }
+  }
+
+  return { name: name.toUpperCase(), property: { params, value: line.slice(colon + 1) } };
+}
+
+/**
+ * The top-level VEVENTs of a calendar, with their properties by name.
+ * Nested components (VALARM) are skipped.
+ */
+function readEvents(text: string): VEvent[] {
+  // Unfold continuation lines (RFC 5545 3.1)
+  const lines = text.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+  if (!lines.some((line) => line.trim().toUpperCase() === 'BEGIN:VCALENDAR')) {
+    throw new BadRequestException('Not an iCalendar file');
+  }
+
+  const events: VEvent[] = [];
+  const stack: string[] = [];
+  let current: VEvent | null = null;
+
+  for (const line of lines) {
+    const parsed = parseContentLine(line);
+    if (!parsed) {
+      continue;
+    }
+    const { name, property } = parsed;
+
+    if (name === 'BEGIN') {
+      stack.push(property.value.toUpperCase());
+      if (property.value.toUpperCase() === 'VEVENT' && stack.length === 2) {
+        current = new Map();
+      }
+    } else if (name === 'END') {
+      if (stack.pop() === 'VEVENT' && current) {
+        events.push(current);
+        current = null;
+      }
+    } else if (current && stack[stack.length - 1] === 'VEVENT') {
+      current.set(name, [...(current.get(name) ?? []), property]);
+    }
+  }
+
+  return events;
+}
+
+function first(event: VEvent, name: string): Property | undefined {
+  return event.get(name)?.[0];
+}
+
+/**
+ * Reads a DATE or DATE-TIME value. UTC values and known TZIDs are exact;
+ * floating times (and TZIDs we can't resolve) are read in `fallbackZone`.
+ */
+function parseIcsDate(property: Property, fallbackZone: string): IcsDate | null {
+  const value = property.value.trim();
+
+  const date = DATE_VALUE.exec(value);
+  if (date) {
+    const day = `${date[1]}-${date[2]}-${date[3]}`;
+    return {
+      instant: zonedTimeToUtc(day, 0, fallbackZone),
+      date: day,
+      minutes: 0,
+      timeZone: fallbackZone,
+      allDay: true,
+    };
+  }
+
+  const dateTime = DATE_TIME_VALUE.exec(value);
+  if (!dateTime) {
+    return null;
+  }
+
+  const [, year, month, day, hours, minutes, seconds, utc] = dateTime;
+  const tzid = property.params.TZID;
+  const timeZone = utc ? 'UTC' : tzid && isValidTimeZone(tzid) ? tzid : fallbackZone;
+  const localDay = `${year}-${month}-${day}`;
+  const minuteOfDay = Number(hours) * 60 + Number(minutes);
+
+  return {
+    instant: new Date(
+      zonedTimeToUtc(localDay, minuteOfDay, timeZone).getTime() + Number(seconds) * 1000,
+    ),
+    date: localDay,
+    minutes: minuteOfDay,
+    timeZone,
+    allDay: false,
+  };
+}
+
+function parseDuration(value: string): number | null {
+  const match = DURATION_VALUE.exec(value.trim());
+  if (!match) {
+    return null;
+  }
+
+  const [, sign, weeks, days, hours, minutes, seconds] = match.map((part) => part ?? '0');
+  const ms =
+    Number(weeks) * 7 * DAY_MS +
+    Number(days) * DAY_MS +
+    Number(hours) * 60 * MINUTE_MS +
+    Number(minutes) * MINUTE_MS +
+    Number(seconds) * 1000;
+  return sign === '-' ? -ms : ms;
+}
+
+function eventLength(event: VEvent, start: IcsDate, fallbackZone: string): number {
+  const dtend = first(event, 'DTEND');
+  const end = dtend ? parseIcsDate(dtend, fallbackZone) : null;
+  if (end) {
+    return end.instant.getTime() - start.instant.getTime();
+  }
+
+  const duration = first(event, 'DURATION');
+  if (duration) {
+    return parseDuration(duration.value) ?? 0;
+  }
+
+  // RFC 5545 3.6.1: a DATE start alone lasts the day, a DATE-TIME is instantaneous
+  return start.allDay ? DAY_MS : 0;
+}
+
+/**
+ * When the event starts: once for a single event, or each occurrence near
+ * [from, until] for a recurring one. Recurrences run on the event's wall clock, so a weekly 9am
+ * meeting stays at 9am across a DST change.
+ */
+function expandOccurrences(
+  event: VEvent,
+  start: IcsDate,
+  fallbackZone: string,
+  from: Date,
+  until: Date,
+): Date[] {
+  const rrule = first(event, 'RRULE');
+  if (!rrule) {
+    return [start.instant];
+  }
+
+  let rule: RRule;
+  try {
+    const [year, month, day] = start.date.split('-').map(Number);
+    const options = RRule.parseString(rrule.value);
+    // A UTC UNTIL is an instant; compare it on the same wall clock
+    if (options.until && /UNTIL=\d{8}T\d{6}Z/i.test(rrule.value)) {
+      options.until = new Date(
+        options.until.getTime() + timeZoneOffset(options.until, start.timeZone),
+      );
+    }
+    rule = new RRule({
+      ...options,
+      // Wall-clock time dressed as UTC, converted back per occurrence
+      dtstart: new Date(Date.UTC(year, month - 1, day) + start.minutes * MINUTE_MS),
+    });
+  } catch {
+    return [start.instant];
+  }
+
+  const excluded = new Set(
+    (event.get('EXDATE') ?? []).flatMap((property) =>
+      property.value
+        .split(',')
+        .map((value) => parseIcsDate({ params: property.params, value }, fallbackZone))
+        .filter((date): date is IcsDate => date !== null)
+        .map((date) => date.instant.getTime()),
+    ),
+  );
+
+  // Pad the window by a day either side; offsets are applied afterwards
+  return rule
+    .between(
+      new Date(from.getTime() - DAY_MS),
+      new Date(until.getTime() + DAY_MS),
+      true,
+      (_date, count) => count < MAX_OCCURRENCES_PER_EVENT,
+    )
+    .map((wallClock) =>
+      zonedTimeToUtc(
+        wallClock.toISOString().slice(0, 10),
+        wallClock.getUTCHours() * 60 + wallClock.getUTCMinutes(),
+        start.timeZone,
+      ),
+    )
+    .filter((instant) => !excluded.has(instant.getTime()));
+}
+
+function syntheticUid(event: VEvent): string {
+  const seed = ['DTSTART', 'DTEND', 'SUMMARY'].map((name) => first(event, name)?.value ?? '').join('|');
+  return `generated-${createHash('sha256').update(seed).digest('hex').slice(0, 32)}`;
+}
+
+interface ParsedEvent {
+  uid: string;
+  sequence: number;
+  summary: string | null;
+  start: IcsDate;
+  length: number;
+  busy: boolean;
+  event: VEvent;
+}
+
+// Later revisions replace earlier ones; on a SEQUENCE tie the last one wins
+function keepLatest<T extends ParsedEvent>(events: Map<string, T>, key: string, parsed: T) {
+  const existing = events.get(key);
+  if (!existing || existing.sequence <= parsed.sequence) {
+    events.set(key, parsed);
+  }
+}
+
+/**
+ * Busy time from an iCalendar file, between `from` and `until`. Cancelled
+ * and transparent (free) events are ignored. Events are deduplicated by
+ * UID: the highest SEQUENCE wins, and a RECURRENCE-ID override replaces
+ * the occurrence it names.
+ */
+export function parseBusyEvents(
+  text: string,
+  options: { timeZone: string; from: Date; until: Date },
+): ExternalBusyEvent[] {
+  const { timeZone, from, until } = options;
+  const masters = new Map<string, ParsedEvent>();
+  const overrides = new Map<string, ParsedEvent & { instanceKey: string }>();
+
+  for (const event of readEvents(text)) {
+    const dtstart = first(event, 'DTSTART');
+    const start = dtstart ? parseIcsDate(dtstart, timeZone) : null;
+    if (!start) {
+      continue;
+    }
+
+    const status = first(event, 'STATUS')?.value.trim().toUpperCase();
+    const transparency = first(event, 'TRANSP')?.value.trim().toUpperCase();
+    const summary = first(event, 'SUMMARY')?.value;
+    const length = eventLength(event, start, timeZone);
+    const parsed: ParsedEvent = {
+      uid: first(event, 'UID')?.value.trim() || syntheticUid(event),
+      sequence: Number(first(event, 'SEQUENCE')?.value) || 0,
+      summary: summary ? unescapeText(summary).slice(0, 255) : null,
+      start,
+      length,
+      busy: status !== 'CANCELLED' && transparency !== 'TRANSPARENT' && length > 0,
+      event,
+    };
+
+    const recurrenceId = first(event, 'RECURRENCE-ID');
+    const replaces = recurrenceId ? parseIcsDate(recurrenceId, timeZone) : null;
+    if (replaces) {
+      const instanceKey = replaces.instant.toISOString();
+      keepLatest(overrides, `${parsed.uid} ${instanceKey}`, { ...parsed, instanceKey });
+    } else {
+      keepLatest(masters, parsed.uid, parsed);
+    }
+  }
+
+  const busy = new Map<string, ExternalBusyEvent>();
+  const add = (parsed: ParsedEvent, instanceKey: string, startTime: Date) => {
+    const key = `${parsed.uid} ${instanceKey}`;
+    if (!parsed.busy) {
+      busy.delete(key);
+      return;
+    }
+    busy.set(key, {
+      uid: parsed.uid,
+      instanceKey,
+      sequence: parsed.sequence,
+      summary: parsed.summary,
+      startTime,
+      endTime: new Date(startTime.getTime() + parsed.length),
+    });
+  };
+
+  for (const master of masters.values()) {
+    const recurring = Boolean(first(master.event, 'RRULE'));
+    for (const startTime of expandOccurrences(master.event, master.start, timeZone, from, until)) {
+      add(master, recurring ? startTime.toISOString() : '', startTime);
+    }
+  }
+  // Applied last so an override wins whatever order the file lists them in
+  for (const override of overrides.values()) {
+    const summary = override.summary ?? masters.get(override.uid)?.summary ?? null;
+    add({ ...override, summary }, override.instanceKey, override.start.instant);
+  }
+
+  const events = [...busy.values()]
+    .filter((event) => event.startTime < until && event.endTime > from)
+    .sort((a, b) => a.startTime.getTime() - b.startTime.getTime());
+
+  if (events.length > MAX_BUSY_BLOCKS) {
+    throw new BadRequestException(
+      `Calendar has more than ${MAX_BUSY_BLOCKS} events in the sync window`,
+    );
+  }
+
+  return events;
+}
@@ -0,0 +1,256 @@
+import {
+  Injectable,
+  Inject,
+  Logger,
+  OnModuleInit,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { and, eq, inArray, isNotNull, lte, notInArray, sql } from 'drizzle-orm';
+import { DrizzleDatabase } from '../../common/types/drizzle.types';
+import { bookings, tenants, Booking } from '../../database/schema';
+import { BookingEventRepository } from './repositories/booking-event.repository';
+import { ResourceReservation } from './repositories/resource.repository';
+import { BookingsGateway } from './bookings.gateway';
+import { ResourceService } from './resource.service';
+import { NotificationService } from '../notification/notification.service';
+import { getBookingRules } from './booking-rules';
+import { BookingChanges } from './booking-events';
+import { resolveHoldExpiry } from './hold-expiry';
+import { HOLD_STATUSES, getChallenge, withoutChallenge } from './hold-ranking';
+import { HoldRankingService, lockArtists } from './hold-ranking.service';
+
+const SWEEP_BATCH_SIZE = 100;
+const DEFAULT_SWEEP_INTERVAL_MS = 60_000;
+
+@Injectable()
+export class HoldExpiryService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(HoldExpiryService.name);
+  private timer?: NodeJS.Timeout;
+  private sweeping = false;
+
+  constructor(
+    @Inject('DATABASE_CONNECTION') private readonly db: DrizzleDatabase,
+    private readonly bookingEventRepository: BookingEventRepository,
+    private readonly holdRankingService: HoldRankingService,
+    private readonly resourceService: ResourceService,
+    private readonly notificationService: NotificationService,
+    private readonly bookingsGateway: BookingsGateway,
+    private readonly configService: ConfigService,
+  ) {}
+
+  onModuleInit() {
+    const intervalMs = Number(
+      this.configService.get('HOLD_EXPIRY_SWEEP_INTERVAL_MS', DEFAULT_SWEEP_INTERVAL_MS),
+    );
+
+    // 0 disables the sweeper (e.g. on instances that only serve traffic)
+    if (intervalMs > 0) {
+      this.timer = setInterval(() => void this.sweep(), intervalMs);
+    }
+  }
+
+  onModuleDestroy() {
+    if (this.timer) {
+      clearInterval(this.timer);
+    }
+  }
+
+  /**
+   * Releases every hold whose holdExpiresAt has passed. Safe to run on
+   * several instances at once: each hold is expired under its artist lock
+   * and skipped if another instance got to it first. A hold that fails to
+   * expire is logged and left for the next run, so it can't hold up the
+   * ones behind it.
+   */
+  async sweep(now = new Date()): Promise<number> {
+    if (this.sweeping) {
+      return 0;
+    }
+
+    this.sweeping = true;
+    let processed = 0;
+    const failed = new Set<string>();
+
+    try {
+      for (;;) {
+        const { claimed, expired, updated, released } = await this.expireBatch(now, failed);
+
+        // Broadcast only after each hold's transaction has committed
+        for (const booking of updated) {
+          this.bookingsGateway.broadcastToTenant(booking.tenantId, 'booking:updated', booking);
+        }
+        for (const reservation of released) {
+          this.resourceService.broadcast(reservation.tenantId, [reservation]);
+        }
+
+        processed += expired;
+        if (claimed < SWEEP_BATCH_SIZE) {
+          break;
+        }
+      }
+
+      if (processed > 0) {
+        this.logger.log(`Released ${processed} expired hold(s)`);
+      }
+    } catch (error) {
+      this.logger.error('Hold expiry sweep failed', error);
+    } finally {
+      this.sweeping = false;
+    }
+
+    return processed;
+  }
+
+  /**
+   * Expires the next batch of holds, oldest first, leaving out the ones
+   * that already failed this run. Adds new failures to `failed`.
+   */
+  private async expireBatch(
+    now: Date,
+    failed: Set<string>,
+  ): Promise<{
+    claimed: number;
+    expired: number;
+    updated: Booking[];
+    released: ResourceReservation[];
+  }> {
+    const candidates = await this.db
+      .select({ id: bookings.id, artistId: bookings.artistId })
+      .from(bookings)
+      .where(
+        and(
+          this.expiredCondition(now),
+          failed.size > 0 ? notInArray(bookings.id, [...failed]) : undefined,
+        ),
+      )
+      .orderBy(bookings.holdExpiresAt)
+      .limit(SWEEP_BATCH_SIZE);
+
+    const updated: Booking[] = [];
+    const released: ResourceReservation[] = [];
+    let expired = 0;
+
+    for (const candidate of candidates) {
+      try {
+        const result = await this.expireHold(candidate, now);
+        updated.push(...result.changed);
+        released.push(...result.reservations);
+        expired += 1;
+      } catch (error) {
+        this.logger.error(`Failed to expire hold ${candidate.id}`, error);
+        failed.add(candidate.id);
+      }
+    }
+
+    return { claimed: candidates.length, expired, updated, released };
+  }
+
+  private expiredCondition(now: Date) {
+    return and(
+      inArray(bookings.status, HOLD_STATUSES),
+      isNotNull(bookings.holdExpiresAt),
+      lte(bookings.holdExpiresAt, now),
+    );
+  }
+
+  /**
+   * Expires one hold, freeing its resources, and reranks the holds queued
+   * behind it. Returns every booking and reservation that changed.
+   */
+  private async expireHold(
+    candidate: { id: string; artistId: string },
+    now: Date,
+  ): Promise<{ changed: Booking[]; reservations: ResourceReservation[] }> {
+    return this.db.transaction(async (tx) => {
+      await lockArtists(tx, [candidate.artistId]);
+
+      const [row] = await tx
+        .select({ booking: bookings, tenantSettings: tenants.settings })
+        .from(bookings)
+        .innerJoin(tenants, eq(tenants.id, bookings.tenantId))
+        .where(and(eq(bookings.id, candidate.id), this.expiredCondition(now)))
+        .for('update', { of: bookings });
+
+      // Confirmed, extended or expired elsewhere since it was listed
+      if (!row) {
+        return { changed: [], reservations: [] };
+      }
+
+      const { booking, tenantSettings } = row;
+      const transition = resolveHoldExpiry(booking, getBookingRules(tenantSettings), now);
+      const released = transition.status === 'cancelled';
+
+      const changes: BookingChanges = {
+        status: transition.status,
+        holdType: transition.holdType,
+        holdExpiresAt: transition.holdExpiresAt,
+        holdRank: released ? null : booking.holdRank,
+        holdQueuedAt: released ? null : booking.holdQueuedAt,
+        metadata: withoutChallenge(booking.metadata),
+        // Holds owe no kill fee
+        ...(released ? { cancellationReason: 'Hold expired', cancelledAt: now } : {}),
+      };
+
+      const [expired] = await tx
+        .update(bookings)
+        .set({
+          ...changes,
+          version: sql`${bookings.version} + 1`,
+          updatedAt: now,
+        })
+        .where(eq(bookings.id, booking.id))
+        .returning();
+
+      await this.bookingEventRepository.ensureStream(booking, tx);
+      await this.bookingEventRepository.append(
+        {
+          aggregateId: booking.id,
+          tenantId: booking.tenantId,
+          eventType: 'hold_expired',
+          eventData: {
+            changes,
+            context: {
+              action: transition.action,
+              expiredAt: booking.holdExpiresAt,
+              previousStatus: booking.status,
+              previousHoldType: booking.holdType,
+              challenge: getChallenge(booking.metadata),
+            },
+          },
+        },
+        tx,
+      );
+
+      await this.notificationService.createNotification(
+        {
+          tenantId: booking.tenantId,
+          userId: booking.userId,
+          type: 'hold_expired',
+          channel: 'in-app',
+          payload: {
+            bookingId: booking.id,
+            bookingTitle: booking.title,
+            artistId: booking.artistId,
+            projectId: booking.projectId,
+            action: transition.action,
+            holdType: transition.holdType,
+            holdExpiresAt: transition.holdExpiresAt,
+          },
+        },
+        tx,
+      );
+
+      if (!released) {
+        return { changed: [expired], reservations: [] };
+      }
+
+      const reservations = await this.resourceService.followWithin(tx, booking, expired, null);
+
+      // Holds queued behind the released one move up
+      const promoted = await this.holdRankingService.rerank(tx, booking);
+
+      return { changed: [expired, ...promoted], reservations };
+    });
+  }
+}
@@ -0,0 +1,57 @@
+import { resolveHoldExpiry } from './hold-expiry';
+
+const now = new Date('2026-10-18T12:00:00Z');
+const downgrade = { holdExpiry: { action: 'downgrade' as const } };
+const challenge = {
+  challengerBookingId: 'challenger',
+  challengedBy: 'user-1',
+  challengedAt: '2026-10-17T12:00:00.000Z',
+  respondBy: '2026-10-18T12:00:00.000Z',
+};
+
+describe('resolveHoldExpiry', () => {
+  it('releases an expired hold by default', () => {
+    expect(resolveHoldExpiry({ holdType: 'hard', metadata: null }, {}, now)).toEqual({
+      action: 'cancelled',
+      status: 'cancelled',
+      holdType: 'hard',
+      holdExpiresAt: null,
+    });
+  });
+
+  it('weakens the hold a level and gives it a day of grace when set to downgrade', () => {
+    const hold = { holdType: 'first_refusal' as const, metadata: null };
+
+    expect(resolveHoldExpiry(hold, downgrade, now)).toEqual({
+      action: 'downgraded',
+      status: 'hold',
+      holdType: 'hard',
+      holdExpiresAt: new Date('2026-10-19T12:00:00Z'),
+    });
+  });
+
+  it('uses the tenant grace period', () => {
+    const rules = { holdExpiry: { action: 'downgrade' as const, downgradeGraceHours: 6 } };
+
+    expect(resolveHoldExpiry({ holdType: 'hard', metadata: null }, rules, now)).toMatchObject({
+      holdType: 'soft',
+      holdExpiresAt: new Date('2026-10-18T18:00:00Z'),
+    });
+  });
+
+  it('releases holds that cannot be weakened further', () => {
+    expect(resolveHoldExpiry({ holdType: 'soft', metadata: null }, downgrade, now).action).toBe(
+      'cancelled',
+    );
+    expect(resolveHoldExpiry({ holdType: null, metadata: null }, downgrade, now)).toMatchObject({
+      action: 'cancelled',
+      holdType: null,
+    });
+  });
+
+  it('always releases a hold that let a challenge lapse', () => {
+    expect(
+      resolveHoldExpiry({ holdType: 'first_refusal', metadata: { challenge } }, downgrade, now),
+    ).toMatchObject({ action: 'cancelled', status: 'cancelled' });
+  });
+});
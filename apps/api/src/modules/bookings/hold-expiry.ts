@@ -0,0 +1,52 @@
+import { Booking } from '../../database/schema';
+import { TenantBookingRules } from './booking-rules';
+import { getChallenge } from './hold-ranking';
+
+const DEFAULT_DOWNGRADE_GRACE_HOURS = 24;
+
+type HoldType = NonNullable<Booking['holdType']>;
+
+// Each downgrade step weakens the hold by one level; soft holds are released
+const HOLD_DOWNGRADES: Partial<Record<HoldType, HoldType>> = {
+  first_refusal: 'hard',
+  hard: 'soft',
+};
+
+export interface HoldExpiryTransition {
+  action: 'cancelled' | 'downgraded';
+  status: NonNullable<Booking['status']>;
+  holdType: HoldType | null;
+  holdExpiresAt: Date | null;
+}
+
+/**
+ * Decides what an expired hold turns into under the tenant's rules. A hold
+ * that let a first-refusal challenge lapse is always released.
+ */
+export function resolveHoldExpiry(
+  booking: Pick<Booking, 'holdType' | 'metadata'>,
+  rules: TenantBookingRules,
+  now: Date,
+): HoldExpiryTransition {
+  const downgradeTo = booking.holdType ? HOLD_DOWNGRADES[booking.holdType] : undefined;
+  const challenged = Boolean(getChallenge(booking.metadata));
+
+  if (rules.holdExpiry?.action === 'downgrade' && downgradeTo && !challenged) {
+    const graceHours = rules.holdExpiry.downgradeGraceHours ?? DEFAULT_DOWNGRADE_GRACE_HOURS;
+    return {
+      action: 'downgraded',
+      // A pencil drops back to a plain hold but keeps its rank, so a
+      // first-ranked one still blocks confirmed bookings on the slot
+      status: 'hold',
+      holdType: downgradeTo,
+      holdExpiresAt: new Date(now.getTime() + graceHours * 60 * 60 * 1000),
+    };
+  }
+
+  return {
+    action: 'cancelled',
+    status: 'cancelled',
+    holdType: booking.holdType ?? null,
+    holdExpiresAt: null,
+  };
+}
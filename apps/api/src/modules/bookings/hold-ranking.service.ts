@@ -0,0 +1,146 @@
+import { Injectable } from '@nestjs/common';
+import { and, eq, gt, inArray, lt, sql } from 'drizzle-orm';
+import { DrizzleTransaction } from '../../common/types/drizzle.types';
+import { bookings, Booking } from '../../database/schema';
+import { HOLD_STATUSES, RankChange, isHold, rankChanges } from './hold-ranking';
+import { BookingEventRepository } from './repositories/booking-event.repository';
+import { NotificationService } from '../notification/notification.service';
+
+/**
+ * Serializes booking writes per artist until the transaction ends. Ids are
+ * locked in a fixed order so moves between artists can't deadlock.
+ */
+export async function lockArtists(tx: DrizzleTransaction, artistIds: string[]) {
+  for (const artistId of [...new Set(artistIds)].sort()) {
+    await tx.execute(sql`SELECT pg_advisory_xact_lock(hashtext(${artistId}))`);
+  }
+}
+
+/**
+ * Maintains bookings.holdRank for stacked holds on the same artist slot.
+ *
+ * A hold's rank is 1 + the overlapping confirmed bookings and overlapping
+ * holds queued ahead of it. Only rank-1 holds fall under the
+ * bookings_no_overlap_per_artist constraint, so callers must hold the
+ * artist lock (lockArtists) for the whole transaction that changes a
+ * booking and then reranks it.
+ */
+@Injectable()
+export class HoldRankingService {
+  constructor(
+    private readonly bookingEventRepository: BookingEventRepository,
+    private readonly notificationService: NotificationService,
+  ) {}
+
+  /**
+   * Recomputes ranks for every hold connected to the given range and
+   * persists the ones that changed. Returns the updated bookings so the
+   * caller can broadcast them after commit.
+   */
+  async rerank(
+    tx: DrizzleTransaction,
+    range: { tenantId: string; artistId: string; startTime: Date; endTime: Date },
+    userId?: string | null,
+  ): Promise<Booking[]> {
+    const affected = await this.loadConnected(tx, range);
+    const changes = rankChanges(affected);
+    const updated: Booking[] = [];
+
+    for (const change of changes) {
+      const { hold, rank } = change;
+
+      const [reranked] = await tx
+        .update(bookings)
+        .set({
+          holdRank: rank,
+          version: sql`${bookings.version} + 1`,
+          updatedAt: new Date(),
+        })
+        .where(eq(bookings.id, hold.id))
+        .returning();
+
+      await this.bookingEventRepository.ensureStream(hold, tx);
+      await this.bookingEventRepository.append(
+        {
+          aggregateId: hold.id,
+          tenantId: hold.tenantId,
+          eventType: this.isPromotion(change) ? 'hold_promoted' : 'booking_updated',
+          eventData: {
+            changes: { holdRank: rank },
+            context: { previousHoldRank: hold.holdRank },
+          },
+          userId,
+        },
+        tx,
+      );
+
+      // Only a newly first-ranked hold needs the owner's attention
+      if (rank === 1 && hold.holdRank !== null) {
+        await this.notificationService.createNotification(
+          {
+            tenantId: hold.tenantId,
+            userId: hold.userId,
+            type: 'hold_promoted',
+            channel: 'in-app',
+            payload: {
+              bookingId: hold.id,
+              bookingTitle: hold.title,
+              artistId: hold.artistId,
+              previousHoldRank: hold.holdRank,
+              holdRank: rank,
+            },
+          },
+          tx,
+        );
+      }
+
+      updated.push(reranked);
+    }
+
+    return updated;
+  }
+
+  private isPromotion({ hold, rank }: RankChange) {
+    return hold.holdRank !== null && rank < hold.holdRank;
+  }
+
+  /**
+   * Loads the bookings that can influence a rank in the range, widening it
+   * until no hold reaches past its edges (a chain of overlapping holds is
+   * ranked as one line).
+   */
+  private async loadConnected(
+    tx: DrizzleTransaction,
+    range: { tenantId: string; artistId: string; startTime: Date; endTime: Date },
+  ): Promise<Booking[]> {
+    let startTime = range.startTime;
+    let endTime = range.endTime;
+
+    for (;;) {
+      const rows = await tx
+        .select()
+        .from(bookings)
+        .where(
+          and(
+            eq(bookings.tenantId, range.tenantId),
+            eq(bookings.artistId, range.artistId),
+            inArray(bookings.status, [...HOLD_STATUSES, 'confirmed']),
+            lt(bookings.startTime, endTime),
+            gt(bookings.endTime, startTime),
+          ),
+        )
+        .for('update');
+
+      const holds = rows.filter((booking) => isHold(booking.status));
+      const spanStart = new Date(Math.min(startTime.getTime(), ...holds.map((b) => b.startTime.getTime())));
+      const spanEnd = new Date(Math.max(endTime.getTime(), ...holds.map((b) => b.endTime.getTime())));
+
+      if (spanStart >= startTime && spanEnd <= endTime) {
+        return rows;
+      }
+
+      startTime = spanStart;
+      endTime = spanEnd;
+    }
+  }
+}
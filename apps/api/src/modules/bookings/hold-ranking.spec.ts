@@ -0,0 +1,101 @@
+import { Booking } from '../../database/schema';
+import { getChallenge, rankChanges, withoutChallenge } from './hold-ranking';
+
+function booking(id: string, overrides: Partial<Booking> = {}): Booking {
+  return {
+    id,
+    status: 'hold',
+    startTime: new Date('2026-11-02T09:00:00Z'),
+    endTime: new Date('2026-11-02T17:00:00Z'),
+    holdRank: null,
+    holdQueuedAt: null,
+    createdAt: new Date('2026-10-01T00:00:00Z'),
+    ...overrides,
+  } as Booking;
+}
+
+const ranks = (changes: ReturnType<typeof rankChanges>) =>
+  changes.map(({ hold, rank }) => [hold.id, rank]);
+
+describe('hold ranking', () => {
+  describe('rankChanges', () => {
+    it('ranks overlapping holds by when they joined the queue', () => {
+      const changes = rankChanges([
+        booking('late', { holdQueuedAt: new Date('2026-10-03T00:00:00Z') }),
+        booking('early', { holdQueuedAt: new Date('2026-10-02T00:00:00Z') }),
+        // Falls back to when it was created
+        booking('earliest'),
+      ]);
+
+      expect(ranks(changes)).toEqual([
+        ['late', 3],
+        ['early', 2],
+        ['earliest', 1],
+      ]);
+    });
+
+    it('breaks ties in the queue by id', () => {
+      const queuedAt = new Date('2026-10-02T00:00:00Z');
+
+      expect(
+        ranks(
+          rankChanges([
+            booking('b', { holdQueuedAt: queuedAt }),
+            booking('a', { holdQueuedAt: queuedAt }),
+          ]),
+        ),
+      ).toEqual([
+        ['b', 2],
+        ['a', 1],
+      ]);
+    });
+
+    it('puts holds behind an overlapping confirmed booking, however recent', () => {
+      const changes = rankChanges([
+        booking('confirmed', { status: 'confirmed', createdAt: new Date('2026-10-05T00:00:00Z') }),
+        booking('pencil', { status: 'pencil' }),
+        booking('elsewhere', {
+          startTime: new Date('2026-11-03T09:00:00Z'),
+          endTime: new Date('2026-11-03T17:00:00Z'),
+        }),
+      ]);
+
+      expect(ranks(changes)).toEqual([
+        ['pencil', 2],
+        ['elsewhere', 1],
+      ]);
+    });
+
+    it('lists only holds whose rank changes, new first-ranked holds last', () => {
+      const changes = rankChanges([
+        booking('promoted', { holdRank: 2 }),
+        booking('demoted', { holdRank: 1, holdQueuedAt: new Date('2026-10-09T00:00:00Z') }),
+        booking('unchanged', {
+          holdRank: 1,
+          startTime: new Date('2026-11-03T09:00:00Z'),
+          endTime: new Date('2026-11-03T17:00:00Z'),
+        }),
+      ]);
+
+      expect(ranks(changes)).toEqual([
+        ['demoted', 2],
+        ['promoted', 1],
+      ]);
+    });
+  });
+
+  it('reads and drops an open challenge', () => {
+    const challenge = {
+      challengerBookingId: 'challenger',
+      challengedBy: 'user-1',
+      challengedAt: '2026-10-18T09:00:00.000Z',
+      respondBy: '2026-10-19T09:00:00.000Z',
+    };
+    const metadata = { source: 'import', challenge };
+
+    expect(getChallenge(metadata)).toEqual(challenge);
+    expect(withoutChallenge(metadata)).toEqual({ source: 'import' });
+    expect(getChallenge(null)).toBeUndefined();
+    expect(withoutChallenge(null)).toBeNull();
+  });
+});
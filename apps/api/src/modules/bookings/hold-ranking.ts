@@ -0,0 +1,61 @@
+import { omit } from '../../common/utils/omit';
+import { Booking } from '../../database/schema';
+import { BookingMetadata, BookingStatus } from './repositories/booking.repository';
+
+// Statuses that queue for an artist's time as 1st pencil, 2nd pencil, ...
+export const HOLD_STATUSES: BookingStatus[] = ['hold', 'pencil'];
+
+export function isHold(status: Booking['status']): boolean {
+  return status !== null && HOLD_STATUSES.includes(status);
+}
+
+export function getChallenge(metadata: Booking['metadata']) {
+  return (metadata as BookingMetadata | null)?.challenge;
+}
+
+export function withoutChallenge(metadata: Booking['metadata']): BookingMetadata | null {
+  const typed = metadata as BookingMetadata | null;
+  if (!typed?.challenge) {
+    return typed;
+  }
+
+  return omit(typed, ['challenge']);
+}
+
+function overlaps(a: Booking, b: Booking): boolean {
+  return a.startTime < b.endTime && b.startTime < a.endTime;
+}
+
+// Holds queue by when they joined the line; id breaks ties
+function queuedBefore(a: Booking, b: Booking): boolean {
+  const aQueued = (a.holdQueuedAt ?? a.createdAt).getTime();
+  const bQueued = (b.holdQueuedAt ?? b.createdAt).getTime();
+  return aQueued !== bQueued ? aQueued < bQueued : a.id < b.id;
+}
+
+export interface RankChange {
+  hold: Booking;
+  rank: number;
+}
+
+/**
+ * The holds in `affected` whose rank is off. A hold's rank is 1 + the
+ * overlapping confirmed bookings and overlapping holds queued ahead of it.
+ * New first-ranked holds come last so every hold leaving rank 1 has
+ * already done so, keeping the exclusion constraint satisfied throughout.
+ */
+export function rankChanges(affected: Booking[]): RankChange[] {
+  return affected
+    .filter((booking) => isHold(booking.status))
+    .map((hold) => {
+      const ahead = affected.filter(
+        (other) =>
+          other.id !== hold.id &&
+          overlaps(other, hold) &&
+          (other.status === 'confirmed' || (isHold(other.status) && queuedBefore(other, hold))),
+      );
+      return { hold, rank: ahead.length + 1 };
+    })
+    .filter(({ hold, rank }) => hold.holdRank !== rank)
+    .sort((a, b) => Number(a.rank === 1) - Number(b.rank === 1));
+}
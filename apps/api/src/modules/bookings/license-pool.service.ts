@@ -0,0 +1,255 @@
+import {
+  Injectable,
+  NotFoundException,
+  ConflictException,
+  BadRequestException,
+} from '@nestjs/common';
+import { addDays, isValidTimeZone, localDate, zonedTimeToUtc } from '../../common/utils/time-zone';
+import { isUniqueViolation } from '../../common/utils/database-errors';
+import { MAX_RANGE_DAYS } from './availability.service';
+import { LicenseDay, LicensedBooking, licenseDays, requiredLicenses } from './licenses';
+import { LicensePoolRecord, LicensePoolRepository } from './repositories/license-pool.repository';
+import { CreateLicensePoolDto } from './dto/create-license-pool.dto';
+import { UpdateLicensePoolDto } from './dto/update-license-pool.dto';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Stands in for the proposed booking among the ones it is counted with
+const PROPOSAL_ID = 'proposal';
+
+export interface LicensePoolCapacity {
+  pool: LicensePoolRecord;
+  // Days with any seat in use
+  days: LicenseDay[];
+}
+
+export interface LicenseCapacityReport {
+  timeZone: string;
+  startDate: string;
+  endDate: string;
+  pools: LicensePoolCapacity[];
+}
+
+// A day on which the proposed booking would leave a pool short of seats
+export interface LicenseConflict extends LicenseDay {
+  license: string;
+  name: string;
+}
+
+export interface LicenseProposal {
+  artistId: string;
+  startTime: Date;
+  endTime: Date;
+  status: LicensedBooking['status'];
+  // Pool keys; null or missing follows the artist's type
+  licenses?: string[] | null;
+  excludeId?: string;
+}
+
+/**
+ * Seat counts for DCC and render licenses. A booking takes a seat in each
+ * pool it needs for as long as it runs, and days on the tenant's clock
+ * where concurrent bookings need more seats than a pool has are reported.
+ * Running short is flagged rather than refused: seats can be bought, and
+ * holds often never turn into work.
+ */
+@Injectable()
+export class LicensePoolService {
+  constructor(private readonly licensePoolRepository: LicensePoolRepository) {}
+
+  async create(createDto: CreateLicensePoolDto, tenantId: string, userId: string) {
+    return this.withKeyCheck(() =>
+      this.licensePoolRepository.create({
+        ...createDto,
+        tenantId,
+        createdBy: userId,
+        updatedBy: userId,
+      }),
+    );
+  }
+
+  async findAll(tenantId: string) {
+    return this.licensePoolRepository.findAll(tenantId);
+  }
+
+  async findOne(id: string, tenantId: string) {
+    const pool = await this.licensePoolRepository.findOne(id, tenantId);
+    if (!pool) {
+      throw new NotFoundException('License pool not found');
+    }
+
+    return pool;
+  }
+
+  async update(id: string, updateDto: UpdateLicensePoolDto, tenantId: string, userId: string) {
+    const updated = await this.licensePoolRepository.update(id, tenantId, {
+      ...updateDto,
+      updatedBy: userId,
+    });
+    if (!updated) {
+      throw new NotFoundException('License pool not found');
+    }
+
+    return updated;
+  }
+
+  // Bookings that list the pool's key keep it; it no longer counts for anything
+  async remove(id: string, tenantId: string) {
+    const deleted = await this.licensePoolRepository.delete(id, tenantId);
+    if (!deleted) {
+      throw new NotFoundException('License pool not found');
+    }
+
+    return { success: true };
+  }
+
+  // Fails unless every key names one of the tenant's pools
+  async assertKnownLicenses(tenantId: string, keys: string[] | null | undefined) {
+    if (!keys?.length) {
+      return;
+    }
+
+    const pools = await this.licensePoolRepository.findAll(tenantId);
+    const known = new Set(pools.map((pool) => pool.key));
+    const unknown = [...new Set(keys)].filter((key) => !known.has(key));
+    if (unknown.length > 0) {
+      throw new BadRequestException({
+        error: 'UNKNOWN_LICENSE',
+        message: `No license pool for ${unknown.join(', ')}`,
+        details: { unknown },
+      });
+    }
+  }
+
+  /**
+   * Peak seat use per pool on each local day the range touches, covering
+   * confirmed bookings, holds and pencils.
+   */
+  async capacity(tenantId: string, from: Date, to: Date): Promise<LicenseCapacityReport> {
+    if (to <= from) {
+      throw new BadRequestException('to must be after from');
+    }
+    if (to.getTime() - from.getTime() > MAX_RANGE_DAYS * DAY_MS) {
+      throw new BadRequestException(`Range can span at most ${MAX_RANGE_DAYS} days`);
+    }
+
+    const timeZone = await this.tenantTimeZone(tenantId);
+    const startDate = localDate(from, timeZone);
+    const endDate = localDate(new Date(to.getTime() - 1), timeZone);
+    const pools = await this.licensePoolRepository.findAll(tenantId);
+    const bookings = await this.findBookings(tenantId, timeZone, startDate, endDate);
+
+    return {
+      timeZone,
+      startDate,
+      endDate,
+      pools: pools.map((pool) => ({
+        pool,
+        days: licenseDays(
+          bookings.filter((booking) => requiredLicenses(booking, pools).includes(pool.key)),
+          pool.seats,
+          timeZone,
+          startDate,
+          endDate,
+        ),
+      })),
+    };
+  }
+
+  /**
+   * Days on which the proposed booking, counted with everything else
+   * booked, would need more seats than a pool it uses has. Null if the
+   * artist isn't in the tenant.
+   */
+  async proposalConflicts(
+    tenantId: string,
+    proposal: LicenseProposal,
+  ): Promise<LicenseConflict[] | null> {
+    const artistType = await this.licensePoolRepository.findArtistType(proposal.artistId, tenantId);
+    if (!artistType) {
+      return null;
+    }
+
+    const pools = await this.licensePoolRepository.findAll(tenantId);
+    const proposed: LicensedBooking = {
+      id: PROPOSAL_ID,
+      artistId: proposal.artistId,
+      startTime: proposal.startTime,
+      endTime: proposal.endTime,
+      status: proposal.status,
+      licenses: proposal.licenses ?? null,
+      artistType,
+    };
+    const needed = requiredLicenses(proposed, pools);
+    const used = pools.filter((pool) => needed.includes(pool.key));
+    if (used.length === 0) {
+      return [];
+    }
+
+    const timeZone = await this.tenantTimeZone(tenantId);
+    const startDate = localDate(proposal.startTime, timeZone);
+    const endDate = localDate(new Date(proposal.endTime.getTime() - 1), timeZone);
+    const bookings = await this.findBookings(
+      tenantId,
+      timeZone,
+      startDate,
+      endDate,
+      proposal.excludeId,
+    );
+
+    return used.flatMap((pool) =>
+      licenseDays(
+        [
+          ...bookings.filter((booking) => requiredLicenses(booking, pools).includes(pool.key)),
+          proposed,
+        ],
+        pool.seats,
+        timeZone,
+        startDate,
+        endDate,
+      )
+        .filter((day) => day.status !== 'ok')
+        .map((day) => ({
+          ...day,
+          license: pool.key,
+          name: pool.name,
+          bookingIds: day.bookingIds.filter((id) => id !== PROPOSAL_ID),
+        })),
+    );
+  }
+
+  // Everything running from the first local midnight to the one after the last date
+  private async findBookings(
+    tenantId: string,
+    timeZone: string,
+    startDate: string,
+    endDate: string,
+    excludeId?: string,
+  ) {
+    return this.licensePoolRepository.findLicensedBookings({
+      tenantId,
+      startTime: zonedTimeToUtc(startDate, 0, timeZone),
+      endTime: zonedTimeToUtc(addDays(endDate, 1), 0, timeZone),
+      excludeId,
+    });
+  }
+
+  // Seats are shared across the studio, so days follow the tenant's clock
+  private async tenantTimeZone(tenantId: string): Promise<string> {
+    const timeZone = await this.licensePoolRepository.findTenantTimeZone(tenantId);
+    return timeZone && isValidTimeZone(timeZone) ? timeZone : 'UTC';
+  }
+
+  private async withKeyCheck<T>(write: () => Promise<T>): Promise<T> {
+    try {
+      return await write();
+    } catch (error) {
+      if (isUniqueViolation(error)) {
+        throw new ConflictException({
+          error: 'LICENSE_KEY_TAKEN',
+          message: 'A license pool with this key already exists',
+        });
+      }
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,83 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  UseInterceptors,
+  Req,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiBearerAuth } from '@nestjs/swagger';
+import { LicensePoolService } from './license-pool.service';
+import { CreateLicensePoolDto } from './dto/create-license-pool.dto';
+import { UpdateLicensePoolDto } from './dto/update-license-pool.dto';
+import { FreeBusyQueryDto } from './dto/free-busy-query.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { TenantGuard } from '../auth/guards/tenant.guard';
+import { RequestWithUser } from '../auth/interfaces/request-with-user.interface';
+import { TimeZoneInterceptor } from '../../common/interceptors/time-zone.interceptor';
+
+@ApiTags('license-pools')
+@ApiBearerAuth()
+@Controller('license-pools')
+@UseGuards(JwtAuthGuard, TenantGuard)
+@UseInterceptors(TimeZoneInterceptor)
+export class LicensePoolsController {
+  constructor(private readonly licensePoolService: LicensePoolService) {}
+
+  @Post()
+  @ApiOperation({ summary: 'Create a license pool (e.g. Houdini, Nuke, Maya seats)' })
+  async create(@Body() createDto: CreateLicensePoolDto, @Req() req: RequestWithUser) {
+    const pool = await this.licensePoolService.create(createDto, req.user.tenantId, req.user.id);
+    return { data: pool };
+  }
+
+  @Get()
+  @ApiOperation({ summary: 'List license pools' })
+  async findAll(@Req() req: RequestWithUser) {
+    const pools = await this.licensePoolService.findAll(req.user.tenantId);
+    return { data: pools };
+  }
+
+  // Registered before :id so "capacity" isn't read as a pool id
+  @Get('capacity')
+  @ApiOperation({ summary: 'Peak seat use per license pool and day, flagging days over the seat count' })
+  async capacity(@Query() query: FreeBusyQueryDto, @Req() req: RequestWithUser) {
+    const report = await this.licensePoolService.capacity(req.user.tenantId, query.from, query.to);
+    return { data: report };
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get license pool' })
+  async findOne(@Param('id') id: string, @Req() req: RequestWithUser) {
+    const pool = await this.licensePoolService.findOne(id, req.user.tenantId);
+    return { data: pool };
+  }
+
+  @Patch(':id')
+  @ApiOperation({ summary: 'Update license pool' })
+  async update(
+    @Param('id') id: string,
+    @Body() updateDto: UpdateLicensePoolDto,
+    @Req() req: RequestWithUser,
+  ) {
+    const pool = await this.licensePoolService.update(
+      id,
+      updateDto,
+      req.user.tenantId,
+      req.user.id,
+    );
+
+    return { data: pool };
+  }
+
+  @Delete(':id')
+  @ApiOperation({ summary: 'Delete license pool' })
+  async remove(@Param('id') id: string, @Req() req: RequestWithUser) {
+    return this.licensePoolService.remove(id, req.user.tenantId);
+  }
+}
@@ -0,0 +1,101 @@
+import { LicensedBooking, licenseDays, licenseStatus, requiredLicenses } from './licenses';
+
+function booking(
+  id: string,
+  start: string,
+  end: string,
+  status: LicensedBooking['status'] = 'confirmed',
+): LicensedBooking {
+  return {
+    id,
+    artistId: `artist-${id}`,
+    artistType: 'fx_artist',
+    startTime: new Date(start),
+    endTime: new Date(end),
+    status,
+    licenses: null,
+  };
+}
+
+describe('licenses', () => {
+  describe('requiredLicenses', () => {
+    const pools = [
+      { key: 'houdini', artistTypes: ['fx_artist' as const] },
+      { key: 'nuke', artistTypes: ['compositor' as const, 'fx_artist' as const] },
+      { key: 'maya', artistTypes: ['animator' as const] },
+    ];
+
+    it("falls back to the pools the artist's type calls for", () => {
+      expect(requiredLicenses({ artistType: 'fx_artist', licenses: null }, pools)).toEqual([
+        'houdini',
+        'nuke',
+      ]);
+      expect(requiredLicenses({ artistType: 'rigger', licenses: null }, pools)).toEqual([]);
+    });
+
+    it('uses the licenses a booking lists instead, once each', () => {
+      expect(
+        requiredLicenses({ artistType: 'fx_artist', licenses: ['maya', 'maya'] }, pools),
+      ).toEqual(['maya']);
+    });
+
+    it('needs no license when a booking lists none', () => {
+      expect(requiredLicenses({ artistType: 'fx_artist', licenses: [] }, pools)).toEqual([]);
+    });
+  });
+
+  it('is over when confirmed work alone exceeds the seats, at risk when holds do', () => {
+    expect(licenseStatus(2, 2, 2)).toBe('ok');
+    expect(licenseStatus(2, 1, 3)).toBe('at_risk');
+    expect(licenseStatus(2, 3, 3)).toBe('over');
+  });
+
+  describe('licenseDays', () => {
+    it('splits days at local midnight', () => {
+      // Berlin is UTC+1 in November: the first booking runs 23:30-00:30
+      // local, the hold 00:15-02:00 on the 3rd
+      const bookings = [
+        booking('a', '2026-11-02T22:30:00Z', '2026-11-02T23:30:00Z'),
+        booking('b', '2026-11-02T23:15:00Z', '2026-11-03T01:00:00Z', 'hold'),
+      ];
+
+      expect(licenseDays(bookings, 1, 'Europe/Berlin', '2026-11-01', '2026-11-04')).toEqual([
+        {
+          date: '2026-11-02',
+          seats: 1,
+          confirmed: 1,
+          peak: 1,
+          status: 'ok',
+          bookingIds: ['a'],
+        },
+        {
+          date: '2026-11-03',
+          seats: 1,
+          confirmed: 1,
+          peak: 2,
+          status: 'at_risk',
+          bookingIds: ['a', 'b'],
+        },
+      ]);
+    });
+
+    it('is over when confirmed bookings overlap past the seats', () => {
+      const bookings = [
+        booking('a', '2026-11-02T09:00:00Z', '2026-11-02T12:00:00Z'),
+        booking('b', '2026-11-02T11:00:00Z', '2026-11-02T14:00:00Z'),
+        booking('c', '2026-11-02T11:30:00Z', '2026-11-02T13:00:00Z', 'pencil'),
+      ];
+
+      expect(licenseDays(bookings, 1, 'UTC', '2026-11-02', '2026-11-02')).toEqual([
+        {
+          date: '2026-11-02',
+          seats: 1,
+          confirmed: 2,
+          peak: 3,
+          status: 'over',
+          bookingIds: ['a', 'b', 'c'],
+        },
+      ]);
+    });
+  });
+});
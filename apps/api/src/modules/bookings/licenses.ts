@@ -0,0 +1,97 @@
+import { licensePools } from '../../database/schema';
+import { addDays, zonedTimeToUtc } from '../../common/utils/time-zone';
+import { BookingRow } from './booking-events';
+import { Reservation, peakUsage, resourceUsage } from './resources';
+
+type LicensePool = typeof licensePools.$inferSelect;
+
+export type ArtistType = LicensePool['artistTypes'][number];
+
+// 'over' when confirmed work alone needs more seats than the pool has;
+// 'at_risk' when only holds and pencils push it over
+export type LicenseStatus = 'ok' | 'at_risk' | 'over';
+
+export interface LicensedBooking
+  extends Pick<BookingRow, 'id' | 'artistId' | 'startTime' | 'endTime' | 'status' | 'licenses'> {
+  artistType: ArtistType;
+}
+
+// Seat use of one pool over one local day
+export interface LicenseDay {
+  date: string;
+  seats: number;
+  // Most bookings running at once: confirmed ones only, then with holds
+  confirmed: number;
+  peak: number;
+  status: LicenseStatus;
+  // The bookings running at the busiest moment
+  bookingIds: string[];
+}
+
+/**
+ * Pool keys the booking takes a seat in: the ones it lists, or, if it
+ * lists none, the pools its artist's type calls for. An empty list means
+ * the booking needs no license.
+ */
+export function requiredLicenses(
+  booking: Pick<LicensedBooking, 'licenses' | 'artistType'>,
+  pools: Array<Pick<LicensePool, 'key' | 'artistTypes'>>,
+): string[] {
+  if (booking.licenses) {
+    return [...new Set(booking.licenses)];
+  }
+
+  return pools.filter((pool) => pool.artistTypes.includes(booking.artistType)).map((pool) => pool.key);
+}
+
+export function licenseStatus(seats: number, confirmed: number, peak: number): LicenseStatus {
+  if (confirmed > seats) {
+    return 'over';
+  }
+
+  return peak > seats ? 'at_risk' : 'ok';
+}
+
+/**
+ * Peak seat use on each date from `startDate` to `endDate` inclusive, with
+ * days running from local midnight to midnight in `timeZone`. `bookings`
+ * are the ones that need this pool; days none of them touch are left out.
+ */
+export function licenseDays(
+  bookings: LicensedBooking[],
+  seats: number,
+  timeZone: string,
+  startDate: string,
+  endDate: string,
+): LicenseDay[] {
+  const seatsTaken = (statuses: (status: BookingRow['status']) => boolean): Reservation[] =>
+    bookings
+      .filter((booking) => statuses(booking.status))
+      .map((booking) => ({ ...booking, quantity: 1 }));
+  const all = seatsTaken(() => true);
+  const confirmedOnly = seatsTaken((status) => status === 'confirmed');
+
+  const days: LicenseDay[] = [];
+  for (let date = startDate; date <= endDate; date = addDays(date, 1)) {
+    const from = zonedTimeToUtc(date, 0, timeZone);
+    const to = zonedTimeToUtc(addDays(date, 1), 0, timeZone);
+
+    const usage = resourceUsage(all, from, to);
+    if (usage.length === 0) {
+      continue;
+    }
+
+    const busiest = usage.reduce((max, piece) => (piece.used > max.used ? piece : max));
+    const confirmed = peakUsage(confirmedOnly, from, to);
+    days.push({
+      date,
+      seats,
+      confirmed,
+      peak: busiest.used,
+      status: licenseStatus(seats, confirmed, busiest.used),
+      bookingIds: busiest.reservationIds,
+    });
+  }
+
+  return days;
+}
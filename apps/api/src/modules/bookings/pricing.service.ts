@@ -0,0 +1,142 @@
+import { Injectable, BadRequestException, NotFoundException } from '@nestjs/common';
+import { DrizzleDatabase, DrizzleTransaction } from '../../common/types/drizzle.types';
+import { Booking } from '../../database/schema';
+import { AvailabilityService } from './availability.service';
+import { getBookingRules } from './booking-rules';
+import { PriceBreakdown, RateType, isRateType, priceBooking } from './pricing';
+import { KillFee, killFee } from './cancellation';
+import {
+  ArtistPricingSettings,
+  PricingRepository,
+} from './repositories/pricing.repository';
+import { PriceQuoteDto } from './dto/price-quote.dto';
+
+// A booking as it is about to be written
+export interface PricedBooking {
+  tenantId: string;
+  artistId: string;
+  startTime: Date;
+  endTime: Date;
+  rate: string | null;
+  rateType: string | null;
+  rateOverridden: boolean;
+}
+
+/**
+ * Derives a booking's rate from its artist (unless the rate was set by
+ * hand) and its total from the time booked, the tenant's working hours and
+ * the overtime and weekend multipliers in its booking rules.
+ */
+@Injectable()
+export class PricingService {
+  constructor(
+    private readonly pricingRepository: PricingRepository,
+    private readonly availabilityService: AvailabilityService,
+  ) {}
+
+  /**
+   * Null when there is nothing to price with: no rate was set and the
+   * artist has none of the needed type. The booking's amounts are then
+   * left as entered.
+   */
+  async price(
+    booking: PricedBooking,
+    executor?: DrizzleDatabase | DrizzleTransaction,
+  ): Promise<PriceBreakdown | null> {
+    const settings = await this.pricingRepository.findPricingSettings(
+      booking.artistId,
+      booking.tenantId,
+      executor,
+    );
+    const rated = settings ? this.resolveRate(booking, settings) : null;
+    if (!settings || !rated) {
+      return null;
+    }
+
+    const timeZone =
+      (await this.availabilityService.artistTimeZone(booking.tenantId, booking.artistId)) ?? 'UTC';
+
+    return priceBooking({
+      startTime: booking.startTime,
+      endTime: booking.endTime,
+      ...rated,
+      timeZone,
+      workingHours: settings.tenantSettings?.workingHours,
+      rules: getBookingRules(settings.tenantSettings).pricing ?? {},
+    });
+  }
+
+  // The fee for cancelling `booking` now, under its artist's policy or else the tenant's
+  async killFee(
+    booking: Pick<Booking, 'tenantId' | 'artistId' | 'status' | 'startTime' | 'totalAmount'>,
+    at: Date,
+    executor?: DrizzleDatabase | DrizzleTransaction,
+  ): Promise<KillFee | null> {
+    const settings = await this.pricingRepository.findPricingSettings(
+      booking.artistId,
+      booking.tenantId,
+      executor,
+    );
+    if (!settings) {
+      return null;
+    }
+
+    const policy =
+      settings.cancellationPolicy ?? getBookingRules(settings.tenantSettings).cancellation;
+    return killFee(booking, policy ? { tiers: policy.tiers ?? [] } : null, at);
+  }
+
+  // What a booking would cost, line by line, without saving anything
+  async quote(tenantId: string, quoteDto: PriceQuoteDto): Promise<PriceBreakdown> {
+    if (quoteDto.endTime <= quoteDto.startTime) {
+      throw new BadRequestException('End time must be after start time');
+    }
+
+    const settings = await this.pricingRepository.findPricingSettings(quoteDto.artistId, tenantId);
+    if (!settings) {
+      throw new NotFoundException('Artist not found');
+    }
+
+    const breakdown = await this.price({
+      tenantId,
+      artistId: quoteDto.artistId,
+      startTime: quoteDto.startTime,
+      endTime: quoteDto.endTime,
+      rate: quoteDto.rate ?? null,
+      rateType: quoteDto.rateType ?? null,
+      rateOverridden: quoteDto.rate !== undefined,
+    });
+    if (!breakdown) {
+      throw new BadRequestException('Artist has no rate of this type; give a rate to price with');
+    }
+
+    return breakdown;
+  }
+
+  /**
+   * A rate set by hand wins; otherwise the artist's rate of the booking's
+   * type, or of the first type the artist has. Fixed prices only ever come
+   * from the booking.
+   */
+  private resolveRate(
+    booking: PricedBooking,
+    settings: ArtistPricingSettings,
+  ): { rate: string; rateType: RateType } | null {
+    const requested = isRateType(booking.rateType) ? booking.rateType : null;
+
+    if (booking.rateOverridden && booking.rate !== null) {
+      return { rate: booking.rate, rateType: requested ?? 'hourly' };
+    }
+
+    const rateType =
+      requested ?? (settings.hourlyRate ? 'hourly' : settings.dailyRate ? 'daily' : null);
+    const rate =
+      rateType === 'hourly'
+        ? settings.hourlyRate
+        : rateType === 'daily'
+          ? settings.dailyRate
+          : booking.rate;
+
+    return rateType && rate !== null ? { rate, rateType } : null;
+  }
+}
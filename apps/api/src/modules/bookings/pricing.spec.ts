@@ -0,0 +1,102 @@
+import { PricingInputs, priceBooking } from './pricing';
+
+// Monday 2 November 2026 in London, which is on UTC by then
+function inputs(overrides: Partial<PricingInputs> = {}): PricingInputs {
+  return {
+    startTime: new Date('2026-11-02T10:00:00Z'),
+    endTime: new Date('2026-11-02T14:00:00Z'),
+    rate: '50',
+    rateType: 'hourly',
+    timeZone: 'Europe/London',
+    workingHours: { start: '09:00', end: '17:00' },
+    rules: {},
+    ...overrides,
+  };
+}
+
+describe('priceBooking', () => {
+  it('takes a fixed rate as the total', () => {
+    expect(priceBooking(inputs({ rate: '1500', rateType: 'fixed' }))).toEqual({
+      rate: '1500',
+      rateType: 'fixed',
+      totalAmount: '1500.00',
+      lines: [],
+    });
+  });
+
+  it('bills hourly time inside working hours as regular', () => {
+    expect(priceBooking(inputs())).toMatchObject({
+      totalAmount: '200.00',
+      lines: [
+        { date: '2026-11-02', kind: 'regular', minutes: 240, multiplier: 1, amount: '200.00' },
+      ],
+    });
+  });
+
+  it('bills time past working hours at the overtime multiplier', () => {
+    const price = priceBooking(
+      inputs({
+        startTime: new Date('2026-11-02T16:00:00Z'),
+        endTime: new Date('2026-11-02T19:00:00Z'),
+        rate: '40',
+        rules: { overtimeMultiplier: 1.5 },
+      }),
+    );
+
+    expect(price.totalAmount).toBe('160.00');
+    expect(price.lines.map(({ kind, minutes, amount }) => [kind, minutes, amount])).toEqual([
+      ['regular', 60, '40.00'],
+      ['overtime', 120, '120.00'],
+    ]);
+  });
+
+  it('charges a day rate pro rata and at most once per working day', () => {
+    expect(priceBooking(inputs({ rate: '800', rateType: 'daily' })).totalAmount).toBe('400.00');
+
+    const longDay = priceBooking(
+      inputs({
+        startTime: new Date('2026-11-02T08:00:00Z'),
+        endTime: new Date('2026-11-02T18:00:00Z'),
+        rate: '800',
+        rateType: 'daily',
+      }),
+    );
+
+    // 8 working hours for the day rate, 2 hours of overtime at 100/hour
+    expect(longDay.totalAmount).toBe('1000.00');
+  });
+
+  it('bills all weekend time at the weekend multiplier', () => {
+    const price = priceBooking(
+      inputs({
+        startTime: new Date('2026-11-07T16:00:00Z'),
+        endTime: new Date('2026-11-07T18:00:00Z'),
+        rules: { weekendMultiplier: 2, overtimeMultiplier: 1.5 },
+      }),
+    );
+
+    expect(price.lines).toEqual([
+      { date: '2026-11-07', kind: 'weekend', minutes: 120, multiplier: 2, amount: '200.00' },
+    ]);
+  });
+
+  it('splits a booking across local days and reads working hours on the local clock', () => {
+    const price = priceBooking(
+      inputs({
+        // 16:00 on Monday to 10:00 on Tuesday in New York
+        startTime: new Date('2026-11-02T21:00:00Z'),
+        endTime: new Date('2026-11-03T15:00:00Z'),
+        timeZone: 'America/New_York',
+        rules: { overtimeMultiplier: 2 },
+      }),
+    );
+
+    expect(price.lines.map(({ date, kind, minutes }) => [date, kind, minutes])).toEqual([
+      ['2026-11-02', 'regular', 60],
+      ['2026-11-02', 'overtime', 420],
+      ['2026-11-03', 'regular', 60],
+      ['2026-11-03', 'overtime', 540],
+    ]);
+    expect(price.totalAmount).toBe('1700.00');
+  });
+});
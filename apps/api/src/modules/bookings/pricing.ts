@@ -0,0 +1,150 @@
+import {
+  addDays,
+  dayOfWeek,
+  localDate,
+  parseClockTime,
+  zonedTimeToUtc,
+} from '../../common/utils/time-zone';
+import { TenantBookingRules } from './booking-rules';
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MINUTES = 24 * 60;
+// A daily rate covers this much work when the tenant has no working hours
+const DEFAULT_WORKING_DAY_MINUTES = 8 * 60;
+const DEFAULT_WEEKEND_DAYS = [0, 6];
+
+export const RATE_TYPES = ['hourly', 'daily', 'fixed'] as const;
+
+export type RateType = (typeof RATE_TYPES)[number];
+
+export function isRateType(value: string | null | undefined): value is RateType {
+  return (RATE_TYPES as readonly string[]).includes(value ?? '');
+}
+
+export type PriceLineKind = 'regular' | 'overtime' | 'weekend';
+
+export interface PriceLine {
+  // Local date in the artist's zone
+  date: string;
+  kind: PriceLineKind;
+  minutes: number;
+  multiplier: number;
+  amount: string;
+}
+
+export interface PriceBreakdown {
+  rate: string;
+  rateType: RateType;
+  totalAmount: string;
+  lines: PriceLine[];
+}
+
+export interface PricingInputs {
+  startTime: Date;
+  endTime: Date;
+  rate: string;
+  rateType: RateType;
+  timeZone: string;
+  workingHours?: { start: string; end: string };
+  rules: NonNullable<TenantBookingRules['pricing']>;
+}
+
+function toCents(amount: string): number {
+  return Math.round(Number(amount) * 100);
+}
+
+function fromCents(cents: number): string {
+  return (cents / 100).toFixed(2);
+}
+
+function overlapMinutes(a: [Date, Date], b: [Date, Date]): number {
+  const start = Math.max(a[0].getTime(), b[0].getTime());
+  const end = Math.min(a[1].getTime(), b[1].getTime());
+  return end > start ? Math.round((end - start) / MINUTE_MS) : 0;
+}
+
+// Working hours as minutes past midnight; overnight hours run past 24:00
+function workingRange(workingHours: PricingInputs['workingHours']): [number, number] | null {
+  const start = workingHours ? parseClockTime(workingHours.start) : null;
+  const end = workingHours ? parseClockTime(workingHours.end) : null;
+  if (start === null || end === null || start === end) {
+    return null;
+  }
+
+  return end > start ? [start, end] : [start, end + DAY_MINUTES];
+}
+
+/**
+ * Prices a booking day by day on the artist's local calendar. Time inside
+ * working hours is regular, time outside it overtime; on weekend days,
+ * when a weekend multiplier is configured, all time is weekend time.
+ *
+ * Hourly rates bill each minute. A daily rate buys one working day:
+ * regular time is billed pro rata up to one day rate per date, and
+ * overtime at the rate's hourly equivalent. A fixed rate is the total.
+ */
+export function priceBooking(inputs: PricingInputs): PriceBreakdown {
+  const { startTime, endTime, rate, rateType, timeZone, rules } = inputs;
+
+  if (rateType === 'fixed') {
+    return { rate, rateType, totalAmount: fromCents(toCents(rate)), lines: [] };
+  }
+
+  const working = workingRange(inputs.workingHours);
+  const workingDayMinutes = working ? working[1] - working[0] : DEFAULT_WORKING_DAY_MINUTES;
+  const rateCents = toCents(rate);
+  const perMinuteCents = rateType === 'hourly' ? rateCents / 60 : rateCents / workingDayMinutes;
+  const weekendDays = rules.weekendDays ?? DEFAULT_WEEKEND_DAYS;
+
+  const lines: PriceLine[] = [];
+  // `billed` may be less than `minutes` where a day rate caps regular time
+  const addLine = (
+    date: string,
+    kind: PriceLineKind,
+    minutes: number,
+    billed: number,
+    multiplier: number,
+  ) => {
+    if (minutes > 0) {
+      const cents = Math.round(perMinuteCents * billed * multiplier);
+      lines.push({ date, kind, minutes, multiplier, amount: fromCents(cents) });
+    }
+  };
+
+  const lastDate = localDate(new Date(endTime.getTime() - 1), timeZone);
+  for (let date = localDate(startTime, timeZone); date <= lastDate; date = addDays(date, 1)) {
+    const dayStart = zonedTimeToUtc(date, 0, timeZone);
+    const dayEnd = zonedTimeToUtc(addDays(date, 1), 0, timeZone);
+    const segment: [Date, Date] = [
+      startTime > dayStart ? startTime : dayStart,
+      endTime < dayEnd ? endTime : dayEnd,
+    ];
+    const minutes = Math.round((segment[1].getTime() - segment[0].getTime()) / MINUTE_MS);
+
+    // Overnight working hours that began the day before count too
+    const regular = working
+      ? [addDays(date, -1), date].reduce(
+          (sum, day) =>
+            sum +
+            overlapMinutes(segment, [
+              zonedTimeToUtc(day, working[0], timeZone),
+              zonedTimeToUtc(day, working[1], timeZone),
+            ]),
+          0,
+        )
+      : minutes;
+    const overtime = minutes - regular;
+    const billedRegular = rateType === 'daily' ? Math.min(regular, workingDayMinutes) : regular;
+
+    if (rules.weekendMultiplier !== undefined && weekendDays.includes(dayOfWeek(date))) {
+      addLine(date, 'weekend', minutes, billedRegular + overtime, rules.weekendMultiplier);
+    } else {
+      addLine(date, 'regular', regular, billedRegular, 1);
+      addLine(date, 'overtime', overtime, overtime, rules.overtimeMultiplier ?? 1);
+    }
+  }
+
+  const totalCents = lines.reduce((sum, line) => sum + toCents(line.amount), 0);
+
+  return { rate, rateType, totalAmount: fromCents(totalCents), lines };
+}
@@ -0,0 +1,175 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { DrizzleTransaction } from '../../common/types/drizzle.types';
+import { Booking } from '../../database/schema';
+import { NotificationService } from '../notification/notification.service';
+import { toCents } from './cancellation';
+import {
+  BudgetBurn,
+  DEFAULT_WARN_AT_PERCENT,
+  SpendCents,
+  addSpend,
+  budgetBurn,
+  crossedThresholds,
+  emptySpend,
+  estimateCents,
+  forecastCents,
+} from './budget';
+import { BookingRepository } from './repositories/booking.repository';
+import { BookingApprovalRepository } from './repositories/booking-approval.repository';
+import { ProjectBudgetRepository } from './repositories/project-budget.repository';
+
+const DEFAULT_NOTIFY_ROLES = ['owner', 'manager'] as const;
+
+export interface PhaseBudget extends BudgetBurn {
+  // Null for the project's bookings that belong to no phase
+  phaseId: string | null;
+  name: string | null;
+}
+
+export interface ProjectBudget extends BudgetBurn {
+  projectId: string;
+  name: string;
+  warnAtPercent: number[];
+  phases: PhaseBudget[];
+}
+
+/**
+ * A project's booking spend against its budget, over all its bookings
+ * whenever they run: what is spent, committed and still tentative, and the
+ * forecast to complete. Booking writes report here too, so owners hear
+ * when a booking takes the forecast past one of the tenant's thresholds.
+ */
+@Injectable()
+export class ProjectBudgetService {
+  constructor(
+    private readonly bookingRepository: BookingRepository,
+    private readonly projectBudgetRepository: ProjectBudgetRepository,
+    private readonly bookingApprovalRepository: BookingApprovalRepository,
+    private readonly notificationService: NotificationService,
+  ) {}
+
+  async report(projectId: string, tenantId: string): Promise<ProjectBudget> {
+    const project = await this.projectBudgetRepository.findProject(projectId, tenantId);
+    if (!project) {
+      throw new NotFoundException('Project not found');
+    }
+
+    const [rows, phases] = await Promise.all([
+      this.bookingRepository.sumProjectCosts(tenantId, projectId),
+      this.projectBudgetRepository.findPhases(projectId),
+    ]);
+    const warnAtPercent = project.rules?.warnAtPercent ?? DEFAULT_WARN_AT_PERCENT;
+
+    const total = { spend: emptySpend(), bookings: 0 };
+    const byPhase = new Map<string | null, { spend: SpendCents; bookings: number }>(
+      phases.map((phase) => [phase.id, { spend: emptySpend(), bookings: 0 }]),
+    );
+    for (const row of rows) {
+      let phase = byPhase.get(row.phaseId);
+      if (!phase) {
+        phase = { spend: emptySpend(), bookings: 0 };
+        byPhase.set(row.phaseId, phase);
+      }
+
+      for (const into of [total, phase]) {
+        addSpend(into.spend, row.status, row.totalAmount, row.killFees);
+        into.bookings += row.bookings;
+      }
+    }
+
+    const phaseOf = new Map(phases.map((phase) => [phase.id, phase]));
+    return {
+      projectId,
+      name: project.name,
+      warnAtPercent,
+      ...budgetBurn(total.spend, total.bookings, project.budget, warnAtPercent),
+      phases: [...byPhase].map(([phaseId, { spend, bookings }]) => ({
+        phaseId,
+        name: phaseId ? phaseOf.get(phaseId)!.name : null,
+        ...budgetBurn(
+          spend,
+          bookings,
+          phaseId ? phaseOf.get(phaseId)!.budget : null,
+          warnAtPercent,
+        ),
+      })),
+    };
+  }
+
+  /**
+   * Notifies the tenant's owners and managers (or the roles its rules name)
+   * when writing `after` took its project's estimate at completion past a
+   * warning threshold. `before` is the booking as it was, or null for a
+   * new one. Runs inside the booking's transaction, holding the project
+   * row until it ends so concurrent writes to the project's bookings sum
+   * one after the other and each threshold is announced once.
+   */
+  async checkWithin(tx: DrizzleTransaction, before: Booking | null, after: Booking) {
+    if (!after.projectId) {
+      return;
+    }
+
+    const added =
+      forecastCents(after) -
+      (before && before.projectId === after.projectId ? forecastCents(before) : 0);
+    if (added <= 0) {
+      return;
+    }
+
+    await this.projectBudgetRepository.lockProject(after.projectId, after.tenantId, tx);
+    const project = await this.projectBudgetRepository.findProject(
+      after.projectId,
+      after.tenantId,
+      tx,
+    );
+    const budgetCents = project?.budget ? toCents(project.budget) : 0;
+    if (!project || budgetCents <= 0) {
+      return;
+    }
+
+    const spend = emptySpend();
+    for (const row of await this.bookingRepository.sumProjectCosts(
+      after.tenantId,
+      project.id,
+      tx,
+    )) {
+      addSpend(spend, row.status, row.totalAmount, row.killFees);
+    }
+    const estimate = estimateCents(spend);
+    const crossed = crossedThresholds(
+      estimate - added,
+      estimate,
+      budgetCents,
+      project.rules?.warnAtPercent ?? DEFAULT_WARN_AT_PERCENT,
+    );
+    if (crossed.length === 0) {
+      return;
+    }
+
+    const recipients = await this.bookingApprovalRepository.findUsersWithRoles(
+      after.tenantId,
+      project.rules?.notifyRoles ?? DEFAULT_NOTIFY_ROLES,
+      undefined,
+      tx,
+    );
+    for (const recipient of recipients) {
+      await this.notificationService.createNotification(
+        {
+          tenantId: after.tenantId,
+          userId: recipient.id,
+          type: 'project_budget_threshold',
+          channel: 'in-app',
+          payload: {
+            projectId: project.id,
+            projectName: project.name,
+            bookingId: after.id,
+            threshold: crossed[crossed.length - 1],
+            budget: project.budget,
+            estimateAtCompletion: (estimate / 100).toFixed(2),
+          },
+        },
+        tx,
+      );
+    }
+  }
+}
@@ -0,0 +1,111 @@
+import {
+  isOccurrence,
+  normalizeRecurrenceRule,
+  occurrencesBetween,
+  parseRecurrenceRule,
+  splitRecurrenceRule,
+} from './recurrence';
+
+const iso = (dates: Date[]) => dates.map((date) => date.toISOString());
+
+describe('recurrence', () => {
+  describe('parseRecurrenceRule', () => {
+    it('rejects a rule that carries its own DTSTART', () => {
+      expect(() => parseRecurrenceRule('DTSTART:20261019T090000Z\nRRULE:FREQ=DAILY')).toThrow(
+        'must not include DTSTART',
+      );
+    });
+
+    it('requires FREQ', () => {
+      expect(() => parseRecurrenceRule('COUNT=3')).toThrow('must specify FREQ');
+    });
+  });
+
+  it('normalizes the rule without its RRULE: prefix', () => {
+    expect(normalizeRecurrenceRule('RRULE:FREQ=WEEKLY;BYDAY=MO,WE')).toBe(
+      'FREQ=WEEKLY;BYDAY=MO,WE',
+    );
+  });
+
+  describe('occurrencesBetween', () => {
+    it('keeps the local time of day across a DST change', () => {
+      const source = {
+        rrule: 'FREQ=DAILY',
+        dtstart: new Date('2026-03-06T14:00:00Z'),
+        timeZone: 'America/New_York',
+      };
+
+      expect(
+        iso(occurrencesBetween(source, source.dtstart, new Date('2026-03-09T23:59:59Z'))),
+      ).toEqual([
+        '2026-03-06T14:00:00.000Z',
+        '2026-03-07T14:00:00.000Z',
+        '2026-03-08T13:00:00.000Z',
+        '2026-03-09T13:00:00.000Z',
+      ]);
+    });
+
+    it('repeats in UTC for series without a zone', () => {
+      const source = { rrule: 'FREQ=DAILY', dtstart: new Date('2026-03-07T14:00:00Z') };
+
+      expect(
+        iso(occurrencesBetween(source, source.dtstart, new Date('2026-03-08T23:59:59Z'))),
+      ).toEqual(['2026-03-07T14:00:00.000Z', '2026-03-08T14:00:00.000Z']);
+    });
+
+    it('skips exdates', () => {
+      const source = {
+        rrule: 'FREQ=DAILY;COUNT=3',
+        dtstart: new Date('2026-10-19T09:00:00Z'),
+        exdates: ['2026-10-20T09:00:00.000Z'],
+        timeZone: 'UTC',
+      };
+
+      expect(
+        iso(occurrencesBetween(source, source.dtstart, new Date('2026-12-31T00:00:00Z'))),
+      ).toEqual(['2026-10-19T09:00:00.000Z', '2026-10-21T09:00:00.000Z']);
+    });
+
+    it('rejects an expansion past the limit', () => {
+      const source = { rrule: 'FREQ=HOURLY', dtstart: new Date('2026-10-19T00:00:00Z') };
+
+      expect(() =>
+        occurrencesBetween(source, source.dtstart, new Date('2026-10-20T00:00:00Z'), 10),
+      ).toThrow('more than 10 occurrences');
+    });
+  });
+
+  it('tells whether a date is an occurrence', () => {
+    const source = {
+      rrule: 'FREQ=WEEKLY;BYDAY=MO',
+      dtstart: new Date('2026-10-19T09:00:00Z'),
+      timeZone: 'Europe/Berlin',
+    };
+
+    expect(isOccurrence(source, new Date('2026-10-26T10:00:00Z'))).toBe(true);
+    expect(isOccurrence(source, new Date('2026-10-26T09:00:00Z'))).toBe(false);
+    expect(isOccurrence(source, new Date('2026-10-27T10:00:00Z'))).toBe(false);
+  });
+
+  describe('splitRecurrenceRule', () => {
+    const pivot = new Date('2026-10-21T09:00:00Z');
+
+    it('ends the first rule just before the pivot', () => {
+      const source = { rrule: 'FREQ=DAILY', dtstart: new Date('2026-10-19T09:00:00Z') };
+
+      expect(splitRecurrenceRule(source, pivot)).toEqual({
+        before: 'FREQ=DAILY;UNTIL=20261021T085959Z',
+        after: 'FREQ=DAILY',
+      });
+    });
+
+    it('shares a COUNT out between the two rules', () => {
+      const source = { rrule: 'FREQ=DAILY;COUNT=5', dtstart: new Date('2026-10-19T09:00:00Z') };
+
+      expect(splitRecurrenceRule(source, pivot)).toEqual({
+        before: 'FREQ=DAILY;UNTIL=20261021T085959Z',
+        after: 'FREQ=DAILY;COUNT=3',
+      });
+    });
+  });
+});
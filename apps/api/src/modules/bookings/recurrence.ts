@@ -0,0 +1,166 @@
+import { BadRequestException } from '@nestjs/common';
+import { Options, RRule } from 'rrule';
+import { omit } from '../../common/utils/omit';
+import { timeZoneOffset, zonedTimeToUtc } from '../../common/utils/time-zone';
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+// Guards a single expansion against rules like FREQ=MINUTELY
+export const MAX_OCCURRENCES_PER_EXPANSION = 366;
+
+export interface RecurrenceSource {
+  rrule: string;
+  dtstart: Date;
+  exdates?: string[] | null;
+  // Zone whose wall clock the rule repeats on, so a daily 9am booking stays
+  // at 9am across DST changes; null expands in UTC
+  timeZone?: string | null;
+}
+
+/**
+ * Parses an RFC 5545 RRULE (with or without the "RRULE:" prefix). The
+ * series' first occurrence is its DTSTART, so rules may not carry one.
+ */
+export function parseRecurrenceRule(rrule: string): Partial<Options> {
+  if (/DTSTART/i.test(rrule)) {
+    throw new BadRequestException('RRULE must not include DTSTART; the first occurrence sets it');
+  }
+
+  let options: Partial<Options>;
+  try {
+    options = RRule.parseString(rrule.trim());
+  } catch (error) {
+    throw new BadRequestException(
+      `Invalid RRULE: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+
+  if (options.freq === undefined || options.freq === null) {
+    throw new BadRequestException('RRULE must specify FREQ');
+  }
+
+  return options;
+}
+
+/**
+ * Canonical form stored on booking_series: the rule parts only, without
+ * the "RRULE:" prefix.
+ */
+export function formatRecurrenceRule(options: Partial<Options>): string {
+  return RRule.optionsToString(omit(options, ['dtstart', 'tzid'])).replace(/^RRULE:/, '');
+}
+
+export function normalizeRecurrenceRule(rrule: string): string {
+  return formatRecurrenceRule(parseRecurrenceRule(rrule));
+}
+
+// rrule has no zone support; it expands wall-clock readings dressed as UTC
+function toWallClock(instant: Date, timeZone: string): Date {
+  return new Date(instant.getTime() + timeZoneOffset(instant, timeZone));
+}
+
+function fromWallClock(wallClock: Date, timeZone: string): Date {
+  const minutes = wallClock.getUTCHours() * 60 + wallClock.getUTCMinutes();
+  const instant = zonedTimeToUtc(wallClock.toISOString().slice(0, 10), minutes, timeZone);
+  return new Date(instant.getTime() + wallClock.getUTCSeconds() * 1000);
+}
+
+function buildRule(source: RecurrenceSource): RRule {
+  const options = parseRecurrenceRule(source.rrule);
+  if (!source.timeZone) {
+    return new RRule({ ...options, dtstart: source.dtstart });
+  }
+
+  return new RRule({
+    ...options,
+    dtstart: toWallClock(source.dtstart, source.timeZone),
+    until: options.until ? toWallClock(options.until, source.timeZone) : options.until,
+  });
+}
+
+/**
+ * Occurrence start times in [from, until]. Stops once `limit` + 1 have
+ * been found, so callers can tell the limit was exceeded.
+ */
+function expand(source: RecurrenceSource, from: Date, until: Date, limit = Infinity): Date[] {
+  const timeZone = source.timeZone;
+  const rule = buildRule(source);
+
+  if (!timeZone) {
+    return rule.between(from, until, true, (_date, count) => count <= limit);
+  }
+
+  // The wall clock repeats an hour when DST ends, so search a padded window
+  // and keep what lands inside the real one
+  const occurrences: Date[] = [];
+  rule.between(
+    new Date(toWallClock(from, timeZone).getTime() - DAY_MS),
+    new Date(toWallClock(until, timeZone).getTime() + DAY_MS),
+    true,
+    (wallClock) => {
+      const instant = fromWallClock(wallClock, timeZone);
+      if (instant >= from && instant <= until) {
+        occurrences.push(instant);
+      }
+      return occurrences.length <= limit;
+    },
+  );
+
+  return occurrences;
+}
+
+/**
+ * Occurrence start times in [from, until], skipping EXDATEs. Rejects
+ * expansions larger than `limit`.
+ */
+export function occurrencesBetween(
+  source: RecurrenceSource,
+  from: Date,
+  until: Date,
+  limit = MAX_OCCURRENCES_PER_EXPANSION,
+): Date[] {
+  const excluded = new Set((source.exdates ?? []).map((date) => new Date(date).getTime()));
+
+  // One past the limit is enough to tell
+  const occurrences = expand(source, from, until, limit);
+
+  if (occurrences.length > limit) {
+    throw new BadRequestException(
+      `Expansion would create more than ${limit} occurrences; use a shorter window`,
+    );
+  }
+
+  return occurrences.filter((date) => !excluded.has(date.getTime()));
+}
+
+export function isOccurrence(source: RecurrenceSource, date: Date): boolean {
+  return expand(source, date, date).length > 0;
+}
+
+/**
+ * Splits a series at `pivot` for a "this and following" edit: the rule that
+ * keeps the occurrences before it, and the rule for a new series starting
+ * at it. A COUNT is shared out so the two together cover the original run.
+ */
+export function splitRecurrenceRule(
+  source: RecurrenceSource,
+  pivot: Date,
+): { before: string; after: string } {
+  const options = parseRecurrenceRule(source.rrule);
+  const open = omit(options, ['count', 'until']);
+
+  const before = formatRecurrenceRule({
+    ...open,
+    until: new Date(pivot.getTime() - 1000),
+  });
+
+  if (!options.count) {
+    return { before, after: formatRecurrenceRule(options) };
+  }
+
+  const preceding = expand(source, source.dtstart, new Date(pivot.getTime() - 1)).length;
+  const remaining = Math.max(options.count - preceding, 1);
+
+  return { before, after: formatRecurrenceRule({ ...open, count: remaining }) };
+}
@@ -0,0 +1,145 @@
+import { Injectable, Inject } from '@nestjs/common';
+import { and, asc, eq, gt, gte, inArray, isNull, lt, lte, or, SQL } from 'drizzle-orm';
+import { DrizzleDatabase } from '../../../common/types/drizzle.types';
+import {
+  artistProfiles,
+  artists,
+  artistTimeOff,
+  availabilityPatterns,
+  tenants,
+} from '../../../database/schema';
+
+export type ArtistRecord = typeof artists.$inferSelect;
+export type AvailabilityPatternRecord = typeof availabilityPatterns.$inferSelect;
+export type TimeOffRecord = typeof artistTimeOff.$inferSelect;
+export type NewTimeOff = typeof artistTimeOff.$inferInsert;
+
+export interface ArtistScheduleSettings {
+  artistId: string;
+  artistTimeZone: string | null;
+  tenantTimeZone: string | null;
+  workingHours?: { start: string; end: string };
+}
+
+@Injectable()
+export class AvailabilityRepository {
+  constructor(
+    @Inject('DATABASE_CONNECTION') private readonly db: DrizzleDatabase,
+  ) {}
+
+  /**
+   * Time zones and working hours for each of the artists that belong to
+   * the tenant; unknown ids are left out.
+   */
+  async findScheduleSettings(
+    artistIds: string[],
+    tenantId: string,
+  ): Promise<ArtistScheduleSettings[]> {
+    if (artistIds.length === 0) {
+      return [];
+    }
+
+    const rows = await this.db
+      .select({
+        artistId: artists.id,
+        artistTimeZone: artistProfiles.timezone,
+        tenantSettings: tenants.settings,
+      })
+      .from(artists)
+      .innerJoin(tenants, eq(tenants.id, artists.tenantId))
+      .leftJoin(artistProfiles, eq(artistProfiles.artistId, artists.id))
+      .where(and(inArray(artists.id, artistIds), eq(artists.tenantId, tenantId)));
+
+    return rows.map((row) => ({
+      artistId: row.artistId,
+      artistTimeZone: row.artistTimeZone,
+      tenantTimeZone: row.tenantSettings?.timezone ?? null,
+      workingHours: row.tenantSettings?.workingHours,
+    }));
+  }
+
+  async findActiveArtists(
+    tenantId: string,
+    filters: { type?: ArtistRecord['type'] } = {},
+  ): Promise<ArtistRecord[]> {
+    const conditions: SQL[] = [eq(artists.tenantId, tenantId), eq(artists.isActive, true)];
+    if (filters.type) {
+      conditions.push(eq(artists.type, filters.type));
+    }
+
+    return this.db
+      .select()
+      .from(artists)
+      .where(and(...conditions))
+      .orderBy(asc(artists.name));
+  }
+
+  /**
+   * Patterns whose validity overlaps [from, to]. Open-ended bounds always
+   * match.
+   */
+  async findPatterns(
+    artistIds: string[],
+    from: Date,
+    to: Date,
+  ): Promise<AvailabilityPatternRecord[]> {
+    if (artistIds.length === 0) {
+      return [];
+    }
+
+    return this.db
+      .select()
+      .from(availabilityPatterns)
+      .where(
+        and(
+          inArray(availabilityPatterns.artistId, artistIds),
+          or(isNull(availabilityPatterns.validFrom), lte(availabilityPatterns.validFrom, to)),
+          or(isNull(availabilityPatterns.validUntil), gte(availabilityPatterns.validUntil, from)),
+        ),
+      );
+  }
+
+  async findTimeOff(
+    artistIds: string[],
+    tenantId: string,
+    from: Date,
+    to: Date,
+  ): Promise<TimeOffRecord[]> {
+    if (artistIds.length === 0) {
+      return [];
+    }
+
+    return this.db
+      .select()
+      .from(artistTimeOff)
+      .where(
+        and(
+          inArray(artistTimeOff.artistId, artistIds),
+          eq(artistTimeOff.tenantId, tenantId),
+          lt(artistTimeOff.startTime, to),
+          gt(artistTimeOff.endTime, from),
+        ),
+      )
+      .orderBy(asc(artistTimeOff.startTime));
+  }
+
+  async createTimeOff(data: NewTimeOff): Promise<TimeOffRecord> {
+    const [created] = await this.db.insert(artistTimeOff).values(data).returning();
+    return created;
+  }
+
+  async deleteTimeOff(id: string, artistId: string, tenantId: string): Promise<boolean> {
+    const deleted = await this.db
+      .delete(artistTimeOff)
+      .where(
+        and(
+          eq(artistTimeOff.id, id),
+          eq(artistTimeOff.artistId, artistId),
+          eq(artistTimeOff.tenantId, tenantId),
+        ),
+      )
+      .returning({ id: artistTimeOff.id });
+
+    return deleted.length > 0;
+  }
+}
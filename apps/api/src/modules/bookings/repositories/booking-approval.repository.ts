@@ -0,0 +1,145 @@
+import { Injectable, Inject } from '@nestjs/common';
+import { and, desc, eq, inArray, sql, SQL } from 'drizzle-orm';
+import { DrizzleDatabase, DrizzleTransaction } from '../../../common/types/drizzle.types';
+import { bookingApprovals, users } from '../../../database/schema';
+
+export type BookingApprovalRecord = typeof bookingApprovals.$inferSelect;
+export type NewBookingApproval = typeof bookingApprovals.$inferInsert;
+export type BookingApprovalStatus = BookingApprovalRecord['status'];
+export type ApprovalComment = BookingApprovalRecord['comments'][number];
+
+type Executor = DrizzleDatabase | DrizzleTransaction;
+
+@Injectable()
+export class BookingApprovalRepository {
+  constructor(
+    @Inject('DATABASE_CONNECTION') private readonly db: DrizzleDatabase,
+  ) {}
+
+  async findOne(
+    id: string,
+    tenantId: string,
+    executor: Executor = this.db,
+  ): Promise<BookingApprovalRecord | null> {
+    const [approval] = await executor
+      .select()
+      .from(bookingApprovals)
+      .where(and(eq(bookingApprovals.id, id), eq(bookingApprovals.tenantId, tenantId)))
+      .limit(1);
+
+    return approval || null;
+  }
+
+  // Locks the request until the transaction ends, so decisions apply one at a time
+  async findOneForUpdate(
+    id: string,
+    tenantId: string,
+    tx: DrizzleTransaction,
+  ): Promise<BookingApprovalRecord | null> {
+    const [approval] = await tx
+      .select()
+      .from(bookingApprovals)
+      .where(and(eq(bookingApprovals.id, id), eq(bookingApprovals.tenantId, tenantId)))
+      .for('update');
+
+    return approval || null;
+  }
+
+  async findPending(
+    bookingId: string,
+    tenantId: string,
+    executor: Executor = this.db,
+  ): Promise<BookingApprovalRecord | null> {
+    const [approval] = await executor
+      .select()
+      .from(bookingApprovals)
+      .where(
+        and(
+          eq(bookingApprovals.bookingId, bookingId),
+          eq(bookingApprovals.tenantId, tenantId),
+          eq(bookingApprovals.status, 'pending'),
+        ),
+      )
+      .limit(1);
+
+    return approval || null;
+  }
+
+  async findAll(filters: {
+    tenantId: string;
+    status?: BookingApprovalStatus;
+    bookingId?: string;
+  }): Promise<BookingApprovalRecord[]> {
+    const conditions: SQL[] = [eq(bookingApprovals.tenantId, filters.tenantId)];
+    if (filters.status) {
+      conditions.push(eq(bookingApprovals.status, filters.status));
+    }
+    if (filters.bookingId) {
+      conditions.push(eq(bookingApprovals.bookingId, filters.bookingId));
+    }
+
+    return this.db
+      .select()
+      .from(bookingApprovals)
+      .where(and(...conditions))
+      .orderBy(desc(bookingApprovals.createdAt));
+  }
+
+  async create(data: NewBookingApproval, executor: Executor = this.db): Promise<BookingApprovalRecord> {
+    const [created] = await executor.insert(bookingApprovals).values(data).returning();
+    return created;
+  }
+
+  async update(
+    id: string,
+    data: Partial<NewBookingApproval>,
+    executor: Executor = this.db,
+  ): Promise<BookingApprovalRecord> {
+    const [updated] = await executor
+      .update(bookingApprovals)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(bookingApprovals.id, id))
+      .returning();
+
+    return updated;
+  }
+
+  // Appended in place, so concurrent comments don't overwrite each other
+  async addComment(
+    id: string,
+    comment: ApprovalComment,
+    executor: Executor = this.db,
+  ): Promise<BookingApprovalRecord> {
+    const [updated] = await executor
+      .update(bookingApprovals)
+      .set({
+        comments: sql`${bookingApprovals.comments} || ${JSON.stringify([comment])}::jsonb`,
+        updatedAt: new Date(),
+      })
+      .where(eq(bookingApprovals.id, id))
+      .returning();
+
+    return updated;
+  }
+
+  // Users of the tenant holding one of `roles`, optionally only those listed
+  async findUsersWithRoles(
+    tenantId: string,
+    roles: readonly string[],
+    userIds?: string[],
+    executor: Executor = this.db,
+  ): Promise<Array<{ id: string }>> {
+    const conditions: SQL[] = [
+      eq(users.tenantId, tenantId),
+      inArray(users.role, roles as Array<(typeof users.$inferSelect)['role']>),
+    ];
+    if (userIds) {
+      if (userIds.length === 0) {
+        return [];
+      }
+      conditions.push(inArray(users.id, userIds));
+    }
+
+    return executor.select({ id: users.id }).from(users).where(and(...conditions));
+  }
+}
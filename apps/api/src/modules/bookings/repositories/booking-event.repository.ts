@@ -0,0 +1,159 @@
+import { Injectable, Inject } from '@nestjs/common';
+import { and, eq, gt, inArray, lte, sql, SQL } from 'drizzle-orm';
+import { DrizzleDatabase, DrizzleTransaction } from '../../../common/types/drizzle.types';
+import { Booking, bookingEvents } from '../../../database/schema';
+import { BOOKING_EVENT_TYPES, BookingRow, TypedBookingEvent } from '../booking-events';
+
+export type BookingEventRecord = typeof bookingEvents.$inferSelect;
+export type BookingEventType = BookingEventRecord['eventType'];
+
+@Injectable()
+export class BookingEventRepository {
+  constructor(
+    @Inject('DATABASE_CONNECTION') private readonly db: DrizzleDatabase,
+  ) {}
+
+  /**
+   * Appends the next event for the aggregate. The version is derived inside
+   * the insert, and booking_events_unique_version rejects a concurrent
+   * writer that computed the same one.
+   */
+  async append(
+    event: TypedBookingEvent & {
+      aggregateId: string;
+      tenantId: string;
+      userId?: string | null;
+    },
+    executor: DrizzleDatabase | DrizzleTransaction = this.db,
+  ): Promise<BookingEventRecord> {
+    const nextVersion = sql<number>`(
+      SELECT COALESCE(MAX(${bookingEvents.eventVersion}), 0) + 1
+      FROM ${bookingEvents}
+      WHERE ${bookingEvents.aggregateId} = ${event.aggregateId}
+    )`;
+
+    const [appended] = await executor
+      .insert(bookingEvents)
+      .values({
+        ...event,
+        eventVersion: nextVersion,
+      })
+      .returning();
+
+    return appended;
+  }
+
+  /**
+   * Bookings written before event sourcing have no events. Opens such a
+   * booking's stream with a booking_created snapshot of `row`, which must
+   * be the booking as it was before the write about to be recorded.
+   */
+  async ensureStream(
+    row: Booking,
+    executor: DrizzleDatabase | DrizzleTransaction = this.db,
+  ): Promise<void> {
+    const [tracked] = await executor
+      .select({ id: bookingEvents.id })
+      .from(bookingEvents)
+      .where(eq(bookingEvents.aggregateId, row.id))
+      .limit(1);
+    if (tracked) {
+      return;
+    }
+
+    await this.append(
+      {
+        aggregateId: row.id,
+        tenantId: row.tenantId,
+        eventType: 'booking_created',
+        eventData: { snapshot: row as BookingRow },
+        userId: row.updatedBy,
+      },
+      executor,
+    );
+  }
+
+  async findByAggregate(aggregateId: string): Promise<BookingEventRecord[]> {
+    return this.db
+      .select()
+      .from(bookingEvents)
+      .where(eq(bookingEvents.aggregateId, aggregateId))
+      .orderBy(bookingEvents.eventVersion);
+  }
+
+  /**
+   * Every booking event for the tenant, grouped by aggregate and in replay
+   * order, optionally only those that occurred by `until`. Project and
+   * artist events share the table and are skipped.
+   *
+   * The other options keep only some bookings' streams, by what their
+   * events up to `until` say: `changedAfter` keeps bookings written after
+   * that time; `artistId` keeps bookings some event put on that artist;
+   * `startDate` and `endDate` keep bookings some event gave an end after
+   * the start and some event a start before the end. Replay still decides
+   * where each booking stood.
+   */
+  async findByTenant(
+    tenantId: string,
+    options: {
+      until?: Date;
+      changedAfter?: Date;
+      artistId?: string;
+      startDate?: Date;
+      endDate?: Date;
+    } = {},
+    executor: DrizzleDatabase | DrizzleTransaction = this.db,
+  ): Promise<BookingEventRecord[]> {
+    const conditions: SQL[] = [
+      eq(bookingEvents.tenantId, tenantId),
+      inArray(bookingEvents.eventType, [...BOOKING_EVENT_TYPES]),
+    ];
+    if (options.until) {
+      conditions.push(lte(bookingEvents.occurredAt, options.until));
+    }
+
+    // The columns a creation snapshot or a change event sets
+    const payload = sql`COALESCE(
+      ${bookingEvents.eventData}->'snapshot',
+      ${bookingEvents.eventData}->'changes'
+    )`;
+    const at = (date: Date) => sql`${date.toISOString()}::timestamptz`;
+    const withEvent = (condition: SQL) =>
+      inArray(
+        bookingEvents.aggregateId,
+        executor
+          .select({ aggregateId: bookingEvents.aggregateId })
+          .from(bookingEvents)
+          .where(
+            and(
+              eq(bookingEvents.tenantId, tenantId),
+              options.until ? lte(bookingEvents.occurredAt, options.until) : undefined,
+              condition,
+            ),
+          ),
+      );
+
+    if (options.changedAfter) {
+      conditions.push(withEvent(gt(bookingEvents.occurredAt, options.changedAfter)));
+    }
+    if (options.artistId) {
+      conditions.push(withEvent(sql`${payload}->>'artistId' = ${options.artistId}`));
+    }
+    if (options.startDate) {
+      conditions.push(
+        withEvent(sql`(${payload}->>'endTime')::timestamptz > ${at(options.startDate)}`),
+      );
+    }
+    if (options.endDate) {
+      conditions.push(
+        withEvent(sql`(${payload}->>'startTime')::timestamptz < ${at(options.endDate)}`),
+      );
+    }
+
+    return executor
+      .select()
+      .from(bookingEvents)
+      .where(and(...conditions))
+      .orderBy(bookingEvents.aggregateId, bookingEvents.eventVersion);
+  }
+}
@@ -0,0 +1,56 @@
+import { Injectable, Inject } from '@nestjs/common';
+import { eq } from 'drizzle-orm';
+import { DrizzleDatabase } from '../../../common/types/drizzle.types';
+import { artists, projects, tenants } from '../../../database/schema';
+
+export interface ImportArtist {
+  id: string;
+  name: string;
+  email: string | null;
+  isActive: boolean | null;
+}
+
+export interface ImportProject {
+  id: string;
+  name: string;
+  code: string | null;
+}
+
+/**
+ * Lookups that turn the names and codes in an imported sheet into ids.
+ */
+@Injectable()
+export class BookingImportRepository {
+  constructor(
+    @Inject('DATABASE_CONNECTION') private readonly db: DrizzleDatabase,
+  ) {}
+
+  async findArtists(tenantId: string): Promise<ImportArtist[]> {
+    return this.db
+      .select({
+        id: artists.id,
+        name: artists.name,
+        email: artists.email,
+        isActive: artists.isActive,
+      })
+      .from(artists)
+      .where(eq(artists.tenantId, tenantId));
+  }
+
+  async findProjects(tenantId: string): Promise<ImportProject[]> {
+    return this.db
+      .select({ id: projects.id, name: projects.name, code: projects.code })
+      .from(projects)
+      .where(eq(projects.tenantId, tenantId));
+  }
+
+  async findTenantTimeZone(tenantId: string): Promise<string | null> {
+    const [tenant] = await this.db
+      .select({ settings: tenants.settings })
+      .from(tenants)
+      .where(eq(tenants.id, tenantId))
+      .limit(1);
+
+    return tenant?.settings?.timezone ?? null;
+  }
+}
@@ -0,0 +1,83 @@
+import { Injectable, Inject } from '@nestjs/common';
+import { and, asc, eq, sql } from 'drizzle-orm';
+import { DrizzleDatabase, DrizzleTransaction } from '../../../common/types/drizzle.types';
+import { bookings, bookingSeries, Booking } from '../../../database/schema';
+
+export type BookingSeriesRecord = typeof bookingSeries.$inferSelect;
+export type NewBookingSeries = typeof bookingSeries.$inferInsert;
+
+type Executor = DrizzleDatabase | DrizzleTransaction;
+
+@Injectable()
+export class BookingSeriesRepository {
+  constructor(
+    @Inject('DATABASE_CONNECTION') private readonly db: DrizzleDatabase,
+  ) {}
+
+  async findOne(
+    id: string,
+    tenantId: string,
+    executor: Executor = this.db,
+  ): Promise<BookingSeriesRecord | null> {
+    const [series] = await executor
+      .select()
+      .from(bookingSeries)
+      .where(and(eq(bookingSeries.id, id), eq(bookingSeries.tenantId, tenantId)))
+      .limit(1);
+
+    return series || null;
+  }
+
+  /**
+   * Reads the series and locks its row until the transaction ends, so
+   * series edits and expansions apply one at a time.
+   */
+  async findOneForUpdate(
+    id: string,
+    tenantId: string,
+    tx: DrizzleTransaction,
+  ): Promise<BookingSeriesRecord | null> {
+    const [series] = await tx
+      .select()
+      .from(bookingSeries)
+      .where(and(eq(bookingSeries.id, id), eq(bookingSeries.tenantId, tenantId)))
+      .for('update');
+
+    return series || null;
+  }
+
+  async create(data: NewBookingSeries, executor: Executor = this.db): Promise<BookingSeriesRecord> {
+    const [created] = await executor.insert(bookingSeries).values(data).returning();
+    return created;
+  }
+
+  async update(
+    id: string,
+    data: Partial<NewBookingSeries>,
+    executor: Executor = this.db,
+  ): Promise<BookingSeriesRecord> {
+    const [updated] = await executor
+      .update(bookingSeries)
+      .set({
+        ...data,
+        version: sql`${bookingSeries.version} + 1`,
+        updatedAt: new Date(),
+      })
+      .where(eq(bookingSeries.id, id))
+      .returning();
+
+    return updated;
+  }
+
+  /**
+   * Every booking generated by the series, cancelled ones included, in
+   * recurrence order.
+   */
+  async findOccurrences(seriesId: string, executor: Executor = this.db): Promise<Booking[]> {
+    return executor
+      .select()
+      .from(bookings)
+      .where(eq(bookings.seriesId, seriesId))
+      .orderBy(asc(bookings.recurrenceId));
+  }
+}
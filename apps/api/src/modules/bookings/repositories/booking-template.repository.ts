@@ -0,0 +1,81 @@
+import { Injectable, Inject } from '@nestjs/common';
+import { and, asc, eq } from 'drizzle-orm';
+import { DrizzleDatabase } from '../../../common/types/drizzle.types';
+import { artists, bookingTemplates, projects } from '../../../database/schema';
+
+export type BookingTemplateRecord = typeof bookingTemplates.$inferSelect;
+export type NewBookingTemplate = typeof bookingTemplates.$inferInsert;
+export type BookingTemplateRole = BookingTemplateRecord['roles'][number];
+
+@Injectable()
+export class BookingTemplateRepository {
+  constructor(
+    @Inject('DATABASE_CONNECTION') private readonly db: DrizzleDatabase,
+  ) {}
+
+  async findOne(id: string, tenantId: string): Promise<BookingTemplateRecord | null> {
+    const [template] = await this.db
+      .select()
+      .from(bookingTemplates)
+      .where(and(eq(bookingTemplates.id, id), eq(bookingTemplates.tenantId, tenantId)))
+      .limit(1);
+
+    return template || null;
+  }
+
+  async findAll(tenantId: string): Promise<BookingTemplateRecord[]> {
+    return this.db
+      .select()
+      .from(bookingTemplates)
+      .where(eq(bookingTemplates.tenantId, tenantId))
+      .orderBy(asc(bookingTemplates.name));
+  }
+
+  async create(data: NewBookingTemplate): Promise<BookingTemplateRecord> {
+    const [created] = await this.db.insert(bookingTemplates).values(data).returning();
+    return created;
+  }
+
+  async update(
+    id: string,
+    tenantId: string,
+    data: Partial<NewBookingTemplate>,
+  ): Promise<BookingTemplateRecord | null> {
+    const [updated] = await this.db
+      .update(bookingTemplates)
+      .set({ ...data, updatedAt: new Date() })
+      .where(and(eq(bookingTemplates.id, id), eq(bookingTemplates.tenantId, tenantId)))
+      .returning();
+
+    return updated || null;
+  }
+
+  async delete(id: string, tenantId: string): Promise<boolean> {
+    const deleted = await this.db
+      .delete(bookingTemplates)
+      .where(and(eq(bookingTemplates.id, id), eq(bookingTemplates.tenantId, tenantId)))
+      .returning({ id: bookingTemplates.id });
+
+    return deleted.length > 0;
+  }
+
+  async projectExists(projectId: string, tenantId: string): Promise<boolean> {
+    const [project] = await this.db
+      .select({ id: projects.id })
+      .from(projects)
+      .where(and(eq(projects.id, projectId), eq(projects.tenantId, tenantId)))
+      .limit(1);
+
+    return !!project;
+  }
+
+  async artistExists(artistId: string, tenantId: string): Promise<boolean> {
+    const [artist] = await this.db
+      .select({ id: artists.id })
+      .from(artists)
+      .where(and(eq(artists.id, artistId), eq(artists.tenantId, tenantId)))
+      .limit(1);
+
+    return !!artist;
+  }
+}
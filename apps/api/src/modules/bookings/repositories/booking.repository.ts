@@ -0,0 +1,392 @@
+import { Injectable, Inject } from '@nestjs/common';
+import { and, eq, gt, gte, lt, lte, ne, inArray, sql, SQL } from 'drizzle-orm';
+import { DrizzleDatabase, DrizzleTransaction } from '../../../common/types/drizzle.types';
+import {
+  artists,
+  bookings,
+  Booking,
+  projectPhases,
+  projects,
+  resourceBookings,
+} from '../../../database/schema';
+
+export type BookingStatus = NonNullable<Booking['status']>;
+export type NewBooking = typeof bookings.$inferInsert;
+export type BookingMetadata = NonNullable<NewBooking['metadata']>;
+
+type Executor = DrizzleDatabase | DrizzleTransaction;
+
+@Injectable()
+export class BookingRepository {
+  constructor(
+    @Inject('DATABASE_CONNECTION') private readonly db: DrizzleDatabase,
+  ) {}
+
+  async findAll(filters: {
+    tenantId: string;
+    startDate?: Date;
+    endDate?: Date;
+    artistId?: string;
+    projectId?: string;
+    resourceId?: string;
+    status?: BookingStatus[];
+  }): Promise<Booking[]> {
+    const conditions: SQL[] = [eq(bookings.tenantId, filters.tenantId)];
+
+    if (filters.startDate) {
+      conditions.push(gte(bookings.startTime, filters.startDate));
+    }
+    if (filters.endDate) {
+      conditions.push(lte(bookings.endTime, filters.endDate));
+    }
+    if (filters.artistId) {
+      conditions.push(eq(bookings.artistId, filters.artistId));
+    }
+    if (filters.projectId) {
+      conditions.push(eq(bookings.projectId, filters.projectId));
+    }
+    if (filters.status?.length) {
+      conditions.push(inArray(bookings.status, filters.status));
+    }
+    if (filters.resourceId) {
+      // Bookings holding a live reservation of the resource
+      conditions.push(
+        inArray(
+          bookings.id,
+          this.db
+            .select({ id: resourceBookings.bookingId })
+            .from(resourceBookings)
+            .where(
+              and(
+                eq(resourceBookings.resourceId, filters.resourceId),
+                eq(resourceBookings.status, 'reserved'),
+              ),
+            ),
+        ),
+      );
+    }
+
+    return this.db
+      .select()
+      .from(bookings)
+      .where(and(...conditions))
+      .orderBy(bookings.startTime);
+  }
+
+  async findOne(
+    id: string,
+    tenantId: string,
+    executor: Executor = this.db,
+  ): Promise<Booking | null> {
+    const [booking] = await executor
+      .select()
+      .from(bookings)
+      .where(and(eq(bookings.id, id), eq(bookings.tenantId, tenantId)))
+      .limit(1);
+
+    return booking || null;
+  }
+
+  // Locks the row until the transaction ends, holding off concurrent edits
+  async findOneForUpdate(
+    id: string,
+    tenantId: string,
+    tx: DrizzleTransaction,
+  ): Promise<Booking | null> {
+    const [booking] = await tx
+      .select()
+      .from(bookings)
+      .where(and(eq(bookings.id, id), eq(bookings.tenantId, tenantId)))
+      .for('update');
+
+    return booking || null;
+  }
+
+  async create(data: NewBooking, executor: Executor = this.db): Promise<Booking> {
+    const [created] = await executor.insert(bookings).values(data).returning();
+    return created;
+  }
+
+  /**
+   * Applies the update only if the row is still at `expectedVersion`, bumping
+   * the version in the same statement. Returns null when another writer got
+   * there first (or the booking is gone).
+   */
+  async updateWithVersion(
+    id: string,
+    tenantId: string,
+    expectedVersion: number,
+    data: Partial<NewBooking>,
+    executor: Executor = this.db,
+  ): Promise<Booking | null> {
+    const [updated] = await executor
+      .update(bookings)
+      .set({
+        ...data,
+        version: sql`${bookings.version} + 1`,
+        updatedAt: new Date(),
+      })
+      .where(
+        and(
+          eq(bookings.id, id),
+          eq(bookings.tenantId, tenantId),
+          eq(bookings.version, expectedVersion),
+        ),
+      )
+      .returning();
+
+    return updated || null;
+  }
+
+  async delete(
+    id: string,
+    tenantId: string,
+    expectedVersion?: number,
+    executor: Executor = this.db,
+  ): Promise<boolean> {
+    const conditions: SQL[] = [eq(bookings.id, id), eq(bookings.tenantId, tenantId)];
+    if (expectedVersion !== undefined) {
+      conditions.push(eq(bookings.version, expectedVersion));
+    }
+
+    const deleted = await executor
+      .delete(bookings)
+      .where(and(...conditions))
+      .returning({ id: bookings.id });
+
+    return deleted.length > 0;
+  }
+
+  /**
+   * Bookings for the artist whose [start, end) range overlaps the given one.
+   * Uses the same half-open semantics as the bookings_no_overlap_per_artist
+   * exclusion constraint, so back-to-back bookings don't conflict.
+   */
+  async findOverlapping(params: {
+    tenantId: string;
+    artistId: string;
+    startTime: Date;
+    endTime: Date;
+    statuses: BookingStatus[];
+    excludeId?: string;
+  }, executor: Executor = this.db): Promise<Booking[]> {
+    const conditions: SQL[] = [
+      eq(bookings.tenantId, params.tenantId),
+      eq(bookings.artistId, params.artistId),
+      inArray(bookings.status, params.statuses),
+      lt(bookings.startTime, params.endTime),
+      gt(bookings.endTime, params.startTime),
+    ];
+    if (params.excludeId) {
+      conditions.push(ne(bookings.id, params.excludeId));
+    }
+
+    return executor
+      .select()
+      .from(bookings)
+      .where(and(...conditions))
+      .orderBy(bookings.startTime);
+  }
+
+  /**
+   * Like findOverlapping, for several artists in one query.
+   */
+  async findOverlappingForArtists(params: {
+    tenantId: string;
+    artistIds: string[];
+    startTime: Date;
+    endTime: Date;
+    statuses: BookingStatus[];
+  }): Promise<Booking[]> {
+    if (params.artistIds.length === 0) {
+      return [];
+    }
+
+    return this.db
+      .select()
+      .from(bookings)
+      .where(
+        and(
+          eq(bookings.tenantId, params.tenantId),
+          inArray(bookings.artistId, params.artistIds),
+          inArray(bookings.status, params.statuses),
+          lt(bookings.startTime, params.endTime),
+          gt(bookings.endTime, params.startTime),
+        ),
+      )
+      .orderBy(bookings.startTime);
+  }
+
+  // The project a phase belongs to, or null if it isn't one of the tenant's
+  async artistExists(
+    artistId: string,
+    tenantId: string,
+    executor: Executor = this.db,
+  ): Promise<boolean> {
+    const [artist] = await executor
+      .select({ id: artists.id })
+      .from(artists)
+      .where(and(eq(artists.id, artistId), eq(artists.tenantId, tenantId)))
+      .limit(1);
+
+    return !!artist;
+  }
+
+  async projectExists(
+    projectId: string,
+    tenantId: string,
+    executor: Executor = this.db,
+  ): Promise<boolean> {
+    const [project] = await executor
+      .select({ id: projects.id })
+      .from(projects)
+      .where(and(eq(projects.id, projectId), eq(projects.tenantId, tenantId)))
+      .limit(1);
+
+    return !!project;
+  }
+
+  async findPhaseProjectId(
+    phaseId: string,
+    tenantId: string,
+    executor: Executor = this.db,
+  ): Promise<string | null> {
+    const [phase] = await executor
+      .select({ projectId: projectPhases.projectId })
+      .from(projectPhases)
+      .innerJoin(projects, eq(projects.id, projectPhases.projectId))
+      .where(and(eq(projectPhases.id, phaseId), eq(projects.tenantId, tenantId)))
+      .limit(1);
+
+    return phase?.projectId ?? null;
+  }
+
+  /**
+   * Bookings in any of the phases that are still to be worked: holds,
+   * pencils and confirmed bookings.
+   */
+  async findByPhases(
+    tenantId: string,
+    phaseIds: string[],
+    executor: Executor = this.db,
+  ): Promise<Booking[]> {
+    if (phaseIds.length === 0) {
+      return [];
+    }
+
+    return executor
+      .select()
+      .from(bookings)
+      .where(
+        and(
+          eq(bookings.tenantId, tenantId),
+          inArray(bookings.phaseId, phaseIds),
+          inArray(bookings.status, ['hold', 'pencil', 'confirmed']),
+        ),
+      )
+      .orderBy(bookings.startTime);
+  }
+
+  /**
+   * How many live (not cancelled) bookings each artist has on a project.
+   */
+  async countByProject(
+    tenantId: string,
+    projectId: string,
+  ): Promise<Array<{ artistId: string; bookings: number }>> {
+    return this.db
+      .select({
+        artistId: bookings.artistId,
+        bookings: sql<number>`count(*)::int`,
+      })
+      .from(bookings)
+      .where(
+        and(
+          eq(bookings.tenantId, tenantId),
+          eq(bookings.projectId, projectId),
+          ne(bookings.status, 'cancelled'),
+        ),
+      )
+      .groupBy(bookings.artistId);
+  }
+
+  /**
+   * Booked amounts and kill fees of all of a project's bookings, per phase
+   * and status.
+   */
+  async sumProjectCosts(
+    tenantId: string,
+    projectId: string,
+    executor: Executor = this.db,
+  ): Promise<
+    Array<{
+      phaseId: string | null;
+      status: BookingStatus;
+      bookings: number;
+      totalAmount: string;
+      killFees: string;
+    }>
+  > {
+    const rows = await executor
+      .select({
+        phaseId: bookings.phaseId,
+        status: bookings.status,
+        bookings: sql<number>`count(*)::int`,
+        totalAmount: sql<string>`coalesce(sum(${bookings.totalAmount}), 0)::text`,
+        killFees: sql<string>`coalesce(sum(${bookings.killFee}), 0)::text`,
+      })
+      .from(bookings)
+      .where(and(eq(bookings.tenantId, tenantId), eq(bookings.projectId, projectId)))
+      .groupBy(bookings.phaseId, bookings.status);
+
+    return rows.map((row) => ({ ...row, status: row.status ?? 'hold' }));
+  }
+
+  /**
+   * Booked amounts and kill fees per project, artist and status for
+   * bookings starting in [from, until).
+   */
+  async sumCosts(filters: {
+    tenantId: string;
+    from: Date;
+    until: Date;
+    projectId?: string;
+    artistId?: string;
+  }): Promise<
+    Array<{
+      projectId: string | null;
+      artistId: string;
+      status: BookingStatus;
+      bookings: number;
+      totalAmount: string;
+      killFees: string;
+    }>
+  > {
+    const conditions: SQL[] = [
+      eq(bookings.tenantId, filters.tenantId),
+      gte(bookings.startTime, filters.from),
+      lt(bookings.startTime, filters.until),
+    ];
+    if (filters.projectId) {
+      conditions.push(eq(bookings.projectId, filters.projectId));
+    }
+    if (filters.artistId) {
+      conditions.push(eq(bookings.artistId, filters.artistId));
+    }
+
+    const rows = await this.db
+      .select({
+        projectId: bookings.projectId,
+        artistId: bookings.artistId,
+        status: bookings.status,
+        bookings: sql<number>`count(*)::int`,
+        totalAmount: sql<string>`coalesce(sum(${bookings.totalAmount}), 0)::text`,
+        killFees: sql<string>`coalesce(sum(${bookings.killFee}), 0)::text`,
+      })
+      .from(bookings)
+      .where(and(...conditions))
+      .groupBy(bookings.projectId, bookings.artistId, bookings.status);
+
+    return rows.map((row) => ({ ...row, status: row.status ?? 'hold' }));
+  }
+}
@@ -0,0 +1,151 @@
+import { Injectable, Inject } from '@nestjs/common';
+import { and, asc, desc, eq, gte, inArray, isNull, SQL } from 'drizzle-orm';
+import { DrizzleDatabase } from '../../../common/types/drizzle.types';
+import { artists, bookings, calendarFeeds, projects } from '../../../database/schema';
+import { FeedBooking } from '../calendar-feed';
+
+export type CalendarFeedRecord = typeof calendarFeeds.$inferSelect;
+export type NewCalendarFeed = typeof calendarFeeds.$inferInsert;
+
+@Injectable()
+export class CalendarFeedRepository {
+  constructor(
+    @Inject('DATABASE_CONNECTION') private readonly db: DrizzleDatabase,
+  ) {}
+
+  async findOne(id: string, tenantId: string): Promise<CalendarFeedRecord | null> {
+    const [feed] = await this.db
+      .select()
+      .from(calendarFeeds)
+      .where(and(eq(calendarFeeds.id, id), eq(calendarFeeds.tenantId, tenantId)))
+      .limit(1);
+
+    return feed || null;
+  }
+
+  // Revoked feeds are never returned
+  async findActiveByTokenHash(tokenHash: string): Promise<CalendarFeedRecord | null> {
+    const [feed] = await this.db
+      .select()
+      .from(calendarFeeds)
+      .where(and(eq(calendarFeeds.tokenHash, tokenHash), isNull(calendarFeeds.revokedAt)))
+      .limit(1);
+
+    return feed || null;
+  }
+
+  async findAll(
+    tenantId: string,
+    filters: { artistId?: string; projectId?: string } = {},
+  ): Promise<CalendarFeedRecord[]> {
+    const conditions: SQL[] = [eq(calendarFeeds.tenantId, tenantId), isNull(calendarFeeds.revokedAt)];
+    if (filters.artistId) {
+      conditions.push(eq(calendarFeeds.artistId, filters.artistId));
+    }
+    if (filters.projectId) {
+      conditions.push(eq(calendarFeeds.projectId, filters.projectId));
+    }
+
+    return this.db
+      .select()
+      .from(calendarFeeds)
+      .where(and(...conditions))
+      .orderBy(desc(calendarFeeds.createdAt));
+  }
+
+  async create(data: NewCalendarFeed): Promise<CalendarFeedRecord> {
+    const [created] = await this.db.insert(calendarFeeds).values(data).returning();
+    return created;
+  }
+
+  async update(
+    id: string,
+    tenantId: string,
+    data: Partial<Pick<NewCalendarFeed, 'name' | 'statuses' | 'revokedAt'>>,
+  ): Promise<CalendarFeedRecord | null> {
+    const [updated] = await this.db
+      .update(calendarFeeds)
+      .set({ ...data, updatedAt: new Date() })
+      .where(
+        and(
+          eq(calendarFeeds.id, id),
+          eq(calendarFeeds.tenantId, tenantId),
+          isNull(calendarFeeds.revokedAt),
+        ),
+      )
+      .returning();
+
+    return updated || null;
+  }
+
+  async touch(id: string): Promise<void> {
+    await this.db
+      .update(calendarFeeds)
+      .set({ lastAccessedAt: new Date() })
+      .where(eq(calendarFeeds.id, id));
+  }
+
+  async findArtistName(artistId: string, tenantId: string): Promise<string | null> {
+    const [artist] = await this.db
+      .select({ name: artists.name })
+      .from(artists)
+      .where(and(eq(artists.id, artistId), eq(artists.tenantId, tenantId)))
+      .limit(1);
+
+    return artist?.name ?? null;
+  }
+
+  async findProjectName(projectId: string, tenantId: string): Promise<string | null> {
+    const [project] = await this.db
+      .select({ name: projects.name })
+      .from(projects)
+      .where(and(eq(projects.id, projectId), eq(projects.tenantId, tenantId)))
+      .limit(1);
+
+    return project?.name ?? null;
+  }
+
+  /**
+   * Bookings a feed publishes: those in its scope with one of its
+   * statuses, ending after `since`.
+   */
+  async findFeedBookings(feed: CalendarFeedRecord, since: Date): Promise<FeedBooking[]> {
+    if (feed.statuses.length === 0) {
+      return [];
+    }
+
+    const conditions: SQL[] = [
+      eq(bookings.tenantId, feed.tenantId),
+      inArray(bookings.status, feed.statuses),
+      gte(bookings.endTime, since),
+    ];
+    if (feed.artistId) {
+      conditions.push(eq(bookings.artistId, feed.artistId));
+    }
+    if (feed.projectId) {
+      conditions.push(eq(bookings.projectId, feed.projectId));
+    }
+
+    return this.db
+      .select({
+        id: bookings.id,
+        startTime: bookings.startTime,
+        endTime: bookings.endTime,
+        status: bookings.status,
+        title: bookings.title,
+        notes: bookings.notes,
+        holdExpiresAt: bookings.holdExpiresAt,
+        version: bookings.version,
+        createdAt: bookings.createdAt,
+        updatedAt: bookings.updatedAt,
+        artistName: artists.name,
+        projectName: projects.name,
+        projectCode: projects.code,
+      })
+      .from(bookings)
+      .innerJoin(artists, eq(artists.id, bookings.artistId))
+      .leftJoin(projects, eq(projects.id, bookings.projectId))
+      .where(and(...conditions))
+      .orderBy(asc(bookings.startTime));
+  }
+}
@@ -0,0 +1,182 @@
+import { Injectable, Inject } from '@nestjs/common';
+import { and, asc, eq, gt, inArray, isNotNull, isNull, lt, lte, ne, or, sql } from 'drizzle-orm';
+import { DrizzleDatabase, DrizzleTransaction } from '../../../common/types/drizzle.types';
+import { externalBusyBlocks, externalCalendars } from '../../../database/schema';
+import { ExternalBusyEvent } from '../external-calendar';
+
+export type ExternalCalendarRecord = typeof externalCalendars.$inferSelect;
+export type NewExternalCalendar = typeof externalCalendars.$inferInsert;
+export type ExternalBusyBlockRecord = typeof externalBusyBlocks.$inferSelect;
+
+type Executor = DrizzleDatabase | DrizzleTransaction;
+
+// Keeps multi-row inserts well under Postgres' bind parameter limit
+const INSERT_BATCH_SIZE = 500;
+
+@Injectable()
+export class ExternalCalendarRepository {
+  constructor(
+    @Inject('DATABASE_CONNECTION') private readonly db: DrizzleDatabase,
+  ) {}
+
+  async findOne(id: string, tenantId: string): Promise<ExternalCalendarRecord | null> {
+    const [calendar] = await this.db
+      .select()
+      .from(externalCalendars)
+      .where(and(eq(externalCalendars.id, id), eq(externalCalendars.tenantId, tenantId)))
+      .limit(1);
+
+    return calendar || null;
+  }
+
+  async findByArtist(artistId: string, tenantId: string): Promise<ExternalCalendarRecord[]> {
+    return this.db
+      .select()
+      .from(externalCalendars)
+      .where(and(eq(externalCalendars.artistId, artistId), eq(externalCalendars.tenantId, tenantId)))
+      .orderBy(asc(externalCalendars.createdAt));
+  }
+
+  /**
+   * Subscribed calendars (those with a source URL) not synced since
+   * `syncedBefore`, least recently synced first.
+   */
+  async findDueForSync(syncedBefore: Date, limit: number): Promise<ExternalCalendarRecord[]> {
+    return this.db
+      .select()
+      .from(externalCalendars)
+      .where(
+        and(
+          isNotNull(externalCalendars.sourceUrl),
+          or(
+            isNull(externalCalendars.lastSyncedAt),
+            lte(externalCalendars.lastSyncedAt, syncedBefore),
+          ),
+        ),
+      )
+      .orderBy(sql`${externalCalendars.lastSyncedAt} ASC NULLS FIRST`)
+      .limit(limit);
+  }
+
+  async create(data: NewExternalCalendar, tx: DrizzleTransaction): Promise<ExternalCalendarRecord> {
+    const [created] = await tx.insert(externalCalendars).values(data).returning();
+    return created;
+  }
+
+  async update(
+    id: string,
+    data: Partial<Pick<NewExternalCalendar, 'syncStatus' | 'lastSyncedAt' | 'lastError'>>,
+    executor: Executor = this.db,
+  ): Promise<ExternalCalendarRecord> {
+    const [updated] = await executor
+      .update(externalCalendars)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(externalCalendars.id, id))
+      .returning();
+
+    return updated;
+  }
+
+  async delete(id: string, tenantId: string): Promise<boolean> {
+    const deleted = await this.db
+      .delete(externalCalendars)
+      .where(and(eq(externalCalendars.id, id), eq(externalCalendars.tenantId, tenantId)))
+      .returning({ id: externalCalendars.id });
+
+    return deleted.length > 0;
+  }
+
+  /**
+   * Makes the calendar's busy blocks match `events`: rows are upserted by
+   * (UID, occurrence) and anything the sync didn't see is removed.
+   */
+  async replaceBlocks(
+    calendar: ExternalCalendarRecord,
+    events: ExternalBusyEvent[],
+    syncedAt: Date,
+    tx: DrizzleTransaction,
+  ): Promise<void> {
+    // Serializes concurrent syncs of the same calendar
+    await tx
+      .select({ id: externalCalendars.id })
+      .from(externalCalendars)
+      .where(eq(externalCalendars.id, calendar.id))
+      .for('update');
+
+    for (let i = 0; i < events.length; i += INSERT_BATCH_SIZE) {
+      await tx
+        .insert(externalBusyBlocks)
+        .values(
+          events.slice(i, i + INSERT_BATCH_SIZE).map((event) => ({
+            tenantId: calendar.tenantId,
+            calendarId: calendar.id,
+            artistId: calendar.artistId,
+            ...event,
+            syncedAt,
+          })),
+        )
+        .onConflictDoUpdate({
+          target: [externalBusyBlocks.calendarId, externalBusyBlocks.uid, externalBusyBlocks.instanceKey],
+          set: {
+            sequence: sql`excluded.sequence`,
+            summary: sql`excluded.summary`,
+            startTime: sql`excluded.start_time`,
+            endTime: sql`excluded.end_time`,
+            syncedAt: sql`excluded.synced_at`,
+          },
+        });
+    }
+
+    await tx
+      .delete(externalBusyBlocks)
+      .where(
+        and(
+          eq(externalBusyBlocks.calendarId, calendar.id),
+          ne(externalBusyBlocks.syncedAt, syncedAt),
+        ),
+      );
+  }
+
+  async countBlocks(calendarIds: string[]): Promise<Map<string, number>> {
+    if (calendarIds.length === 0) {
+      return new Map();
+    }
+
+    const rows = await this.db
+      .select({
+        calendarId: externalBusyBlocks.calendarId,
+        blocks: sql<number>`count(*)::int`,
+      })
+      .from(externalBusyBlocks)
+      .where(inArray(externalBusyBlocks.calendarId, calendarIds))
+      .groupBy(externalBusyBlocks.calendarId);
+
+    return new Map(rows.map((row) => [row.calendarId, row.blocks]));
+  }
+
+  /**
+   * Busy blocks of the given artists overlapping [from, to), half-open
+   * like booking overlaps.
+   */
+  async findBusyBlocks(
+    params: { tenantId: string; artistIds: string[]; startTime: Date; endTime: Date },
+    executor: Executor = this.db,
+  ): Promise<ExternalBusyBlockRecord[]> {
+    if (params.artistIds.length === 0) {
+      return [];
+    }
+
+    return executor
+      .select()
+      .from(externalBusyBlocks)
+      .where(
+        and(
+          eq(externalBusyBlocks.tenantId, params.tenantId),
+          inArray(externalBusyBlocks.artistId, params.artistIds),
+          lt(externalBusyBlocks.startTime, params.endTime),
+          gt(externalBusyBlocks.endTime, params.startTime),
+        ),
+      )
+      .orderBy(asc(externalBusyBlocks.startTime));
+  }
+}
@@ -0,0 +1,119 @@
+import { Injectable, Inject } from '@nestjs/common';
+import { and, asc, eq, gt, inArray, lt, ne, SQL } from 'drizzle-orm';
+import { DrizzleDatabase, DrizzleTransaction } from '../../../common/types/drizzle.types';
+import { artists, bookings, licensePools, tenants } from '../../../database/schema';
+import { ArtistType, LicensedBooking } from '../licenses';
+
+export type LicensePoolRecord = typeof licensePools.$inferSelect;
+export type NewLicensePool = typeof licensePools.$inferInsert;
+
+type Executor = DrizzleDatabase | DrizzleTransaction;
+
+@Injectable()
+export class LicensePoolRepository {
+  constructor(
+    @Inject('DATABASE_CONNECTION') private readonly db: DrizzleDatabase,
+  ) {}
+
+  async findAll(tenantId: string, executor: Executor = this.db): Promise<LicensePoolRecord[]> {
+    return executor
+      .select()
+      .from(licensePools)
+      .where(eq(licensePools.tenantId, tenantId))
+      .orderBy(asc(licensePools.name));
+  }
+
+  async findOne(id: string, tenantId: string): Promise<LicensePoolRecord | null> {
+    const [pool] = await this.db
+      .select()
+      .from(licensePools)
+      .where(and(eq(licensePools.id, id), eq(licensePools.tenantId, tenantId)))
+      .limit(1);
+
+    return pool || null;
+  }
+
+  async create(data: NewLicensePool): Promise<LicensePoolRecord> {
+    const [created] = await this.db.insert(licensePools).values(data).returning();
+    return created;
+  }
+
+  async update(
+    id: string,
+    tenantId: string,
+    data: Partial<NewLicensePool>,
+  ): Promise<LicensePoolRecord | null> {
+    const [updated] = await this.db
+      .update(licensePools)
+      .set({ ...data, updatedAt: new Date() })
+      .where(and(eq(licensePools.id, id), eq(licensePools.tenantId, tenantId)))
+      .returning();
+
+    return updated || null;
+  }
+
+  async delete(id: string, tenantId: string): Promise<boolean> {
+    const deleted = await this.db
+      .delete(licensePools)
+      .where(and(eq(licensePools.id, id), eq(licensePools.tenantId, tenantId)))
+      .returning({ id: licensePools.id });
+
+    return deleted.length > 0;
+  }
+
+  /**
+   * Confirmed bookings, holds and pencils overlapping [startTime, endTime),
+   * with the type of artist each is for.
+   */
+  async findLicensedBookings(params: {
+    tenantId: string;
+    startTime: Date;
+    endTime: Date;
+    excludeId?: string;
+  }): Promise<LicensedBooking[]> {
+    const conditions: SQL[] = [
+      eq(bookings.tenantId, params.tenantId),
+      inArray(bookings.status, ['confirmed', 'hold', 'pencil']),
+      lt(bookings.startTime, params.endTime),
+      gt(bookings.endTime, params.startTime),
+    ];
+    if (params.excludeId) {
+      conditions.push(ne(bookings.id, params.excludeId));
+    }
+
+    return this.db
+      .select({
+        id: bookings.id,
+        artistId: bookings.artistId,
+        startTime: bookings.startTime,
+        endTime: bookings.endTime,
+        status: bookings.status,
+        licenses: bookings.licenses,
+        artistType: artists.type,
+      })
+      .from(bookings)
+      .innerJoin(artists, eq(artists.id, bookings.artistId))
+      .where(and(...conditions))
+      .orderBy(asc(bookings.startTime));
+  }
+
+  async findArtistType(artistId: string, tenantId: string): Promise<ArtistType | null> {
+    const [artist] = await this.db
+      .select({ type: artists.type })
+      .from(artists)
+      .where(and(eq(artists.id, artistId), eq(artists.tenantId, tenantId)))
+      .limit(1);
+
+    return artist?.type ?? null;
+  }
+
+  async findTenantTimeZone(tenantId: string): Promise<string | null> {
+    const [tenant] = await this.db
+      .select({ settings: tenants.settings })
+      .from(tenants)
+      .where(eq(tenants.id, tenantId))
+      .limit(1);
+
+    return tenant?.settings?.timezone ?? null;
+  }
+}
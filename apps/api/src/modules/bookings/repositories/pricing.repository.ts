@@ -0,0 +1,42 @@
+import { Injectable, Inject } from '@nestjs/common';
+import { and, eq } from 'drizzle-orm';
+import { DrizzleDatabase, DrizzleTransaction } from '../../../common/types/drizzle.types';
+import { artists, tenants } from '../../../database/schema';
+
+export interface ArtistPricingSettings {
+  hourlyRate: string | null;
+  dailyRate: string | null;
+  cancellationPolicy: (typeof artists.$inferSelect)['cancellationPolicy'];
+  tenantSettings: (typeof tenants.$inferSelect)['settings'];
+}
+
+/**
+ * The artist's rates and cancellation policy and the tenant settings
+ * (working hours, pricing and cancellation rules) a booking is priced with.
+ */
+@Injectable()
+export class PricingRepository {
+  constructor(
+    @Inject('DATABASE_CONNECTION') private readonly db: DrizzleDatabase,
+  ) {}
+
+  async findPricingSettings(
+    artistId: string,
+    tenantId: string,
+    executor: DrizzleDatabase | DrizzleTransaction = this.db,
+  ): Promise<ArtistPricingSettings | null> {
+    const [row] = await executor
+      .select({
+        hourlyRate: artists.hourlyRate,
+        dailyRate: artists.dailyRate,
+        cancellationPolicy: artists.cancellationPolicy,
+        tenantSettings: tenants.settings,
+      })
+      .from(artists)
+      .innerJoin(tenants, eq(tenants.id, artists.tenantId))
+      .where(and(eq(artists.id, artistId), eq(artists.tenantId, tenantId)))
+      .limit(1);
+
+    return row || null;
+  }
+}
@@ -0,0 +1,67 @@
+import { Injectable, Inject } from '@nestjs/common';
+import { and, asc, eq } from 'drizzle-orm';
+import { DrizzleDatabase, DrizzleTransaction } from '../../../common/types/drizzle.types';
+import { projectPhases, projects, tenants } from '../../../database/schema';
+import { TenantBookingRules, getBookingRules } from '../booking-rules';
+
+type Executor = DrizzleDatabase | DrizzleTransaction;
+
+export interface BudgetedProject {
+  id: string;
+  name: string;
+  budget: string | null;
+  rules: TenantBookingRules['budget'];
+}
+
+@Injectable()
+export class ProjectBudgetRepository {
+  constructor(
+    @Inject('DATABASE_CONNECTION') private readonly db: DrizzleDatabase,
+  ) {}
+
+  // The project's budget with its tenant's budget rules
+  async findProject(
+    projectId: string,
+    tenantId: string,
+    executor: Executor = this.db,
+  ): Promise<BudgetedProject | null> {
+    const [row] = await executor
+      .select({
+        id: projects.id,
+        name: projects.name,
+        budget: projects.budget,
+        settings: tenants.settings,
+      })
+      .from(projects)
+      .innerJoin(tenants, eq(tenants.id, projects.tenantId))
+      .where(and(eq(projects.id, projectId), eq(projects.tenantId, tenantId)))
+      .limit(1);
+
+    if (!row) {
+      return null;
+    }
+
+    const { settings, ...project } = row;
+    return { ...project, rules: getBookingRules(settings).budget };
+  }
+
+  // Serializes budget checks on the project until the transaction ends
+  async lockProject(projectId: string, tenantId: string, tx: DrizzleTransaction): Promise<void> {
+    await tx
+      .select({ id: projects.id })
+      .from(projects)
+      .where(and(eq(projects.id, projectId), eq(projects.tenantId, tenantId)))
+      .for('update');
+  }
+
+  async findPhases(
+    projectId: string,
+    executor: Executor = this.db,
+  ): Promise<Array<{ id: string; name: string; budget: string | null }>> {
+    return executor
+      .select({ id: projectPhases.id, name: projectPhases.name, budget: projectPhases.budget })
+      .from(projectPhases)
+      .where(eq(projectPhases.projectId, projectId))
+      .orderBy(asc(projectPhases.orderIndex), asc(projectPhases.startDate));
+  }
+}
@@ -0,0 +1,199 @@
+import { Injectable, Inject } from '@nestjs/common';
+import { and, asc, eq, gt, inArray, lt, notInArray, SQL } from 'drizzle-orm';
+import { DrizzleDatabase, DrizzleTransaction } from '../../../common/types/drizzle.types';
+import { resourceBookings, resources } from '../../../database/schema';
+
+export type ResourceRecord = typeof resources.$inferSelect;
+export type NewResource = typeof resources.$inferInsert;
+export type ResourceType = ResourceRecord['type'];
+export type ResourceReservation = typeof resourceBookings.$inferSelect;
+export type NewResourceReservation = typeof resourceBookings.$inferInsert;
+
+type Executor = DrizzleDatabase | DrizzleTransaction;
+
+@Injectable()
+export class ResourceRepository {
+  constructor(
+    @Inject('DATABASE_CONNECTION') private readonly db: DrizzleDatabase,
+  ) {}
+
+  async findAll(filters: {
+    tenantId: string;
+    type?: ResourceType;
+    includeInactive?: boolean;
+  }): Promise<ResourceRecord[]> {
+    const conditions: SQL[] = [eq(resources.tenantId, filters.tenantId)];
+    if (filters.type) {
+      conditions.push(eq(resources.type, filters.type));
+    }
+    if (!filters.includeInactive) {
+      conditions.push(eq(resources.isActive, true));
+    }
+
+    return this.db
+      .select()
+      .from(resources)
+      .where(and(...conditions))
+      .orderBy(asc(resources.type), asc(resources.name));
+  }
+
+  async findOne(
+    id: string,
+    tenantId: string,
+    executor: Executor = this.db,
+  ): Promise<ResourceRecord | null> {
+    const [resource] = await executor
+      .select()
+      .from(resources)
+      .where(and(eq(resources.id, id), eq(resources.tenantId, tenantId)))
+      .limit(1);
+
+    return resource || null;
+  }
+
+  async findMany(
+    ids: string[],
+    tenantId: string,
+    executor: Executor = this.db,
+  ): Promise<ResourceRecord[]> {
+    if (ids.length === 0) {
+      return [];
+    }
+
+    return executor
+      .select()
+      .from(resources)
+      .where(and(inArray(resources.id, ids), eq(resources.tenantId, tenantId)));
+  }
+
+  async create(data: NewResource): Promise<ResourceRecord> {
+    const [created] = await this.db.insert(resources).values(data).returning();
+    return created;
+  }
+
+  async update(
+    id: string,
+    tenantId: string,
+    data: Partial<NewResource>,
+    executor: Executor = this.db,
+  ): Promise<ResourceRecord | null> {
+    const [updated] = await executor
+      .update(resources)
+      .set({ ...data, updatedAt: new Date() })
+      .where(and(eq(resources.id, id), eq(resources.tenantId, tenantId)))
+      .returning();
+
+    return updated || null;
+  }
+
+  async delete(id: string, tenantId: string, executor: Executor = this.db): Promise<boolean> {
+    const deleted = await executor
+      .delete(resources)
+      .where(and(eq(resources.id, id), eq(resources.tenantId, tenantId)))
+      .returning({ id: resources.id });
+
+    return deleted.length > 0;
+  }
+
+  /**
+   * Live reservations of `resourceIds` overlapping [startTime, endTime).
+   */
+  async findReservations(
+    params: {
+      resourceIds: string[];
+      startTime: Date;
+      endTime: Date;
+      excludeIds?: string[];
+    },
+    executor: Executor = this.db,
+  ): Promise<ResourceReservation[]> {
+    if (params.resourceIds.length === 0) {
+      return [];
+    }
+
+    const conditions: SQL[] = [
+      inArray(resourceBookings.resourceId, params.resourceIds),
+      eq(resourceBookings.status, 'reserved'),
+      lt(resourceBookings.startTime, params.endTime),
+      gt(resourceBookings.endTime, params.startTime),
+    ];
+    if (params.excludeIds?.length) {
+      conditions.push(notInArray(resourceBookings.id, params.excludeIds));
+    }
+
+    return executor
+      .select()
+      .from(resourceBookings)
+      .where(and(...conditions))
+      .orderBy(asc(resourceBookings.startTime));
+  }
+
+  async findReservation(
+    id: string,
+    tenantId: string,
+    executor: Executor = this.db,
+  ): Promise<ResourceReservation | null> {
+    const [reservation] = await executor
+      .select()
+      .from(resourceBookings)
+      .where(and(eq(resourceBookings.id, id), eq(resourceBookings.tenantId, tenantId)))
+      .limit(1);
+
+    return reservation || null;
+  }
+
+  // Every reservation attached to the booking, released ones included
+  async findByBooking(bookingId: string, executor: Executor = this.db): Promise<ResourceReservation[]> {
+    return executor
+      .select()
+      .from(resourceBookings)
+      .where(eq(resourceBookings.bookingId, bookingId))
+      .orderBy(asc(resourceBookings.createdAt));
+  }
+
+  async createReservation(
+    data: NewResourceReservation,
+    executor: Executor = this.db,
+  ): Promise<ResourceReservation> {
+    const [created] = await executor.insert(resourceBookings).values(data).returning();
+    return created;
+  }
+
+  async updateReservation(
+    id: string,
+    data: Partial<NewResourceReservation>,
+    executor: Executor = this.db,
+  ): Promise<ResourceReservation> {
+    const [updated] = await executor
+      .update(resourceBookings)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(resourceBookings.id, id))
+      .returning();
+
+    return updated;
+  }
+
+  async deleteReservation(id: string, executor: Executor = this.db): Promise<void> {
+    await executor.delete(resourceBookings).where(eq(resourceBookings.id, id));
+  }
+
+  async hasReservationsAfter(
+    resourceId: string,
+    after: Date,
+    executor: Executor = this.db,
+  ): Promise<boolean> {
+    const [reservation] = await executor
+      .select({ id: resourceBookings.id })
+      .from(resourceBookings)
+      .where(
+        and(
+          eq(resourceBookings.resourceId, resourceId),
+          eq(resourceBookings.status, 'reserved'),
+          gt(resourceBookings.endTime, after),
+        ),
+      )
+      .limit(1);
+
+    return !!reservation;
+  }
+}
@@ -0,0 +1,467 @@
+import {
+  Injectable,
+  Inject,
+  NotFoundException,
+  ConflictException,
+  BadRequestException,
+} from '@nestjs/common';
+import { sql } from 'drizzle-orm';
+import { DrizzleDatabase, DrizzleTransaction } from '../../common/types/drizzle.types';
+import { isUniqueViolation } from '../../common/utils/database-errors';
+import { Booking } from '../../database/schema';
+import { BookingsGateway } from './bookings.gateway';
+import { MAX_RANGE_DAYS } from './availability.service';
+import { ResourceAvailability, peakUsage, resourceAvailability } from './resources';
+import {
+  ResourceRecord,
+  ResourceRepository,
+  ResourceReservation,
+  ResourceType,
+} from './repositories/resource.repository';
+import { CreateResourceDto } from './dto/create-resource.dto';
+import { UpdateResourceDto } from './dto/update-resource.dto';
+import { ReserveResourceDto } from './dto/reserve-resource.dto';
+import { ResourceClaimDto } from './dto/resource-claim.dto';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Upper bound for "every reservation from now on"
+const END_OF_TIME = new Date('9999-12-31T00:00:00Z');
+
+/**
+ * Serializes reservations of the same resources. Like artist locks, take
+ * them in a stable order (lockResources sorts) and after any artist locks.
+ */
+export async function lockResources(tx: DrizzleTransaction, resourceIds: string[]) {
+  for (const resourceId of [...new Set(resourceIds)].sort()) {
+    await tx.execute(sql`SELECT pg_advisory_xact_lock(hashtext(${`resource:${resourceId}`}))`);
+  }
+}
+
+function isLive(booking: Booking): boolean {
+  return booking.status !== 'cancelled';
+}
+
+/**
+ * Rooms, workstations, license seats and equipment. A resource is taken by
+ * reservations, made on their own or attached to an artist booking, and
+ * overlapping reservations may not take more than its capacity. Attached
+ * reservations follow their booking: they move with it, are released when
+ * it is cancelled and taken again if it is restored.
+ */
+@Injectable()
+export class ResourceService {
+  constructor(
+    @Inject('DATABASE_CONNECTION') private readonly db: DrizzleDatabase,
+    private readonly resourceRepository: ResourceRepository,
+    private readonly bookingsGateway: BookingsGateway,
+  ) {}
+
+  async create(createDto: CreateResourceDto, tenantId: string, userId: string) {
+    return this.withNameCheck(() =>
+      this.resourceRepository.create({
+        ...createDto,
+        tenantId,
+        createdBy: userId,
+        updatedBy: userId,
+      }),
+    );
+  }
+
+  async findAll(filters: { tenantId: string; type?: ResourceType; includeInactive?: boolean }) {
+    return this.resourceRepository.findAll(filters);
+  }
+
+  async findOne(id: string, tenantId: string, tx?: DrizzleTransaction) {
+    const resource = await this.resourceRepository.findOne(id, tenantId, tx);
+    if (!resource) {
+      throw new NotFoundException('Resource not found');
+    }
+
+    return resource;
+  }
+
+  // Capacity can only drop to what upcoming reservations leave room for
+  async update(id: string, updateDto: UpdateResourceDto, tenantId: string, userId: string) {
+    return this.withNameCheck(() =>
+      this.db.transaction(async (tx) => {
+        await lockResources(tx, [id]);
+        const existing = await this.findOne(id, tenantId, tx);
+
+        if (updateDto.capacity !== undefined && updateDto.capacity < existing.capacity) {
+          const now = new Date();
+          const upcoming = await this.resourceRepository.findReservations(
+            { resourceIds: [id], startTime: now, endTime: END_OF_TIME },
+            tx,
+          );
+          const peak = peakUsage(upcoming, now, END_OF_TIME);
+          if (peak > updateDto.capacity) {
+            throw new ConflictException({
+              error: 'RESOURCE_OVERBOOKED',
+              message: `Upcoming reservations take up to ${peak} at once`,
+              details: { capacity: updateDto.capacity, peak },
+            });
+          }
+        }
+
+        return (await this.resourceRepository.update(
+          id,
+          tenantId,
+          { ...updateDto, updatedBy: userId },
+          tx,
+        ))!;
+      }),
+    );
+  }
+
+  async remove(id: string, tenantId: string) {
+    await this.findOne(id, tenantId);
+
+    if (await this.resourceRepository.hasReservationsAfter(id, new Date())) {
+      throw new ConflictException({
+        error: 'RESOURCE_IN_USE',
+        message: 'Resource has upcoming reservations; deactivate it instead',
+      });
+    }
+
+    await this.resourceRepository.delete(id, tenantId);
+    return { success: true };
+  }
+
+  async findReservations(id: string, tenantId: string, from: Date, to: Date) {
+    await this.findOne(id, tenantId);
+    this.validateRange(from, to);
+
+    return this.resourceRepository.findReservations({
+      resourceIds: [id],
+      startTime: from,
+      endTime: to,
+    });
+  }
+
+  async availability(
+    id: string,
+    tenantId: string,
+    from: Date,
+    to: Date,
+  ): Promise<ResourceAvailability> {
+    const resource = await this.findOne(id, tenantId);
+    this.validateRange(from, to);
+
+    const reservations = await this.resourceRepository.findReservations({
+      resourceIds: [id],
+      startTime: from,
+      endTime: to,
+    });
+
+    return resourceAvailability(reservations, resource.capacity, from, to);
+  }
+
+  async reserve(id: string, reserveDto: ReserveResourceDto, tenantId: string, userId: string) {
+    if (reserveDto.endTime <= reserveDto.startTime) {
+      throw new BadRequestException('End time must be after start time');
+    }
+
+    const reservation = await this.db.transaction(async (tx) => {
+      await lockResources(tx, [id]);
+      const resource = await this.findOne(id, tenantId, tx);
+      this.assertActive(resource);
+
+      const quantity = reserveDto.quantity ?? 1;
+      await this.assertCapacity(tx, resource, reserveDto.startTime, reserveDto.endTime, quantity);
+
+      return this.resourceRepository.createReservation(
+        {
+          tenantId,
+          resourceId: id,
+          startTime: reserveDto.startTime,
+          endTime: reserveDto.endTime,
+          quantity,
+          title: reserveDto.title,
+          notes: reserveDto.notes,
+          createdBy: userId,
+          updatedBy: userId,
+        },
+        tx,
+      );
+    });
+
+    this.broadcast(tenantId, [reservation]);
+    return reservation;
+  }
+
+  // Booking reservations go with their booking; detach them from it instead
+  async release(reservationId: string, tenantId: string, userId: string) {
+    const existing = await this.resourceRepository.findReservation(reservationId, tenantId);
+    if (!existing) {
+      throw new NotFoundException('Reservation not found');
+    }
+    if (existing.bookingId) {
+      throw new BadRequestException('Reservation belongs to a booking; detach it from the booking');
+    }
+    if (existing.status === 'released') {
+      return existing;
+    }
+
+    const released = await this.resourceRepository.updateReservation(reservationId, {
+      status: 'released',
+      updatedBy: userId,
+    });
+
+    this.broadcast(tenantId, [released]);
+    return released;
+  }
+
+  // Released reservations included, so a cancelled booking shows what it would take back
+  async findForBooking(booking: Booking): Promise<ResourceReservation[]> {
+    return this.resourceRepository.findByBooking(booking.id);
+  }
+
+  /**
+   * Reserves `claims` for the booking's slot inside the caller's
+   * transaction. Fails if a resource is already attached or has no room.
+   */
+  async attachWithin(
+    tx: DrizzleTransaction,
+    booking: Booking,
+    claims: ResourceClaimDto[],
+    userId: string,
+  ): Promise<ResourceReservation[]> {
+    if (!isLive(booking) || booking.status === 'completed') {
+      throw new BadRequestException(`Cannot reserve resources for a ${booking.status} booking`);
+    }
+
+    const ids = claims.map((claim) => claim.resourceId);
+    if (new Set(ids).size !== ids.length) {
+      throw new BadRequestException('Each resource can be claimed once per booking');
+    }
+
+    const found = await this.resourceRepository.findMany(ids, booking.tenantId, tx);
+    const resources = new Map(found.map((resource) => [resource.id, resource]));
+    const missing = ids.filter((id) => !resources.has(id));
+    if (missing.length > 0) {
+      throw new NotFoundException(`Resource not found: ${missing.join(', ')}`);
+    }
+    found.forEach((resource) => this.assertActive(resource));
+
+    await lockResources(tx, ids);
+
+    const attached = new Set(
+      (await this.resourceRepository.findByBooking(booking.id, tx)).map((r) => r.resourceId),
+    );
+    const duplicates = ids.filter((id) => attached.has(id));
+    if (duplicates.length > 0) {
+      throw new ConflictException({
+        error: 'RESOURCE_ALREADY_ATTACHED',
+        message: 'Resource is already attached to this booking',
+        details: { resourceIds: duplicates },
+      });
+    }
+
+    const created: ResourceReservation[] = [];
+    for (const claim of claims) {
+      const quantity = claim.quantity ?? 1;
+      await this.assertCapacity(
+        tx,
+        resources.get(claim.resourceId)!,
+        booking.startTime,
+        booking.endTime,
+        quantity,
+      );
+
+      created.push(
+        await this.resourceRepository.createReservation(
+          {
+            tenantId: booking.tenantId,
+            resourceId: claim.resourceId,
+            bookingId: booking.id,
+            startTime: booking.startTime,
+            endTime: booking.endTime,
+            quantity,
+            title: booking.title,
+            createdBy: userId,
+            updatedBy: userId,
+          },
+          tx,
+        ),
+      );
+    }
+
+    return created;
+  }
+
+  async detachWithin(
+    tx: DrizzleTransaction,
+    booking: Booking,
+    resourceId: string,
+  ): Promise<ResourceReservation> {
+    const reservation = (await this.resourceRepository.findByBooking(booking.id, tx)).find(
+      (r) => r.resourceId === resourceId,
+    );
+    if (!reservation) {
+      throw new NotFoundException('Resource is not attached to this booking');
+    }
+
+    await this.resourceRepository.deleteReservation(reservation.id, tx);
+    return { ...reservation, status: 'released' };
+  }
+
+  /**
+   * Brings a booking's reservations in line after a write: they take its
+   * new slot, are released when it is cancelled and taken again (if there
+   * is room) when it is restored. Returns the reservations that changed.
+   */
+  async followWithin(
+    tx: DrizzleTransaction,
+    before: Booking,
+    after: Booking,
+    userId: string | null,
+  ): Promise<ResourceReservation[]> {
+    const moved =
+      before.startTime.getTime() !== after.startTime.getTime() ||
+      before.endTime.getTime() !== after.endTime.getTime();
+    if (!moved && isLive(before) === isLive(after)) {
+      return [];
+    }
+
+    const attached = await this.resourceRepository.findByBooking(after.id, tx);
+    if (attached.length === 0) {
+      return [];
+    }
+
+    await lockResources(tx, attached.map((reservation) => reservation.resourceId));
+
+    const changed: ResourceReservation[] = [];
+    if (!isLive(after)) {
+      for (const reservation of attached.filter((r) => r.status === 'reserved')) {
+        changed.push(
+          await this.resourceRepository.updateReservation(
+            reservation.id,
+            { status: 'released', updatedBy: userId },
+            tx,
+          ),
+        );
+      }
+      return changed;
+    }
+
+    const resources = new Map(
+      (
+        await this.resourceRepository.findMany(
+          attached.map((reservation) => reservation.resourceId),
+          after.tenantId,
+          tx,
+        )
+      ).map((resource) => [resource.id, resource]),
+    );
+
+    for (const reservation of attached) {
+      await this.assertCapacity(
+        tx,
+        resources.get(reservation.resourceId)!,
+        after.startTime,
+        after.endTime,
+        reservation.quantity,
+        [reservation.id],
+      );
+
+      changed.push(
+        await this.resourceRepository.updateReservation(
+          reservation.id,
+          {
+            startTime: after.startTime,
+            endTime: after.endTime,
+            status: 'reserved',
+            updatedBy: userId,
+          },
+          tx,
+        ),
+      );
+    }
+
+    return changed;
+  }
+
+  /**
+   * Broadcasts committed reservation changes, one event per resource. Call
+   * only after the transaction that made them has committed.
+   */
+  broadcast(tenantId: string, reservations: ResourceReservation[]) {
+    const byResource = new Map<string, ResourceReservation[]>();
+    for (const reservation of reservations) {
+      byResource.set(reservation.resourceId, [
+        ...(byResource.get(reservation.resourceId) ?? []),
+        reservation,
+      ]);
+    }
+
+    for (const [resourceId, changed] of byResource) {
+      this.bookingsGateway.broadcastToTenant(tenantId, 'resource:updated', {
+        resourceId,
+        reservations: changed,
+      });
+    }
+  }
+
+  /**
+   * Refuses a reservation that would take the resource past its capacity
+   * at any moment of [startTime, endTime). The caller must hold the
+   * resource lock.
+   */
+  private async assertCapacity(
+    tx: DrizzleTransaction,
+    resource: ResourceRecord,
+    startTime: Date,
+    endTime: Date,
+    quantity: number,
+    excludeIds?: string[],
+  ) {
+    const overlapping = await this.resourceRepository.findReservations(
+      { resourceIds: [resource.id], startTime, endTime, excludeIds },
+      tx,
+    );
+    const inUse = peakUsage(overlapping, startTime, endTime);
+
+    if (inUse + quantity > resource.capacity) {
+      throw new ConflictException({
+        error: 'RESOURCE_CONFLICT',
+        message: `${resource.name} is fully booked for this time`,
+        details: {
+          resourceId: resource.id,
+          capacity: resource.capacity,
+          requested: quantity,
+          inUse,
+          conflictingReservationIds: overlapping.map((reservation) => reservation.id),
+        },
+      });
+    }
+  }
+
+  private assertActive(resource: ResourceRecord) {
+    if (!resource.isActive) {
+      throw new BadRequestException(`${resource.name} is inactive and cannot be reserved`);
+    }
+  }
+
+  private validateRange(from: Date, to: Date) {
+    if (to <= from) {
+      throw new BadRequestException('"to" must be after "from"');
+    }
+    if (to.getTime() - from.getTime() > MAX_RANGE_DAYS * DAY_MS) {
+      throw new BadRequestException(`Range can span at most ${MAX_RANGE_DAYS} days`);
+    }
+  }
+
+  private async withNameCheck<T>(write: () => Promise<T>): Promise<T> {
+    try {
+      return await write();
+    } catch (error) {
+      if (isUniqueViolation(error)) {
+        throw new ConflictException({
+          error: 'RESOURCE_NAME_TAKEN',
+          message: 'A resource with this name already exists',
+        });
+      }
+      throw error;
+    }
+  }
+}
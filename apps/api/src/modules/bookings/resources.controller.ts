@@ -0,0 +1,146 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  UseInterceptors,
+  Req,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiBearerAuth } from '@nestjs/swagger';
+import { ResourceService } from './resource.service';
+import { CreateResourceDto } from './dto/create-resource.dto';
+import { UpdateResourceDto } from './dto/update-resource.dto';
+import { ResourceQueryDto } from './dto/resource-query.dto';
+import { ReserveResourceDto } from './dto/reserve-resource.dto';
+import { FreeBusyQueryDto } from './dto/free-busy-query.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { TenantGuard } from '../auth/guards/tenant.guard';
+import { RequestWithUser } from '../auth/interfaces/request-with-user.interface';
+import { TimeZoneInterceptor } from '../../common/interceptors/time-zone.interceptor';
+
+@ApiTags('resources')
+@ApiBearerAuth()
+@Controller('resources')
+@UseGuards(JwtAuthGuard, TenantGuard)
+@UseInterceptors(TimeZoneInterceptor)
+export class ResourcesController {
+  constructor(private readonly resourceService: ResourceService) {}
+
+  @Post()
+  @ApiOperation({ summary: 'Create a bookable resource (room, workstation, license, equipment)' })
+  async create(@Body() createDto: CreateResourceDto, @Req() req: RequestWithUser) {
+    const resource = await this.resourceService.create(createDto, req.user.tenantId, req.user.id);
+    return { data: resource };
+  }
+
+  @Get()
+  @ApiOperation({ summary: 'List resources' })
+  async findAll(@Query() query: ResourceQueryDto, @Req() req: RequestWithUser) {
+    const resources = await this.resourceService.findAll({
+      tenantId: req.user.tenantId,
+      type: query.type,
+      includeInactive: query.includeInactive,
+    });
+
+    return { data: resources };
+  }
+
+  // Registered before :id so "reservations" isn't read as a resource id
+  @Post('reservations/:reservationId/release')
+  @ApiOperation({ summary: 'Release a reservation made on its own' })
+  async release(@Param('reservationId') reservationId: string, @Req() req: RequestWithUser) {
+    const reservation = await this.resourceService.release(
+      reservationId,
+      req.user.tenantId,
+      req.user.id,
+    );
+
+    return { data: reservation };
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get resource' })
+  async findOne(@Param('id') id: string, @Req() req: RequestWithUser) {
+    const resource = await this.resourceService.findOne(id, req.user.tenantId);
+    return { data: resource };
+  }
+
+  @Patch(':id')
+  @ApiOperation({ summary: 'Update resource' })
+  async update(
+    @Param('id') id: string,
+    @Body() updateDto: UpdateResourceDto,
+    @Req() req: RequestWithUser,
+  ) {
+    const resource = await this.resourceService.update(
+      id,
+      updateDto,
+      req.user.tenantId,
+      req.user.id,
+    );
+
+    return { data: resource };
+  }
+
+  @Delete(':id')
+  @ApiOperation({ summary: 'Delete a resource with no upcoming reservations' })
+  async remove(@Param('id') id: string, @Req() req: RequestWithUser) {
+    return this.resourceService.remove(id, req.user.tenantId);
+  }
+
+  @Get(':id/availability')
+  @ApiOperation({ summary: 'Usage, free and fully booked time for a resource' })
+  async availability(
+    @Param('id') id: string,
+    @Query() query: FreeBusyQueryDto,
+    @Req() req: RequestWithUser,
+  ) {
+    const availability = await this.resourceService.availability(
+      id,
+      req.user.tenantId,
+      query.from,
+      query.to,
+    );
+
+    return { data: availability };
+  }
+
+  @Get(':id/reservations')
+  @ApiOperation({ summary: 'Live reservations of a resource in a range' })
+  async findReservations(
+    @Param('id') id: string,
+    @Query() query: FreeBusyQueryDto,
+    @Req() req: RequestWithUser,
+  ) {
+    const reservations = await this.resourceService.findReservations(
+      id,
+      req.user.tenantId,
+      query.from,
+      query.to,
+    );
+
+    return { data: reservations };
+  }
+
+  @Post(':id/reservations')
+  @ApiOperation({ summary: 'Reserve a resource on its own' })
+  async reserve(
+    @Param('id') id: string,
+    @Body() reserveDto: ReserveResourceDto,
+    @Req() req: RequestWithUser,
+  ) {
+    const reservation = await this.resourceService.reserve(
+      id,
+      reserveDto,
+      req.user.tenantId,
+      req.user.id,
+    );
+
+    return { data: reservation };
+  }
+}
@@ -0,0 +1,74 @@
+import { peakUsage, resourceAvailability, resourceUsage } from './resources';
+
+const at = (hour: number) => new Date(Date.UTC(2026, 10, 2, hour));
+const reservation = (id: string, start: number, end: number, quantity = 1) => ({
+  id,
+  startTime: at(start),
+  endTime: at(end),
+  quantity,
+});
+
+describe('resources', () => {
+  describe('resourceUsage', () => {
+    it('splits at every boundary and sums the quantities overlapping each piece', () => {
+      const reservations = [reservation('a', 9, 13, 2), reservation('b', 11, 15, 1)];
+
+      expect(resourceUsage(reservations, at(8), at(18))).toEqual([
+        { start: at(9), end: at(11), used: 2, reservationIds: ['a'] },
+        { start: at(11), end: at(13), used: 3, reservationIds: ['a', 'b'] },
+        { start: at(13), end: at(15), used: 1, reservationIds: ['b'] },
+      ]);
+    });
+
+    it('keeps pieces apart where the reservations change but the units used do not', () => {
+      const reservations = [reservation('a', 9, 11), reservation('b', 11, 13)];
+
+      expect(resourceUsage(reservations, at(8), at(18))).toEqual([
+        { start: at(9), end: at(11), used: 1, reservationIds: ['a'] },
+        { start: at(11), end: at(13), used: 1, reservationIds: ['b'] },
+      ]);
+    });
+
+    it('clips reservations to the range and leaves out those outside it', () => {
+      const reservations = [reservation('a', 6, 10), reservation('b', 18, 20)];
+
+      expect(resourceUsage(reservations, at(8), at(18))).toEqual([
+        { start: at(8), end: at(10), used: 1, reservationIds: ['a'] },
+      ]);
+    });
+  });
+
+  it('reports the peak units taken in a stretch, or none', () => {
+    const reservations = [
+      reservation('a', 9, 13, 2),
+      reservation('b', 11, 15, 1),
+      reservation('c', 14, 16, 4),
+    ];
+
+    expect(peakUsage(reservations, at(9), at(14))).toBe(3);
+    expect(peakUsage(reservations, at(9), at(18))).toBe(5);
+    expect(peakUsage(reservations, at(16), at(18))).toBe(0);
+  });
+
+  it('splits the range into free and full by capacity', () => {
+    const reservations = [
+      reservation('a', 9, 12, 2),
+      reservation('b', 10, 11, 1),
+      reservation('c', 12, 14, 3),
+    ];
+
+    const availability = resourceAvailability(reservations, 3, at(8), at(18));
+
+    expect(availability.capacity).toBe(3);
+    expect(availability.usage.map(({ used }) => used)).toEqual([2, 3, 2, 3]);
+    expect(availability.full).toEqual([
+      { start: at(10), end: at(11) },
+      { start: at(12), end: at(14) },
+    ]);
+    expect(availability.free).toEqual([
+      { start: at(8), end: at(10) },
+      { start: at(11), end: at(12) },
+      { start: at(14), end: at(18) },
+    ]);
+  });
+});
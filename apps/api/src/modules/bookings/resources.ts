@@ -0,0 +1,91 @@
+import { TimeInterval, mergeIntervals, subtractIntervals } from './availability';
+
+export interface Reservation {
+  id: string;
+  startTime: Date;
+  endTime: Date;
+  quantity: number;
+}
+
+// A stretch over which the same reservations overlap
+export interface ResourceUsage extends TimeInterval {
+  used: number;
+  reservationIds: string[];
+}
+
+export interface ResourceAvailability {
+  capacity: number;
+  usage: ResourceUsage[];
+  // Where at least one unit is left
+  free: TimeInterval[];
+  // Where every unit is taken
+  full: TimeInterval[];
+}
+
+/**
+ * Splits [from, to) at every reservation boundary and sums what overlaps
+ * each piece. Pieces nothing overlaps are left out.
+ */
+export function resourceUsage(reservations: Reservation[], from: Date, to: Date): ResourceUsage[] {
+  const inRange = reservations.filter((r) => r.startTime < to && r.endTime > from);
+  const boundaries = [
+    ...new Set(
+      inRange
+        .flatMap((r) => [r.startTime.getTime(), r.endTime.getTime()])
+        .concat(from.getTime(), to.getTime())
+        .filter((time) => time >= from.getTime() && time <= to.getTime()),
+    ),
+  ].sort((a, b) => a - b);
+
+  const usage: ResourceUsage[] = [];
+  for (let i = 0; i < boundaries.length - 1; i++) {
+    const start = new Date(boundaries[i]);
+    const end = new Date(boundaries[i + 1]);
+    const overlapping = inRange.filter((r) => r.startTime < end && r.endTime > start);
+    if (overlapping.length === 0) {
+      continue;
+    }
+
+    const used = overlapping.reduce((sum, r) => sum + r.quantity, 0);
+    const reservationIds = overlapping.map((r) => r.id).sort();
+    const last = usage[usage.length - 1];
+    if (
+      last &&
+      last.end.getTime() === start.getTime() &&
+      last.used === used &&
+      last.reservationIds.join() === reservationIds.join()
+    ) {
+      last.end = end;
+    } else {
+      usage.push({ start, end, used, reservationIds });
+    }
+  }
+
+  return usage;
+}
+
+// Most units taken at any one moment of [start, end)
+export function peakUsage(reservations: Reservation[], start: Date, end: Date): number {
+  return Math.max(0, ...resourceUsage(reservations, start, end).map((piece) => piece.used));
+}
+
+export function resourceAvailability(
+  reservations: Reservation[],
+  capacity: number,
+  from: Date,
+  to: Date,
+): ResourceAvailability {
+  const usage = resourceUsage(reservations, from, to);
+  const full = mergeIntervals(
+    usage
+      .filter((piece) => piece.used >= capacity)
+      .map((piece) => ({ start: piece.start, end: piece.end })),
+  );
+
+  return {
+    capacity,
+    usage,
+    free: subtractIntervals([{ start: from, end: to }], full),
+    full,
+  };
+}
@@ -0,0 +1,190 @@
+import { Injectable, BadRequestException } from '@nestjs/common';
+import { AvailabilityService } from './availability.service';
+import { TimeInterval } from './availability';
+import {
+  SlotDuration,
+  SlotReason,
+  byScore,
+  dailyRate,
+  daySlots,
+  estimateCost,
+  hourSlots,
+  matchedSkills,
+  pickCrew,
+  slotReasons,
+  slotScore,
+} from './slot-finder';
+import { ArtistRecord, AvailabilityRepository } from './repositories/availability.repository';
+import { BookingRepository } from './repositories/booking.repository';
+import { FindSlotsDto } from './dto/find-slots.dto';
+
+const DEFAULT_LIMIT = 20;
+const SLOTS_PER_ARTIST = 3;
+
+// Ready to POST to /bookings; left unpriced so the booking is priced from
+// the artist's rate and the tenant's rules like any other
+export interface SlotHold {
+  artistId: string;
+  projectId?: string;
+  startTime: Date;
+  endTime: Date;
+  status: 'hold';
+}
+
+export interface SlotCandidate {
+  artist: Pick<ArtistRecord, 'id' | 'name' | 'type' | 'skills' | 'dailyRate' | 'hourlyRate'>;
+  // From the start of the first working window to the end of the last
+  startTime: Date;
+  endTime: Date;
+  duration: SlotDuration;
+  estimatedCost: number | null;
+  score: number;
+  reasons: SlotReason[];
+  // One per working window, so a multi-day slot never books the nights
+  // and weekends between its days
+  holds: SlotHold[];
+}
+
+export interface SlotSearchResult {
+  candidates: SlotCandidate[];
+  // Best slot of the top `headcount` distinct artists
+  crew: SlotCandidate[];
+}
+
+interface RawSlot {
+  artist: ArtistRecord;
+  pieces: TimeInterval[];
+  duration: SlotDuration;
+}
+
+/**
+ * Suggests artists and times for a staffing request ("two compositors for
+ * five days next month"). Slots come from the availability engine, so
+ * they respect patterns, working hours, time off and existing bookings;
+ * candidates are ranked by skill match, cost, continuity with the
+ * project's crew and how soon they start.
+ */
+@Injectable()
+export class SlotFinderService {
+  constructor(
+    private readonly availabilityService: AvailabilityService,
+    private readonly availabilityRepository: AvailabilityRepository,
+    private readonly bookingRepository: BookingRepository,
+  ) {}
+
+  async search(tenantId: string, query: FindSlotsDto): Promise<SlotSearchResult> {
+    if (!query.durationDays === !query.durationHours) {
+      throw new BadRequestException('Specify exactly one of durationDays or durationHours');
+    }
+
+    const requiredSkills = (query.skills ?? []).map((skill) => skill.toLowerCase());
+
+    const artists = (
+      await this.availabilityRepository.findActiveArtists(tenantId, { type: query.artistType })
+    ).filter((artist) => {
+      if (requiredSkills.length > 0 && matchedSkills(artist, requiredSkills).length === 0) {
+        return false;
+      }
+      const daily = dailyRate(artist);
+      return query.maxDailyRate === undefined || daily === null || daily <= query.maxDailyRate;
+    });
+
+    const [availability, crew] = await Promise.all([
+      this.availabilityService.loadAvailability(
+        tenantId,
+        artists.map((a) => a.id),
+        query.from,
+        query.until,
+      ),
+      query.projectId
+        ? this.bookingRepository.countByProject(tenantId, query.projectId)
+        : Promise.resolve([]),
+    ]);
+
+    const projectBookings = new Map(crew.map((row) => [row.artistId, row.bookings]));
+
+    const slots: RawSlot[] = [];
+    for (const artist of artists) {
+      const inputs = availability.get(artist.id);
+      if (!inputs) {
+        continue;
+      }
+
+      const found = query.durationDays
+        ? daySlots(inputs, query.durationDays)
+        : hourSlots(inputs, query.durationHours!);
+
+      slots.push(
+        ...found.slice(0, SLOTS_PER_ARTIST).map((pieces) => ({
+          artist,
+          pieces,
+          duration: query.durationDays
+            ? { days: query.durationDays }
+            : { hours: query.durationHours },
+        })),
+      );
+    }
+
+    const costs = slots
+      .map((slot) => estimateCost(slot.artist, slot.duration))
+      .filter((cost): cost is number => cost !== null);
+    const cheapest = costs.length > 0 ? Math.min(...costs) : null;
+    const dearest = costs.length > 0 ? Math.max(...costs) : null;
+
+    const candidates = slots
+      .map((slot) => {
+        const estimatedCost = estimateCost(slot.artist, slot.duration);
+        const reasons = slotReasons(slot.artist, slot.pieces[0].start, estimatedCost, {
+          requiredSkills,
+          cheapest,
+          dearest,
+          projectId: query.projectId,
+          projectBookings: projectBookings.get(slot.artist.id) ?? 0,
+          from: query.from,
+          until: query.until,
+        });
+
+        return this.toCandidate(slot, query.projectId, estimatedCost, slotScore(reasons), reasons);
+      })
+      .sort(byScore);
+
+    return {
+      candidates: candidates.slice(0, query.limit ?? DEFAULT_LIMIT),
+      crew: pickCrew(candidates, query.headcount ?? 1),
+    };
+  }
+
+  private toCandidate(
+    slot: RawSlot,
+    projectId: string | undefined,
+    estimatedCost: number | null,
+    score: number,
+    reasons: SlotReason[],
+  ): SlotCandidate {
+    const { artist, pieces } = slot;
+
+    return {
+      artist: {
+        id: artist.id,
+        name: artist.name,
+        type: artist.type,
+        skills: artist.skills,
+        dailyRate: artist.dailyRate,
+        hourlyRate: artist.hourlyRate,
+      },
+      startTime: pieces[0].start,
+      endTime: pieces[pieces.length - 1].end,
+      duration: slot.duration,
+      estimatedCost,
+      score: Math.round(score * 1000) / 1000,
+      reasons,
+      holds: pieces.map((piece) => ({
+        artistId: artist.id,
+        ...(projectId ? { projectId } : {}),
+        startTime: piece.start,
+        endTime: piece.end,
+        status: 'hold',
+      })),
+    };
+  }
+}
@@ -0,0 +1,177 @@
+import { AvailabilityInputs } from './availability';
+import { ArtistRecord } from './repositories/availability.repository';
+import {
+  ScoringContext,
+  byScore,
+  daySlots,
+  estimateCost,
+  hourSlots,
+  pickCrew,
+  slotReasons,
+  slotScore,
+} from './slot-finder';
+
+const at = (value: string) => new Date(value);
+const interval = (start: string, end: string) => ({ start: at(start), end: at(end) });
+
+function artist(overrides: Partial<ArtistRecord> = {}): ArtistRecord {
+  return {
+    id: 'artist-1',
+    name: 'Ada',
+    skills: ['Nuke', 'Houdini'],
+    dailyRate: null,
+    hourlyRate: null,
+    ...overrides,
+  } as ArtistRecord;
+}
+
+// Thursday 22 to Wednesday 28 October 2026, Monday to Friday 09:00-17:00
+function week(bookings: AvailabilityInputs['bookings'] = []): AvailabilityInputs {
+  return {
+    from: at('2026-10-22T00:00:00Z'),
+    to: at('2026-10-29T00:00:00Z'),
+    timeZone: 'UTC',
+    patterns: [
+      {
+        id: 'pattern-1',
+        artistId: 'artist-1',
+        name: null,
+        validFrom: null,
+        validUntil: null,
+        priority: 0,
+        createdAt: at('2026-01-01T00:00:00Z'),
+        pattern: {
+          type: 'weekly',
+          weekly: [1, 2, 3, 4, 5].map((dayOfWeek) => ({
+            dayOfWeek,
+            startTime: '09:00',
+            endTime: '17:00',
+          })),
+        },
+      },
+    ],
+    bookings,
+    timeOff: [],
+    externalBusy: [],
+  };
+}
+
+const context: ScoringContext = {
+  requiredSkills: ['nuke', 'houdini'],
+  cheapest: 400,
+  dearest: 800,
+  projectId: 'project-1',
+  projectBookings: 2,
+  from: at('2026-10-22T00:00:00Z'),
+  until: at('2026-10-29T00:00:00Z'),
+};
+
+describe('slot finder', () => {
+  describe('daySlots', () => {
+    it('covers each working day on its own, skipping the weekend', () => {
+      expect(daySlots(week(), 3)).toEqual([
+        [
+          interval('2026-10-22T09:00:00Z', '2026-10-22T17:00:00Z'),
+          interval('2026-10-23T09:00:00Z', '2026-10-23T17:00:00Z'),
+          interval('2026-10-26T09:00:00Z', '2026-10-26T17:00:00Z'),
+        ],
+      ]);
+    });
+
+    it('restarts the run after a partly booked day', () => {
+      const booking = {
+        id: 'b1',
+        startTime: at('2026-10-23T10:00:00Z'),
+        endTime: at('2026-10-23T11:00:00Z'),
+      };
+      const slots = daySlots(week([booking]), 3);
+
+      expect(slots.map((pieces) => pieces.map((piece) => piece.start))).toEqual([
+        [at('2026-10-26T09:00:00Z'), at('2026-10-27T09:00:00Z'), at('2026-10-28T09:00:00Z')],
+      ]);
+    });
+  });
+
+  it('starts hour slots at each free stretch long enough', () => {
+    const inputs = {
+      ...week([
+        { id: 'b1', startTime: at('2026-10-22T09:00:00Z'), endTime: at('2026-10-22T15:00:00Z') },
+      ]),
+      to: at('2026-10-23T00:00:00Z'),
+    };
+
+    expect(hourSlots(inputs, 2)).toEqual([
+      [interval('2026-10-22T15:00:00Z', '2026-10-22T17:00:00Z')],
+    ]);
+    expect(hourSlots(inputs, 3)).toEqual([]);
+  });
+
+  it('estimates cost from whichever rate the artist has', () => {
+    expect(estimateCost(artist({ dailyRate: '500' }), { days: 3 })).toBe(1500);
+    expect(estimateCost(artist({ hourlyRate: '50' }), { days: 2 })).toBe(800);
+    expect(estimateCost(artist({ dailyRate: '400', hourlyRate: '60' }), { hours: 4 })).toBe(240);
+    expect(estimateCost(artist({ dailyRate: '400' }), { hours: 4 })).toBe(200);
+    expect(estimateCost(artist(), { days: 1 })).toBeNull();
+  });
+
+  describe('scoring', () => {
+    it('gives full marks to the cheapest matching crew member starting first', () => {
+      const reasons = slotReasons(artist(), context.from, 400, context);
+
+      expect(reasons.map(({ kind, score }) => [kind, score])).toEqual([
+        ['skill_match', 1],
+        ['cost', 1],
+        ['continuity', 1],
+        ['timing', 1],
+      ]);
+      expect(slotScore(reasons)).toBeCloseTo(1);
+    });
+
+    it('weights partial matches, dearer rates, newcomers and later starts', () => {
+      const reasons = slotReasons(artist({ skills: ['nuke'] }), at('2026-10-25T12:00:00Z'), 700, {
+        ...context,
+        projectBookings: 0,
+      });
+
+      expect(reasons.map(({ score }) => score)).toEqual([0.5, 0.25, 0, 0.5]);
+      expect(reasons[0].detail).toBe('Matches 1/2 skills (nuke)');
+      // 0.4 * 0.5 + 0.25 * 0.25 + 0.25 * 0 + 0.1 * 0.5
+      expect(slotScore(reasons)).toBeCloseTo(0.3125);
+    });
+
+    it('puts artists without a rate in the middle on cost', () => {
+      expect(slotReasons(artist(), context.from, null, context)[1]).toEqual({
+        kind: 'cost',
+        score: 0.5,
+        detail: 'No rate on file',
+      });
+    });
+  });
+
+  it('ranks by score, then start, and picks one slot per artist for the crew', () => {
+    const candidate = (id: string, score: number, start: string) => ({
+      artist: { id },
+      score,
+      startTime: at(start),
+    });
+    const ranked = [
+      candidate('b', 0.8, '2026-10-23T09:00:00Z'),
+      candidate('a', 0.9, '2026-10-26T09:00:00Z'),
+      candidate('a', 0.9, '2026-10-22T09:00:00Z'),
+      candidate('c', 0.5, '2026-10-22T09:00:00Z'),
+    ].sort(byScore);
+    const days = (candidates: typeof ranked) =>
+      candidates.map(({ artist: { id }, startTime }) => [id, startTime.getUTCDate()]);
+
+    expect(days(ranked)).toEqual([
+      ['a', 22],
+      ['a', 26],
+      ['b', 23],
+      ['c', 22],
+    ]);
+    expect(days(pickCrew(ranked, 2))).toEqual([
+      ['a', 22],
+      ['b', 23],
+    ]);
+  });
+});
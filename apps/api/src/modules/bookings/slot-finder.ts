@@ -0,0 +1,239 @@
+import { localDate } from '../../common/utils/time-zone';
+import {
+  AvailabilityInputs,
+  TimeInterval,
+  availabilityWindows,
+  computeFreeBusy,
+  subtractIntervals,
+} from './availability';
+import { ArtistRecord } from './repositories/availability.repository';
+
+const HOUR_MS = 60 * 60 * 1000;
+// Converts between hourly and daily rates when an artist only has one
+const HOURS_PER_DAY = 8;
+
+// How much each criterion counts towards a candidate's score (sums to 1)
+export const SCORE_WEIGHTS = {
+  skill_match: 0.4,
+  cost: 0.25,
+  continuity: 0.25,
+  timing: 0.1,
+} as const;
+
+export type SlotReasonKind = keyof typeof SCORE_WEIGHTS;
+
+export interface SlotReason {
+  kind: SlotReasonKind;
+  // 0..1 before weighting
+  score: number;
+  detail: string;
+}
+
+// Working days covered (day searches) or hours (hour searches)
+export interface SlotDuration {
+  days?: number;
+  hours?: number;
+}
+
+export interface ScoringContext {
+  requiredSkills: string[];
+  // Range of the estimated costs across all candidates
+  cheapest: number | null;
+  dearest: number | null;
+  projectId?: string;
+  // The artist's bookings on the project
+  projectBookings: number;
+  from: Date;
+  until: Date;
+}
+
+function parseRate(rate: string | null): number | null {
+  if (rate === null) {
+    return null;
+  }
+  const value = Number(rate);
+  return Number.isFinite(value) ? value : null;
+}
+
+/**
+ * Runs of `days` working days that are entirely free, each as the working
+ * windows it covers (one per day, more on days split by a break). Days
+ * without working windows (weekends, days off) are skipped without
+ * breaking a run; a partly booked working day does break it. Runs don't
+ * overlap.
+ */
+export function daySlots(inputs: AvailabilityInputs, days: number): TimeInterval[][] {
+  const windows = availabilityWindows(inputs);
+  const { free } = computeFreeBusy(inputs);
+
+  const byDate = new Map<string, TimeInterval[]>();
+  for (const window of windows) {
+    const date = localDate(window.start, inputs.timeZone);
+    byDate.set(date, [...(byDate.get(date) ?? []), window]);
+  }
+
+  const slots: TimeInterval[][] = [];
+  let run: TimeInterval[][] = [];
+
+  for (const dayWindows of byDate.values()) {
+    const dayIsFree = subtractIntervals(dayWindows, free).length === 0;
+    run = dayIsFree ? [...run, dayWindows] : [];
+
+    if (run.length === days) {
+      slots.push(run.flat());
+      run = [];
+    }
+  }
+
+  return slots;
+}
+
+// The start of each free stretch long enough for `hours`
+export function hourSlots(inputs: AvailabilityInputs, hours: number): TimeInterval[][] {
+  const length = hours * HOUR_MS;
+
+  return computeFreeBusy(inputs)
+    .free.filter((interval) => interval.end.getTime() - interval.start.getTime() >= length)
+    .map((interval) => [
+      { start: interval.start, end: new Date(interval.start.getTime() + length) },
+    ]);
+}
+
+export function matchedSkills(artist: ArtistRecord, requiredSkills: string[]): string[] {
+  const skills = new Set((artist.skills ?? []).map((skill) => skill.toLowerCase()));
+  return requiredSkills.filter((skill) => skills.has(skill));
+}
+
+export function dailyRate(artist: ArtistRecord): number | null {
+  const daily = parseRate(artist.dailyRate);
+  if (daily !== null) {
+    return daily;
+  }
+  const hourly = parseRate(artist.hourlyRate);
+  return hourly === null ? null : hourly * HOURS_PER_DAY;
+}
+
+// A guide for ranking only; the booking itself is priced when it's made
+export function estimateCost(artist: ArtistRecord, duration: SlotDuration): number | null {
+  if (duration.days) {
+    const daily = dailyRate(artist);
+    return daily === null ? null : daily * duration.days;
+  }
+
+  const hourly = parseRate(artist.hourlyRate);
+  if (hourly !== null) {
+    return hourly * duration.hours!;
+  }
+  const daily = parseRate(artist.dailyRate);
+  return daily === null ? null : (daily / HOURS_PER_DAY) * duration.hours!;
+}
+
+/**
+ * Why a slot ranks where it does: skill match, cost against the other
+ * candidates, continuity with the project's crew and how soon it starts.
+ */
+export function slotReasons(
+  artist: ArtistRecord,
+  startTime: Date,
+  estimatedCost: number | null,
+  context: ScoringContext,
+): SlotReason[] {
+  return [
+    skillReason(artist, context.requiredSkills),
+    costReason(estimatedCost, context.cheapest, context.dearest),
+    continuityReason(context.projectId, context.projectBookings),
+    timingReason(startTime, context.from, context.until),
+  ];
+}
+
+export function slotScore(reasons: SlotReason[]): number {
+  return reasons.reduce((sum, reason) => sum + reason.score * SCORE_WEIGHTS[reason.kind], 0);
+}
+
+// Best first; the earlier start wins a tie
+export function byScore(
+  a: { score: number; startTime: Date },
+  b: { score: number; startTime: Date },
+): number {
+  return b.score - a.score || a.startTime.getTime() - b.startTime.getTime();
+}
+
+// The best slot of each of the top `headcount` distinct artists in `ranked`
+export function pickCrew<T extends { artist: { id: string } }>(
+  ranked: T[],
+  headcount: number,
+): T[] {
+  const seen = new Set<string>();
+  const crew: T[] = [];
+  for (const candidate of ranked) {
+    if (crew.length >= headcount) {
+      break;
+    }
+    if (!seen.has(candidate.artist.id)) {
+      seen.add(candidate.artist.id);
+      crew.push(candidate);
+    }
+  }
+
+  return crew;
+}
+
+function skillReason(artist: ArtistRecord, requiredSkills: string[]): SlotReason {
+  if (requiredSkills.length === 0) {
+    return { kind: 'skill_match', score: 1, detail: 'No specific skills requested' };
+  }
+
+  const matched = matchedSkills(artist, requiredSkills);
+  return {
+    kind: 'skill_match',
+    score: matched.length / requiredSkills.length,
+    detail: `Matches ${matched.length}/${requiredSkills.length} skills (${matched.join(', ')})`,
+  };
+}
+
+// Cheapest candidate scores 1, dearest 0; unknown rates sit in the middle
+function costReason(
+  cost: number | null,
+  cheapest: number | null,
+  dearest: number | null,
+): SlotReason {
+  if (cost === null || cheapest === null || dearest === null) {
+    return { kind: 'cost', score: 0.5, detail: 'No rate on file' };
+  }
+
+  const score = dearest === cheapest ? 1 : (dearest - cost) / (dearest - cheapest);
+  return {
+    kind: 'cost',
+    score,
+    detail:
+      cost === cheapest
+        ? `Estimated ${cost.toFixed(2)}, the lowest of the candidates`
+        : `Estimated ${cost.toFixed(2)} (lowest is ${cheapest.toFixed(2)})`,
+  };
+}
+
+function continuityReason(projectId: string | undefined, bookings: number): SlotReason {
+  if (!projectId) {
+    return { kind: 'continuity', score: 0, detail: 'No project given' };
+  }
+
+  return bookings > 0
+    ? {
+        kind: 'continuity',
+        score: 1,
+        detail: `Already on the project's crew (${bookings} booking${bookings === 1 ? '' : 's'})`,
+      }
+    : { kind: 'continuity', score: 0, detail: 'New to the project' };
+}
+
+// Earlier starts score higher
+function timingReason(startTime: Date, from: Date, until: Date): SlotReason {
+  const span = until.getTime() - from.getTime();
+  const offset = startTime.getTime() - from.getTime();
+
+  return {
+    kind: 'timing',
+    score: span > 0 ? Math.max(0, 1 - offset / span) : 1,
+    detail: `Starts ${startTime.toISOString()}`,
+  };
+}
@@ -0,0 +1,9 @@
+import { Module } from '@nestjs/common';
+import { NotificationService } from './notification.service';
+import { NotificationRepository } from './repositories/notification.repository';
+
+@Module({
+  providers: [NotificationService, NotificationRepository],
+  exports: [NotificationService],
+})
+export class NotificationModule {}
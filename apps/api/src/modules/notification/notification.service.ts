@@ -0,0 +1,46 @@
+import { Injectable } from '@nestjs/common';
+import { NotificationRepository } from './repositories/notification.repository';
+import { DrizzleTransaction } from '../../common/types/drizzle.types';
+
+export interface CreateNotificationInput {
+  tenantId: string;
+  userId: string;
+  type: string;
+  channel: 'email' | 'push' | 'in-app';
+  payload: Record<string, unknown>;
+  scheduledFor?: Date;
+}
+
+@Injectable()
+export class NotificationService {
+  constructor(
+    private readonly notificationRepository: NotificationRepository,
+  ) {}
+
+  /**
+   * Queues a notification for delivery. Rows are picked up from
+   * notification_queue by the delivery worker.
+   */
+  async createNotification(
+    notification: CreateNotificationInput,
+    tx?: DrizzleTransaction,
+  ) {
+    return this.notificationRepository.create(
+      {
+        ...notification,
+        status: 'pending',
+        scheduledFor: notification.scheduledFor ?? new Date(),
+      },
+      tx,
+    );
+  }
+
+  // Withdraws scheduled notifications that no longer apply, e.g. a reminder
+  // for something already done
+  async cancelPending(
+    filter: { tenantId: string; types: string[]; payload: Record<string, unknown> },
+    tx?: DrizzleTransaction,
+  ) {
+    return this.notificationRepository.cancelPending(filter, tx);
+  }
+}
@@ -0,0 +1,51 @@
+import { Injectable, Inject } from '@nestjs/common';
+import { and, eq, inArray, sql } from 'drizzle-orm';
+import { DrizzleDatabase, DrizzleTransaction } from '../../../common/types/drizzle.types';
+import { notificationQueue } from '../../../database/schema';
+
+export type NewNotification = typeof notificationQueue.$inferInsert;
+export type QueuedNotification = typeof notificationQueue.$inferSelect;
+
+@Injectable()
+export class NotificationRepository {
+  constructor(
+    @Inject('DATABASE_CONNECTION') private readonly db: DrizzleDatabase,
+  ) {}
+
+  /**
+   * Pass a transaction handle to enqueue the notification atomically with
+   * the change that triggered it.
+   */
+  async create(
+    data: NewNotification,
+    executor: DrizzleDatabase | DrizzleTransaction = this.db,
+  ): Promise<QueuedNotification> {
+    const [created] = await executor.insert(notificationQueue).values(data).returning();
+    return created;
+  }
+
+  /**
+   * Marks pending notifications of the given types whose payload contains
+   * `payload` as cancelled, so the delivery worker skips them. Returns how
+   * many were withdrawn.
+   */
+  async cancelPending(
+    filter: { tenantId: string; types: string[]; payload: Record<string, unknown> },
+    executor: DrizzleDatabase | DrizzleTransaction = this.db,
+  ): Promise<number> {
+    const cancelled = await executor
+      .update(notificationQueue)
+      .set({ status: 'cancelled' })
+      .where(
+        and(
+          eq(notificationQueue.tenantId, filter.tenantId),
+          eq(notificationQueue.status, 'pending'),
+          inArray(notificationQueue.type, filter.types),
+          sql`${notificationQueue.payload} @> ${JSON.stringify(filter.payload)}::jsonb`,
+        ),
+      )
+      .returning({ id: notificationQueue.id });
+
+    return cancelled.length;
+  }
+}
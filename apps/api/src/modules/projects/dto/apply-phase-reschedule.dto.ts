@@ -0,0 +1,12 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsNotEmpty, IsString } from 'class-validator';
+import { RescheduleProjectPhaseDto } from './reschedule-project-phase.dto';
+
+export class ApplyPhaseRescheduleDto extends RescheduleProjectPhaseDto {
+  @ApiProperty({
+    description: 'Fingerprint of the preview being confirmed; 409 if the plan changed since',
+  })
+  @IsString()
+  @IsNotEmpty()
+  fingerprint: string;
+}
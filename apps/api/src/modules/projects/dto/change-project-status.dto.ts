@@ -0,0 +1,15 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsIn, IsOptional, IsString, MaxLength } from 'class-validator';
+import { PROJECT_STATUSES, ProjectStatus } from '../project-status';
+
+export class ChangeProjectStatusDto {
+  @ApiProperty({ enum: PROJECT_STATUSES })
+  @IsIn(PROJECT_STATUSES)
+  status: ProjectStatus;
+
+  @ApiProperty({ required: false, description: 'Kept with the change in the project history' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(2000)
+  reason?: string;
+}
@@ -0,0 +1,22 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { ArrayMaxSize, IsArray, IsOptional, IsString, IsUrl, MaxLength } from 'class-validator';
+
+// Evidence that the milestone was met; kept on it and in its history
+export class CompleteMilestoneDto {
+  @ApiProperty({ required: false, description: 'e.g. "Signed off by the client on the call"' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(2000)
+  note?: string;
+
+  @ApiProperty({
+    required: false,
+    type: [String],
+    description: 'Links to the delivery, review or sign-off',
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(20)
+  @IsUrl({}, { each: true })
+  links?: string[];
+}
@@ -0,0 +1,63 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  ArrayMaxSize,
+  IsArray,
+  IsDate,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+
+export class CreateProjectMilestoneDto {
+  @ApiProperty({ description: 'e.g. "Client review of animatic"' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(255)
+  name: string;
+
+  @ApiProperty({ required: false })
+  @IsOptional()
+  @IsString()
+  description?: string;
+
+  @ApiProperty()
+  @Type(() => Date)
+  @IsDate()
+  dueDate: Date;
+
+  @ApiProperty({
+    required: false,
+    description: 'Phase of the same project it belongs to; flagged at risk if the phase runs late',
+  })
+  @IsOptional()
+  @IsUUID()
+  phaseId?: string | null;
+
+  @ApiProperty({
+    required: false,
+    description: 'User who gets the reminders and alerts; defaults to whoever creates it',
+  })
+  @IsOptional()
+  @IsUUID()
+  ownerId?: string | null;
+
+  @ApiProperty({
+    required: false,
+    type: [Number],
+    default: [3, 1],
+    description: 'Days before the due date to remind the owner',
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(10)
+  @IsInt({ each: true })
+  @Min(1, { each: true })
+  @Max(365, { each: true })
+  reminderDays?: number[];
+}
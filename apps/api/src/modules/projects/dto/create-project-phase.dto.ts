@@ -0,0 +1,94 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  ArrayMaxSize,
+  IsArray,
+  IsDate,
+  IsInt,
+  IsNotEmpty,
+  IsNumberString,
+  IsObject,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Matches,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+
+export class CreateProjectPhaseDto {
+  @ApiProperty({ description: 'e.g. "Lighting"' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(255)
+  name: string;
+
+  @ApiProperty({ required: false })
+  @IsOptional()
+  @IsString()
+  description?: string;
+
+  @ApiProperty()
+  @Type(() => Date)
+  @IsDate()
+  startDate: Date;
+
+  @ApiProperty()
+  @Type(() => Date)
+  @IsDate()
+  endDate: Date;
+
+  @ApiProperty({
+    required: false,
+    default: 0,
+    description: 'Percent done; a phase with sub-phases takes theirs, rolled up',
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(100)
+  progress?: number;
+
+  @ApiProperty({ required: false, description: 'Hex color, e.g. #4f46e5' })
+  @IsOptional()
+  @Matches(/^#[0-9a-fA-F]{6}$/, { message: 'color must be a hex color such as #4f46e5' })
+  color?: string;
+
+  @ApiProperty({
+    required: false,
+    description: 'Phase of the same project this one is nested in; it must run within it',
+  })
+  @IsOptional()
+  @IsUUID()
+  parentId?: string | null;
+
+  @ApiProperty({ required: false, default: 0 })
+  @IsOptional()
+  @IsInt()
+  orderIndex?: number;
+
+  @ApiProperty({
+    required: false,
+    type: [String],
+    description: 'Phases of the same project that must finish before this one starts',
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(100)
+  @IsUUID('all', { each: true })
+  dependencies?: string[];
+
+  @ApiProperty({
+    required: false,
+    description: 'Share of the project budget set aside for the phase',
+  })
+  @IsOptional()
+  @IsNumberString()
+  budget?: string | null;
+
+  @ApiProperty({ required: false })
+  @IsOptional()
+  @IsObject()
+  metadata?: Record<string, unknown>;
+}
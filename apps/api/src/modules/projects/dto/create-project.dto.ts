@@ -0,0 +1,84 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  IsDate,
+  IsIn,
+  IsNotEmpty,
+  IsNumberString,
+  IsOptional,
+  IsString,
+  Matches,
+  MaxLength,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+
+const PRIORITIES = ['low', 'medium', 'high', 'critical'] as const;
+
+export class ProjectMetadataDto {
+  @ApiProperty({ required: false, description: 'Hex color, e.g. #4f46e5' })
+  @IsOptional()
+  @Matches(/^#[0-9a-fA-F]{6}$/, { message: 'color must be a hex color such as #4f46e5' })
+  color?: string;
+
+  @ApiProperty({ required: false, enum: PRIORITIES })
+  @IsOptional()
+  @IsIn(PRIORITIES)
+  priority?: (typeof PRIORITIES)[number];
+}
+
+// New projects start out in planning; status moves through its own route
+export class CreateProjectDto {
+  @ApiProperty()
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(255)
+  name: string;
+
+  @ApiProperty({
+    required: false,
+    description: 'Short reference, unique within the studio, e.g. "ACME-24"',
+  })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(50)
+  code?: string;
+
+  @ApiProperty({ required: false })
+  @IsOptional()
+  @IsString()
+  description?: string;
+
+  @ApiProperty({ required: false })
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  startDate?: Date;
+
+  @ApiProperty({ required: false })
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  endDate?: Date;
+
+  @ApiProperty({ required: false })
+  @IsOptional()
+  @IsNumberString()
+  budget?: string;
+
+  @ApiProperty({ required: false })
+  @IsOptional()
+  @IsString()
+  @MaxLength(255)
+  clientName?: string;
+
+  @ApiProperty({
+    required: false,
+    type: ProjectMetadataDto,
+    description: 'Merged into the stored metadata, which also mirrors the phases',
+  })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => ProjectMetadataDto)
+  metadata?: ProjectMetadataDto;
+}
@@ -0,0 +1,14 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsIn, IsOptional } from 'class-validator';
+import { MILESTONE_STATES, MilestoneState } from '../milestone-alerts';
+
+export class MilestoneQueryDto {
+  @ApiProperty({
+    required: false,
+    enum: MILESTONE_STATES,
+    description: 'open and overdue are both not yet completed; overdue is past its due date',
+  })
+  @IsOptional()
+  @IsIn(MILESTONE_STATES)
+  state?: MilestoneState;
+}
@@ -0,0 +1,16 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsIn, IsOptional, IsString, MaxLength } from 'class-validator';
+import { PROJECT_STATUSES, ProjectStatus } from '../project-status';
+
+export class ProjectQueryDto {
+  @ApiProperty({ required: false, enum: PROJECT_STATUSES })
+  @IsOptional()
+  @IsIn(PROJECT_STATUSES)
+  status?: ProjectStatus;
+
+  @ApiProperty({ required: false, description: 'Matches part of the name or code' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(255)
+  search?: string;
+}
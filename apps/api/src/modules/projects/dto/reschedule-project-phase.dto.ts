@@ -0,0 +1,29 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsBoolean, IsDate, IsOptional } from 'class-validator';
+import { Type } from 'class-transformer';
+
+// A new start alone moves the phase; a new end alone resizes it
+export class RescheduleProjectPhaseDto {
+  @ApiProperty({
+    required: false,
+    description: 'New start; without endDate the phase keeps its length',
+  })
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  startDate?: Date;
+
+  @ApiProperty({ required: false })
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  endDate?: Date;
+
+  @ApiProperty({
+    required: false,
+    description: "Allow moved bookings to fall outside their artists' local working hours",
+  })
+  @IsOptional()
+  @IsBoolean()
+  allowOutsideWorkingHours?: boolean;
+}
@@ -0,0 +1,5 @@
+import { PartialType } from '@nestjs/swagger';
+import { CreateProjectMilestoneDto } from './create-project-milestone.dto';
+
+// Completion goes through its own routes so evidence is recorded with it
+export class UpdateProjectMilestoneDto extends PartialType(CreateProjectMilestoneDto) {}
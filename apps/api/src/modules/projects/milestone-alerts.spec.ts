@@ -0,0 +1,60 @@
+import { isAtRisk, milestoneAlerts, milestoneState } from './milestone-alerts';
+
+const now = new Date('2026-11-02T09:00:00Z');
+const due = new Date('2026-11-10T17:00:00Z');
+const past = new Date('2026-11-01T00:00:00Z');
+const daysBefore = (count: number) => new Date(due.getTime() - count * 24 * 60 * 60 * 1000);
+
+function milestone(
+  overrides: { dueDate?: Date; completedAt?: Date | null; reminderDays?: number[] } = {},
+) {
+  return { dueDate: due, completedAt: null, reminderDays: [3, 1], ...overrides };
+}
+
+describe('milestone alerts', () => {
+  it('is open until the due date, overdue after and completed once done', () => {
+    expect(milestoneState(milestone(), now)).toBe('open');
+    expect(milestoneState(milestone({ dueDate: past }), now)).toBe('overdue');
+    expect(milestoneState(milestone({ dueDate: past, completedAt: now }), now)).toBe('completed');
+  });
+
+  describe('milestoneAlerts', () => {
+    it('queues a reminder per lead time, furthest first, then the overdue alert', () => {
+      expect(milestoneAlerts(milestone({ reminderDays: [1, 3] }), now)).toEqual([
+        { type: 'milestone_reminder', scheduledFor: daysBefore(3), daysLeft: 3 },
+        { type: 'milestone_reminder', scheduledFor: daysBefore(1), daysLeft: 1 },
+        { type: 'milestone_overdue', scheduledFor: due, daysLeft: 0 },
+      ]);
+    });
+
+    it('drops repeated and non-positive lead times', () => {
+      const alerts = milestoneAlerts(milestone({ reminderDays: [2, 2, 0, -1] }), now);
+
+      expect(alerts.map(({ type, daysLeft }) => [type, daysLeft])).toEqual([
+        ['milestone_reminder', 2],
+        ['milestone_overdue', 0],
+      ]);
+    });
+
+    it('skips reminders whose time has passed rather than sending them late', () => {
+      // Due in eight and a bit days: the 10-day reminder is past, the 7-day one is not
+      const alerts = milestoneAlerts(milestone({ reminderDays: [10, 7] }), now);
+
+      expect(alerts.map(({ daysLeft }) => daysLeft)).toEqual([7, 0]);
+    });
+
+    it('queues nothing for a completed or overdue milestone', () => {
+      expect(milestoneAlerts(milestone({ completedAt: now }), now)).toEqual([]);
+      expect(milestoneAlerts(milestone({ dueDate: past }), now)).toEqual([]);
+    });
+  });
+
+  it('flags an open milestone at risk while its phase ends after it is due', () => {
+    const late = { endDate: new Date('2026-11-12T00:00:00Z') };
+
+    expect(isAtRisk(milestone(), late)).toBe(true);
+    expect(isAtRisk(milestone(), { endDate: due })).toBe(false);
+    expect(isAtRisk(milestone(), undefined)).toBe(false);
+    expect(isAtRisk(milestone({ completedAt: now }), late)).toBe(false);
+  });
+});
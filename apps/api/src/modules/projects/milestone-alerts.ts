@@ -0,0 +1,68 @@
+import { projectMilestones } from '../../database/schema';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type MilestoneRecord = typeof projectMilestones.$inferSelect;
+
+export const MILESTONE_STATES = ['open', 'overdue', 'completed'] as const;
+export type MilestoneState = (typeof MILESTONE_STATES)[number];
+
+// Notifications scheduled ahead for a milestone; withdrawn when it is
+// completed, deleted or its dates change
+export const SCHEDULED_MILESTONE_ALERTS = ['milestone_reminder', 'milestone_overdue'];
+
+export interface MilestoneAlert {
+  type: 'milestone_reminder' | 'milestone_overdue';
+  scheduledFor: Date;
+  // Whole days left at the reminder; 0 for the overdue alert
+  daysLeft: number;
+}
+
+export function milestoneState(
+  milestone: Pick<MilestoneRecord, 'dueDate' | 'completedAt'>,
+  now: Date,
+): MilestoneState {
+  if (milestone.completedAt) {
+    return 'completed';
+  }
+
+  return milestone.dueDate < now ? 'overdue' : 'open';
+}
+
+/**
+ * Notifications to queue for an open milestone: a reminder `reminderDays`
+ * before the due date for each lead time still ahead, and the overdue
+ * alert at the due date itself. Nothing for a completed milestone or one
+ * already past due; times already passed are skipped rather than sent late.
+ */
+export function milestoneAlerts(
+  milestone: Pick<MilestoneRecord, 'dueDate' | 'completedAt' | 'reminderDays'>,
+  now: Date,
+): MilestoneAlert[] {
+  if (milestoneState(milestone, now) !== 'open') {
+    return [];
+  }
+
+  const due = milestone.dueDate.getTime();
+  const reminders = [...new Set(milestone.reminderDays)]
+    .filter((days) => days > 0 && due - days * DAY_MS > now.getTime())
+    .sort((a, b) => b - a)
+    .map((days) => ({
+      type: 'milestone_reminder' as const,
+      scheduledFor: new Date(due - days * DAY_MS),
+      daysLeft: days,
+    }));
+
+  return [
+    ...reminders,
+    { type: 'milestone_overdue', scheduledFor: milestone.dueDate, daysLeft: 0 },
+  ];
+}
+
+// An open milestone is at risk while the phase it belongs to ends after it is due
+export function isAtRisk(
+  milestone: Pick<MilestoneRecord, 'dueDate' | 'completedAt'>,
+  phase: { endDate: Date } | undefined,
+): boolean {
+  return !milestone.completedAt && phase !== undefined && phase.endDate > milestone.dueDate;
+}
@@ -0,0 +1,133 @@
+import { PhaseNode, phaseGraphIssues, phasePlan, rollUpProgress } from './phase-plan';
+
+function phase(
+  id: string,
+  start: string,
+  end: string,
+  overrides: Partial<PhaseNode> = {},
+): PhaseNode {
+  return {
+    id,
+    name: id,
+    parentId: null,
+    startDate: new Date(`${start}T00:00:00Z`),
+    endDate: new Date(`${end}T00:00:00Z`),
+    progress: 0,
+    dependencies: [],
+    ...overrides,
+  };
+}
+
+describe('phase plan', () => {
+  describe('phaseGraphIssues', () => {
+    it('is empty for a sound plan', () => {
+      expect(
+        phaseGraphIssues([
+          phase('design', '2026-11-02', '2026-11-06'),
+          phase('build', '2026-11-06', '2026-11-13', { dependencies: ['design'] }),
+        ]),
+      ).toEqual([]);
+    });
+
+    it('reports bad dates, dependencies and parents', () => {
+      const issues = phaseGraphIssues([
+        phase('backwards', '2026-11-06', '2026-11-02'),
+        phase('selfish', '2026-11-02', '2026-11-03', { dependencies: ['selfish', 'missing'] }),
+        phase('parent', '2026-11-02', '2026-11-06'),
+        phase('child', '2026-11-05', '2026-11-09', { parentId: 'parent' }),
+        phase('orphan', '2026-11-02', '2026-11-03', { parentId: 'gone' }),
+      ]);
+
+      expect(issues.map(({ rule, phaseId }) => [rule, phaseId])).toEqual([
+        ['invalid_dates', 'backwards'],
+        ['self_dependency', 'selfish'],
+        ['unknown_dependency', 'selfish'],
+        ['outside_parent', 'child'],
+        ['unknown_parent', 'orphan'],
+      ]);
+    });
+
+    it('reports each loop once', () => {
+      const issues = phaseGraphIssues([
+        phase('a', '2026-11-02', '2026-11-03', { dependencies: ['c'], parentId: 'b' }),
+        phase('b', '2026-11-02', '2026-11-03', { dependencies: ['a'], parentId: 'a' }),
+        phase('c', '2026-11-02', '2026-11-03', { dependencies: ['b'] }),
+      ]);
+
+      expect(issues).toEqual([
+        {
+          rule: 'parent_cycle',
+          phaseId: 'a',
+          message: 'Phase "a" is nested inside itself',
+          relatedIds: ['b'],
+        },
+        {
+          rule: 'dependency_cycle',
+          phaseId: 'b',
+          message: 'Phases "a", "c", "b" depend on each other in a loop',
+          relatedIds: ['a', 'c'],
+        },
+      ]);
+    });
+  });
+
+  describe('phasePlan', () => {
+    it('gives slack and follows the critical path back from the project end', () => {
+      const { schedule, criticalPath } = phasePlan([
+        phase('design', '2026-11-02', '2026-11-06'),
+        phase('build', '2026-11-06', '2026-11-13', { dependencies: ['design'] }),
+        phase('docs', '2026-11-02', '2026-11-04'),
+        phase('review', '2026-11-04', '2026-11-05', { dependencies: ['docs'] }),
+      ]);
+
+      expect(criticalPath).toEqual(['design', 'build']);
+      expect(schedule.get('build')).toEqual({ slackDays: 0, critical: true });
+      expect(schedule.get('review')).toEqual({ slackDays: 8, critical: false });
+      expect(schedule.get('docs')).toEqual({ slackDays: 8, critical: false });
+    });
+
+    it('gives negative slack to a phase overlapping one that depends on it', () => {
+      const { schedule } = phasePlan([
+        phase('design', '2026-11-02', '2026-11-07'),
+        phase('build', '2026-11-06', '2026-11-13', { dependencies: ['design'] }),
+      ]);
+
+      expect(schedule.get('design')).toEqual({ slackDays: -1, critical: true });
+    });
+
+    it('prefers leaf phases on the critical path', () => {
+      const { criticalPath } = phasePlan([
+        phase('production', '2026-11-02', '2026-11-13'),
+        phase('shoot', '2026-11-02', '2026-11-13', { parentId: 'production' }),
+      ]);
+
+      expect(criticalPath).toEqual(['shoot']);
+    });
+
+    it('handles a project without phases', () => {
+      expect(phasePlan([])).toEqual({ schedule: new Map(), criticalPath: [] });
+    });
+  });
+
+  describe('rollUpProgress', () => {
+    it('weights sub-phases by duration and averages the top level for the project', () => {
+      const { phases, project } = rollUpProgress([
+        phase('post', '2026-11-02', '2026-11-12'),
+        phase('edit', '2026-11-02', '2026-11-04', { parentId: 'post', progress: 100 }),
+        phase('grade', '2026-11-04', '2026-11-12', { parentId: 'post', progress: 0 }),
+        phase('delivery', '2026-11-12', '2026-11-22', { progress: 60 }),
+      ]);
+
+      expect(phases.get('post')).toBe(20);
+      expect(project).toBe(40);
+    });
+
+    it('clamps stored progress and has no project figure without phases', () => {
+      expect(rollUpProgress([phase('a', '2026-11-02', '2026-11-03', { progress: 140 })])).toEqual({
+        phases: new Map([['a', 100]]),
+        project: 100,
+      });
+      expect(rollUpProgress([]).project).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,299 @@
+import { projectPhases } from '../../database/schema';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type PhaseRecord = typeof projectPhases.$inferSelect;
+export type PhaseNode = Pick<
+  PhaseRecord,
+  'id' | 'name' | 'parentId' | 'startDate' | 'endDate' | 'progress' | 'dependencies'
+>;
+
+export type PhaseIssueRule =
+  | 'invalid_dates'
+  | 'unknown_dependency'
+  | 'self_dependency'
+  | 'dependency_cycle'
+  | 'unknown_parent'
+  | 'parent_cycle'
+  | 'outside_parent';
+
+export interface PhaseIssue {
+  rule: PhaseIssueRule;
+  phaseId: string;
+  message: string;
+  // The other phases involved, e.g. the rest of a cycle
+  relatedIds: string[];
+}
+
+export interface PhaseSchedule {
+  // How long the phase can slip before it delays the project's end; a
+  // negative value means it already overlaps a phase that depends on it
+  slackDays: number;
+  critical: boolean;
+}
+
+export interface PhasePlan {
+  schedule: Map<string, PhaseSchedule>;
+  // Critical phases from the project's start to its end, following dependencies
+  criticalPath: string[];
+}
+
+export interface PhaseProgress {
+  phases: Map<string, number>;
+  // Null for a project without phases
+  project: number | null;
+}
+
+function duration(phase: PhaseNode): number {
+  return phase.endDate.getTime() - phase.startDate.getTime();
+}
+
+/**
+ * Everything wrong with a project's phases as a whole: dates, dependencies
+ * and parents that aren't phases of the same project, dependency cycles,
+ * parent loops and sub-phases running outside their parent. Empty when the
+ * plan is sound.
+ */
+export function phaseGraphIssues(phases: PhaseNode[]): PhaseIssue[] {
+  const byId = new Map(phases.map((phase) => [phase.id, phase]));
+  const issues: PhaseIssue[] = [];
+
+  for (const phase of phases) {
+    if (phase.endDate <= phase.startDate) {
+      issues.push({
+        rule: 'invalid_dates',
+        phaseId: phase.id,
+        message: `Phase "${phase.name}" must end after it starts`,
+        relatedIds: [],
+      });
+    }
+
+    for (const dependencyId of phase.dependencies ?? []) {
+      if (dependencyId === phase.id) {
+        issues.push({
+          rule: 'self_dependency',
+          phaseId: phase.id,
+          message: `Phase "${phase.name}" depends on itself`,
+          relatedIds: [],
+        });
+      } else if (!byId.has(dependencyId)) {
+        issues.push({
+          rule: 'unknown_dependency',
+          phaseId: phase.id,
+          message: `Phase "${phase.name}" depends on ${dependencyId}, not a phase here`,
+          relatedIds: [dependencyId],
+        });
+      }
+    }
+
+    if (phase.parentId) {
+      const parent = byId.get(phase.parentId);
+      if (!parent) {
+        issues.push({
+          rule: 'unknown_parent',
+          phaseId: phase.id,
+          message: `Phase "${phase.name}" is nested under ${phase.parentId}, not a phase here`,
+          relatedIds: [phase.parentId],
+        });
+      } else if (phase.startDate < parent.startDate || phase.endDate > parent.endDate) {
+        issues.push({
+          rule: 'outside_parent',
+          phaseId: phase.id,
+          message: `Phase "${phase.name}" runs outside its parent "${parent.name}"`,
+          relatedIds: [parent.id],
+        });
+      }
+    }
+  }
+
+  issues.push(...parentCycles(phases, byId), ...dependencyCycles(phases, byId));
+  return issues;
+}
+
+function parentCycles(phases: PhaseNode[], byId: Map<string, PhaseNode>): PhaseIssue[] {
+  const issues: PhaseIssue[] = [];
+  const reported = new Set<string>();
+
+  for (const phase of phases) {
+    const chain: string[] = [];
+    let current: PhaseNode | undefined = phase;
+    while (current && !chain.includes(current.id)) {
+      chain.push(current.id);
+      current = current.parentId ? byId.get(current.parentId) : undefined;
+    }
+
+    // Report each loop once, from the phase that closes it
+    if (current?.id === phase.id && !reported.has(phase.id)) {
+      chain.forEach((id) => reported.add(id));
+      issues.push({
+        rule: 'parent_cycle',
+        phaseId: phase.id,
+        message: `Phase "${phase.name}" is nested inside itself`,
+        relatedIds: chain.slice(1),
+      });
+    }
+  }
+
+  return issues;
+}
+
+function dependencyCycles(phases: PhaseNode[], byId: Map<string, PhaseNode>): PhaseIssue[] {
+  const issues: PhaseIssue[] = [];
+  const state = new Map<string, 'visiting' | 'done'>();
+  const stack: string[] = [];
+
+  const visit = (phase: PhaseNode) => {
+    state.set(phase.id, 'visiting');
+    stack.push(phase.id);
+
+    for (const dependencyId of phase.dependencies ?? []) {
+      const dependency = byId.get(dependencyId);
+      if (!dependency || dependencyId === phase.id) {
+        continue;
+      }
+      if (state.get(dependencyId) === 'visiting') {
+        const cycle = stack.slice(stack.indexOf(dependencyId));
+        const names = cycle.map((id) => `"${byId.get(id)!.name}"`).join(', ');
+        issues.push({
+          rule: 'dependency_cycle',
+          phaseId: phase.id,
+          message: `Phases ${names} depend on each other in a loop`,
+          relatedIds: cycle.filter((id) => id !== phase.id),
+        });
+      } else if (!state.has(dependencyId)) {
+        visit(dependency);
+      }
+    }
+
+    stack.pop();
+    state.set(phase.id, 'done');
+  };
+
+  for (const phase of phases) {
+    if (!state.has(phase.id)) {
+      visit(phase);
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Slack and the critical path over the phases as dated, treating each
+ * dependency as finish-to-start. A phase's latest finish is the earliest
+ * latest start of the phases depending on it, or the project's end; its
+ * slack is how far that lies after its own end. Phases with sub-phases
+ * take part like any other, but the path prefers leaf phases where there
+ * is a choice. Expects a plan without issues.
+ */
+export function phasePlan(phases: PhaseNode[]): PhasePlan {
+  const schedule = new Map<string, PhaseSchedule>();
+  if (phases.length === 0) {
+    return { schedule, criticalPath: [] };
+  }
+
+  const byId = new Map(phases.map((phase) => [phase.id, phase]));
+  const dependenciesOf = (phase: PhaseNode) =>
+    (phase.dependencies ?? []).filter((id) => byId.has(id) && id !== phase.id);
+  const successors = new Map<string, string[]>(phases.map((phase) => [phase.id, []]));
+  for (const phase of phases) {
+    for (const dependencyId of dependenciesOf(phase)) {
+      successors.get(dependencyId)!.push(phase.id);
+    }
+  }
+
+  const projectEnd = Math.max(...phases.map((phase) => phase.endDate.getTime()));
+  const latestFinish = new Map<string, number>();
+  const latestStart = (id: string) => latestFinish.get(id)! - duration(byId.get(id)!);
+
+  // Successors first, so each phase's latest finish is known when its
+  // dependencies need it
+  const resolve = (id: string): number => {
+    const known = latestFinish.get(id);
+    if (known !== undefined) {
+      return known;
+    }
+
+    let finish = projectEnd;
+    for (const successorId of successors.get(id)!) {
+      resolve(successorId);
+      finish = Math.min(finish, latestStart(successorId));
+    }
+    latestFinish.set(id, finish);
+    return finish;
+  };
+
+  for (const phase of phases) {
+    const slack = resolve(phase.id) - phase.endDate.getTime();
+    schedule.set(phase.id, { slackDays: slack / DAY_MS, critical: slack <= 0 });
+  }
+
+  const hasChildren = new Set(phases.map((phase) => phase.parentId).filter(Boolean));
+  // Leaf phases first, then the one ending last
+  const preferred = (a: PhaseNode, b: PhaseNode) =>
+    Number(hasChildren.has(a.id)) - Number(hasChildren.has(b.id)) ||
+    b.endDate.getTime() - a.endDate.getTime();
+  const critical = (phase: PhaseNode) => schedule.get(phase.id)!.critical;
+
+  const path: PhaseNode[] = [];
+  let current = phases
+    .filter((phase) => critical(phase) && phase.endDate.getTime() === projectEnd)
+    .sort(preferred)[0];
+  while (current && !path.includes(current)) {
+    path.push(current);
+    const from: PhaseNode = current;
+    current = dependenciesOf(from)
+      .map((id) => byId.get(id)!)
+      .filter(
+        (dependency) =>
+          critical(dependency) && latestFinish.get(dependency.id)! <= latestStart(from.id),
+      )
+      .sort(preferred)[0];
+  }
+
+  return { schedule, criticalPath: path.reverse().map((phase) => phase.id) };
+}
+
+/**
+ * Progress (0-100) with sub-phases rolled up: a phase with sub-phases
+ * takes their duration-weighted average, and so does the project over its
+ * top-level phases. Expects a plan without parent loops.
+ */
+export function rollUpProgress(phases: PhaseNode[]): PhaseProgress {
+  const children = new Map<string, PhaseNode[]>();
+  for (const phase of phases) {
+    if (phase.parentId) {
+      children.set(phase.parentId, [...(children.get(phase.parentId) ?? []), phase]);
+    }
+  }
+
+  const progress = new Map<string, number>();
+  const average = (nodes: PhaseNode[]): number => {
+    const values = nodes.map((node) => ({ weight: duration(node), value: rolledUp(node) }));
+    const total = values.reduce((sum, { weight }) => sum + weight, 0);
+    const weighted =
+      total > 0
+        ? values.reduce((sum, { weight, value }) => sum + weight * value, 0) / total
+        : values.reduce((sum, { value }) => sum + value, 0) / values.length;
+
+    return Math.round(weighted);
+  };
+  const rolledUp = (phase: PhaseNode): number => {
+    const known = progress.get(phase.id);
+    if (known !== undefined) {
+      return known;
+    }
+
+    const nested = children.get(phase.id);
+    const value = nested?.length
+      ? average(nested)
+      : Math.min(100, Math.max(0, phase.progress ?? 0));
+    progress.set(phase.id, value);
+    return value;
+  };
+
+  phases.forEach(rolledUp);
+  const topLevel = phases.filter((phase) => !phase.parentId);
+
+  return { phases: progress, project: topLevel.length > 0 ? average(topLevel) : null };
+}
@@ -0,0 +1,405 @@
+import {
+  Injectable,
+  Inject,
+  NotFoundException,
+  ConflictException,
+  BadRequestException,
+} from '@nestjs/common';
+import { createHash } from 'crypto';
+import { sql } from 'drizzle-orm';
+import { DrizzleDatabase, DrizzleTransaction } from '../../common/types/drizzle.types';
+import { Booking } from '../../database/schema';
+import { BookingMutation, BookingsService } from '../bookings/bookings.service';
+import { AvailabilityService } from '../bookings/availability.service';
+import { HOLD_STATUSES } from '../bookings/hold-ranking';
+import { lockArtists } from '../bookings/hold-ranking.service';
+import { BookingRepository } from '../bookings/repositories/booking.repository';
+import { PhaseIssue, phaseGraphIssues } from './phase-plan';
+import { PhaseDates, PhaseShift, reschedulePhases } from './phase-reschedule';
+import { ProjectPhasesService } from './project-phases.service';
+import { ProjectRepository } from './repositories/project.repository';
+import {
+  ProjectPhaseRecord,
+  ProjectPhaseRepository,
+} from './repositories/project-phase.repository';
+import { RescheduleProjectPhaseDto } from './dto/reschedule-project-phase.dto';
+import { ApplyPhaseRescheduleDto } from './dto/apply-phase-reschedule.dto';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface RescheduledPhase extends PhaseDates {
+  id: string;
+  name: string;
+  from: PhaseDates;
+  shiftDays: number;
+}
+
+export interface RescheduledBooking {
+  id: string;
+  title: string | null;
+  artistId: string;
+  phaseId: string;
+  status: Booking['status'];
+  version: number;
+  from: { startTime: Date; endTime: Date };
+  startTime: Date;
+  endTime: Date;
+  outsideWorkingHours: boolean;
+}
+
+// What a moved booking would overlap in its new slot
+export interface RescheduleConflict {
+  bookingId: string;
+  artistId: string;
+  conflictingBookingIds: string[];
+  externalBusyBlockIds: string[];
+  // The apply would be refused: the booking is confirmed and overlaps a
+  // confirmed booking, a first-ranked hold or an external calendar event
+  blocking: boolean;
+}
+
+export interface PhaseReschedulePreview {
+  projectId: string;
+  phaseId: string;
+  // Confirms exactly this change set; see apply
+  fingerprint: string;
+  phases: RescheduledPhase[];
+  bookings: RescheduledBooking[];
+  conflicts: RescheduleConflict[];
+  // Problems the new dates would cause in the plan; any of them blocks the apply
+  issues: PhaseIssue[];
+}
+
+interface ChangeSet {
+  phases: ProjectPhaseRecord[];
+  shifts: Map<string, PhaseShift>;
+  bookings: Booking[];
+  preview: PhaseReschedulePreview;
+}
+
+function overlaps(a: { startTime: Date; endTime: Date }, b: { startTime: Date; endTime: Date }) {
+  return a.startTime < b.endTime && b.startTime < a.endTime;
+}
+
+// Changes whenever the request, the plan or any booking it moves does
+function fingerprintOf(
+  phaseId: string,
+  change: Partial<PhaseDates>,
+  phases: ProjectPhaseRecord[],
+  bookings: Booking[],
+): string {
+  const state = JSON.stringify({
+    phaseId,
+    startDate: change.startDate ?? null,
+    endDate: change.endDate ?? null,
+    phases: phases
+      .map((phase) => [
+        phase.id,
+        phase.parentId,
+        phase.startDate,
+        phase.endDate,
+        [...(phase.dependencies ?? [])].sort(),
+      ])
+      .sort(),
+    bookings: bookings.map((booking) => [booking.id, booking.version]).sort(),
+  });
+
+  return createHash('sha256').update(state).digest('hex');
+}
+
+/**
+ * Reschedules a phase together with everything downstream of it (see
+ * reschedulePhases) and the live bookings linked to the phases that move.
+ * The preview shows the change set and the artist conflicts it would
+ * cause; applying it writes phases and bookings in one transaction, or
+ * nothing if the plan, a booking or a conflict check has changed.
+ */
+@Injectable()
+export class PhaseRescheduleService {
+  constructor(
+    @Inject('DATABASE_CONNECTION') private readonly db: DrizzleDatabase,
+    private readonly projectPhasesService: ProjectPhasesService,
+    private readonly projectRepository: ProjectRepository,
+    private readonly projectPhaseRepository: ProjectPhaseRepository,
+    private readonly bookingsService: BookingsService,
+    private readonly bookingRepository: BookingRepository,
+    private readonly availabilityService: AvailabilityService,
+  ) {}
+
+  async preview(
+    projectId: string,
+    phaseId: string,
+    rescheduleDto: RescheduleProjectPhaseDto,
+    tenantId: string,
+  ): Promise<PhaseReschedulePreview> {
+    const change = this.changeOf(rescheduleDto);
+
+    // One snapshot, so the fingerprint matches what the preview shows
+    return this.db.transaction(async (tx) => {
+      const project = await this.projectRepository.findOne(projectId, tenantId, tx);
+      if (!project) {
+        throw new NotFoundException('Project not found');
+      }
+
+      const changeSet = await this.changeSet(tx, projectId, phaseId, change, tenantId);
+      return changeSet.preview;
+    });
+  }
+
+  /**
+   * Applies the change set a preview showed, provided its fingerprint still
+   * matches. Bookings move like a move operation (booking_moved, with the
+   * phase in the event's context) and each is checked against the others'
+   * new slots; the overlap constraint is deferred to commit so the order
+   * they move in doesn't matter.
+   */
+  async apply(
+    projectId: string,
+    phaseId: string,
+    applyDto: ApplyPhaseRescheduleDto,
+    tenantId: string,
+    userId: string,
+  ) {
+    const { fingerprint, allowOutsideWorkingHours } = applyDto;
+    const change = this.changeOf(applyDto);
+
+    const { phases, mutations } = await this.bookingsService.withConstraintHandling(() =>
+      this.db.transaction(async (tx) => {
+        const project = await this.projectPhasesService.lockProject(tx, projectId, tenantId);
+        const changeSet = await this.changeSet(tx, projectId, phaseId, change, tenantId);
+
+        if (changeSet.preview.fingerprint !== fingerprint) {
+          throw new ConflictException({
+            error: 'PLAN_CHANGED',
+            message: 'The phases or their bookings changed since the preview; preview again',
+            details: { fingerprint: changeSet.preview.fingerprint },
+          });
+        }
+        this.projectPhasesService.assertPlan(
+          this.rescheduled(changeSet.phases, changeSet.shifts),
+        );
+
+        const moves = changeSet.preview.bookings;
+        if (!allowOutsideWorkingHours) {
+          for (const move of moves) {
+            await this.bookingsService.assertWithinWorkingHours(
+              tenantId,
+              move.artistId,
+              move.startTime,
+              move.endTime,
+            );
+          }
+        }
+
+        await lockArtists(tx, moves.map((move) => move.artistId));
+        await tx.execute(sql`SET CONSTRAINTS bookings_no_overlap_per_artist DEFERRED`);
+
+        const updated = new Map<string, ProjectPhaseRecord>();
+        for (const [id, shift] of changeSet.shifts) {
+          updated.set(
+            id,
+            await this.projectPhaseRepository.update(
+              id,
+              { startDate: shift.startDate, endDate: shift.endDate },
+              tx,
+            ),
+          );
+        }
+        const saved = await this.projectPhasesService.settleWithin(
+          tx,
+          project,
+          changeSet.phases.map((phase) => updated.get(phase.id) ?? phase),
+        );
+
+        const mutations: BookingMutation[] = [];
+        for (const [index, move] of moves.entries()) {
+          // Moving an earlier one can rerank this one, which bumps its version
+          const booking = await this.bookingsService.findOne(move.id, tenantId, tx);
+          mutations.push(
+            await this.bookingsService.changeWithin(
+              tx,
+              booking,
+              booking.version,
+              {
+                ...(booking.seriesId ? { isRecurrenceException: true } : {}),
+                startTime: move.startTime,
+                endTime: move.endTime,
+              },
+              userId,
+              {
+                event: {
+                  type: 'booking_moved',
+                  context: { from: move.from, phaseId: booking.phaseId },
+                },
+                // Still in their old slots until their turn comes
+                ignoreIds: changeSet.bookings.slice(index + 1).map((later) => later.id),
+              },
+            ),
+          );
+        }
+
+        return {
+          phases: saved.filter((phase) => changeSet.shifts.has(phase.id)),
+          mutations,
+        };
+      }),
+    );
+
+    return {
+      phases,
+      bookings: mutations.map((mutation) => this.bookingsService.broadcastMutation(mutation)),
+    };
+  }
+
+  private async changeSet(
+    tx: DrizzleTransaction,
+    projectId: string,
+    phaseId: string,
+    change: Partial<PhaseDates>,
+    tenantId: string,
+  ): Promise<ChangeSet> {
+    const phases = await this.projectPhaseRepository.findByProject(projectId, tx);
+    if (!phases.some((phase) => phase.id === phaseId)) {
+      throw new NotFoundException('Phase not found');
+    }
+
+    const shifts = reschedulePhases(phases, phaseId, change);
+    const movedPhaseIds = [...shifts]
+      .filter(([, shift]) => shift.startShift !== 0)
+      .map(([id]) => id);
+    const bookings = await this.bookingRepository.findByPhases(tenantId, movedPhaseIds, tx);
+
+    const moves = await Promise.all(
+      bookings.map((booking) => this.moveOf(tenantId, booking, shifts.get(booking.phaseId!)!)),
+    );
+
+    return {
+      phases,
+      shifts,
+      bookings,
+      preview: {
+        projectId,
+        phaseId,
+        fingerprint: fingerprintOf(phaseId, change, phases, bookings),
+        phases: phases
+          .filter((phase) => shifts.has(phase.id))
+          .map((phase) => {
+            const shift = shifts.get(phase.id)!;
+            return {
+              id: phase.id,
+              name: phase.name,
+              from: { startDate: phase.startDate, endDate: phase.endDate },
+              startDate: shift.startDate,
+              endDate: shift.endDate,
+              shiftDays: shift.startShift / DAY_MS,
+            };
+          }),
+        bookings: moves,
+        conflicts: await this.conflicts(tx, tenantId, bookings, moves),
+        issues: phaseGraphIssues(this.rescheduled(phases, shifts)),
+      },
+    };
+  }
+
+  private async moveOf(
+    tenantId: string,
+    booking: Booking,
+    shift: PhaseShift,
+  ): Promise<RescheduledBooking> {
+    const startTime = new Date(booking.startTime.getTime() + shift.startShift);
+    const endTime = new Date(booking.endTime.getTime() + shift.startShift);
+    const check = await this.availabilityService.checkWorkingTime(
+      tenantId,
+      booking.artistId,
+      startTime,
+      endTime,
+    );
+
+    return {
+      id: booking.id,
+      title: booking.title,
+      artistId: booking.artistId,
+      phaseId: booking.phaseId!,
+      status: booking.status,
+      version: booking.version,
+      from: { startTime: booking.startTime, endTime: booking.endTime },
+      startTime,
+      endTime,
+      outsideWorkingHours: (check?.outside.length ?? 0) > 0,
+    };
+  }
+
+  // Moved bookings are compared with each other at their new slots
+  private async conflicts(
+    tx: DrizzleTransaction,
+    tenantId: string,
+    bookings: Booking[],
+    moves: RescheduledBooking[],
+  ): Promise<RescheduleConflict[]> {
+    const movedIds = new Set(moves.map((move) => move.id));
+    const conflicts: RescheduleConflict[] = [];
+
+    for (const [index, move] of moves.entries()) {
+      const staying = await this.bookingRepository.findOverlapping(
+        {
+          tenantId,
+          artistId: move.artistId,
+          startTime: move.startTime,
+          endTime: move.endTime,
+          statuses: ['confirmed', ...HOLD_STATUSES],
+        },
+        tx,
+      );
+      const others = [
+        ...staying.filter((other) => !movedIds.has(other.id)),
+        ...bookings.filter(
+          (other, otherIndex) =>
+            otherIndex !== index &&
+            other.artistId === move.artistId &&
+            overlaps(moves[otherIndex], move),
+        ),
+      ];
+      const external = await this.bookingsService.findExternalConflicts(
+        {
+          tenantId,
+          artistId: move.artistId,
+          startTime: move.startTime,
+          endTime: move.endTime,
+          status: move.status ?? 'hold',
+        },
+        tx,
+      );
+      if (others.length === 0 && external.length === 0) {
+        continue;
+      }
+
+      conflicts.push({
+        bookingId: move.id,
+        artistId: move.artistId,
+        conflictingBookingIds: others.map((other) => other.id),
+        externalBusyBlockIds: external.map((block) => block.id),
+        blocking:
+          move.status === 'confirmed' &&
+          (external.length > 0 ||
+            others.some((other) => other.status === 'confirmed' || other.holdRank === 1)),
+      });
+    }
+
+    return conflicts;
+  }
+
+  private rescheduled(phases: ProjectPhaseRecord[], shifts: Map<string, PhaseShift>) {
+    return phases.map((phase) => {
+      const shift = shifts.get(phase.id);
+      return shift ? { ...phase, startDate: shift.startDate, endDate: shift.endDate } : phase;
+    });
+  }
+
+  private changeOf(rescheduleDto: RescheduleProjectPhaseDto): Partial<PhaseDates> {
+    if (!rescheduleDto.startDate && !rescheduleDto.endDate) {
+      throw new BadRequestException('Give a new start date, a new end date or both');
+    }
+
+    return { startDate: rescheduleDto.startDate, endDate: rescheduleDto.endDate };
+  }
+}
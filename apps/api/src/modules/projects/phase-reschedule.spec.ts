@@ -0,0 +1,96 @@
+import { PhaseNode } from './phase-plan';
+import { reschedulePhases } from './phase-reschedule';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const day = (date: string) => new Date(`${date}T00:00:00Z`);
+
+function phase(
+  id: string,
+  start: string,
+  end: string,
+  overrides: Partial<PhaseNode> = {},
+): PhaseNode {
+  return {
+    id,
+    name: id,
+    parentId: null,
+    startDate: day(start),
+    endDate: day(end),
+    progress: 0,
+    dependencies: [],
+    ...overrides,
+  };
+}
+
+const plan = [
+  phase('shoot', '2026-11-02', '2026-11-06'),
+  phase('day-one', '2026-11-02', '2026-11-03', { parentId: 'shoot' }),
+  phase('edit', '2026-11-09', '2026-11-13', { dependencies: ['shoot'] }),
+  phase('grade', '2026-11-13', '2026-11-18', { dependencies: ['edit'] }),
+  phase('music', '2026-11-02', '2026-11-20'),
+];
+
+describe('reschedulePhases', () => {
+  it('moves a phase keeping its length and carries its followers along', () => {
+    const shifts = reschedulePhases(plan, 'shoot', { startDate: day('2026-11-04') });
+
+    expect([...shifts.keys()]).toEqual(['shoot', 'day-one', 'edit', 'grade']);
+    expect(shifts.get('shoot')).toEqual({
+      startDate: day('2026-11-04'),
+      endDate: day('2026-11-08'),
+      startShift: 2 * DAY_MS,
+    });
+    expect(shifts.get('day-one')).toMatchObject({ startDate: day('2026-11-04') });
+    // The gap before the edit is kept
+    expect(shifts.get('edit')).toMatchObject({
+      startDate: day('2026-11-11'),
+      endDate: day('2026-11-15'),
+    });
+    expect(shifts.get('grade')).toMatchObject({ startDate: day('2026-11-15') });
+  });
+
+  it('resizes a phase in place when only its end changes', () => {
+    const shifts = reschedulePhases(plan, 'shoot', { endDate: day('2026-11-07') });
+
+    expect(shifts.get('shoot')).toEqual({
+      startDate: day('2026-11-02'),
+      endDate: day('2026-11-07'),
+      startShift: 0,
+    });
+    // Sub-phases follow the start, which stayed put
+    expect(shifts.has('day-one')).toBe(false);
+    expect(shifts.get('edit')).toMatchObject({ startShift: DAY_MS });
+  });
+
+  it('moves a phase by the largest shift of the phases it waits for', () => {
+    const phases = [
+      phase('shoot', '2026-11-02', '2026-11-06'),
+      phase('vfx', '2026-11-02', '2026-11-06'),
+      phase('edit', '2026-11-09', '2026-11-13', { dependencies: ['shoot', 'vfx'] }),
+    ];
+
+    expect(
+      reschedulePhases(phases, 'shoot', { endDate: day('2026-11-08') }).get('edit'),
+    ).toMatchObject({ startShift: 2 * DAY_MS });
+
+    // Bringing one dependency forward leaves the phase waiting on the other
+    const earlier = reschedulePhases(phases, 'shoot', { endDate: day('2026-11-05') });
+    expect([...earlier.keys()]).toEqual(['shoot']);
+  });
+
+  it('always returns the target, even when it does not move', () => {
+    expect([...reschedulePhases(plan, 'music', {}).keys()]).toEqual(['music']);
+  });
+
+  it('moves a parent waiting on its own sub-phase without looping', () => {
+    const phases = [
+      phase('post', '2026-11-02', '2026-11-20', { dependencies: ['conform'] }),
+      phase('conform', '2026-11-02', '2026-11-04', { parentId: 'post' }),
+    ];
+
+    const shifts = reschedulePhases(phases, 'conform', { startDate: day('2026-11-03') });
+
+    expect(shifts.get('conform')).toMatchObject({ startShift: DAY_MS });
+    expect(shifts.get('post')).toMatchObject({ startShift: DAY_MS });
+  });
+});
@@ -0,0 +1,111 @@
+import { PhaseNode } from './phase-plan';
+
+export interface PhaseDates {
+  startDate: Date;
+  endDate: Date;
+}
+
+export interface PhaseShift extends PhaseDates {
+  // How far the start moved, in ms; bookings in the phase move as far
+  startShift: number;
+}
+
+/**
+ * New dates for a phase and everything that follows it. With only a new
+ * start the phase moves and keeps its length; with only a new end it is
+ * resized in place. Its sub-phases move with its start. Phases that depend
+ * on a moved phase keep their lead time: each moves by the largest shift
+ * of the ends it waits for (a dependency that stays put counts as zero),
+ * and takes its own sub-phases along. Returns only the phases whose dates
+ * change, the target included.
+ */
+export function reschedulePhases(
+  phases: PhaseNode[],
+  phaseId: string,
+  change: Partial<PhaseDates>,
+): Map<string, PhaseShift> {
+  const byId = new Map(phases.map((phase) => [phase.id, phase]));
+  const target = byId.get(phaseId)!;
+
+  const startDate = change.startDate ?? target.startDate;
+  const endDate =
+    change.endDate ??
+    new Date(startDate.getTime() + target.endDate.getTime() - target.startDate.getTime());
+
+  const followers = new Map<string, string[]>(phases.map((phase) => [phase.id, []]));
+  for (const phase of phases) {
+    if (phase.parentId && followers.has(phase.parentId)) {
+      followers.get(phase.parentId)!.push(phase.id);
+    }
+    for (const dependencyId of phase.dependencies ?? []) {
+      if (dependencyId !== phase.id && followers.has(dependencyId)) {
+        followers.get(dependencyId)!.push(phase.id);
+      }
+    }
+  }
+
+  const affected = new Set([phaseId]);
+  const queue = [phaseId];
+  while (queue.length > 0) {
+    for (const followerId of followers.get(queue.shift()!)!) {
+      if (!affected.has(followerId)) {
+        affected.add(followerId);
+        queue.push(followerId);
+      }
+    }
+  }
+
+  const shifts = new Map<string, { start: number; end: number }>();
+  const resolving = new Set<string>();
+  // A sub-phase follows its parent; a phase nested in one that depends on
+  // it would loop, so a phase still being resolved counts as unmoved
+  const shiftOf = (id: string): { start: number; end: number } => {
+    const known = shifts.get(id);
+    if (known) {
+      return known;
+    }
+    if (resolving.has(id)) {
+      return { start: 0, end: 0 };
+    }
+    resolving.add(id);
+
+    const phase = byId.get(id)!;
+    let shift: { start: number; end: number };
+    if (id === phaseId) {
+      shift = {
+        start: startDate.getTime() - target.startDate.getTime(),
+        end: endDate.getTime() - target.endDate.getTime(),
+      };
+    } else if (phase.parentId && affected.has(phase.parentId)) {
+      const start = shiftOf(phase.parentId).start;
+      shift = { start, end: start };
+    } else {
+      const waits = (phase.dependencies ?? []).map((dependencyId) =>
+        affected.has(dependencyId) && dependencyId !== id ? shiftOf(dependencyId).end : 0,
+      );
+      const by = waits.length > 0 ? Math.max(...waits) : 0;
+      shift = { start: by, end: by };
+    }
+
+    resolving.delete(id);
+    shifts.set(id, shift);
+    return shift;
+  };
+
+  const result = new Map<string, PhaseShift>();
+  for (const id of affected) {
+    const phase = byId.get(id)!;
+    const shift = shiftOf(id);
+    if (shift.start === 0 && shift.end === 0 && id !== phaseId) {
+      continue;
+    }
+
+    result.set(id, {
+      startDate: new Date(phase.startDate.getTime() + shift.start),
+      endDate: new Date(phase.endDate.getTime() + shift.end),
+      startShift: shift.start,
+    });
+  }
+
+  return result;
+}
@@ -0,0 +1,174 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  UseInterceptors,
+  Req,
+  DefaultValuePipe,
+  ParseIntPipe,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiBearerAuth } from '@nestjs/swagger';
+import { ProjectMilestonesService } from './project-milestones.service';
+import { CreateProjectMilestoneDto } from './dto/create-project-milestone.dto';
+import { UpdateProjectMilestoneDto } from './dto/update-project-milestone.dto';
+import { CompleteMilestoneDto } from './dto/complete-milestone.dto';
+import { ReopenMilestoneDto } from './dto/reopen-milestone.dto';
+import { MilestoneQueryDto } from './dto/milestone-query.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { TenantGuard } from '../auth/guards/tenant.guard';
+import { RequestWithUser } from '../auth/interfaces/request-with-user.interface';
+import { TimeZoneInterceptor } from '../../common/interceptors/time-zone.interceptor';
+
+@ApiTags('projects')
+@ApiBearerAuth()
+@Controller('projects/:projectId/milestones')
+@UseGuards(JwtAuthGuard, TenantGuard)
+@UseInterceptors(TimeZoneInterceptor)
+export class ProjectMilestonesController {
+  constructor(private readonly projectMilestonesService: ProjectMilestonesService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'List the milestones of a project, soonest due first' })
+  async findAll(
+    @Param('projectId') projectId: string,
+    @Query() query: MilestoneQueryDto,
+    @Req() req: RequestWithUser,
+  ) {
+    const milestones = await this.projectMilestonesService.findAll(
+      projectId,
+      req.user.tenantId,
+      query.state,
+    );
+
+    return { data: milestones };
+  }
+
+  @Post()
+  @ApiOperation({ summary: 'Add a milestone; reminders are queued for its owner' })
+  async create(
+    @Param('projectId') projectId: string,
+    @Body() createDto: CreateProjectMilestoneDto,
+    @Req() req: RequestWithUser,
+  ) {
+    const milestone = await this.projectMilestonesService.create(
+      projectId,
+      createDto,
+      req.user.tenantId,
+      req.user.id,
+    );
+
+    return { data: milestone };
+  }
+
+  @Get(':milestoneId')
+  @ApiOperation({ summary: 'Get a milestone' })
+  async findOne(
+    @Param('projectId') projectId: string,
+    @Param('milestoneId') milestoneId: string,
+    @Req() req: RequestWithUser,
+  ) {
+    const milestone = await this.projectMilestonesService.findOne(
+      projectId,
+      milestoneId,
+      req.user.tenantId,
+    );
+
+    return { data: milestone };
+  }
+
+  @Patch(':milestoneId')
+  @ApiOperation({ summary: 'Update a milestone; its reminders follow the new due date' })
+  async update(
+    @Param('projectId') projectId: string,
+    @Param('milestoneId') milestoneId: string,
+    @Body() updateDto: UpdateProjectMilestoneDto,
+    @Req() req: RequestWithUser,
+  ) {
+    const milestone = await this.projectMilestonesService.update(
+      projectId,
+      milestoneId,
+      updateDto,
+      req.user.tenantId,
+      req.user.id,
+    );
+
+    return { data: milestone };
+  }
+
+  @Post(':milestoneId/complete')
+  @ApiOperation({ summary: 'Mark a milestone met, with evidence' })
+  async complete(
+    @Param('projectId') projectId: string,
+    @Param('milestoneId') milestoneId: string,
+    @Body() completeDto: CompleteMilestoneDto,
+    @Req() req: RequestWithUser,
+  ) {
+    const milestone = await this.projectMilestonesService.complete(
+      projectId,
+      milestoneId,
+      completeDto,
+      req.user.tenantId,
+      req.user.id,
+    );
+
+    return { data: milestone };
+  }
+
+  @Post(':milestoneId/reopen')
+  @ApiOperation({ summary: 'Reopen a completed milestone' })
+  async reopen(
+    @Param('projectId') projectId: string,
+    @Param('milestoneId') milestoneId: string,
+    @Body() reopenDto: ReopenMilestoneDto,
+    @Req() req: RequestWithUser,
+  ) {
+    const milestone = await this.projectMilestonesService.reopen(
+      projectId,
+      milestoneId,
+      reopenDto.reason,
+      req.user.tenantId,
+      req.user.id,
+    );
+
+    return { data: milestone };
+  }
+
+  @Get(':milestoneId/history')
+  @ApiOperation({ summary: 'Recorded versions of a milestone, newest first' })
+  async history(
+    @Param('projectId') projectId: string,
+    @Param('milestoneId') milestoneId: string,
+    @Query('limit', new DefaultValuePipe(50), ParseIntPipe) limit: number,
+    @Req() req: RequestWithUser,
+  ) {
+    const history = await this.projectMilestonesService.history(
+      projectId,
+      milestoneId,
+      req.user.tenantId,
+      limit,
+    );
+
+    return { data: history };
+  }
+
+  @Delete(':milestoneId')
+  @ApiOperation({ summary: 'Delete a milestone and withdraw its reminders' })
+  async remove(
+    @Param('projectId') projectId: string,
+    @Param('milestoneId') milestoneId: string,
+    @Req() req: RequestWithUser,
+  ) {
+    return this.projectMilestonesService.remove(
+      projectId,
+      milestoneId,
+      req.user.tenantId,
+      req.user.id,
+    );
+  }
+}
@@ -0,0 +1,478 @@
+import { Injectable, Inject, NotFoundException, BadRequestException } from '@nestjs/common';
+import { DrizzleDatabase, DrizzleTransaction } from '../../common/types/drizzle.types';
+import {
+  DataVersionHistoryService,
+  changedFields,
+} from '../../common/services/data-version-history.service';
+import { NotificationService } from '../notification/notification.service';
+import {
+  MilestoneRecord,
+  MilestoneState,
+  SCHEDULED_MILESTONE_ALERTS,
+  isAtRisk,
+  milestoneAlerts,
+  milestoneState,
+} from './milestone-alerts';
+import { ProjectRecord, ProjectRepository } from './repositories/project.repository';
+import {
+  ProjectPhaseRecord,
+  ProjectPhaseRepository,
+} from './repositories/project-phase.repository';
+import {
+  NewProjectMilestone,
+  ProjectMilestoneRepository,
+} from './repositories/project-milestone.repository';
+import { CreateProjectMilestoneDto } from './dto/create-project-milestone.dto';
+import { UpdateProjectMilestoneDto } from './dto/update-project-milestone.dto';
+import { CompleteMilestoneDto } from './dto/complete-milestone.dto';
+
+// tableName of the milestone's entries in data_version_history
+const HISTORY_TABLE = 'project_milestones';
+
+export interface MilestoneView extends MilestoneRecord {
+  state: MilestoneState;
+  atRisk: boolean;
+}
+
+/**
+ * Project milestones. Each open milestone keeps its reminders and overdue
+ * alert queued in notification_queue for its owner; any edit withdraws
+ * them and queues the current set, and completing it withdraws them for
+ * good. Writes lock the project row, like phase writes, so a milestone is
+ * never judged against a plan that is changing underneath it.
+ */
+@Injectable()
+export class ProjectMilestonesService {
+  constructor(
+    @Inject('DATABASE_CONNECTION') private readonly db: DrizzleDatabase,
+    private readonly projectRepository: ProjectRepository,
+    private readonly projectPhaseRepository: ProjectPhaseRepository,
+    private readonly projectMilestoneRepository: ProjectMilestoneRepository,
+    private readonly versionHistoryService: DataVersionHistoryService,
+    private readonly notificationService: NotificationService,
+  ) {}
+
+  async findAll(projectId: string, tenantId: string, state?: MilestoneState) {
+    await this.findProject(projectId, tenantId);
+    const now = new Date();
+    const milestones = await this.projectMilestoneRepository.findByProject({
+      projectId,
+      tenantId,
+      state,
+      now,
+    });
+
+    return milestones.map((milestone) => this.view(milestone, now));
+  }
+
+  async findOne(projectId: string, milestoneId: string, tenantId: string) {
+    const milestone = await this.projectMilestoneRepository.findOne(
+      milestoneId,
+      projectId,
+      tenantId,
+    );
+    if (!milestone) {
+      throw new NotFoundException('Milestone not found');
+    }
+
+    return this.view(milestone, new Date());
+  }
+
+  async create(
+    projectId: string,
+    createDto: CreateProjectMilestoneDto,
+    tenantId: string,
+    userId: string,
+  ) {
+    return this.db.transaction(async (tx) => {
+      const project = await this.lockProject(tx, projectId, tenantId);
+      const phases = await this.projectPhaseRepository.findByProject(projectId, tx);
+      await this.assertReferences(tx, tenantId, phases, createDto);
+
+      const created = await this.projectMilestoneRepository.create(
+        {
+          ...createDto,
+          tenantId,
+          projectId: project.id,
+          ownerId: createDto.ownerId ?? userId,
+          createdBy: userId,
+          updatedBy: userId,
+        },
+        tx,
+      );
+      await this.record(tx, null, created, userId);
+
+      const milestone = await this.refresh(tx, created, phases);
+      return this.view(milestone, new Date());
+    });
+  }
+
+  async update(
+    projectId: string,
+    milestoneId: string,
+    updateDto: UpdateProjectMilestoneDto,
+    tenantId: string,
+    userId: string,
+  ) {
+    return this.db.transaction(async (tx) => {
+      await this.lockProject(tx, projectId, tenantId);
+      const existing = await this.findMilestone(tx, projectId, milestoneId, tenantId);
+      const phases = await this.projectPhaseRepository.findByProject(projectId, tx);
+      await this.assertReferences(tx, tenantId, phases, updateDto);
+
+      const updated = await this.projectMilestoneRepository.update(
+        milestoneId,
+        { ...(updateDto as Partial<NewProjectMilestone>), updatedBy: userId },
+        tx,
+      );
+      await this.record(tx, existing, updated, userId);
+
+      const milestone = await this.refresh(tx, updated, phases);
+      return this.view(milestone, new Date());
+    });
+  }
+
+  async complete(
+    projectId: string,
+    milestoneId: string,
+    completeDto: CompleteMilestoneDto,
+    tenantId: string,
+    userId: string,
+  ) {
+    return this.db.transaction(async (tx) => {
+      await this.lockProject(tx, projectId, tenantId);
+      const existing = await this.findMilestone(tx, projectId, milestoneId, tenantId);
+      if (existing.completedAt) {
+        throw new BadRequestException({
+          error: 'MILESTONE_ALREADY_COMPLETED',
+          message: 'Milestone is already completed; reopen it first',
+        });
+      }
+
+      const completed = await this.projectMilestoneRepository.update(
+        milestoneId,
+        {
+          completedAt: new Date(),
+          completedBy: userId,
+          evidence: completeDto,
+          atRiskSince: null,
+          updatedBy: userId,
+        },
+        tx,
+      );
+      await this.record(tx, existing, completed, userId, completeDto.note);
+      await this.withdrawAlerts(tx, completed);
+
+      return this.view(completed, new Date());
+    });
+  }
+
+  // Back to open, with its reminders queued again; the evidence is dropped
+  async reopen(
+    projectId: string,
+    milestoneId: string,
+    reason: string | undefined,
+    tenantId: string,
+    userId: string,
+  ) {
+    return this.db.transaction(async (tx) => {
+      await this.lockProject(tx, projectId, tenantId);
+      const existing = await this.findMilestone(tx, projectId, milestoneId, tenantId);
+      if (!existing.completedAt) {
+        throw new BadRequestException({
+          error: 'MILESTONE_NOT_COMPLETED',
+          message: 'Only a completed milestone can be reopened',
+        });
+      }
+
+      const reopened = await this.projectMilestoneRepository.update(
+        milestoneId,
+        { completedAt: null, completedBy: null, evidence: null, updatedBy: userId },
+        tx,
+      );
+      await this.record(tx, existing, reopened, userId, reason);
+
+      const phases = await this.projectPhaseRepository.findByProject(projectId, tx);
+      const milestone = await this.refresh(tx, reopened, phases);
+      return this.view(milestone, new Date());
+    });
+  }
+
+  async remove(projectId: string, milestoneId: string, tenantId: string, userId: string) {
+    await this.db.transaction(async (tx) => {
+      await this.lockProject(tx, projectId, tenantId);
+      const milestone = await this.findMilestone(tx, projectId, milestoneId, tenantId);
+
+      await this.withdrawAlerts(tx, milestone);
+      await this.projectMilestoneRepository.delete(milestoneId, tx);
+      await this.record(tx, milestone, null, userId);
+    });
+
+    return { success: true };
+  }
+
+  // Newest version first
+  async history(projectId: string, milestoneId: string, tenantId: string, limit?: number) {
+    await this.findOne(projectId, milestoneId, tenantId);
+    return this.versionHistoryService.getHistory(HISTORY_TABLE, milestoneId, limit);
+  }
+
+  /**
+   * Re-judges the project's open milestones against its phases after the
+   * plan changed, alerting owners of milestones that have just become at
+   * risk. The caller must hold the project lock.
+   */
+  async checkPhasesWithin(
+    tx: DrizzleTransaction,
+    project: ProjectRecord,
+    phases: ProjectPhaseRecord[],
+  ) {
+    const milestones = await this.projectMilestoneRepository.findByProject(
+      { projectId: project.id, tenantId: project.tenantId },
+      tx,
+    );
+
+    for (const milestone of milestones) {
+      if (!milestone.completedAt) {
+        await this.flagRisk(tx, milestone, phases);
+      }
+    }
+  }
+
+  /**
+   * Gives the milestones carried over from project metadata an owner,
+   * `ownerId` or else the tenant's default, then queues their alerts and
+   * judges them against their project's phases. For the one-off backfill
+   * after the milestones migration; returns the owner and how many
+   * milestones it took on.
+   */
+  async backfillOwners(tenantId: string, ownerId?: string) {
+    if (ownerId && !(await this.projectMilestoneRepository.isTenantUser(ownerId, tenantId))) {
+      throw new BadRequestException({
+        error: 'UNKNOWN_OWNER',
+        message: 'The owner is not a user of this tenant',
+        details: { ownerId },
+      });
+    }
+
+    const owner = ownerId ?? (await this.projectMilestoneRepository.findDefaultOwner(tenantId));
+    if (!owner) {
+      throw new BadRequestException('Tenant has no owner or manager to own its milestones');
+    }
+
+    const unowned = await this.projectMilestoneRepository.findUnowned(tenantId);
+    let adopted = 0;
+
+    for (const projectId of new Set(unowned.map((milestone) => milestone.projectId))) {
+      await this.db.transaction(async (tx) => {
+        await this.lockProject(tx, projectId, tenantId);
+        const phases = await this.projectPhaseRepository.findByProject(projectId, tx);
+
+        // Read again under the lock, in case one was given an owner or deleted
+        const milestones = await this.projectMilestoneRepository.findUnowned(tenantId, tx);
+        for (const milestone of milestones.filter((m) => m.projectId === projectId)) {
+          const owned = await this.projectMilestoneRepository.update(
+            milestone.id,
+            { ownerId: owner },
+            tx,
+          );
+          await this.refresh(tx, owned, phases);
+          adopted++;
+        }
+      });
+    }
+
+    return { ownerId: owner, milestones: adopted };
+  }
+
+  /**
+   * Requeues the milestone's alerts and updates its at-risk flag after a
+   * change. Returns the milestone as saved.
+   */
+  private async refresh(
+    tx: DrizzleTransaction,
+    milestone: MilestoneRecord,
+    phases: ProjectPhaseRecord[],
+  ): Promise<MilestoneRecord> {
+    await this.withdrawAlerts(tx, milestone);
+
+    const recipient = this.recipientOf(milestone);
+    if (recipient) {
+      for (const alert of milestoneAlerts(milestone, new Date())) {
+        await this.notificationService.createNotification(
+          {
+            tenantId: milestone.tenantId,
+            userId: recipient,
+            type: alert.type,
+            channel: 'in-app',
+            payload: { ...this.payloadOf(milestone), daysLeft: alert.daysLeft },
+            scheduledFor: alert.scheduledFor,
+          },
+          tx,
+        );
+      }
+    }
+
+    return this.flagRisk(tx, milestone, phases);
+  }
+
+  private async flagRisk(
+    tx: DrizzleTransaction,
+    milestone: MilestoneRecord,
+    phases: ProjectPhaseRecord[],
+  ): Promise<MilestoneRecord> {
+    const phase = phases.find((candidate) => candidate.id === milestone.phaseId);
+    const atRisk = isAtRisk(milestone, phase);
+    if (atRisk === Boolean(milestone.atRiskSince)) {
+      return milestone;
+    }
+
+    const flagged = await this.projectMilestoneRepository.update(
+      milestone.id,
+      { atRiskSince: atRisk ? new Date() : null },
+      tx,
+    );
+
+    const recipient = this.recipientOf(milestone);
+    if (atRisk && phase && recipient) {
+      await this.notificationService.createNotification(
+        {
+          tenantId: milestone.tenantId,
+          userId: recipient,
+          type: 'milestone_at_risk',
+          channel: 'in-app',
+          payload: {
+            ...this.payloadOf(milestone),
+            phaseName: phase.name,
+            phaseEndDate: phase.endDate,
+          },
+        },
+        tx,
+      );
+    }
+
+    return flagged;
+  }
+
+  private async withdrawAlerts(tx: DrizzleTransaction, milestone: MilestoneRecord) {
+    await this.notificationService.cancelPending(
+      {
+        tenantId: milestone.tenantId,
+        types: SCHEDULED_MILESTONE_ALERTS,
+        payload: { milestoneId: milestone.id },
+      },
+      tx,
+    );
+  }
+
+  private recipientOf(milestone: MilestoneRecord): string | null {
+    return milestone.ownerId ?? milestone.createdBy;
+  }
+
+  private payloadOf(milestone: MilestoneRecord) {
+    return {
+      milestoneId: milestone.id,
+      projectId: milestone.projectId,
+      phaseId: milestone.phaseId,
+      name: milestone.name,
+      dueDate: milestone.dueDate,
+    };
+  }
+
+  private view(milestone: MilestoneRecord, now: Date): MilestoneView {
+    return {
+      ...milestone,
+      state: milestoneState(milestone, now),
+      atRisk: Boolean(milestone.atRiskSince),
+    };
+  }
+
+  private async assertReferences(
+    tx: DrizzleTransaction,
+    tenantId: string,
+    phases: ProjectPhaseRecord[],
+    fields: Pick<CreateProjectMilestoneDto, 'phaseId' | 'ownerId'>,
+  ) {
+    if (fields.phaseId && !phases.some((phase) => phase.id === fields.phaseId)) {
+      throw new BadRequestException({
+        error: 'PHASE_NOT_IN_PROJECT',
+        message: "The phase is not part of the milestone's project",
+        details: { phaseId: fields.phaseId },
+      });
+    }
+    if (
+      fields.ownerId &&
+      !(await this.projectMilestoneRepository.isTenantUser(fields.ownerId, tenantId, tx))
+    ) {
+      throw new BadRequestException({
+        error: 'UNKNOWN_OWNER',
+        message: 'The owner is not a user of this tenant',
+        details: { ownerId: fields.ownerId },
+      });
+    }
+  }
+
+  private async record(
+    tx: DrizzleTransaction,
+    before: MilestoneRecord | null,
+    after: MilestoneRecord | null,
+    userId: string,
+    reason?: string,
+  ) {
+    const current = (after ?? before)!;
+    const version =
+      (await this.versionHistoryService.getCurrentVersion(HISTORY_TABLE, current.id, tx)) + 1;
+
+    await this.versionHistoryService.recordChange(
+      {
+        tenantId: current.tenantId,
+        tableName: HISTORY_TABLE,
+        recordId: current.id,
+        version,
+        operation: !before ? 'CREATE' : !after ? 'DELETE' : 'UPDATE',
+        data: current,
+        ...(before && after ? { delta: changedFields(before, after) } : {}),
+        userId,
+        reason,
+      },
+      tx,
+    );
+  }
+
+  private async findMilestone(
+    tx: DrizzleTransaction,
+    projectId: string,
+    milestoneId: string,
+    tenantId: string,
+  ) {
+    const milestone = await this.projectMilestoneRepository.findOne(
+      milestoneId,
+      projectId,
+      tenantId,
+      tx,
+    );
+    if (!milestone) {
+      throw new NotFoundException('Milestone not found');
+    }
+
+    return milestone;
+  }
+
+  private async findProject(projectId: string, tenantId: string) {
+    const project = await this.projectRepository.findOne(projectId, tenantId);
+    if (!project) {
+      throw new NotFoundException('Project not found');
+    }
+
+    return project;
+  }
+
+  private async lockProject(tx: DrizzleTransaction, projectId: string, tenantId: string) {
+    const project = await this.projectRepository.findOneForUpdate(projectId, tenantId, tx);
+    if (!project) {
+      throw new NotFoundException('Project not found');
+    }
+
+    return project;
+  }
+}
@@ -0,0 +1,127 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  UseGuards,
+  UseInterceptors,
+  Req,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiBearerAuth } from '@nestjs/swagger';
+import { ProjectPhasesService } from './project-phases.service';
+import { PhaseRescheduleService } from './phase-reschedule.service';
+import { CreateProjectPhaseDto } from './dto/create-project-phase.dto';
+import { UpdateProjectPhaseDto } from './dto/update-project-phase.dto';
+import { RescheduleProjectPhaseDto } from './dto/reschedule-project-phase.dto';
+import { ApplyPhaseRescheduleDto } from './dto/apply-phase-reschedule.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { TenantGuard } from '../auth/guards/tenant.guard';
+import { RequestWithUser } from '../auth/interfaces/request-with-user.interface';
+import { TimeZoneInterceptor } from '../../common/interceptors/time-zone.interceptor';
+
+@ApiTags('projects')
+@ApiBearerAuth()
+@Controller('projects/:projectId/phases')
+@UseGuards(JwtAuthGuard, TenantGuard)
+@UseInterceptors(TimeZoneInterceptor)
+export class ProjectPhasesController {
+  constructor(
+    private readonly projectPhasesService: ProjectPhasesService,
+    private readonly phaseRescheduleService: PhaseRescheduleService,
+  ) {}
+
+  @Get()
+  @ApiOperation({ summary: 'List the phases of a project' })
+  async findAll(@Param('projectId') projectId: string, @Req() req: RequestWithUser) {
+    const phases = await this.projectPhasesService.findAll(projectId, req.user.tenantId);
+    return { data: phases };
+  }
+
+  @Get('plan')
+  @ApiOperation({ summary: 'Critical path, slack per phase and rolled-up progress' })
+  async plan(@Param('projectId') projectId: string, @Req() req: RequestWithUser) {
+    const plan = await this.projectPhasesService.plan(projectId, req.user.tenantId);
+    return { data: plan };
+  }
+
+  @Post()
+  @ApiOperation({ summary: 'Add a phase; the plan must stay free of cycles and nesting errors' })
+  async create(
+    @Param('projectId') projectId: string,
+    @Body() createDto: CreateProjectPhaseDto,
+    @Req() req: RequestWithUser,
+  ) {
+    const phase = await this.projectPhasesService.create(projectId, createDto, req.user.tenantId);
+    return { data: phase };
+  }
+
+  @Patch(':phaseId')
+  @ApiOperation({ summary: 'Update a phase' })
+  async update(
+    @Param('projectId') projectId: string,
+    @Param('phaseId') phaseId: string,
+    @Body() updateDto: UpdateProjectPhaseDto,
+    @Req() req: RequestWithUser,
+  ) {
+    const phase = await this.projectPhasesService.update(
+      projectId,
+      phaseId,
+      updateDto,
+      req.user.tenantId,
+    );
+
+    return { data: phase };
+  }
+
+  @Post(':phaseId/reschedule/preview')
+  @ApiOperation({
+    summary: 'Preview moving a phase: downstream phases, linked bookings and artist conflicts',
+  })
+  async previewReschedule(
+    @Param('projectId') projectId: string,
+    @Param('phaseId') phaseId: string,
+    @Body() rescheduleDto: RescheduleProjectPhaseDto,
+    @Req() req: RequestWithUser,
+  ) {
+    const preview = await this.phaseRescheduleService.preview(
+      projectId,
+      phaseId,
+      rescheduleDto,
+      req.user.tenantId,
+    );
+
+    return { data: preview };
+  }
+
+  @Post(':phaseId/reschedule')
+  @ApiOperation({ summary: 'Apply a previewed reschedule to phases and bookings in one go' })
+  async reschedule(
+    @Param('projectId') projectId: string,
+    @Param('phaseId') phaseId: string,
+    @Body() applyDto: ApplyPhaseRescheduleDto,
+    @Req() req: RequestWithUser,
+  ) {
+    const result = await this.phaseRescheduleService.apply(
+      projectId,
+      phaseId,
+      applyDto,
+      req.user.tenantId,
+      req.user.id,
+    );
+
+    return { data: result };
+  }
+
+  @Delete(':phaseId')
+  @ApiOperation({ summary: 'Delete a phase without sub-phases' })
+  async remove(
+    @Param('projectId') projectId: string,
+    @Param('phaseId') phaseId: string,
+    @Req() req: RequestWithUser,
+  ) {
+    return this.projectPhasesService.remove(projectId, phaseId, req.user.tenantId);
+  }
+}
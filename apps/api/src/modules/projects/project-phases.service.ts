@@ -0,0 +1,250 @@
+import {
+  Injectable,
+  Inject,
+  NotFoundException,
+  ConflictException,
+  BadRequestException,
+} from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import { DrizzleDatabase, DrizzleTransaction } from '../../common/types/drizzle.types';
+import { PhaseNode, phaseGraphIssues, phasePlan, rollUpProgress } from './phase-plan';
+import { ProjectMilestonesService } from './project-milestones.service';
+import { ProjectRecord, ProjectRepository } from './repositories/project.repository';
+import {
+  NewProjectPhase,
+  ProjectPhaseRecord,
+  ProjectPhaseRepository,
+} from './repositories/project-phase.repository';
+import { CreateProjectPhaseDto } from './dto/create-project-phase.dto';
+import { UpdateProjectPhaseDto } from './dto/update-project-phase.dto';
+
+export interface PlannedPhase extends ProjectPhaseRecord {
+  slackDays: number;
+  critical: boolean;
+}
+
+export interface ProjectPlan {
+  projectId: string;
+  startDate: Date | null;
+  endDate: Date | null;
+  // Duration-weighted over top-level phases; null without phases
+  progress: number | null;
+  criticalPath: string[];
+  phases: PlannedPhase[];
+}
+
+/**
+ * A project's phase plan. Every write is checked against the whole plan
+ * (see phaseGraphIssues) before it is saved, rolls sub-phase progress up
+ * into parents, refreshes the copy of the phases kept in the project's
+ * metadata and flags milestones whose phase now runs past their due date.
+ * Writes lock the project row, so concurrent edits to one plan apply one
+ * at a time.
+ */
+@Injectable()
+export class ProjectPhasesService {
+  constructor(
+    @Inject('DATABASE_CONNECTION') private readonly db: DrizzleDatabase,
+    private readonly projectRepository: ProjectRepository,
+    private readonly projectPhaseRepository: ProjectPhaseRepository,
+    private readonly projectMilestonesService: ProjectMilestonesService,
+  ) {}
+
+  async findAll(projectId: string, tenantId: string) {
+    await this.findProject(projectId, tenantId);
+    return this.projectPhaseRepository.findByProject(projectId);
+  }
+
+  // Slack and critical path are computed as of the phases' current dates
+  async plan(projectId: string, tenantId: string): Promise<ProjectPlan> {
+    await this.findProject(projectId, tenantId);
+    const phases = await this.projectPhaseRepository.findByProject(projectId);
+
+    const { schedule, criticalPath } = phasePlan(phases);
+    const progress = rollUpProgress(phases);
+
+    return {
+      projectId,
+      startDate: phases.length
+        ? new Date(Math.min(...phases.map((phase) => phase.startDate.getTime())))
+        : null,
+      endDate: phases.length
+        ? new Date(Math.max(...phases.map((phase) => phase.endDate.getTime())))
+        : null,
+      progress: progress.project,
+      criticalPath,
+      phases: phases.map((phase) => ({
+        ...phase,
+        progress: progress.phases.get(phase.id) ?? phase.progress,
+        ...schedule.get(phase.id)!,
+      })),
+    };
+  }
+
+  async create(projectId: string, createDto: CreateProjectPhaseDto, tenantId: string) {
+    return this.db.transaction(async (tx) => {
+      const project = await this.lockProject(tx, projectId, tenantId);
+      const phases = await this.projectPhaseRepository.findByProject(projectId, tx);
+
+      const phase = {
+        ...createDto,
+        id: randomUUID(),
+        projectId,
+        progress: createDto.progress ?? 0,
+        parentId: createDto.parentId ?? null,
+        dependencies: createDto.dependencies ?? [],
+      };
+      this.assertPlan([...phases, phase]);
+
+      const created = await this.projectPhaseRepository.create(phase, tx);
+      const saved = await this.settleWithin(tx, project, [...phases, created]);
+      return saved.find((candidate) => candidate.id === created.id)!;
+    });
+  }
+
+  async update(
+    projectId: string,
+    phaseId: string,
+    updateDto: UpdateProjectPhaseDto,
+    tenantId: string,
+  ) {
+    return this.db.transaction(async (tx) => {
+      const project = await this.lockProject(tx, projectId, tenantId);
+      const phases = await this.projectPhaseRepository.findByProject(projectId, tx);
+      const existing = this.findPhase(phases, phaseId);
+
+      const changed = { ...existing, ...(updateDto as Partial<NewProjectPhase>) };
+      this.assertPlan(phases.map((phase) => (phase.id === phaseId ? changed : phase)));
+
+      const updated = await this.projectPhaseRepository.update(phaseId, updateDto, tx);
+      const saved = await this.settleWithin(
+        tx,
+        project,
+        phases.map((phase) => (phase.id === phaseId ? updated : phase)),
+      );
+      return saved.find((phase) => phase.id === phaseId)!;
+    });
+  }
+
+  // Phases that depended on it stop doing so; a phase with sub-phases can't go
+  async remove(projectId: string, phaseId: string, tenantId: string) {
+    await this.db.transaction(async (tx) => {
+      const project = await this.lockProject(tx, projectId, tenantId);
+      const phases = await this.projectPhaseRepository.findByProject(projectId, tx);
+      this.findPhase(phases, phaseId);
+
+      const children = phases.filter((phase) => phase.parentId === phaseId);
+      if (children.length > 0) {
+        throw new ConflictException({
+          error: 'PHASE_HAS_CHILDREN',
+          message: "Move or delete the phase's sub-phases first",
+          details: { childIds: children.map((phase) => phase.id) },
+        });
+      }
+
+      await this.projectPhaseRepository.delete(phaseId, tx);
+
+      const remaining: ProjectPhaseRecord[] = [];
+      for (const phase of phases) {
+        if (phase.id === phaseId) {
+          continue;
+        }
+        remaining.push(
+          phase.dependencies?.includes(phaseId)
+            ? await this.projectPhaseRepository.update(
+                phase.id,
+                { dependencies: phase.dependencies.filter((id) => id !== phaseId) },
+                tx,
+              )
+            : phase,
+        );
+      }
+
+      await this.settleWithin(tx, project, remaining);
+    });
+
+    return { success: true };
+  }
+
+  /**
+   * Writes rolled-up progress to phases with sub-phases, mirrors the plan
+   * into the project's metadata and re-judges milestones against it.
+   * Returns the phases as saved. The caller must hold the project lock.
+   */
+  async settleWithin(
+    tx: DrizzleTransaction,
+    project: ProjectRecord,
+    phases: ProjectPhaseRecord[],
+  ): Promise<ProjectPhaseRecord[]> {
+    const progress = rollUpProgress(phases);
+    const parentIds = new Set(phases.map((phase) => phase.parentId));
+
+    const saved: ProjectPhaseRecord[] = [];
+    for (const phase of phases) {
+      const rolledUp = progress.phases.get(phase.id)!;
+      saved.push(
+        parentIds.has(phase.id) && rolledUp !== phase.progress
+          ? await this.projectPhaseRepository.update(phase.id, { progress: rolledUp }, tx)
+          : phase,
+      );
+    }
+
+    await this.projectRepository.update(
+      project.id,
+      {
+        metadata: {
+          ...project.metadata,
+          phases: saved.map((phase) => ({
+            id: phase.id,
+            name: phase.name,
+            startDate: phase.startDate.toISOString(),
+            endDate: phase.endDate.toISOString(),
+            dependencies: phase.dependencies ?? [],
+          })),
+        },
+      },
+      tx,
+    );
+    await this.projectMilestonesService.checkPhasesWithin(tx, project, saved);
+
+    return saved;
+  }
+
+  assertPlan(phases: PhaseNode[]) {
+    const issues = phaseGraphIssues(phases);
+    if (issues.length > 0) {
+      throw new BadRequestException({
+        error: 'INVALID_PHASE_PLAN',
+        message: issues[0].message,
+        details: { issues },
+      });
+    }
+  }
+
+  private findPhase(phases: ProjectPhaseRecord[], phaseId: string) {
+    const phase = phases.find((candidate) => candidate.id === phaseId);
+    if (!phase) {
+      throw new NotFoundException('Phase not found');
+    }
+
+    return phase;
+  }
+
+  private async findProject(projectId: string, tenantId: string) {
+    const project = await this.projectRepository.findOne(projectId, tenantId);
+    if (!project) {
+      throw new NotFoundException('Project not found');
+    }
+
+    return project;
+  }
+
+  async lockProject(tx: DrizzleTransaction, projectId: string, tenantId: string) {
+    const project = await this.projectRepository.findOneForUpdate(projectId, tenantId, tx);
+    if (!project) {
+      throw new NotFoundException('Project not found');
+    }
+
+    return project;
+  }
+}
@@ -0,0 +1,33 @@
+import { PROJECT_STATUSES, ProjectStatus, canTransition } from './project-status';
+
+// Every move the lifecycle allows; anything else is refused
+const ALLOWED: Array<[ProjectStatus, ProjectStatus]> = [
+  ['planning', 'active'],
+  ['planning', 'cancelled'],
+  ['active', 'on_hold'],
+  ['active', 'completed'],
+  ['active', 'cancelled'],
+  ['on_hold', 'active'],
+  ['on_hold', 'cancelled'],
+];
+
+describe('canTransition', () => {
+  it('allows exactly the lifecycle moves, and never staying put', () => {
+    const allowed = PROJECT_STATUSES.flatMap((from) =>
+      PROJECT_STATUSES.filter((to) => canTransition(from, to)).map((to) => [from, to]),
+    );
+
+    expect(allowed).toEqual(ALLOWED);
+  });
+
+  it('treats completed and cancelled as final', () => {
+    for (const status of ['completed', 'cancelled'] as const) {
+      expect(PROJECT_STATUSES.filter((to) => canTransition(status, to))).toEqual([]);
+    }
+  });
+
+  it('resumes a project on hold by going back to active, not straight to completed', () => {
+    expect(canTransition('on_hold', 'active')).toBe(true);
+    expect(canTransition('on_hold', 'completed')).toBe(false);
+  });
+});
@@ -0,0 +1,27 @@
+import { projects } from '../../database/schema';
+
+export type ProjectStatus = NonNullable<(typeof projects.$inferSelect)['status']>;
+
+export const PROJECT_STATUSES: readonly ProjectStatus[] = [
+  'planning',
+  'active',
+  'on_hold',
+  'completed',
+  'cancelled',
+];
+
+/**
+ * Where a project may go from each status. Completed and cancelled are
+ * final; a project on hold resumes by going back to active.
+ */
+export const PROJECT_STATUS_TRANSITIONS: Record<ProjectStatus, readonly ProjectStatus[]> = {
+  planning: ['active', 'cancelled'],
+  active: ['on_hold', 'completed', 'cancelled'],
+  on_hold: ['active', 'cancelled'],
+  completed: [],
+  cancelled: [],
+};
+
+export function canTransition(from: ProjectStatus, to: ProjectStatus): boolean {
+  return PROJECT_STATUS_TRANSITIONS[from].includes(to);
+}
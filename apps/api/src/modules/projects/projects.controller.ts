@@ -0,0 +1,124 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  Query,
+  UseGuards,
+  UseInterceptors,
+  Req,
+  DefaultValuePipe,
+  ParseIntPipe,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiBearerAuth } from '@nestjs/swagger';
+import { ProjectsService } from './projects.service';
+import { ProjectBudgetService } from '../bookings/project-budget.service';
+import { CreateProjectDto } from './dto/create-project.dto';
+import { UpdateProjectDto } from './dto/update-project.dto';
+import { ChangeProjectStatusDto } from './dto/change-project-status.dto';
+import { ProjectQueryDto } from './dto/project-query.dto';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { TenantGuard } from '../auth/guards/tenant.guard';
+import { RequestWithUser } from '../auth/interfaces/request-with-user.interface';
+import { TimeZoneInterceptor } from '../../common/interceptors/time-zone.interceptor';
+
+@ApiTags('projects')
+@ApiBearerAuth()
+@Controller('projects')
+@UseGuards(JwtAuthGuard, TenantGuard)
+@UseInterceptors(TimeZoneInterceptor)
+export class ProjectsController {
+  constructor(
+    private readonly projectsService: ProjectsService,
+    private readonly projectBudgetService: ProjectBudgetService,
+  ) {}
+
+  @Post()
+  @ApiOperation({ summary: 'Create a project (starts in planning)' })
+  async create(@Body() createDto: CreateProjectDto, @Req() req: RequestWithUser) {
+    const project = await this.projectsService.create(createDto, req.user.tenantId, req.user.id);
+    return { data: project };
+  }
+
+  @Get()
+  @ApiOperation({ summary: 'List projects' })
+  async findAll(@Query() query: ProjectQueryDto, @Req() req: RequestWithUser) {
+    const projects = await this.projectsService.findAll({
+      tenantId: req.user.tenantId,
+      status: query.status,
+      search: query.search,
+    });
+
+    return { data: projects };
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get project' })
+  async findOne(@Param('id') id: string, @Req() req: RequestWithUser) {
+    const project = await this.projectsService.findOne(id, req.user.tenantId);
+    return { data: project };
+  }
+
+  @Patch(':id')
+  @ApiOperation({ summary: 'Update project details' })
+  async update(
+    @Param('id') id: string,
+    @Body() updateDto: UpdateProjectDto,
+    @Req() req: RequestWithUser,
+  ) {
+    const project = await this.projectsService.update(
+      id,
+      updateDto,
+      req.user.tenantId,
+      req.user.id,
+    );
+
+    return { data: project };
+  }
+
+  @Post(':id/status')
+  @ApiOperation({ summary: 'Move a project to another status (planning, active, on hold, ...)' })
+  async changeStatus(
+    @Param('id') id: string,
+    @Body() statusDto: ChangeProjectStatusDto,
+    @Req() req: RequestWithUser,
+  ) {
+    const project = await this.projectsService.changeStatus(
+      id,
+      statusDto,
+      req.user.tenantId,
+      req.user.id,
+    );
+
+    return { data: project };
+  }
+
+  @Get(':id/budget')
+  @ApiOperation({
+    summary: 'Budget burn: actual, committed and tentative spend and forecast, per phase',
+  })
+  async budget(@Param('id') id: string, @Req() req: RequestWithUser) {
+    const budget = await this.projectBudgetService.report(id, req.user.tenantId);
+    return { data: budget };
+  }
+
+  @Get(':id/history')
+  @ApiOperation({ summary: 'Recorded versions of a project, newest first' })
+  async history(
+    @Param('id') id: string,
+    @Query('limit', new DefaultValuePipe(50), ParseIntPipe) limit: number,
+    @Req() req: RequestWithUser,
+  ) {
+    const history = await this.projectsService.history(id, req.user.tenantId, limit);
+    return { data: history };
+  }
+
+  @Delete(':id')
+  @ApiOperation({ summary: 'Delete a project nothing refers to' })
+  async remove(@Param('id') id: string, @Req() req: RequestWithUser) {
+    return this.projectsService.remove(id, req.user.tenantId, req.user.id);
+  }
+}
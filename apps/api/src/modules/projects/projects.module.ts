@@ -0,0 +1,31 @@
+import { Module } from '@nestjs/common';
+import { ProjectsController } from './projects.controller';
+import { ProjectPhasesController } from './project-phases.controller';
+import { ProjectMilestonesController } from './project-milestones.controller';
+import { ProjectsService } from './projects.service';
+import { ProjectPhasesService } from './project-phases.service';
+import { PhaseRescheduleService } from './phase-reschedule.service';
+import { ProjectMilestonesService } from './project-milestones.service';
+import { ProjectRepository } from './repositories/project.repository';
+import { ProjectPhaseRepository } from './repositories/project-phase.repository';
+import { ProjectMilestoneRepository } from './repositories/project-milestone.repository';
+import { DataVersionHistoryService } from '../../common/services/data-version-history.service';
+import { BookingsModule } from '../bookings/bookings.module';
+import { NotificationModule } from '../notification/notification.module';
+
+@Module({
+  imports: [BookingsModule, NotificationModule],
+  controllers: [ProjectsController, ProjectPhasesController, ProjectMilestonesController],
+  providers: [
+    ProjectsService,
+    ProjectPhasesService,
+    PhaseRescheduleService,
+    ProjectMilestonesService,
+    ProjectRepository,
+    ProjectPhaseRepository,
+    ProjectMilestoneRepository,
+    DataVersionHistoryService,
+  ],
+  exports: [ProjectsService, ProjectPhasesService, ProjectMilestonesService],
+})
+export class ProjectsModule {}
@@ -0,0 +1,224 @@
+import {
+  Injectable,
+  Inject,
+  NotFoundException,
+  ConflictException,
+  BadRequestException,
+} from '@nestjs/common';
+import { DrizzleDatabase, DrizzleTransaction } from '../../common/types/drizzle.types';
+import { isForeignKeyViolation, isUniqueViolation } from '../../common/utils/database-errors';
+import {
+  DataVersionHistoryService,
+  changedFields,
+} from '../../common/services/data-version-history.service';
+import { PROJECT_STATUS_TRANSITIONS, ProjectStatus, canTransition } from './project-status';
+import { NewProject, ProjectRecord, ProjectRepository } from './repositories/project.repository';
+import { CreateProjectDto } from './dto/create-project.dto';
+import { UpdateProjectDto } from './dto/update-project.dto';
+import { ChangeProjectStatusDto } from './dto/change-project-status.dto';
+
+// tableName of the project's entries in data_version_history
+const HISTORY_TABLE = 'projects';
+
+/**
+ * Tenant projects. Codes are unique within a tenant, status moves only
+ * along PROJECT_STATUS_TRANSITIONS, and every write is kept as a version in
+ * data_version_history within the same transaction.
+ */
+@Injectable()
+export class ProjectsService {
+  constructor(
+    @Inject('DATABASE_CONNECTION') private readonly db: DrizzleDatabase,
+    private readonly projectRepository: ProjectRepository,
+    private readonly versionHistoryService: DataVersionHistoryService,
+  ) {}
+
+  async create(createDto: CreateProjectDto, tenantId: string, userId: string) {
+    this.validateDates(createDto.startDate ?? null, createDto.endDate ?? null);
+
+    return this.withCodeCheck(() =>
+      this.db.transaction(async (tx) => {
+        const project = await this.projectRepository.create(
+          { ...createDto, tenantId, status: 'planning' },
+          tx,
+        );
+
+        await this.versionHistoryService.recordChange(
+          {
+            tenantId,
+            tableName: HISTORY_TABLE,
+            recordId: project.id,
+            version: 1,
+            operation: 'CREATE',
+            data: project,
+            userId,
+          },
+          tx,
+        );
+
+        return project;
+      }),
+    );
+  }
+
+  async findAll(filters: { tenantId: string; status?: ProjectStatus; search?: string }) {
+    return this.projectRepository.findAll(filters);
+  }
+
+  async findOne(id: string, tenantId: string) {
+    const project = await this.projectRepository.findOne(id, tenantId);
+    if (!project) {
+      throw new NotFoundException('Project not found');
+    }
+
+    return project;
+  }
+
+  // Metadata is merged, so the phases mirrored there survive the edit
+  async update(id: string, updateDto: UpdateProjectDto, tenantId: string, userId: string) {
+    return this.withCodeCheck(() =>
+      this.db.transaction(async (tx) => {
+        const existing = await this.findOneForUpdate(id, tenantId, tx);
+        this.validateDates(
+          updateDto.startDate ?? existing.startDate,
+          updateDto.endDate ?? existing.endDate,
+        );
+
+        const changes: Partial<NewProject> = updateDto.metadata
+          ? { ...updateDto, metadata: { ...existing.metadata, ...updateDto.metadata } }
+          : (updateDto as Partial<NewProject>);
+        const updated = await this.projectRepository.update(id, changes, tx);
+
+        await this.recordUpdate(tx, existing, updated, userId);
+        return updated;
+      }),
+    );
+  }
+
+  async changeStatus(
+    id: string,
+    statusDto: ChangeProjectStatusDto,
+    tenantId: string,
+    userId: string,
+  ) {
+    return this.db.transaction(async (tx) => {
+      const existing = await this.findOneForUpdate(id, tenantId, tx);
+      const from = existing.status ?? 'planning';
+
+      if (!canTransition(from, statusDto.status)) {
+        throw new BadRequestException({
+          error: 'INVALID_STATUS_TRANSITION',
+          message: `A ${from} project cannot become ${statusDto.status}`,
+          details: { from, to: statusDto.status, allowed: PROJECT_STATUS_TRANSITIONS[from] },
+        });
+      }
+
+      const updated = await this.projectRepository.update(id, { status: statusDto.status }, tx);
+
+      await this.recordUpdate(tx, existing, updated, userId, statusDto.reason);
+      return updated;
+    });
+  }
+
+  // Projects with bookings or other records can't be deleted; cancel them instead
+  async remove(id: string, tenantId: string, userId: string) {
+    try {
+      await this.db.transaction(async (tx) => {
+        const project = await this.findOneForUpdate(id, tenantId, tx);
+        await this.projectRepository.delete(id, tx);
+
+        const currentVersion = await this.versionHistoryService.getCurrentVersion(
+          HISTORY_TABLE,
+          id,
+          tx,
+        );
+        await this.versionHistoryService.recordChange(
+          {
+            tenantId,
+            tableName: HISTORY_TABLE,
+            recordId: id,
+            version: currentVersion + 1,
+            operation: 'DELETE',
+            data: project,
+            userId,
+          },
+          tx,
+        );
+      });
+    } catch (error) {
+      if (isForeignKeyViolation(error)) {
+        throw new ConflictException({
+          error: 'PROJECT_IN_USE',
+          message: 'Project has bookings or other records; cancel it instead',
+        });
+      }
+      throw error;
+    }
+
+    return { success: true };
+  }
+
+  // Newest version first
+  async history(id: string, tenantId: string, limit?: number) {
+    await this.findOne(id, tenantId);
+    return this.versionHistoryService.getHistory(HISTORY_TABLE, id, limit);
+  }
+
+  private async findOneForUpdate(id: string, tenantId: string, tx: DrizzleTransaction) {
+    const project = await this.projectRepository.findOneForUpdate(id, tenantId, tx);
+    if (!project) {
+      throw new NotFoundException('Project not found');
+    }
+
+    return project;
+  }
+
+  private async recordUpdate(
+    tx: DrizzleTransaction,
+    before: ProjectRecord,
+    after: ProjectRecord,
+    userId: string,
+    reason?: string,
+  ) {
+    const currentVersion = await this.versionHistoryService.getCurrentVersion(
+      HISTORY_TABLE,
+      after.id,
+      tx,
+    );
+
+    await this.versionHistoryService.recordChange(
+      {
+        tenantId: after.tenantId,
+        tableName: HISTORY_TABLE,
+        recordId: after.id,
+        version: currentVersion + 1,
+        operation: 'UPDATE',
+        data: after,
+        delta: changedFields(before, after),
+        userId,
+        reason,
+      },
+      tx,
+    );
+  }
+
+  private validateDates(startDate: Date | null, endDate: Date | null) {
+    if (startDate && endDate && endDate < startDate) {
+      throw new BadRequestException('endDate must not be before startDate');
+    }
+  }
+
+  private async withCodeCheck<T>(write: () => Promise<T>): Promise<T> {
+    try {
+      return await write();
+    } catch (error) {
+      if (isUniqueViolation(error)) {
+        throw new ConflictException({
+          error: 'PROJECT_CODE_TAKEN',
+          message: 'Another project already uses this code',
+        });
+      }
+      throw error;
+    }
+  }
+}
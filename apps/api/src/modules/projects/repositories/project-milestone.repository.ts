@@ -0,0 +1,124 @@
+import { Injectable, Inject } from '@nestjs/common';
+import { and, asc, eq, gte, inArray, isNotNull, isNull, lt, SQL } from 'drizzle-orm';
+import { DrizzleDatabase, DrizzleTransaction } from '../../../common/types/drizzle.types';
+import { projectMilestones, users } from '../../../database/schema';
+import { MilestoneRecord, MilestoneState } from '../milestone-alerts';
+
+export type NewProjectMilestone = typeof projectMilestones.$inferInsert;
+
+type Executor = DrizzleDatabase | DrizzleTransaction;
+
+@Injectable()
+export class ProjectMilestoneRepository {
+  constructor(
+    @Inject('DATABASE_CONNECTION') private readonly db: DrizzleDatabase,
+  ) {}
+
+  // Soonest due first; `state` is judged as of `now`
+  async findByProject(
+    filters: { projectId: string; tenantId: string; state?: MilestoneState; now?: Date },
+    executor: Executor = this.db,
+  ): Promise<MilestoneRecord[]> {
+    const now = filters.now ?? new Date();
+    const conditions: SQL[] = [
+      eq(projectMilestones.projectId, filters.projectId),
+      eq(projectMilestones.tenantId, filters.tenantId),
+    ];
+    if (filters.state === 'completed') {
+      conditions.push(isNotNull(projectMilestones.completedAt));
+    } else if (filters.state === 'overdue') {
+      conditions.push(isNull(projectMilestones.completedAt), lt(projectMilestones.dueDate, now));
+    } else if (filters.state === 'open') {
+      conditions.push(isNull(projectMilestones.completedAt), gte(projectMilestones.dueDate, now));
+    }
+
+    return executor
+      .select()
+      .from(projectMilestones)
+      .where(and(...conditions))
+      .orderBy(asc(projectMilestones.dueDate), asc(projectMilestones.name));
+  }
+
+  async findOne(
+    id: string,
+    projectId: string,
+    tenantId: string,
+    executor: Executor = this.db,
+  ): Promise<MilestoneRecord | null> {
+    const [milestone] = await executor
+      .select()
+      .from(projectMilestones)
+      .where(
+        and(
+          eq(projectMilestones.id, id),
+          eq(projectMilestones.projectId, projectId),
+          eq(projectMilestones.tenantId, tenantId),
+        ),
+      )
+      .limit(1);
+
+    return milestone || null;
+  }
+
+  async create(data: NewProjectMilestone, executor: Executor = this.db): Promise<MilestoneRecord> {
+    const [created] = await executor.insert(projectMilestones).values(data).returning();
+    return created;
+  }
+
+  async update(
+    id: string,
+    data: Partial<NewProjectMilestone>,
+    executor: Executor = this.db,
+  ): Promise<MilestoneRecord> {
+    const [updated] = await executor
+      .update(projectMilestones)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(projectMilestones.id, id))
+      .returning();
+
+    return updated;
+  }
+
+  async delete(id: string, executor: Executor = this.db): Promise<void> {
+    await executor.delete(projectMilestones).where(eq(projectMilestones.id, id));
+  }
+
+  // Milestones no one created through the API: the ones carried over from
+  // project metadata, until they are given an owner
+  async findUnowned(tenantId: string, executor: Executor = this.db): Promise<MilestoneRecord[]> {
+    return executor
+      .select()
+      .from(projectMilestones)
+      .where(
+        and(
+          eq(projectMilestones.tenantId, tenantId),
+          isNull(projectMilestones.ownerId),
+          isNull(projectMilestones.createdBy),
+        ),
+      )
+      .orderBy(asc(projectMilestones.projectId), asc(projectMilestones.dueDate));
+  }
+
+  // The tenant's longest-standing owner, or failing that manager (the role
+  // enum sorts owner first)
+  async findDefaultOwner(tenantId: string, executor: Executor = this.db): Promise<string | null> {
+    const [user] = await executor
+      .select({ id: users.id })
+      .from(users)
+      .where(and(eq(users.tenantId, tenantId), inArray(users.role, ['owner', 'manager'])))
+      .orderBy(asc(users.role), asc(users.createdAt))
+      .limit(1);
+
+    return user?.id ?? null;
+  }
+
+  async isTenantUser(userId: string, tenantId: string, executor: Executor = this.db) {
+    const [user] = await executor
+      .select({ id: users.id })
+      .from(users)
+      .where(and(eq(users.id, userId), eq(users.tenantId, tenantId)))
+      .limit(1);
+
+    return Boolean(user);
+  }
+}
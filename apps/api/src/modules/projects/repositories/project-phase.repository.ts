@@ -0,0 +1,51 @@
+import { Injectable, Inject } from '@nestjs/common';
+import { asc, eq } from 'drizzle-orm';
+import { DrizzleDatabase, DrizzleTransaction } from '../../../common/types/drizzle.types';
+import { projectPhases } from '../../../database/schema';
+
+export type ProjectPhaseRecord = typeof projectPhases.$inferSelect;
+export type NewProjectPhase = typeof projectPhases.$inferInsert;
+
+type Executor = DrizzleDatabase | DrizzleTransaction;
+
+@Injectable()
+export class ProjectPhaseRepository {
+  constructor(
+    @Inject('DATABASE_CONNECTION') private readonly db: DrizzleDatabase,
+  ) {}
+
+  // Phases carry no tenant; callers check the project belongs to the tenant
+  async findByProject(
+    projectId: string,
+    executor: Executor = this.db,
+  ): Promise<ProjectPhaseRecord[]> {
+    return executor
+      .select()
+      .from(projectPhases)
+      .where(eq(projectPhases.projectId, projectId))
+      .orderBy(asc(projectPhases.orderIndex), asc(projectPhases.startDate));
+  }
+
+  async create(data: NewProjectPhase, executor: Executor = this.db): Promise<ProjectPhaseRecord> {
+    const [created] = await executor.insert(projectPhases).values(data).returning();
+    return created;
+  }
+
+  async update(
+    id: string,
+    data: Partial<NewProjectPhase>,
+    executor: Executor = this.db,
+  ): Promise<ProjectPhaseRecord> {
+    const [updated] = await executor
+      .update(projectPhases)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(projectPhases.id, id))
+      .returning();
+
+    return updated;
+  }
+
+  async delete(id: string, executor: Executor = this.db): Promise<void> {
+    await executor.delete(projectPhases).where(eq(projectPhases.id, id));
+  }
+}
@@ -0,0 +1,91 @@
+import { Injectable, Inject } from '@nestjs/common';
+import { and, asc, eq, ilike, or, SQL } from 'drizzle-orm';
+import { DrizzleDatabase, DrizzleTransaction } from '../../../common/types/drizzle.types';
+import { projects } from '../../../database/schema';
+import { ProjectStatus } from '../project-status';
+
+export type ProjectRecord = typeof projects.$inferSelect;
+export type NewProject = typeof projects.$inferInsert;
+
+type Executor = DrizzleDatabase | DrizzleTransaction;
+
+@Injectable()
+export class ProjectRepository {
+  constructor(
+    @Inject('DATABASE_CONNECTION') private readonly db: DrizzleDatabase,
+  ) {}
+
+  async findAll(filters: {
+    tenantId: string;
+    status?: ProjectStatus;
+    search?: string;
+  }): Promise<ProjectRecord[]> {
+    const conditions: SQL[] = [eq(projects.tenantId, filters.tenantId)];
+    if (filters.status) {
+      conditions.push(eq(projects.status, filters.status));
+    }
+    if (filters.search) {
+      const pattern = `%${filters.search.replace(/[\\%_]/g, '\\$&')}%`;
+      conditions.push(or(ilike(projects.name, pattern), ilike(projects.code, pattern)) as SQL);
+    }
+
+    return this.db
+      .select()
+      .from(projects)
+      .where(and(...conditions))
+      .orderBy(asc(projects.name));
+  }
+
+  async findOne(
+    id: string,
+    tenantId: string,
+    executor: Executor = this.db,
+  ): Promise<ProjectRecord | null> {
+    const [project] = await executor
+      .select()
+      .from(projects)
+      .where(and(eq(projects.id, id), eq(projects.tenantId, tenantId)))
+      .limit(1);
+
+    return project || null;
+  }
+
+  // Locks the project until the transaction ends, so changes and their
+  // history versions apply one at a time
+  async findOneForUpdate(
+    id: string,
+    tenantId: string,
+    tx: DrizzleTransaction,
+  ): Promise<ProjectRecord | null> {
+    const [project] = await tx
+      .select()
+      .from(projects)
+      .where(and(eq(projects.id, id), eq(projects.tenantId, tenantId)))
+      .for('update');
+
+    return project || null;
+  }
+
+  async create(data: NewProject, executor: Executor = this.db): Promise<ProjectRecord> {
+    const [created] = await executor.insert(projects).values(data).returning();
+    return created;
+  }
+
+  async update(
+    id: string,
+    data: Partial<NewProject>,
+    executor: Executor = this.db,
+  ): Promise<ProjectRecord> {
+    const [updated] = await executor
+      .update(projects)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(projects.id, id))
+      .returning();
+
+    return updated;
+  }
+
+  async delete(id: string, executor: Executor = this.db): Promise<void> {
+    await executor.delete(projects).where(eq(projects.id, id));
+  }
+}
@@ -0,0 +1,2 @@
+// End-to-end suites boot the whole application per file
+jest.setTimeout(60000);
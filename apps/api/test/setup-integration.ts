@@ -0,0 +1,2 @@
+// Integration suites talk to a real database; give them room
+jest.setTimeout(30000);
@@ -77,6 +77,13 @@ const environmentSchema = z.object({
   RATE_LIMIT_MAX_REQUESTS: z.coerce.number().default(100),
   SESSION_SECRET: z.string().min(32, 'Session secret must be at least 32 characters'),
   SESSION_MAX_AGE: z.coerce.number().default(86400000),
+
+  // Bookings
+  HOLD_EXPIRY_SWEEP_INTERVAL_MS: z.coerce.number().min(0).default(60000),
+  EXTERNAL_CALENDAR_SYNC_INTERVAL_MS: z.coerce.number().min(0).default(900000),
+  EXTERNAL_CALENDAR_FILE_ROOT: z.string().startsWith('/', 'Must be an absolute path').optional(),
+  // Compared as text: coercing would read "false" as true
+  EXTERNAL_CALENDAR_ALLOW_PRIVATE_HOSTS: z.enum(['true', 'false']).default('false'),
 });
 
 // Custom validation for conditional requirements
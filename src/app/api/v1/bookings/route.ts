@@ -1,8 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getCurrentUser } from '@/lib/auth/clerk';
 import { db, setTenantContext } from '@/lib/db';
-import { bookings, insertBookingSchema } from '@/lib/db/schema';
-import { eq, and, gte, lte } from 'drizzle-orm';
+import { bookings } from '@/lib/db/schema';
+import { eq, gte, lte } from 'drizzle-orm';
 
 export async function GET(request: NextRequest) {
   try {
@@ -44,6 +44,8 @@ export async function GET(request: NextRequest) {
   }
 }
 
+// Bookings are created by the API service, which prices them, ranks holds
+// and records the booking_created event; this route only forwards to it
 export async function POST(request: NextRequest) {
   try {
     const user = await getCurrentUser();
@@ -51,50 +53,31 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
-    // Set tenant context for RLS
-    await setTenantContext(user.tenantId);
-
-    const body = await request.json();
-    const validation = insertBookingSchema.safeParse({
-      ...body,
-      tenantId: user.tenantId,
-      userId: user.id,
-    });
-
-    if (!validation.success) {
-      return NextResponse.json(
-        { error: 'Validation failed', details: validation.error.flatten() },
-        { status: 400 }
-      );
-    }
-
-    // Check for conflicts
-    const conflicts = await db
-      .select()
-      .from(bookings)
-      .where(
-        and(
-          eq(bookings.artistId, validation.data.artistId),
-          eq(bookings.status, 'confirmed'),
-          // Check for time overlap
-          gte(bookings.endTime, validation.data.startTime),
-          lte(bookings.startTime, validation.data.endTime)
-        )
-      );
-
-    if (conflicts.length > 0) {
+    const apiUrl = process.env.NEXT_PUBLIC_API_URL;
+    if (!apiUrl) {
+      console.error('Error creating booking: NEXT_PUBLIC_API_URL is not set');
       return NextResponse.json(
-        { error: 'Booking conflict detected' },
-        { status: 409 }
+        { error: 'Failed to create booking' },
+        { status: 500 }
       );
     }
 
-    const result = await db
-      .insert(bookings)
-      .values(validation.data)
-      .returning();
+    const authorization = request.headers.get('authorization');
+    const response = await fetch(`${apiUrl}/api/v1/bookings`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(authorization ? { Authorization: authorization } : {}),
+      },
+      body: await request.text(),
+    });
 
-    return NextResponse.json({ data: result[0] }, { status: 201 });
+    return new NextResponse(await response.text(), {
+      status: response.status,
+      headers: {
+        'Content-Type': response.headers.get('content-type') ?? 'application/json',
+      },
+    });
   } catch (error) {
     console.error('Error creating booking:', error);
     return NextResponse.json(
@@ -102,4 +85,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
@@ -1,5 +1,35 @@
 import { type Booking, type Resource, type Project } from '@/lib/db/schema';
 
+export type ConflictSeverity = 'hard' | 'pencil' | 'soft_hold' | 'turnaround';
+
+export interface ConflictReport {
+  refused: boolean;
+  turnaroundMinutes: number;
+  counts: Record<ConflictSeverity, number>;
+  conflicts: Record<
+    ConflictSeverity,
+    Array<{
+      severity: ConflictSeverity;
+      reason: string;
+      booking?: Booking;
+      externalBusyBlock?: { id: string; summary: string | null; startTime: string; endTime: string };
+      gapMinutes?: number;
+    }>
+  >;
+  alternatives: Array<{ start: string; end: string }>;
+  // Days the booking would take a license pool past its seats
+  licenses: Array<{
+    license: string;
+    name: string;
+    date: string;
+    seats: number;
+    confirmed: number;
+    peak: number;
+    status: 'at_risk' | 'over';
+    bookingIds: string[];
+  }>;
+}
+
 class ApiClient {
   private baseUrl: string;
 
@@ -23,7 +53,9 @@ class ApiClient {
 
     if (!response.ok) {
       const error = await response.json().catch(() => ({ error: 'Unknown error' }));
-      throw new Error(error.error || 'API request failed');
+      // Next.js routes return { error: string }; the Nest API returns { error: { code, message } }
+      const message = typeof error.error === 'string' ? error.error : error.error?.message;
+      throw new Error(message || 'API request failed');
     }
 
     return response.json();
@@ -34,6 +66,7 @@ class ApiClient {
     startDate?: string;
     endDate?: string;
     artistId?: string;
+    resourceId?: string;
   }): Promise<{ data: Booking[] }> {
     const searchParams = new URLSearchParams();
     
@@ -89,11 +122,46 @@ class ApiClient {
     });
   }
 
+  async updateProject(id: string, data: Partial<Project>): Promise<{ data: Project }> {
+    return this.request(`/projects/${id}`, {
+      method: 'PATCH',
+      body: JSON.stringify(data),
+    });
+  }
+
+  // Moves are checked server-side: planning → active → on_hold / completed / cancelled
+  async changeProjectStatus(
+    id: string,
+    status: NonNullable<Project['status']>,
+    reason?: string
+  ): Promise<{ data: Project }> {
+    return this.request(`/projects/${id}/status`, {
+      method: 'POST',
+      body: JSON.stringify({ status, reason }),
+    });
+  }
+
   // Availability check
-  async checkAvailability(resourceId: string, startTime: string, endTime: string): Promise<{ available: boolean }> {
+  async checkAvailability(artistId: string, startTime: string, endTime: string): Promise<{ data: { available: boolean } }> {
     return this.request('/bookings/check-availability', {
       method: 'POST',
-      body: JSON.stringify({ resourceId, startTime, endTime }),
+      body: JSON.stringify({ artistId, startTime, endTime }),
+    });
+  }
+
+  // Everything overlapping or too close to a proposed booking, by severity
+  async getConflictReport(proposal: {
+    artistId: string;
+    startTime: string;
+    endTime: string;
+    status?: 'hold' | 'pencil' | 'confirmed';
+    excludeId?: string;
+    turnaroundMinutes?: number;
+    licenses?: string[];
+  }): Promise<{ data: ConflictReport }> {
+    return this.request('/bookings/conflicts', {
+      method: 'POST',
+      body: JSON.stringify(proposal),
     });
   }
 }
@@ -13,14 +13,25 @@ export const applicationStatusEnum = pgEnum('application_status', ['pending', 'r
 export const bookingStatusEnum = pgEnum('booking_status', ['hold', 'pencil', 'confirmed', 'cancelled', 'completed']);
 export const projectStatusEnum = pgEnum('project_status', ['planning', 'active', 'on_hold', 'completed', 'cancelled']);
 export const holdTypeEnum = pgEnum('hold_type', ['soft', 'hard', 'first_refusal']);
+export const resourceTypeEnum = pgEnum('resource_type', ['room', 'workstation', 'license', 'equipment']);
 export const eventTypeEnum = pgEnum('event_type', [
   'booking_created',
   'booking_updated', 
   'booking_cancelled',
   'booking_completed',
+  'booking_deleted',
   'hold_created',
   'hold_converted',
   'hold_expired',
+  'hold_promoted',
+  'hold_challenged',
+  'booking_moved',
+  'booking_resized',
+  'booking_split',
+  'booking_swapped',
+  'approval_requested',
+  'approval_granted',
+  'approval_rejected',
   'project_created',
   'project_updated',
   'artist_availability_changed'
@@ -70,6 +81,10 @@ export const artists = pgTable('artists', {
   skills: jsonb('skills').$type<string[]>(),
   hourlyRate: decimal('hourly_rate', { precision: 10, scale: 2 }),
   dailyRate: decimal('daily_rate', { precision: 10, scale: 2 }),
+  // Kill fees for cancelling this artist's confirmed bookings; replaces the tenant's policy
+  cancellationPolicy: jsonb('cancellation_policy').$type<{
+    tiers: Array<{ noticeHours: number; feePercent: number }>;
+  }>(),
   isActive: boolean('is_active').default(true),
   isFreelancer: boolean('is_freelancer').default(false),
   metadata: jsonb('metadata').$type<{
@@ -187,7 +202,7 @@ export const projects = pgTable('projects', {
   id: uuid('id').primaryKey().defaultRandom(),
   tenantId: uuid('tenant_id').references(() => tenants.id).notNull(),
   name: varchar('name', { length: 255 }).notNull(),
-  code: varchar('code', { length: 50 }).unique(),
+  code: varchar('code', { length: 50 }), // Unique within the tenant
   description: text('description'),
   status: projectStatusEnum('status').default('planning'),
   startDate: timestamp('start_date'),
@@ -202,12 +217,6 @@ export const projects = pgTable('projects', {
       endDate: string;
       dependencies?: string[];
     }>;
-    milestones?: Array<{
-      id: string;
-      name: string;
-      date: string;
-      completed: boolean;
-    }>;
     color?: string;
     priority?: 'low' | 'medium' | 'high' | 'critical';
   }>(),
@@ -215,27 +224,69 @@ export const projects = pgTable('projects', {
   updatedAt: timestamp('updated_at').defaultNow().notNull(),
 }, (table) => ({
   tenantIdx: index('projects_tenant_idx').on(table.tenantId),
+  tenantCodeIdx: uniqueIndex('projects_tenant_code_idx').on(table.tenantId, table.code),
   statusIdx: index('projects_status_idx').on(table.status),
   dateIdx: index('projects_date_idx').on(table.startDate, table.endDate),
 }));
 
+// Recurring booking series: an RFC 5545 RRULE plus the template each
+// generated occurrence (a row in bookings) is created from
+export const bookingSeries = pgTable('booking_series', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  tenantId: uuid('tenant_id').references(() => tenants.id).notNull(),
+  artistId: uuid('artist_id').references(() => artists.id).notNull(),
+  projectId: uuid('project_id').references(() => projects.id),
+  userId: uuid('user_id').references(() => users.id).notNull(),
+  rrule: text('rrule').notNull(), // RRULE value without DTSTART, e.g. FREQ=WEEKLY;BYDAY=MO,WE
+  dtstart: timestamp('dtstart', { withTimezone: true }).notNull(),
+  durationMinutes: integer('duration_minutes').notNull(),
+  exdates: jsonb('exdates').$type<string[]>().default([]).notNull(), // ISO timestamps of skipped occurrences
+  expandedUntil: timestamp('expanded_until', { withTimezone: true }).notNull(), // Occurrences exist up to here
+  timeZone: varchar('time_zone', { length: 64 }), // Occurrences keep their local time here; null expands in UTC
+  status: bookingStatusEnum('status').default('hold'),
+  holdType: holdTypeEnum('hold_type'),
+  title: varchar('title', { length: 255 }),
+  notes: text('notes'),
+  rate: decimal('rate', { precision: 10, scale: 2 }),
+  rateType: varchar('rate_type', { length: 20 }).$type<'hourly' | 'daily' | 'fixed'>(),
+  version: integer('version').default(1).notNull(),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+  createdBy: uuid('created_by').references(() => users.id),
+  updatedBy: uuid('updated_by').references(() => users.id),
+}, (table) => ({
+  tenantIdx: index('booking_series_tenant_idx').on(table.tenantId),
+  artistIdx: index('booking_series_artist_idx').on(table.artistId),
+}));
+
 // Enhanced bookings table with GIST constraint support
 export const bookings = pgTable('bookings', {
   id: uuid('id').primaryKey().defaultRandom(),
   tenantId: uuid('tenant_id').references(() => tenants.id).notNull(),
   artistId: uuid('artist_id').references(() => artists.id).notNull(),
   projectId: uuid('project_id').references(() => projects.id),
+  phaseId: uuid('phase_id').references(() => projectPhases.id, { onDelete: 'set null' }), // Phase of the project the work belongs to; moves with the phase when it is rescheduled
   userId: uuid('user_id').references(() => users.id).notNull(),
   startTime: timestamp('start_time', { withTimezone: true }).notNull(),
   endTime: timestamp('end_time', { withTimezone: true }).notNull(),
   status: bookingStatusEnum('status').default('hold'),
   holdType: holdTypeEnum('hold_type'),
   holdExpiresAt: timestamp('hold_expires_at', { withTimezone: true }),
+  holdRank: integer('hold_rank'), // 1 = first pencil; only set while status is hold/pencil
+  holdQueuedAt: timestamp('hold_queued_at', { withTimezone: true }), // Position in the hold line; reset when the hold moves
   title: varchar('title', { length: 255 }),
   notes: text('notes'),
   rate: decimal('rate', { precision: 10, scale: 2 }),
   rateType: varchar('rate_type', { length: 20 }).$type<'hourly' | 'daily' | 'fixed'>(),
   totalAmount: decimal('total_amount', { precision: 10, scale: 2 }),
+  rateOverridden: boolean('rate_overridden').default(false).notNull(), // Rate set by hand; repricing keeps it instead of the artist's rate
+  killFee: decimal('kill_fee', { precision: 10, scale: 2 }), // Owed for cancelling inside the notice window; null when nothing is owed
+  cancellationReason: text('cancellation_reason'),
+  cancelledAt: timestamp('cancelled_at', { withTimezone: true }),
+  licenses: jsonb('licenses').$type<string[]>(), // License pool keys the work needs; null follows the artist's type
+  seriesId: uuid('series_id').references(() => bookingSeries.id),
+  recurrenceId: timestamp('recurrence_id', { withTimezone: true }), // Occurrence start the series generated (RFC 5545 RECURRENCE-ID)
+  isRecurrenceException: boolean('is_recurrence_exception').default(false).notNull(), // Edited on its own; series edits leave it alone
   version: integer('version').default(1).notNull(), // For optimistic locking
   metadata: jsonb('metadata').$type<{
     color?: string;
@@ -245,6 +296,13 @@ export const bookings = pgTable('bookings', {
       pattern: string;
       until?: string;
     };
+    // Open first-refusal challenge against this hold
+    challenge?: {
+      challengerBookingId: string;
+      challengedBy: string;
+      challengedAt: string;
+      respondBy: string;
+    };
   }>(),
   createdAt: timestamp('created_at').defaultNow().notNull(),
   updatedAt: timestamp('updated_at').defaultNow().notNull(),
@@ -254,8 +312,11 @@ export const bookings = pgTable('bookings', {
   tenantTimeIdx: index('bookings_tenant_time_idx').on(table.tenantId, table.startTime, table.endTime),
   artistTimeIdx: index('bookings_artist_time_idx').on(table.artistId, table.startTime),
   projectIdx: index('bookings_project_idx').on(table.projectId),
+  phaseIdx: index('bookings_phase_idx').on(table.phaseId),
   statusIdx: index('bookings_status_idx').on(table.status),
   holdExpiryIdx: index('bookings_hold_expiry_idx').on(table.holdExpiresAt).where(sql`hold_expires_at IS NOT NULL`),
+  holdRankIdx: index('bookings_hold_rank_idx').on(table.artistId, table.holdRank).where(sql`hold_rank IS NOT NULL`),
+  seriesOccurrenceIdx: uniqueIndex('bookings_series_occurrence_idx').on(table.seriesId, table.recurrenceId),
   // Note: GIST exclusion constraint will be added via raw SQL migration
 }));
 
@@ -304,6 +365,192 @@ export const availabilityPatterns = pgTable('availability_patterns', {
   validityIdx: index('availability_patterns_validity_idx').on(table.validFrom, table.validUntil),
 }));
 
+// Time off: blocks an artist regardless of their availability patterns
+export const artistTimeOff = pgTable('artist_time_off', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  tenantId: uuid('tenant_id').references(() => tenants.id).notNull(),
+  artistId: uuid('artist_id').references(() => artists.id).notNull(),
+  startTime: timestamp('start_time', { withTimezone: true }).notNull(),
+  endTime: timestamp('end_time', { withTimezone: true }).notNull(),
+  reason: varchar('reason', { length: 255 }),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  createdBy: uuid('created_by').references(() => users.id),
+}, (table) => ({
+  artistTimeIdx: index('artist_time_off_artist_time_idx').on(table.artistId, table.startTime, table.endTime),
+}));
+
+// Calendars an artist keeps elsewhere (e.g. other studios' bookings),
+// synced from an ICS URL or file
+export const externalCalendars = pgTable('external_calendars', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  tenantId: uuid('tenant_id').references(() => tenants.id).notNull(),
+  artistId: uuid('artist_id').references(() => artists.id).notNull(),
+  name: varchar('name', { length: 255 }).notNull(),
+  sourceUrl: text('source_url'), // http(s)/webcal URL or file path; null for one-off uploads
+  syncStatus: varchar('sync_status', { length: 20 }).$type<'pending' | 'ok' | 'error'>().default('pending').notNull(),
+  lastSyncedAt: timestamp('last_synced_at', { withTimezone: true }),
+  lastError: text('last_error'),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+  createdBy: uuid('created_by').references(() => users.id),
+}, (table) => ({
+  artistIdx: index('external_calendars_artist_idx').on(table.artistId),
+  syncIdx: index('external_calendars_sync_idx').on(table.lastSyncedAt),
+}));
+
+// Read-only busy time imported from an external calendar. One row per
+// event, or per occurrence of a recurring event
+export const externalBusyBlocks = pgTable('external_busy_blocks', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  tenantId: uuid('tenant_id').references(() => tenants.id).notNull(),
+  calendarId: uuid('calendar_id').references(() => externalCalendars.id, { onDelete: 'cascade' }).notNull(),
+  artistId: uuid('artist_id').references(() => artists.id).notNull(),
+  uid: varchar('uid', { length: 512 }).notNull(), // iCalendar UID
+  instanceKey: varchar('instance_key', { length: 64 }).default('').notNull(), // Occurrence start for recurring events, '' otherwise
+  sequence: integer('sequence').default(0).notNull(),
+  summary: varchar('summary', { length: 255 }),
+  startTime: timestamp('start_time', { withTimezone: true }).notNull(),
+  endTime: timestamp('end_time', { withTimezone: true }).notNull(),
+  syncedAt: timestamp('synced_at', { withTimezone: true }).notNull(), // Rows a sync didn't touch are deleted
+}, (table) => ({
+  eventIdx: uniqueIndex('external_busy_blocks_event_idx').on(table.calendarId, table.uid, table.instanceKey),
+  artistTimeIdx: index('external_busy_blocks_artist_time_idx').on(table.artistId, table.startTime, table.endTime),
+}));
+
+// Tokenized iCalendar subscription feeds. Only a hash of the token is
+// stored; the feed URL is shown once, when the feed is created
+export const calendarFeeds = pgTable('calendar_feeds', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  tenantId: uuid('tenant_id').references(() => tenants.id).notNull(),
+  scope: varchar('scope', { length: 20 }).$type<'artist' | 'project' | 'tenant'>().notNull(),
+  artistId: uuid('artist_id').references(() => artists.id), // Set for artist feeds
+  projectId: uuid('project_id').references(() => projects.id), // Set for project feeds
+  name: varchar('name', { length: 255 }),
+  tokenHash: varchar('token_hash', { length: 64 }).notNull(), // SHA-256 of the URL token
+  statuses: jsonb('statuses').$type<Array<'hold' | 'pencil' | 'confirmed' | 'cancelled' | 'completed'>>().notNull(), // Booking statuses the feed includes
+  lastAccessedAt: timestamp('last_accessed_at', { withTimezone: true }),
+  revokedAt: timestamp('revoked_at', { withTimezone: true }),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+  createdBy: uuid('created_by').references(() => users.id),
+}, (table) => ({
+  tokenIdx: uniqueIndex('calendar_feeds_token_idx').on(table.tokenHash),
+  tenantIdx: index('calendar_feeds_tenant_idx').on(table.tenantId),
+}));
+
+// Requests to confirm a hold that exceeds the tenant's approval thresholds.
+// Approving one confirms the booking
+export const bookingApprovals = pgTable('booking_approvals', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  tenantId: uuid('tenant_id').references(() => tenants.id).notNull(),
+  bookingId: uuid('booking_id').references(() => bookings.id, { onDelete: 'cascade' }).notNull(),
+  bookingVersion: integer('booking_version').notNull(), // Version the request was made for; a changed booking needs a new request
+  status: varchar('status', { length: 20 }).$type<'pending' | 'approved' | 'rejected' | 'superseded'>().default('pending').notNull(),
+  reasons: jsonb('reasons').$type<Array<{ rule: 'amount' | 'duration'; limit: number; actual: number }>>().notNull(), // Thresholds the booking exceeded
+  note: text('note'),
+  comments: jsonb('comments').$type<Array<{ userId: string; body: string; createdAt: string }>>().default([]).notNull(),
+  requestedBy: uuid('requested_by').references(() => users.id).notNull(),
+  decidedBy: uuid('decided_by').references(() => users.id),
+  decidedAt: timestamp('decided_at', { withTimezone: true }),
+  decisionNote: text('decision_note'),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+}, (table) => ({
+  tenantStatusIdx: index('booking_approvals_tenant_status_idx').on(table.tenantId, table.status),
+  pendingIdx: uniqueIndex('booking_approvals_pending_idx').on(table.bookingId).where(sql`status = 'pending'`),
+}));
+
+// Reusable crew shapes ("1 lead lighter + 2 lighters for 3 weeks").
+// Applying one to a project proposes holds from the artists' availability
+export const bookingTemplates = pgTable('booking_templates', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  tenantId: uuid('tenant_id').references(() => tenants.id).notNull(),
+  name: varchar('name', { length: 255 }).notNull(),
+  description: text('description'),
+  roles: jsonb('roles').$type<Array<{
+    name?: string;
+    artistType: (typeof artistTypeEnum.enumValues)[number];
+    count: number;
+    durationDays?: number; // Exactly one of durationDays/durationHours
+    durationHours?: number;
+    startOffsetDays?: number; // From the start the template is applied at
+    skills?: string[];
+    rate?: string; // Overrides the artist's rate
+    rateType?: 'hourly' | 'daily' | 'fixed';
+  }>>().notNull(),
+  status: varchar('status', { length: 20 }).$type<'hold' | 'pencil'>().default('hold').notNull(), // Status of the holds it creates
+  holdType: holdTypeEnum('hold_type'),
+  holdExpiryDays: integer('hold_expiry_days'), // Holds expire this long after they are accepted
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+  createdBy: uuid('created_by').references(() => users.id),
+  updatedBy: uuid('updated_by').references(() => users.id),
+}, (table) => ({
+  tenantNameIdx: uniqueIndex('booking_templates_tenant_name_idx').on(table.tenantId, table.name),
+}));
+
+// Bookable things other than people: suites, workstations, license seats.
+// Capacity is how many reservations may overlap (1 for a room)
+export const resources = pgTable('resources', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  tenantId: uuid('tenant_id').references(() => tenants.id).notNull(),
+  name: varchar('name', { length: 255 }).notNull(),
+  type: resourceTypeEnum('type').notNull(),
+  capacity: integer('capacity').default(1).notNull(),
+  location: varchar('location', { length: 255 }),
+  description: text('description'),
+  isActive: boolean('is_active').default(true).notNull(),
+  metadata: jsonb('metadata').$type<Record<string, unknown>>(),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+  createdBy: uuid('created_by').references(() => users.id),
+  updatedBy: uuid('updated_by').references(() => users.id),
+}, (table) => ({
+  tenantTypeIdx: index('resources_tenant_type_idx').on(table.tenantId, table.type),
+  tenantNameIdx: uniqueIndex('resources_tenant_name_idx').on(table.tenantId, table.name),
+}));
+
+// A resource taken for a period, on its own or alongside an artist booking,
+// whose slot and status it then follows
+export const resourceBookings = pgTable('resource_bookings', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  tenantId: uuid('tenant_id').references(() => tenants.id).notNull(),
+  resourceId: uuid('resource_id').references(() => resources.id, { onDelete: 'cascade' }).notNull(),
+  bookingId: uuid('booking_id').references(() => bookings.id, { onDelete: 'cascade' }), // Artist booking it is attached to
+  startTime: timestamp('start_time', { withTimezone: true }).notNull(),
+  endTime: timestamp('end_time', { withTimezone: true }).notNull(),
+  quantity: integer('quantity').default(1).notNull(), // Units of capacity taken, e.g. license seats
+  status: varchar('status', { length: 20 }).$type<'reserved' | 'released'>().default('reserved').notNull(),
+  title: varchar('title', { length: 255 }),
+  notes: text('notes'),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+  createdBy: uuid('created_by').references(() => users.id),
+  updatedBy: uuid('updated_by').references(() => users.id),
+}, (table) => ({
+  resourceTimeIdx: index('resource_bookings_resource_time_idx').on(table.resourceId, table.startTime, table.endTime),
+  bookingIdx: index('resource_bookings_booking_idx').on(table.bookingId),
+  bookingResourceIdx: uniqueIndex('resource_bookings_booking_resource_idx').on(table.bookingId, table.resourceId),
+}));
+
+// Seats of a DCC or render license (Houdini, Nuke, Maya). Bookings that
+// run at the same time each take a seat; more than `seats` is flagged,
+// not refused
+export const licensePools = pgTable('license_pools', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  tenantId: uuid('tenant_id').references(() => tenants.id).notNull(),
+  key: varchar('key', { length: 64 }).notNull(), // What bookings list in `licenses`, e.g. "houdini"
+  name: varchar('name', { length: 255 }).notNull(),
+  seats: integer('seats').notNull(),
+  artistTypes: jsonb('artist_types').$type<Array<(typeof artistTypeEnum.enumValues)[number]>>().default([]).notNull(), // Bookings of these artists need a seat unless they list their own licenses
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+  createdBy: uuid('created_by').references(() => users.id),
+  updatedBy: uuid('updated_by').references(() => users.id),
+}, (table) => ({
+  tenantKeyIdx: uniqueIndex('license_pools_tenant_key_idx').on(table.tenantId, table.key),
+}));
+
 // Project phases for Gantt chart
 export const projectPhases = pgTable('project_phases', {
   id: uuid('id').primaryKey().defaultRandom(),
@@ -317,6 +564,7 @@ export const projectPhases = pgTable('project_phases', {
   parentId: uuid('parent_id'), // For nested phases
   orderIndex: integer('order_index').default(0),
   dependencies: jsonb('dependencies').$type<string[]>(), // Array of phase IDs
+  budget: decimal('budget', { precision: 10, scale: 2 }), // Share of the project budget set aside for the phase
   metadata: jsonb('metadata').$type<Record<string, any>>(),
   createdAt: timestamp('created_at').defaultNow().notNull(),
   updatedAt: timestamp('updated_at').defaultNow().notNull(),
@@ -326,6 +574,35 @@ export const projectPhases = pgTable('project_phases', {
   dateIdx: index('project_phases_date_idx').on(table.startDate, table.endDate),
 }));
 
+// Dated deliverables of a project, optionally tied to one of its phases.
+// Reminders and the overdue alert wait in notification_queue until due
+export const projectMilestones = pgTable('project_milestones', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  tenantId: uuid('tenant_id').references(() => tenants.id).notNull(),
+  projectId: uuid('project_id').references(() => projects.id).notNull(),
+  phaseId: uuid('phase_id').references(() => projectPhases.id, { onDelete: 'set null' }),
+  name: varchar('name', { length: 255 }).notNull(),
+  description: text('description'),
+  dueDate: timestamp('due_date').notNull(),
+  ownerId: uuid('owner_id').references(() => users.id), // Hears the reminders and alerts; the creator when unset
+  reminderDays: jsonb('reminder_days').$type<number[]>().default([3, 1]).notNull(), // Days before the due date to remind the owner
+  completedAt: timestamp('completed_at'),
+  completedBy: uuid('completed_by').references(() => users.id),
+  evidence: jsonb('evidence').$type<{
+    note?: string;
+    links?: string[];
+  }>(), // What shows the milestone was met, e.g. a delivery or sign-off link
+  atRiskSince: timestamp('at_risk_since'), // Set while its phase ends after the due date
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+  createdBy: uuid('created_by').references(() => users.id),
+  updatedBy: uuid('updated_by').references(() => users.id),
+}, (table) => ({
+  projectDueIdx: index('project_milestones_project_due_idx').on(table.projectId, table.dueDate),
+  phaseIdx: index('project_milestones_phase_idx').on(table.phaseId),
+  ownerIdx: index('project_milestones_owner_idx').on(table.ownerId),
+}));
+
 // Cache invalidation tracking
 export const cacheInvalidation = pgTable('cache_invalidation', {
   id: uuid('id').primaryKey().defaultRandom(),
@@ -463,7 +740,7 @@ export const notificationQueue = pgTable('notification_queue', {
   userId: uuid('user_id').references(() => users.id).notNull(),
   type: varchar('type', { length: 50 }).notNull(),
   channel: varchar('channel', { length: 20 }).notNull(), // email, push, in-app
-  status: varchar('status', { length: 20 }).default('pending'), // pending, sent, failed
+  status: varchar('status', { length: 20 }).default('pending'), // pending, sent, failed, cancelled
   payload: jsonb('payload').notNull(),
   scheduledFor: timestamp('scheduled_for').defaultNow().notNull(),
   sentAt: timestamp('sent_at'),
@@ -538,12 +815,34 @@ export const insertProjectSchema = createInsertSchema(projects);
 export const selectProjectSchema = createSelectSchema(projects);
 export const insertBookingSchema = createInsertSchema(bookings);
 export const selectBookingSchema = createSelectSchema(bookings);
+export const insertBookingSeriesSchema = createInsertSchema(bookingSeries);
+export const selectBookingSeriesSchema = createSelectSchema(bookingSeries);
 export const insertBookingEventSchema = createInsertSchema(bookingEvents);
 export const selectBookingEventSchema = createSelectSchema(bookingEvents);
 export const insertAvailabilityPatternSchema = createInsertSchema(availabilityPatterns);
 export const selectAvailabilityPatternSchema = createSelectSchema(availabilityPatterns);
+export const insertArtistTimeOffSchema = createInsertSchema(artistTimeOff);
+export const selectArtistTimeOffSchema = createSelectSchema(artistTimeOff);
+export const insertExternalCalendarSchema = createInsertSchema(externalCalendars);
+export const selectExternalCalendarSchema = createSelectSchema(externalCalendars);
+export const insertExternalBusyBlockSchema = createInsertSchema(externalBusyBlocks);
+export const selectExternalBusyBlockSchema = createSelectSchema(externalBusyBlocks);
+export const insertCalendarFeedSchema = createInsertSchema(calendarFeeds);
+export const selectCalendarFeedSchema = createSelectSchema(calendarFeeds);
+export const insertBookingApprovalSchema = createInsertSchema(bookingApprovals);
+export const selectBookingApprovalSchema = createSelectSchema(bookingApprovals);
+export const insertBookingTemplateSchema = createInsertSchema(bookingTemplates);
+export const selectBookingTemplateSchema = createSelectSchema(bookingTemplates);
+export const insertResourceSchema = createInsertSchema(resources);
+export const selectResourceSchema = createSelectSchema(resources);
+export const insertResourceBookingSchema = createInsertSchema(resourceBookings);
+export const selectResourceBookingSchema = createSelectSchema(resourceBookings);
+export const insertLicensePoolSchema = createInsertSchema(licensePools);
+export const selectLicensePoolSchema = createSelectSchema(licensePools);
 export const insertProjectPhaseSchema = createInsertSchema(projectPhases);
 export const selectProjectPhaseSchema = createSelectSchema(projectPhases);
+export const insertProjectMilestoneSchema = createInsertSchema(projectMilestones);
+export const selectProjectMilestoneSchema = createSelectSchema(projectMilestones);
 export const insertArtistProfileSchema = createInsertSchema(artistProfiles);
 export const selectArtistProfileSchema = createSelectSchema(artistProfiles);
 export const insertJobListingSchema = createInsertSchema(jobListings);
@@ -563,9 +862,20 @@ export type User = z.infer<typeof selectUserSchema>;
 export type Artist = z.infer<typeof selectArtistSchema>;
 export type Project = z.infer<typeof selectProjectSchema>;
 export type Booking = z.infer<typeof selectBookingSchema>;
+export type BookingSeries = z.infer<typeof selectBookingSeriesSchema>;
 export type BookingEvent = z.infer<typeof selectBookingEventSchema>;
 export type AvailabilityPattern = z.infer<typeof selectAvailabilityPatternSchema>;
+export type ArtistTimeOff = z.infer<typeof selectArtistTimeOffSchema>;
+export type ExternalCalendar = z.infer<typeof selectExternalCalendarSchema>;
+export type ExternalBusyBlock = z.infer<typeof selectExternalBusyBlockSchema>;
+export type CalendarFeed = z.infer<typeof selectCalendarFeedSchema>;
+export type BookingApproval = z.infer<typeof selectBookingApprovalSchema>;
+export type BookingTemplate = z.infer<typeof selectBookingTemplateSchema>;
+export type Resource = z.infer<typeof selectResourceSchema>;
+export type ResourceBooking = z.infer<typeof selectResourceBookingSchema>;
+export type LicensePool = z.infer<typeof selectLicensePoolSchema>;
 export type ProjectPhase = z.infer<typeof selectProjectPhaseSchema>;
+export type ProjectMilestone = z.infer<typeof selectProjectMilestoneSchema>;
 
 // Create types
 export type CreateTenant = z.infer<typeof insertTenantSchema>;
@@ -573,9 +883,20 @@ export type CreateUser = z.infer<typeof insertUserSchema>;
 export type CreateArtist = z.infer<typeof insertArtistSchema>;
 export type CreateProject = z.infer<typeof insertProjectSchema>;
 export type CreateBooking = z.infer<typeof insertBookingSchema>;
+export type CreateBookingSeries = z.infer<typeof insertBookingSeriesSchema>;
 export type CreateBookingEvent = z.infer<typeof insertBookingEventSchema>;
 export type CreateAvailabilityPattern = z.infer<typeof insertAvailabilityPatternSchema>;
+export type CreateArtistTimeOff = z.infer<typeof insertArtistTimeOffSchema>;
+export type CreateExternalCalendar = z.infer<typeof insertExternalCalendarSchema>;
+export type CreateExternalBusyBlock = z.infer<typeof insertExternalBusyBlockSchema>;
+export type CreateCalendarFeed = z.infer<typeof insertCalendarFeedSchema>;
+export type CreateBookingApproval = z.infer<typeof insertBookingApprovalSchema>;
+export type CreateBookingTemplate = z.infer<typeof insertBookingTemplateSchema>;
+export type CreateResource = z.infer<typeof insertResourceSchema>;
+export type CreateResourceBooking = z.infer<typeof insertResourceBookingSchema>;
+export type CreateLicensePool = z.infer<typeof insertLicensePoolSchema>;
 export type CreateProjectPhase = z.infer<typeof insertProjectPhaseSchema>;
+export type CreateProjectMilestone = z.infer<typeof insertProjectMilestoneSchema>;
 export type ArtistProfile = z.infer<typeof selectArtistProfileSchema>;
 export type CreateArtistProfile = z.infer<typeof insertArtistProfileSchema>;
 export type JobListing = z.infer<typeof selectJobListingSchema>;
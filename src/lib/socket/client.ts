@@ -1,5 +1,5 @@
 import { io, Socket } from 'socket.io-client';
-import { type Booking, type Resource } from '@/lib/db/schema';
+import { type Booking, type ResourceBooking } from '@/lib/db/schema';
 
 class SocketClient {
   private socket: Socket | null = null;
@@ -54,7 +54,8 @@ class SocketClient {
   }
 
   // Resource events
-  onResourceUpdated(callback: (data: { resourceId: string; availability: any }) => void) {
+  // Reservations of the resource that were made, moved or released
+  onResourceUpdated(callback: (data: { resourceId: string; reservations: ResourceBooking[] }) => void) {
     this.socket?.on('resource:updated', callback);
   }
 